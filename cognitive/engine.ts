@@ -27,7 +27,7 @@ import type {
 // CONFIGURACIÓN POR DEFECTO
 // ============================================
 
-const DEFAULT_CONFIG: CognitiveEngineConfig = {
+export const DEFAULT_CONFIG: CognitiveEngineConfig = {
   analysisFrequency: 5, // 5 Hz (5 veces por segundo)
   shortTermWindow: 10, // 10 segundos
   longTermWindow: 60, // 60 segundos
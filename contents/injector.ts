@@ -5,6 +5,7 @@ import type { PlasmoCSConfig } from "plasmo";
 import { createRoot, type Root } from "react-dom/client";
 import React from "react";
 import Aura from "~components/Aura";
+import { PORT_NAMES, subscribePort } from "~lib/messaging/ports";
 
 export const config: PlasmoCSConfig = {
   matches: ["<all_urls>"],
@@ -72,10 +73,10 @@ const toggleBlueLightFilter = (active: boolean) => {
   }
 };
 
-// Escuchar mensajes del background script
-chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-  if (request.type === "STATE_UPDATED" && request.state) {
-    const { focusScore, stressLevel, fatigueLevel, distractionLevel } = request.state;
+// Suscripción al estado que publica el background
+subscribePort(PORT_NAMES.state, (message) => {
+  if (message.type === "STATE_UPDATED") {
+    const { focusScore, stressLevel, fatigueLevel, distractionLevel } = message.state;
     console.log(`[SYNAPSE UI] Focus: ${focusScore}, Estrés: ${stressLevel}, Fatiga: ${fatigueLevel}, Distracción: ${distractionLevel}`);
 
     const body = document.body;
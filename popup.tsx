@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import CameraFeed from './src/components/CameraFeed';
 import type { DetectionData } from './src/components/CameraFeed';
+import { sendEvent } from './src/lib/messaging/request';
 const Popup = () => {
   const [data, setData] = useState<DetectionData | null>(null);
 
@@ -9,8 +10,7 @@ const Popup = () => {
     const emotion = Object.keys(detectedData.expressions).reduce((a, b) => detectedData.expressions[a] > detectedData.expressions[b] ? a : b);
 
     // ENVIAR DATOS AL BACKGROUND SCRIPT
-    chrome.runtime.sendMessage({
-        type: "UPDATE_FOCUS_DATA",
+    sendEvent("UPDATE_FOCUS_DATA", {
         data: {
             ...detectedData,
             emotion: emotion,
@@ -0,0 +1,69 @@
+/**
+ * Evalúa la atención visual de una grabación etiquetada (modo etiquetado del side panel).
+ *
+ *   npm run evaluate -- grabacion.jsonl [--pipeline id] [--rules reglas.json] [--profile perfil.json] [--json]
+ *
+ * `--rules` es un JSON parcial de ATTENTION_RULES, p. ej. {"sideYawDeg": 20, "holdToDistractedMs": 700}.
+ * `--profile` es un perfil de ajuste generado por `npm run tune`; `--rules` se aplica encima.
+ */
+
+import { readFileSync } from "node:fs"
+import { ATTENTION_RULES, type AttentionRules } from "~lib/cognitivethresholds"
+import { isPipelineId } from "~lib/pipeline/registry"
+import { evaluateAttention, formatEvaluationReport } from "~lib/replay/evaluation"
+import { RecordingParseError, parseRecording } from "~lib/replay/format"
+import { parseTuningProfile, profilePipelineOptions, profileSmoothingConfig, type TuningProfile } from "~lib/tuning/profile"
+
+const USAGE =
+  "Uso: npm run evaluate -- <grabacion.jsonl> [--pipeline id] [--rules reglas.json] [--profile perfil.json] [--json]"
+
+const parseArgs = (argv: string[]) => {
+  const args: { file?: string; pipeline?: string; rules?: string; profile?: string; json: boolean } = { json: false }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === "--pipeline") args.pipeline = argv[++i]
+    else if (arg === "--rules") args.rules = argv[++i]
+    else if (arg === "--profile") args.profile = argv[++i]
+    else if (arg === "--json") args.json = true
+    else if (!args.file) args.file = arg
+    else throw new Error(`Argumento inesperado: ${arg}`)
+  }
+  return args
+}
+
+const loadRules = (file: string): Partial<AttentionRules> => {
+  const raw = JSON.parse(readFileSync(file, "utf8")) as Record<string, unknown>
+  const rules: Partial<AttentionRules> = {}
+  Object.entries(raw).forEach(([key, value]) => {
+    if (!(key in ATTENTION_RULES)) throw new Error(`Regla desconocida: ${key}`)
+    if (typeof value !== "number" || !Number.isFinite(value)) throw new Error(`La regla ${key} debe ser numérica`)
+    rules[key as keyof AttentionRules] = value
+  })
+  return rules
+}
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2))
+  if (!args.file) throw new Error(USAGE)
+  if (args.pipeline && !isPipelineId(args.pipeline)) throw new Error(`Pipeline desconocido: ${args.pipeline}`)
+
+  const recording = parseRecording(readFileSync(args.file, "utf8"))
+  const profile: TuningProfile | null = args.profile ? parseTuningProfile(readFileSync(args.profile, "utf8")) : null
+  const overrides = profilePipelineOptions(profile)
+  const report = evaluateAttention(recording, {
+    ...overrides,
+    pipelineId: isPipelineId(args.pipeline) ? args.pipeline : undefined,
+    smoothing: profileSmoothingConfig(profile),
+    attentionRules: { ...overrides.attentionRules, ...(args.rules ? loadRules(args.rules) : {}) }
+  })
+  if (report.labeledFrames === 0) console.error("[evaluate] La grabación no tiene tramos etiquetados")
+
+  process.stdout.write(args.json ? JSON.stringify(report, null, 2) + "\n" : formatEvaluationReport(report))
+}
+
+try {
+  main()
+} catch (err) {
+  console.error(err instanceof RecordingParseError ? `[evaluate] Grabación inválida. ${err.message}` : `[evaluate] ${String(err instanceof Error ? err.message : err)}`)
+  process.exit(1)
+}
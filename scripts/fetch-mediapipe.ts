@@ -0,0 +1,72 @@
+/**
+ * Deja el proveedor MediaPipe listo para empaquetar en la extensión (sin CDN).
+ *
+ *   npm run models:mediapipe [-- --force]
+ *
+ * Copia el wasm de @mediapipe/tasks-vision a assets/models/mediapipe/wasm y
+ * descarga face_landmarker.task a assets/models/mediapipe/. Sin `--force` no
+ * vuelve a bajar el modelo si ya está. Al final compara los archivos con el
+ * manifiesto de modelos (lib/vision/modelManifest) y falla si alguno no
+ * coincide: la extensión no cargaría ese MediaPipe de todas formas. De los
+ * archivos que el manifiesto no fija imprime tamaño y sha256 para agregarlos.
+ */
+
+import { createHash } from "node:crypto"
+import { copyFileSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { MODEL_MANIFEST } from "~lib/vision/modelManifest"
+
+const MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task"
+const WASM_SOURCE = join("node_modules", "@mediapipe", "tasks-vision", "wasm")
+const MODELS_DIR = join("assets", "models")
+const TARGET = join(MODELS_DIR, "mediapipe")
+
+// true si todo coincide; los archivos sin hash en el manifiesto imprimen el suyo para agregarlo
+const verifyAgainstManifest = () => {
+  let ok = true
+  for (const file of MODEL_MANIFEST.mediapipe.files) {
+    const path = join(MODELS_DIR, file.path)
+    if (!existsSync(path)) {
+      console.error(`[models] Falta ${path}`)
+      ok = false
+      continue
+    }
+    const buffer = readFileSync(path)
+    const sha256 = createHash("sha256").update(buffer).digest("hex")
+    if (!file.sha256 || file.size === undefined) {
+      console.error(`[models] ${file.path} sin hash en el manifiesto: size ${buffer.length}, sha256 "${sha256}"`)
+    } else if (file.sha256 !== sha256 || file.size !== buffer.length) {
+      console.error(`[models] ${file.path} no coincide con el manifiesto: size ${buffer.length}, sha256 "${sha256}" (¿otra versión?)`)
+      ok = false
+    }
+  }
+  return ok
+}
+
+const main = async () => {
+  const force = process.argv.includes("--force")
+  if (!existsSync(WASM_SOURCE)) throw new Error("Falta @mediapipe/tasks-vision: corre `npm install` primero")
+
+  mkdirSync(join(TARGET, "wasm"), { recursive: true })
+  const wasmFiles = readdirSync(WASM_SOURCE)
+  wasmFiles.forEach((file) => copyFileSync(join(WASM_SOURCE, file), join(TARGET, "wasm", file)))
+  console.error(`[models] ${wasmFiles.length} archivos wasm copiados a ${join(TARGET, "wasm")}`)
+
+  const modelPath = join(TARGET, "face_landmarker.task")
+  if (existsSync(modelPath) && !force) {
+    console.error(`[models] ${modelPath} ya existe (usa --force para volver a bajarlo)`)
+  } else {
+    const response = await fetch(MODEL_URL)
+    if (!response.ok) throw new Error(`No se pudo descargar el modelo (${response.status})`)
+    writeFileSync(modelPath, Buffer.from(await response.arrayBuffer()))
+    console.error(`[models] Modelo guardado en ${modelPath}`)
+  }
+
+  if (!verifyAgainstManifest()) throw new Error("Los archivos no coinciden con lib/vision/modelManifest.ts")
+}
+
+main().catch((err) => {
+  console.error(`[models] ${String(err instanceof Error ? err.message : err)}`)
+  process.exit(1)
+})
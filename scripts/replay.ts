@@ -0,0 +1,56 @@
+/**
+ * Reproduce una grabación JSONL de DetectionData sin cámara.
+ *
+ *   npm run replay -- grabacion.jsonl [--pipeline thresholds|engine|legacy] [--format json|csv] [--out archivo]
+ *
+ * Escribe el timeline (métricas crudas y suavizadas, estado, atención y
+ * alertas por frame) en stdout o en --out, y un resumen en stderr.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs"
+import { RecordingParseError, parseRecording } from "~lib/replay/format"
+import { runReplay, timelineToCsv } from "~lib/replay/runner"
+import { isPipelineId } from "~lib/pipeline/registry"
+
+const USAGE = "Uso: npm run replay -- <grabacion.jsonl> [--pipeline id] [--format json|csv] [--out archivo]"
+
+const parseArgs = (argv: string[]) => {
+  const args: { file?: string; pipeline?: string; format: string; out?: string } = { format: "json" }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === "--pipeline") args.pipeline = argv[++i]
+    else if (arg === "--format") args.format = argv[++i]
+    else if (arg === "--out") args.out = argv[++i]
+    else if (!args.file) args.file = arg
+    else throw new Error(`Argumento inesperado: ${arg}`)
+  }
+  return args
+}
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2))
+  if (!args.file) throw new Error(USAGE)
+  if (args.pipeline && !isPipelineId(args.pipeline)) throw new Error(`Pipeline desconocido: ${args.pipeline}`)
+  if (args.format !== "json" && args.format !== "csv") throw new Error(`Formato desconocido: ${args.format}`)
+
+  const recording = parseRecording(readFileSync(args.file, "utf8"))
+  const result = runReplay(recording, { pipelineId: isPipelineId(args.pipeline) ? args.pipeline : undefined })
+
+  const output = args.format === "csv" ? timelineToCsv(result.timeline) : JSON.stringify(result, null, 2) + "\n"
+  if (args.out) writeFileSync(args.out, output)
+  else process.stdout.write(output)
+
+  const alerts = result.alertEvents.map((e) => `${e.alert}@${e.startMs}ms`).join(", ") || "ninguna"
+  console.error(
+    `[replay] ${result.frames} frames, ${(result.durationMs / 1000).toFixed(1)}s, pipeline=${result.pipelineId}, ` +
+      `media foco=${result.summary.meanSmoothed.focus} estrés=${result.summary.meanSmoothed.stress} ` +
+      `fatiga=${result.summary.meanSmoothed.fatigue}, alertas: ${alerts}`
+  )
+}
+
+try {
+  main()
+} catch (err) {
+  console.error(err instanceof RecordingParseError ? `[replay] Grabación inválida. ${err.message}` : `[replay] ${String(err instanceof Error ? err.message : err)}`)
+  process.exit(1)
+}
@@ -0,0 +1,76 @@
+/**
+ * Ajusta los umbrales de atención, cabeza, zonas de mirada y smoother a partir
+ * de grabaciones etiquetadas (modo etiquetado del side panel).
+ *
+ *   npm run tune -- a.jsonl [b.jsonl ...] [--pipeline id] [--passes n] [--from perfil.json] [--out perfil.json]
+ *
+ * Escribe el perfil de ajuste (JSON) en stdout o en --out; se importa desde
+ * Ajustes → "Perfil de ajuste" o se evalúa con `npm run evaluate -- --profile`.
+ * El progreso va a stderr.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs"
+import { isPipelineId } from "~lib/pipeline/registry"
+import { RecordingParseError, parseRecording } from "~lib/replay/format"
+import { TuningProfileError, parseTuningProfile } from "~lib/tuning/profile"
+import { tuneThresholds } from "~lib/tuning/tuner"
+
+const USAGE =
+  "Uso: npm run tune -- <grabacion.jsonl> [más.jsonl ...] [--pipeline id] [--passes n] [--from perfil.json] [--out perfil.json]"
+
+const parseArgs = (argv: string[]) => {
+  const args: { files: string[]; pipeline?: string; passes?: number; from?: string; out?: string } = { files: [] }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === "--pipeline") args.pipeline = argv[++i]
+    else if (arg === "--passes") args.passes = Number(argv[++i])
+    else if (arg === "--from") args.from = argv[++i]
+    else if (arg === "--out") args.out = argv[++i]
+    else if (arg.startsWith("--")) throw new Error(`Argumento inesperado: ${arg}`)
+    else args.files.push(arg)
+  }
+  return args
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2))
+  if (args.files.length === 0) throw new Error(USAGE)
+  if (args.pipeline && !isPipelineId(args.pipeline)) throw new Error(`Pipeline desconocido: ${args.pipeline}`)
+  if (args.passes !== undefined && !(args.passes >= 1)) throw new Error("--passes debe ser un entero >= 1")
+
+  const recordings = args.files.map((file) => {
+    try {
+      return parseRecording(readFileSync(file, "utf8"))
+    } catch (err) {
+      if (err instanceof RecordingParseError) throw new Error(`Grabación inválida (${file}). ${err.message}`)
+      throw err
+    }
+  })
+
+  const result = tuneThresholds(recordings, {
+    pipelineId: isPipelineId(args.pipeline) ? args.pipeline : undefined,
+    passes: args.passes,
+    initial: args.from ? parseTuningProfile(readFileSync(args.from, "utf8")) : undefined,
+    onProgress: (message) => console.error(`[tune] ${message}`)
+  })
+
+  const output = JSON.stringify(result.profile, null, 2) + "\n"
+  if (args.out) writeFileSync(args.out, output)
+  else process.stdout.write(output)
+
+  console.error(
+    `[tune] ${result.evaluations} evaluaciones, ${result.changes.length} cambios. ` +
+      `Accuracy ${pct(result.before.accuracy)} → ${pct(result.after.accuracy)}, ` +
+      `foco coherente ${pct(result.before.focusAgreement)} → ${pct(result.after.focusAgreement)}`
+  )
+}
+
+try {
+  main()
+} catch (err) {
+  const prefix = err instanceof TuningProfileError ? "Perfil inválido. " : ""
+  console.error(`[tune] ${prefix}${String(err instanceof Error ? err.message : err)}`)
+  process.exit(1)
+}
@@ -1,11 +1,139 @@
-chrome.runtime.onMessage.addListener((msg, _sender, _sendResponse) => {
-  if (msg.type === "WARM_FILTER") {
-    chrome.tabs.query({}, (tabs) => {
-      for (const tab of tabs) {
-        if (tab.id) {
-          chrome.tabs.sendMessage(tab.id, msg).catch(() => {})
-        }
-      }
-    })
+import { isAuthStorageKey, readAuthItems, watchAuthItems, writeAuthItem } from "~lib/authRelay"
+import { readCheckpoint, writeCheckpoint } from "~lib/checkpointStore"
+import { OFFSCREEN_DOCUMENT_PATH } from "~lib/monitor/protocol"
+import { PORT_NAMES, createPortHub } from "~lib/messaging/ports"
+import { listenForMessages, sendEvent } from "~lib/messaging/request"
+import { createMessage, normalizeFocusState, type FocusState } from "~lib/messaging/schema"
+import { loadSettings, saveSettings, watchSettings } from "~lib/settings"
+import { loadTuningProfile, watchTuningProfile } from "~lib/tuning/storage"
+
+// El documento offscreen mantiene cámara + sesión vivas aunque el side panel se cierre
+let creatingOffscreen: Promise<void> | null = null
+
+const ensureOffscreenDocument = async () => {
+  const offscreenUrl = chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH)
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [offscreenUrl]
+  })
+  if (contexts.length > 0) return
+
+  if (!creatingOffscreen) {
+    creatingOffscreen = chrome.offscreen
+      .createDocument({
+        url: OFFSCREEN_DOCUMENT_PATH,
+        reasons: [chrome.offscreen.Reason.USER_MEDIA],
+        justification: "Analisis de la camara para monitorear foco, estres y fatiga en segundo plano"
+      })
+      .finally(() => {
+        creatingOffscreen = null
+      })
+  }
+  await creatingOffscreen
+}
+
+chrome.runtime.onStartup.addListener(() => {
+  void ensureOffscreenDocument().catch((err) => console.error("[SYNAPSE] Error creando offscreen:", err))
+})
+
+chrome.runtime.onInstalled.addListener(() => {
+  void ensureOffscreenDocument().catch((err) => console.error("[SYNAPSE] Error creando offscreen:", err))
+})
+
+// chrome.idle exige un intervalo aunque "locked" no dependa de él
+const IDLE_DETECTION_SECONDS = 60
+
+const isScreenLocked = () =>
+  new Promise<boolean>((resolve) => {
+    chrome.idle.queryState(IDLE_DETECTION_SECONDS, (state) => resolve(state === "locked"))
+  })
+
+// El offscreen no tiene chrome.storage: el service worker le pasa lo guardado y
+// le empuja cada cambio (token de Supabase, settings, perfil de ajuste). También
+// le avisa si se bloquea la pantalla, que es lo más parecido a "página oculta" allí
+watchAuthItems((auth) => sendEvent("OFFSCREEN_STATE", { state: { auth } }))
+watchSettings((settings) => sendEvent("OFFSCREEN_STATE", { state: { settings } }))
+watchTuningProfile((tuningProfile) => sendEvent("OFFSCREEN_STATE", { state: { tuningProfile } }))
+chrome.idle.setDetectionInterval(IDLE_DETECTION_SECONDS)
+chrome.idle.onStateChanged.addListener((state) => {
+  sendEvent("OFFSCREEN_STATE", { state: { screenLocked: state === "locked" } })
+})
+
+// Token y checkpoints solo para el documento offscreen (los content scripts también llegan aquí)
+const assertOffscreen = (sender: chrome.runtime.MessageSender) => {
+  if (sender.id !== chrome.runtime.id || sender.url !== chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH)) {
+    throw new Error(`Remitente no autorizado: ${sender.url ?? "desconocido"}`)
+  }
+}
+
+// Último estado conocido; se pierde si el service worker duerme y se rellena con el siguiente update
+let focusState: FocusState | null = null
+let warmFilterEnabled = false
+
+// Content scripts (aura, filtro cálido) suscritos por puerto
+const stateHub = createPortHub(PORT_NAMES.state, {
+  onSubscribe: (port) => {
+    if (focusState) port.postMessage(createMessage("STATE_UPDATED", { state: focusState }))
+    if (warmFilterEnabled) port.postMessage(createMessage("WARM_FILTER", { enabled: true }))
+  }
+})
+
+listenForMessages({
+  MONITOR_ENSURE: async () => {
+    try {
+      await ensureOffscreenDocument()
+      return { ok: true }
+    } catch (err) {
+      console.error("[SYNAPSE] Error creando offscreen:", err)
+      return { ok: false }
+    }
+  },
+
+  // El monitor ya manda las métricas calculadas; aquí solo se normalizan y reparten
+  UPDATE_FOCUS_DATA: ({ data }) => {
+    focusState = normalizeFocusState(data)
+    stateHub.broadcast(createMessage("STATE_UPDATED", { state: focusState }))
+    return { status: "ok", state: focusState }
+  },
+
+  GET_FOCUS_STATE: () => ({ state: normalizeFocusState(focusState) }),
+
+  OFFSCREEN_SYNC: async (_, sender) => {
+    assertOffscreen(sender)
+    const [auth, settings, tuningProfile, screenLocked] = await Promise.all([
+      readAuthItems(),
+      loadSettings(),
+      loadTuningProfile(),
+      isScreenLocked()
+    ])
+    return { auth, settings, tuningProfile, screenLocked }
+  },
+
+  AUTH_STORAGE_WRITE: async ({ key, value }, sender) => {
+    assertOffscreen(sender)
+    if (!isAuthStorageKey(key)) return { ok: false }
+    await writeAuthItem(key, value)
+    return { ok: true }
+  },
+
+  SETTINGS_SAVE: async ({ patch }, sender) => {
+    assertOffscreen(sender)
+    return { settings: await saveSettings(patch) }
+  },
+
+  CHECKPOINT_READ: async (_, sender) => {
+    assertOffscreen(sender)
+    return { checkpoint: await readCheckpoint() }
+  },
+
+  CHECKPOINT_WRITE: async ({ checkpoint }, sender) => {
+    assertOffscreen(sender)
+    await writeCheckpoint(checkpoint)
+    return { ok: true }
+  },
+
+  WARM_FILTER: ({ enabled }) => {
+    warmFilterEnabled = enabled
+    stateHub.broadcast(createMessage("WARM_FILTER", { enabled }))
   }
 })
@@ -1,13 +1,11 @@
 import CameraFeed from "./components/CameraFeed"
 import type { DetectionData } from "./components/CameraFeed"
+import { sendEvent } from "./lib/messaging/request"
 
 export default function CameraPage() {
   const handleDetection = (data: DetectionData) => {
     // 🔁 Enviar datos al background / popup
-    chrome.runtime.sendMessage({
-      type: "UPDATE_FOCUS_DATA",
-      data
-    })
+    sendEvent("UPDATE_FOCUS_DATA", { data: { ...data } })
   }
 
   return <CameraFeed onDetection={handleDetection} />
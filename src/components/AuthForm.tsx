@@ -10,7 +10,7 @@ import { Mail, Lock, Eye, EyeOff, Brain, AlertCircle, CheckCircle } from 'lucide
 import { signIn, signUp } from '../lib/supabase';
 
 interface AuthFormProps {
-  onAuthSuccess: () => void;
+  onAuthSuccess?: () => void;
 }
 
 type AuthMode = 'login' | 'register';
@@ -115,7 +115,7 @@ const AuthForm: React.FC<AuthFormProps> = ({ onAuthSuccess }) => {
       } else {
         setStatus('success');
         setTimeout(() => {
-          onAuthSuccess();
+          onAuthSuccess?.();
         }, 1000);
       }
     } catch (err) {
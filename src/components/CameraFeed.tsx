@@ -1,9 +1,17 @@
 // src/components/CameraFeed.tsx
 import React, { useEffect, useRef, useState } from "react"
-import type * as FaceApi from "@vladmandic/face-api"
-import { installModelFetchPatch } from "~lib/installModelFetchPatch"
-import { createFaceStabilizers, normalizeExpressions, type ExpressionMap, type EyeState } from "~lib/vision/faceStabilizers"
-import { loadPhoneDetector, detectPhone } from "~lib/vision/phoneDetector"
+import type { ExpressionMap, EyeState, FatigueEvent } from "~lib/vision/faceStabilizers"
+import { createDetectionGovernor, type DetectionGovernor } from "~lib/vision/detectionGovernor"
+import type { GazeFeatures } from "~lib/vision/gazeMapping"
+import { createInferenceClient, type FaceOverlay, type InferenceClient, type InferenceResult } from "~lib/vision/inferenceClient"
+import { buildVideoConstraints, type CaptureConstraints } from "~lib/cameraSettings"
+import type { CameraDevice, CameraStatus } from "~lib/monitor/protocol"
+import { DISTRACTION_OBJECT_IDS, type DetectedObject, type DistractionObjectId } from "~lib/vision/distractionObjects"
+import { DEFAULT_EYE_PROFILE_ID, type EyeProfileId } from "~lib/vision/eyeProfiles"
+import type { ModelStatus } from "~lib/vision/modelRegistry"
+import { DEFAULT_VISION_PROVIDER_ID } from "~lib/vision/providers/registry"
+import type { VisionProviderId } from "~lib/vision/providers/types"
+import type { FacialLandmarks } from "../../cognitive/types"
 
 // Datos que se envían al Dashboard
 export interface DetectionQuality {
@@ -12,21 +20,37 @@ export interface DetectionQuality {
   faceScore: number
   areaRatio: number
   centeredness: number
+  // Luminancia media del frame (0..1); sirve para detectar cambios de iluminación
+  brightness?: number
 }
 
 export interface DetectionData {
   expressions: ExpressionMap
   gazeX: number
   gazeY: number
+  // Grados desde el ajuste PnP del modelo 3D de cara (headPoseEstimation)
   headPose: {
     yaw: number
     pitch: number
     roll: number
+    // 0..1 según el error de reproyección; ausente en grabaciones anteriores
+    confidence?: number
   }
   blinkRate: number
   eyeState: EyeState
+  // Parpadeos lentos, microsueños y muestras de PERCLOS ocurridos desde el frame anterior
+  fatigueEvents?: FatigueEvent[]
+  // Rasgos de ojos para el modelo de mirada calibrado
+  gazeFeatures?: GazeFeatures
   quality?: DetectionQuality
+  // Celular confirmado en cuadro (esté en uso o apoyado)
   phoneInFrame?: boolean
+  // Con celular en cuadro: si está en la mano/junto a la cara (phoneUsage); solo entonces penaliza
+  phoneInUse?: boolean
+  // Objetos confirmados por votación (celular, taza, otra persona...) con su tiempo a la vista
+  objects?: DetectedObject[]
+  // Malla completa (solo con MediaPipe) para los analizadores de cognitive/; no se persiste
+  faceMesh?: FacialLandmarks
 }
 
 interface CameraFeedProps {
@@ -36,46 +60,77 @@ interface CameraFeedProps {
   preview?: boolean
   previewWidth?: number
   previewHeight?: number
-}
 
-const DETECTION_INTERVAL_MS = 200
-const PHONE_DETECTION_INTERVAL_MS = 2000
-const TINY_INPUT_SIZE = 320
-const MIN_FACE_SCORE = 0.45
-const MIN_FACE_AREA = 0.03
-const MAX_FACE_AREA = 0.6
-const IDEAL_FACE_AREA = 0.12
+  // Estado de modelos/cámara para quien no ve el componente (documento offscreen)
+  onStatusChange?: (status: CameraStatus) => void
+
+  // Cámara y calidad pedidas; al cambiar se reabre el stream sin desmontar
+  capture?: CaptureConstraints
+
+  // Ritmo de detección compartido con el monitor; sin él se usa uno propio
+  governor?: DetectionGovernor
+
+  // Proveedor de visión pedido; al cambiar se recarga en el worker sin cortar la cámara
+  visionProvider?: VisionProviderId
+
+  // Objetos que se siguen con COCO-SSD; al cambiar se reconfigura el worker
+  distractionObjects?: DistractionObjectId[]
+
+  // Perfil de ojos (con o sin lentes); al cambiar se recalibran los umbrales de parpadeo
+  eyeProfile?: EyeProfileId
+}
 
-const RESET_STABILIZERS_AFTER_MS = 2000
+// Espera tras desconectar/conectar una cámara antes de reabrir (el SO tarda en asentarse)
+const DEVICE_CHANGE_RESTART_MS = 800
 
 const CameraFeed: React.FC<CameraFeedProps> = ({
   onDetection,
   preview = false,
   previewWidth = 260,
-  previewHeight = 195
+  previewHeight = 195,
+  onStatusChange,
+  capture,
+  governor,
+  visionProvider = DEFAULT_VISION_PROVIDER_ID,
+  distractionObjects = DISTRACTION_OBJECT_IDS,
+  eyeProfile = DEFAULT_EYE_PROFILE_ID
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const streamRef = useRef<MediaStream | null>(null)
 
-  // Módulo face-api
-  const faceapiRef = useRef<typeof import("@vladmandic/face-api") | null>(null)
-  const tinyOptionsRef = useRef<FaceApi.TinyFaceDetectorOptions | null>(null)
+  // Cámara pedida (siempre la última) y estado del stream abierto
+  const captureRef = useRef<CaptureConstraints | null>(capture ?? null)
+  captureRef.current = capture ?? null
+  const devicesRef = useRef<CameraDevice[]>([])
+  const usingFallbackRef = useRef(false)
+  const restartTimerRef = useRef<number | null>(null)
+  const startingRef = useRef(false)
+  const hadStreamRef = useRef(false)
+
+  // Worker con el proveedor de visión y COCO-SSD (la inferencia no corre en el hilo de la UI)
+  const inferenceRef = useRef<InferenceClient | null>(null)
+  // Proveedor cargado de verdad (puede ser face-api si el pedido no cargó)
+  const activeProviderRef = useRef<{ id: VisionProviderId; fallback: boolean } | null>(null)
+  const requestedProviderRef = useRef(visionProvider)
+  // Estado de los modelos en el worker; viaja con cada CameraStatus
+  const modelsRef = useRef<ModelStatus[] | undefined>(undefined)
+  const lastStatusRef = useRef<CameraStatus>({ state: "loading" })
+  const objectsKey = distractionObjects.join(",")
+  const objectsKeyRef = useRef(objectsKey)
+  const eyeProfileRef = useRef(eyeProfile)
 
   const [modelsLoaded, setModelsLoaded] = useState(false)
   const [isInitialized, setIsInitialized] = useState(false)
   const [cameraError, setCameraError] = useState<string | null>(null)
 
-  const stabilizersRef = useRef(createFaceStabilizers())
-  const lastGoodDetectionAtRef = useRef(0)
+  const governorRef = useRef(governor ?? createDetectionGovernor())
 
   // Control loop
   const isDetectingRef = useRef(false)
   const isMountedRef = useRef(true)
-
-  // Phone detection state (updated by separate COCO-SSD loop)
-  const phoneInFrameRef = useRef(false)
-  const phoneLoopRunningRef = useRef(false)
+  // Toca detección de objetos en el próximo frame (loop de COCO-SSD)
+  const phoneDueRef = useRef(true)
 
   /* ============================
      CARGA DE MODELOS
@@ -84,72 +139,63 @@ const CameraFeed: React.FC<CameraFeedProps> = ({
     isMountedRef.current = true
     let isActive = true
 
-    const loadModels = async () => {
-      try {
-        console.log("========== [SYNAPSE] INICIO CARGA MODELOS ==========")
-        console.log("[SYNAPSE] UserAgent:", navigator.userAgent)
-        console.log("[SYNAPSE] Location:", window.location.href)
-        console.log("[SYNAPSE] Extension ID (host):", window.location.host)
-
-        console.log("[SYNAPSE] Instalando GLOBAL fetch patch...")
-        installModelFetchPatch()
-        console.log("[SYNAPSE] GLOBAL fetch patch instalado ✅")
-
-        console.log("[SYNAPSE] Importando face-api (vladmandic)...")
-        const faceapi = await import("@vladmandic/face-api")
-        faceapiRef.current = faceapi
-        console.log("[SYNAPSE] face-api importado ✅")
-
-        const BASE = chrome.runtime.getURL("assets/models/")
-        console.log("[SYNAPSE] MODEL_BASE =", BASE)
-
-        const requiredFiles = [
-          "tiny_face_detector_model-weights_manifest.json",
-          "tiny_face_detector_model-shard1",
-          "face_expression_model-weights_manifest.json",
-          "face_expression_model-shard1",
-          "face_landmark_68_model-weights_manifest.json",
-          "face_landmark_68_model-shard1"
-        ]
-
-        console.log("[SYNAPSE] Verificando accesibilidad de archivos...")
-        for (const file of requiredFiles) {
-          const url = `${BASE}${file}`
-          const r = await fetch(url, { cache: "no-store" })
-          console.log("[SYNAPSE] CHECK FILE:", r.status, r.ok, url)
-          if (!r.ok) throw new Error(`Archivo no accesible: ${url}`)
-        }
-        console.log("[SYNAPSE] Accesibilidad OK ✅")
-
-        console.log("[SYNAPSE] Iniciando face-api loadFromUri(BASE)...")
-        await Promise.all([
-          faceapi.nets.tinyFaceDetector.loadFromUri(BASE),
-          faceapi.nets.faceExpressionNet.loadFromUri(BASE),
-          faceapi.nets.faceLandmark68Net.loadFromUri(BASE)
-        ])
-
+    console.log("[SYNAPSE] Iniciando worker de inferencia...")
+    // Los workers no tienen chrome.runtime: la URL base de los modelos se resuelve aquí
+    const modelBase = chrome.runtime.getURL("assets/models/")
+    const client = createInferenceClient(modelBase, requestedProviderRef.current, distractionObjects, eyeProfileRef.current, {
+      onReady: (provider, fallback) => {
         if (!isActive) return
-        console.log("✅ [SYNAPSE] MODELOS DE IA CARGADOS CORRECTAMENTE")
+        console.log(`✅ [SYNAPSE] MODELOS DE IA CARGADOS CORRECTAMENTE (${provider})`)
+        activeProviderRef.current = { id: provider, fallback }
         setModelsLoaded(true)
-
-        // Cargar COCO-SSD en paralelo (no bloquea face detection)
-        loadPhoneDetector().then((ok) => {
-          if (ok) console.log("✅ [SYNAPSE] COCO-SSD listo para detección de celular")
-        })
-      } catch (error) {
-        console.error("❌ [SYNAPSE] ERROR CARGANDO MODELOS:", error)
-      }
-    }
-
-    void loadModels()
+        // Cambio de proveedor con la cámara ya andando: se actualiza el estado
+        reportRunning()
+      },
+      onResult: (result) => {
+        if (isActive) handleInferenceResult(result)
+      },
+      onError: (error) => {
+        console.error("❌ [SYNAPSE] ERROR EN EL WORKER DE INFERENCIA:", error)
+        if (isActive) emitStatus({ state: "error", error })
+      },
+      onModels: (models) => {
+        if (!isActive) return
+        modelsRef.current = models
+        // Se repite el último estado de la cámara con los modelos al día
+        emitStatus(lastStatusRef.current)
+      },
+      onDrop: () => governorRef.current.recordDropped()
+    })
+    inferenceRef.current = client
 
     return () => {
       isActive = false
       isMountedRef.current = false
-      console.log("[SYNAPSE] Cleanup loadModels")
+      inferenceRef.current = null
+      client.dispose()
+      console.log("[SYNAPSE] Cleanup worker de inferencia")
     }
   }, [])
 
+  useEffect(() => {
+    if (requestedProviderRef.current === visionProvider) return
+    requestedProviderRef.current = visionProvider
+    console.log(`[SYNAPSE] Cambiando proveedor de visión a ${visionProvider}...`)
+    inferenceRef.current?.setProvider(visionProvider)
+  }, [visionProvider])
+
+  useEffect(() => {
+    if (objectsKeyRef.current === objectsKey) return
+    objectsKeyRef.current = objectsKey
+    inferenceRef.current?.setObjects(distractionObjects)
+  }, [objectsKey])
+
+  useEffect(() => {
+    if (eyeProfileRef.current === eyeProfile) return
+    eyeProfileRef.current = eyeProfile
+    inferenceRef.current?.setEyeProfile(eyeProfile)
+  }, [eyeProfile])
+
   /* ============================
      INICIALIZAR CÁMARA
      ============================ */
@@ -159,21 +205,83 @@ const CameraFeed: React.FC<CameraFeedProps> = ({
     }
   }, [modelsLoaded, isInitialized])
 
+  const stopStream = () => {
+    if (!streamRef.current) return
+    for (const track of streamRef.current.getTracks()) {
+      track.onended = null
+      track.stop()
+    }
+    streamRef.current = null
+  }
+
+  // Las etiquetas solo vienen completas después de conceder el permiso
+  const listDevices = async (): Promise<CameraDevice[]> => {
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices()
+      return all
+        .filter((d) => d.kind === "videoinput" && d.deviceId)
+        .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Cámara ${i + 1}` }))
+    } catch {
+      return []
+    }
+  }
+
+  const emitStatus = (status: CameraStatus) => {
+    lastStatusRef.current = status
+    onStatusChange?.({ ...status, models: modelsRef.current })
+  }
+
+  const reportRunning = () => {
+    const track = streamRef.current?.getVideoTracks()[0]
+    if (!track) return
+    emitStatus({
+      state: "running",
+      deviceId: track.getSettings().deviceId,
+      deviceLabel: track.label || undefined,
+      devices: devicesRef.current,
+      fallback: usingFallbackRef.current,
+      visionProvider: activeProviderRef.current?.id,
+      visionFallback: activeProviderRef.current?.fallback
+    })
+  }
+
+  // Si la cámara elegida no está (desconectada, ocupada) se usa la predeterminada
+  const openStream = async (): Promise<MediaStream> => {
+    const requested = captureRef.current
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(requested) })
+      usingFallbackRef.current = false
+      return stream
+    } catch (err) {
+      const errorName = err instanceof Error ? err.name : ""
+      if (!requested?.deviceId || !["OverconstrainedError", "NotFoundError", "NotReadableError"].includes(errorName)) {
+        throw err
+      }
+      console.warn("[SYNAPSE] La cámara elegida no está disponible; uso la predeterminada:", errorName)
+      const stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(requested, false) })
+      usingFallbackRef.current = true
+      return stream
+    }
+  }
+
+  const scheduleRestart = (delayMs: number) => {
+    if (restartTimerRef.current !== null) window.clearTimeout(restartTimerRef.current)
+    restartTimerRef.current = window.setTimeout(() => {
+      restartTimerRef.current = null
+      if (isMountedRef.current) void startVideo()
+    }, delayMs)
+  }
+
   const startVideo = async () => {
+    // Otro pedido mientras se abre la cámara: se reintenta al terminar con lo último pedido
+    if (startingRef.current) return scheduleRestart(300)
+    startingRef.current = true
     try {
       console.log("[SYNAPSE] Solicitando cámara...")
-      if (streamRef.current) {
-        for (const track of streamRef.current.getTracks()) track.stop()
-        streamRef.current = null
-      }
+      emitStatus({ state: "starting" })
+      stopStream()
       setCameraError(null)
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: 640,
-          height: 480,
-          facingMode: "user"
-        }
-      })
+      const stream = await openStream()
       streamRef.current = stream
 
       if (!videoRef.current) {
@@ -189,131 +297,98 @@ const CameraFeed: React.FC<CameraFeedProps> = ({
         console.warn("[SYNAPSE] play() warning:", e)
       }
 
+      // Cámara desenchufada: se reabre (la elegida o la predeterminada) sin cortar la sesión
+      const track = stream.getVideoTracks()[0]
+      if (track) {
+        track.onended = () => {
+          console.warn("[SYNAPSE] La cámara dejó de enviar video; reabriendo...")
+          scheduleRestart(DEVICE_CHANGE_RESTART_MS)
+        }
+      }
+
       setIsInitialized(true)
+      hadStreamRef.current = true
+      devicesRef.current = await listDevices()
+      reportRunning()
       console.log("[SYNAPSE] Cámara inicializada ✅")
     } catch (err: unknown) {
       console.error("[SYNAPSE] Error al acceder a la cámara:", err)
       const errorName = err instanceof Error ? err.name : ""
+      let message: string
       if (errorName === "NotAllowedError") {
-        setCameraError("Permiso de cámara bloqueado o descartado. Habilítalo y pulsa Reintentar.")
+        message = "Permiso de cámara bloqueado o descartado. Habilítalo y pulsa Reintentar."
       } else if (errorName === "NotFoundError") {
-        setCameraError("No se detectó cámara en este dispositivo.")
+        message = "No se detectó cámara en este dispositivo."
       } else if (errorName === "NotReadableError") {
-        setCameraError("La cámara está en uso por otra app o pestaña.")
+        message = "La cámara está en uso por otra app o pestaña."
       } else {
-        setCameraError("No se pudo iniciar la cámara. Intenta nuevamente.")
+        message = "No se pudo iniciar la cámara. Intenta nuevamente."
       }
+      setCameraError(message)
+      emitStatus({ state: "error", error: message, errorName })
       setIsInitialized(false)
+    } finally {
+      startingRef.current = false
     }
   }
 
+  // Página oculta: detectar al mínimo. Con governor externo decide quien lo creó
+  // (el documento offscreen nunca es visible; usa el bloqueo de pantalla)
   useEffect(() => {
-    return () => {
-      isMountedRef.current = false
-      isDetectingRef.current = false
-      if (streamRef.current) {
-        for (const track of streamRef.current.getTracks()) track.stop()
-        streamRef.current = null
+    if (governor) return
+    const handleVisibility = () => governorRef.current.setHidden(document.hidden)
+    handleVisibility()
+    document.addEventListener("visibilitychange", handleVisibility)
+    return () => document.removeEventListener("visibilitychange", handleVisibility)
+  }, [governor])
+
+  // Otra cámara o calidad en ajustes: se reabre el stream; el loop de detección sigue con el mismo <video>
+  const captureKey = capture ? `${capture.deviceId ?? ""}|${capture.width}x${capture.height}@${capture.frameRate}` : ""
+  const appliedCaptureKeyRef = useRef(captureKey)
+  useEffect(() => {
+    if (appliedCaptureKeyRef.current === captureKey) return
+    appliedCaptureKeyRef.current = captureKey
+    if (isInitialized) scheduleRestart(0)
+  }, [captureKey, isInitialized])
+
+  // Conectar o desconectar cámaras: actualizar la lista y reabrir si hace falta
+  useEffect(() => {
+    const handleDeviceChange = async () => {
+      const devices = await listDevices()
+      if (!isMountedRef.current) return
+      devicesRef.current = devices
+      const track = streamRef.current?.getVideoTracks()[0]
+      const currentId = track?.getSettings().deviceId
+      const requestedId = captureRef.current?.deviceId
+      const lost = !track || track.readyState === "ended" || (currentId && !devices.some((d) => d.deviceId === currentId))
+      // Volvió la cámara elegida mientras se usaba la predeterminada
+      const preferredBack = usingFallbackRef.current && requestedId && devices.some((d) => d.deviceId === requestedId)
+      // Sin stream tras perder la única cámara: se reintenta al conectar otra
+      const reconnected = !streamRef.current && hadStreamRef.current && devices.length > 0
+      if ((streamRef.current && (lost || preferredBack)) || reconnected) {
+        scheduleRestart(DEVICE_CHANGE_RESTART_MS)
+      } else {
+        reportRunning()
       }
     }
+    const onDeviceChange = () => void handleDeviceChange()
+    navigator.mediaDevices.addEventListener("devicechange", onDeviceChange)
+    return () => navigator.mediaDevices.removeEventListener("devicechange", onDeviceChange)
   }, [])
 
-  
-  const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n))
-
-  const resetStabilizers = () => {
-    stabilizersRef.current.reset()
-  }
-
-  const assessDetectionQuality = (
-    detections: FaceApi.WithFaceLandmarks<any> & FaceApi.WithFaceExpressions<any>,
-    vw: number,
-    vh: number
-  ): DetectionQuality => {
-    const score = detections.detection.score ?? 1
-    const b = detections.detection.box
-    const areaRatio = (b.width * b.height) / Math.max(1, vw * vh)
-
-    const centerX = clamp((b.x + b.width / 2) / Math.max(1, vw), 0, 1)
-    const centerY = clamp((b.y + b.height / 2) / Math.max(1, vh), 0, 1)
-    const centeredness = 1 - Math.min(1, Math.hypot(centerX - 0.5, centerY - 0.5) / 0.71)
-
-    const scoreQuality = clamp(
-      (score - MIN_FACE_SCORE) / Math.max(0.001, 1 - MIN_FACE_SCORE),
-      0,
-      1
-    )
-    const areaDistance = Math.abs(areaRatio - IDEAL_FACE_AREA) / Math.max(0.001, IDEAL_FACE_AREA)
-    const areaQuality = clamp(1 - areaDistance, 0, 1)
-    const qualityScore = clamp(scoreQuality * 0.5 + areaQuality * 0.3 + centeredness * 0.2, 0, 1)
-
-    return {
-      reliable: score >= MIN_FACE_SCORE && areaRatio >= MIN_FACE_AREA && areaRatio <= MAX_FACE_AREA,
-      score: qualityScore,
-      faceScore: score,
-      areaRatio,
-      centeredness
+  useEffect(() => {
+    return () => {
+      isMountedRef.current = false
+      isDetectingRef.current = false
+      if (restartTimerRef.current !== null) window.clearTimeout(restartTimerRef.current)
+      stopStream()
     }
-  }
-
-  /* ============================
-     CÁLCULO DE ORIENTACIÓN
-     ============================ */
-  const calculateHeadPose = (landmarks: FaceApi.FaceLandmarks68) => {
-    const nose = landmarks.getNose()
-    const leftEye = landmarks.getLeftEye()
-    const rightEye = landmarks.getRightEye()
-
-    const noseTip = nose[3]
-    const leftEyeCenter = leftEye[0]
-    const rightEyeCenter = rightEye[3]
-
-    const eyeDistance = Math.abs(rightEyeCenter.x - leftEyeCenter.x)
-    const noseOffset = noseTip.x - (leftEyeCenter.x + rightEyeCenter.x) / 2
-    const yaw = (noseOffset / Math.max(1, eyeDistance)) * 45
-
-    const eyeLevel = (leftEyeCenter.y + rightEyeCenter.y) / 2
-    const nosePitch = (noseTip.y - eyeLevel) / 50
-    const pitch = Math.max(-30, Math.min(30, nosePitch * 30))
-
-    const eyeAngle = Math.atan2(
-      rightEyeCenter.y - leftEyeCenter.y,
-      rightEyeCenter.x - leftEyeCenter.x
-    )
-    const roll = (eyeAngle * 180) / Math.PI
-
-    return { yaw, pitch, roll }
-  }
-
-  /* ============================
-     DETECCIÓN DE PARPADEO
-     ============================ */
-  /* ============================
-     ESTIMACIÓN DE MIRADA (proxy)
-     ============================ */
-  const estimateGaze = (detection: FaceApi.WithFaceLandmarks<any>) => {
-    const box = detection.detection.box
-    const videoWidth = videoRef.current?.videoWidth || 640
-    const videoHeight = videoRef.current?.videoHeight || 480
-
-    const faceCenterX = box.x + box.width / 2
-    const faceCenterY = box.y + box.height / 2
-
-    const screenW = window.screen.width || 1
-    const screenH = window.screen.height || 1
-    const screenX = clamp(screenW * (1 - faceCenterX / videoWidth), 0, screenW)
-    const screenY = clamp(screenH * (faceCenterY / videoHeight), 0, screenH)
-
-    return { x: screenX, y: screenY }
-  }
+  }, [])
 
   /* ============================
      DIBUJO OVERLAY (box + landmarks)
      ============================ */
-  const drawOverlay = (
-    detections: FaceApi.WithFaceLandmarks<any> & FaceApi.WithFaceExpressions<any>,
-    expressionsOverride?: ExpressionMap
-  ) => {
+  const drawOverlay = (overlay: FaceOverlay | null) => {
     const canvas = canvasRef.current
     const video = videoRef.current
     if (!canvas || !video) return
@@ -327,30 +402,35 @@ const CameraFeed: React.FC<CameraFeedProps> = ({
     if (canvas.width !== vw) canvas.width = vw
     if (canvas.height !== vh) canvas.height = vh
 
+    // Sin cara o de baja calidad: overlay limpio para que sea obvio
     ctx.clearRect(0, 0, canvas.width, canvas.height)
+    if (!overlay?.reliable) return
 
     // box
-    const b = detections.detection.box
+    const b = overlay.box
     ctx.strokeStyle = "rgba(96,165,250,0.95)"
     ctx.lineWidth = 3
     ctx.strokeRect(b.x, b.y, b.width, b.height)
 
     // landmarks (puntos)
-    const pts = detections.landmarks.positions
     ctx.fillStyle = "rgba(139,92,246,0.95)"
-    for (const p of pts) {
+    for (const p of overlay.points) {
       ctx.beginPath()
       ctx.arc(p.x, p.y, 2, 0, Math.PI * 2)
       ctx.fill()
     }
 
-    // texto pequeño: emoción dominante (opcional)
-    const exprAny = expressionsOverride ?? normalizeExpressions(detections.expressions)
-    const emotion = Object.keys(exprAny).reduce((a, k) => (exprAny[k] > exprAny[a] ? k : a), "neutral")
-
+    // texto pequeño: emoción dominante
     ctx.fillStyle = "rgba(255,255,255,0.9)"
     ctx.font = "16px Inter, system-ui, sans-serif"
-    ctx.fillText(`face: ok | ${emotion}`, Math.max(10, b.x), Math.max(20, b.y - 8))
+    ctx.fillText(`face: ok | ${overlay.emotion}`, Math.max(10, b.x), Math.max(20, b.y - 8))
+  }
+
+  const handleInferenceResult = (result: InferenceResult) => {
+    governorRef.current.recordFace(result.faceMs)
+    if (result.phoneMs !== null) governorRef.current.recordPhone(result.phoneMs)
+    if (preview) drawOverlay(result.overlay)
+    if (result.data) onDetection(result.data)
   }
 
   /* ============================
@@ -359,13 +439,11 @@ const CameraFeed: React.FC<CameraFeedProps> = ({
   const handleVideoOnPlay = () => {
     if (isDetectingRef.current) return
     if (!videoRef.current) return
-    if (!canvasRef.current) return
-
-    const faceapi = faceapiRef.current
-    if (!faceapi) return
 
     isDetectingRef.current = true
 
+    // El frame se copia a un ImageBitmap y se transfiere al worker; si la inferencia
+    // viene atrasada el cliente descarta frames en vez de encolarlos
     const tick = async () => {
       if (!isMountedRef.current) return
 
@@ -374,7 +452,8 @@ const CameraFeed: React.FC<CameraFeedProps> = ({
 
       const vw = video.videoWidth || 0
       const vh = video.videoHeight || 0
-      if (!vw || !vh) {
+      const client = inferenceRef.current
+      if (!vw || !vh || !client) {
         setTimeout(tick, 100)
         return
       }
@@ -385,95 +464,29 @@ const CameraFeed: React.FC<CameraFeedProps> = ({
       }
 
       try {
-        if (!tinyOptionsRef.current) {
-          tinyOptionsRef.current = new faceapi.TinyFaceDetectorOptions({
-            inputSize: TINY_INPUT_SIZE,
-            scoreThreshold: MIN_FACE_SCORE
-          })
-        }
-
-        const detections = await faceapi
-          .detectSingleFace(video, tinyOptionsRef.current)
-          .withFaceLandmarks()
-          .withFaceExpressions()
-
-        if (detections) {
-          const quality = assessDetectionQuality(detections, vw, vh)
-
-          const stabilizers = stabilizersRef.current
-          const expressions = stabilizers.smoothExpressions(detections.expressions)
-          const headPose = stabilizers.smoothPose(calculateHeadPose(detections.landmarks))
-          const gaze = stabilizers.smoothGaze(estimateGaze(detections))
-
-          stabilizers.updateBlinkState(detections.landmarks)
-          const blinkRate = stabilizers.getBlinkRate()
-          const eyeState = stabilizers.getEyeState()
-
-          if (quality.reliable) {
-            lastGoodDetectionAtRef.current = Date.now()
-            if (preview) drawOverlay(detections, expressions)
-          } else {
-            // Cara visible pero baja calidad (ojos cerrados, cara parcial)
-            // Limpiar overlay pero SEGUIR enviando datos para que fatiga suba
-            if (preview && canvasRef.current) {
-              const ctx = canvasRef.current.getContext("2d")
-              if (ctx) ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height)
-            }
-            if (Date.now() - lastGoodDetectionAtRef.current > RESET_STABILIZERS_AFTER_MS) {
-              resetStabilizers()
-            }
-          }
-
-          const combinedData: DetectionData = {
-            expressions,
-            gazeX: gaze.x,
-            gazeY: gaze.y,
-            headPose,
-            blinkRate,
-            eyeState,
-            quality,
-            phoneInFrame: phoneInFrameRef.current || undefined
-          }
-
-          onDetection(combinedData)
-        } else {
-          // si no hay deteccion, limpiamos overlay para que sea obvio
-          if (preview && canvasRef.current) {
-            const ctx = canvasRef.current.getContext("2d")
-            if (ctx) ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height)
-          }
-
-          if (Date.now() - lastGoodDetectionAtRef.current > RESET_STABILIZERS_AFTER_MS) {
-            resetStabilizers()
-          }
-        }
+        const bitmap = await createImageBitmap(video)
+        client.submit(bitmap, {
+          screen: { width: window.screen.width, height: window.screen.height },
+          phone: phoneDueRef.current
+        })
+        phoneDueRef.current = false
       } catch (error) {
-        console.error("[SYNAPSE] Error en detección:", error)
+        console.error("[SYNAPSE] Error capturando frame:", error)
       }
 
-      // Menos carga que 150ms. Si quieres más fluido, baja a 150 luego.
-      setTimeout(tick, DETECTION_INTERVAL_MS)
+      // El governor espacia los frames según el presupuesto de CPU y la actividad
+      setTimeout(tick, governorRef.current.nextFaceDelay())
     }
 
     void tick()
 
-    // Loop paralelo de COCO-SSD para detección de celular (~2s)
-    if (!phoneLoopRunningRef.current) {
-      phoneLoopRunningRef.current = true
-      const phoneTick = async () => {
-        if (!isMountedRef.current) {
-          phoneLoopRunningRef.current = false
-          return
-        }
-        const vid = videoRef.current
-        if (vid && vid.readyState >= 2) {
-          const result = await detectPhone(vid)
-          phoneInFrameRef.current = result.detected
-        }
-        setTimeout(phoneTick, PHONE_DETECTION_INTERVAL_MS)
-      }
-      void phoneTick()
+    // COCO-SSD (~2s, según el governor): marca el próximo frame para buscar objetos
+    const phoneTick = () => {
+      if (!isMountedRef.current) return
+      phoneDueRef.current = true
+      setTimeout(phoneTick, governorRef.current.nextPhoneDelay())
     }
+    setTimeout(phoneTick, governorRef.current.nextPhoneDelay())
   }
 
   // UI preview (si preview=true)
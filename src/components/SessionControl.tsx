@@ -1,119 +1,63 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Play, Square, Clock, TrendingUp } from 'lucide-react';
-import { sessionManager, type SessionMetrics, type SessionSummary } from '../lib/sessionManager';
+import { Play, Pause, Square, Clock, TrendingUp } from 'lucide-react';
+import type { SessionStatus } from '../lib/sessionManager';
 
+/**
+ * La sesión vive en el documento offscreen (monitor). Este componente solo
+ * refleja su estado y delega las acciones en el side panel.
+ */
 interface SessionControlProps {
-  onSessionStart?: () => void;
-  onSessionEnd?: (summary: SessionSummary) => void;
+  status: SessionStatus | null;
+  onStart: () => Promise<boolean>;
+  onEnd: () => Promise<boolean>;
+  onTogglePause: (paused: boolean) => void;
   currentMetrics?: {
     focus: number;
     stress: number;
     fatigue: number;
     distraction: number;
-    dominantState: string;
-    confidence: number;
   } | null;
 }
 
-const normalizeDominantState = (value: string): SessionMetrics["dominantState"] => {
-  if (value === 'focus' || value === 'stress' || value === 'fatigue' || value === 'distraction') {
-    return value;
-  }
-  return 'neutral';
-};
-
 const SessionControl: React.FC<SessionControlProps> = ({ 
-  onSessionStart, 
-  onSessionEnd,
+  status,
+  onStart,
+  onEnd,
+  onTogglePause,
   currentMetrics 
 }) => {
-  const [isSessionActive, setIsSessionActive] = useState(false);
-  const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [isEnding, setIsEnding] = useState(false);
-  const hasMetricsRef = useRef(false);
-  const currentMetricsRef = useRef<SessionControlProps["currentMetrics"]>(currentMetrics);
-
-  useEffect(() => {
-    currentMetricsRef.current = currentMetrics;
-  }, [currentMetrics]);
-
-  const recordCurrentMetrics = () => {
-    const metrics = currentMetricsRef.current;
-    if (!metrics) return;
-
-    sessionManager.recordMetrics({
-      focus: metrics.focus,
-      stress: metrics.stress,
-      fatigue: metrics.fatigue,
-      distraction: metrics.distraction,
-      dominantState: normalizeDominantState(metrics.dominantState),
-      confidence: metrics.confidence
-    });
-    hasMetricsRef.current = true;
-  };
-
-  // Timer que se actualiza cada segundo
-  useEffect(() => {
-    if (!isSessionActive) return;
-
-    const interval = setInterval(() => {
-      const status = sessionManager.getSessionStatus();
-      if (status) {
-        setElapsedSeconds(status.elapsedSeconds);
-      }
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [isSessionActive]);
-
-  // Registrar métricas cada 2 segundos cuando hay sesión activa
-  useEffect(() => {
-    if (!isSessionActive) return;
-
-    const interval = setInterval(() => {
-      recordCurrentMetrics();
-    }, 2000);
-
-    return () => clearInterval(interval);
-  }, [isSessionActive]);
+  const isSessionActive = status !== null;
+  const isPaused = status?.isPaused ?? false;
+  // Cronómetro de tiempo activo (sin pausas), actualizado por los snapshots del monitor
+  const elapsedSeconds = status?.elapsedSeconds ?? 0;
 
   const handleStartSession = async () => {
-    try {
-      const sessionId = await sessionManager.startSession();
-      setIsSessionActive(true);
-      setElapsedSeconds(0);
-      hasMetricsRef.current = false;
-      console.log('✅ Sesión iniciada:', sessionId);
-      recordCurrentMetrics();
-      onSessionStart?.();
-    } catch (error) {
-      console.error('❌ Error al iniciar sesión:', error);
+    const ok = await onStart();
+    if (!ok) {
       alert('Error al iniciar la sesión. Verifica tu conexión.');
     }
   };
 
   const handleEndSession = async () => {
+    if (!status || status.samples === 0) {
+      alert('Aún no hay datos suficientes. Espera unos segundos y vuelve a intentar.');
+      return;
+    }
+    setIsEnding(true);
     try {
-      if (!hasMetricsRef.current) {
-        alert('Aún no hay datos suficientes. Espera unos segundos y vuelve a intentar.');
-        return;
-      }
-      setIsEnding(true);
-      const summary = await sessionManager.endSession();
-      setIsSessionActive(false);
-      setElapsedSeconds(0);
-      hasMetricsRef.current = false;
-      console.log('📊 Sesión finalizada:', summary);
-      onSessionEnd?.(summary);
-    } catch (error) {
-      console.error('❌ Error al finalizar sesión:', error);
-      alert('Error al finalizar la sesión.');
+      const ok = await onEnd();
+      if (!ok) alert('Error al finalizar la sesión.');
     } finally {
       setIsEnding(false);
     }
   };
 
+  const handleTogglePause = () => {
+    onTogglePause(!isPaused);
+  };
+
   const formatTime = (seconds: number): string => {
     const hrs = Math.floor(seconds / 3600);
     const mins = Math.floor((seconds % 3600) / 60);
@@ -150,14 +94,14 @@ const SessionControl: React.FC<SessionControlProps> = ({
           {isSessionActive ? (
             <>
               <motion.div
-                animate={{ scale: [1, 1.2, 1] }}
-                transition={{ duration: 1.5, repeat: Infinity }}
+                animate={isPaused ? { scale: 1 } : { scale: [1, 1.2, 1] }}
+                transition={{ duration: 1.5, repeat: isPaused ? 0 : Infinity }}
                 style={{
                   width: 10,
                   height: 10,
                   borderRadius: '50%',
-                  backgroundColor: '#22c55e',
-                  boxShadow: '0 0 10px #22c55e'
+                  backgroundColor: isPaused ? '#fbbf24' : '#22c55e',
+                  boxShadow: isPaused ? '0 0 10px #fbbf24' : '0 0 10px #22c55e'
                 }}
               />
               <div>
@@ -167,7 +111,7 @@ const SessionControl: React.FC<SessionControlProps> = ({
                   color: 'white',
                   marginBottom: 2
                 }}>
-                  🎯 Sesión Activa
+                  {isPaused ? '⏸️ Sesión en Pausa' : '🎯 Sesión Activa'}
                 </div>
                 <div style={{
                   fontSize: 11,
@@ -201,53 +145,89 @@ const SessionControl: React.FC<SessionControlProps> = ({
           )}
         </div>
 
-        <motion.button
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          onClick={isSessionActive ? handleEndSession : handleStartSession}
-          disabled={isEnding}
-          style={{
-            display: 'flex',
-            alignItems: 'center',
-            gap: 8,
-            padding: '10px 16px',
-            borderRadius: 10,
-            border: 'none',
-            background: isSessionActive 
-              ? 'linear-gradient(135deg, #ef4444, #dc2626)' 
-              : 'linear-gradient(135deg, #60a5fa, #8b5cf6)',
-            color: 'white',
-            cursor: isEnding ? 'not-allowed' : 'pointer',
-            fontWeight: 600,
-            fontSize: 12,
-            boxShadow: isSessionActive
-              ? '0 4px 12px rgba(239, 68, 68, 0.3)'
-              : '0 4px 12px rgba(96, 165, 250, 0.3)',
-            opacity: isEnding ? 0.6 : 1
-          }}
-        >
-          {isEnding ? (
-            <>
-              <motion.div
-                animate={{ rotate: 360 }}
-                transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-              >
-                ⏳
-              </motion.div>
-              Finalizando...
-            </>
-          ) : isSessionActive ? (
-            <>
-              <Square size={14} fill="white" />
-              Finalizar
-            </>
-          ) : (
-            <>
-              <Play size={14} fill="white" />
-              Iniciar Sesión
-            </>
+        <div style={{ display: 'flex', gap: 8 }}>
+          {isSessionActive && !isEnding && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleTogglePause}
+              title={isPaused ? 'Reanudar sesión' : 'Pausar sesión'}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 6,
+                padding: '10px 12px',
+                borderRadius: 10,
+                border: '1px solid rgba(251, 191, 36, 0.35)',
+                background: 'rgba(251, 191, 36, 0.12)',
+                color: '#fbbf24',
+                cursor: 'pointer',
+                fontWeight: 600,
+                fontSize: 12
+              }}
+            >
+              {isPaused ? (
+                <>
+                  <Play size={14} />
+                  Reanudar
+                </>
+              ) : (
+                <>
+                  <Pause size={14} />
+                  Pausar
+                </>
+              )}
+            </motion.button>
           )}
-        </motion.button>
+
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={isSessionActive ? handleEndSession : handleStartSession}
+            disabled={isEnding}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 8,
+              padding: '10px 16px',
+              borderRadius: 10,
+              border: 'none',
+              background: isSessionActive 
+                ? 'linear-gradient(135deg, #ef4444, #dc2626)' 
+                : 'linear-gradient(135deg, #60a5fa, #8b5cf6)',
+              color: 'white',
+              cursor: isEnding ? 'not-allowed' : 'pointer',
+              fontWeight: 600,
+              fontSize: 12,
+              boxShadow: isSessionActive
+                ? '0 4px 12px rgba(239, 68, 68, 0.3)'
+                : '0 4px 12px rgba(96, 165, 250, 0.3)',
+              opacity: isEnding ? 0.6 : 1
+            }}
+          >
+            {isEnding ? (
+              <>
+                <motion.div
+                  animate={{ rotate: 360 }}
+                  transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                >
+                  ⏳
+                </motion.div>
+                Finalizando...
+              </>
+            ) : isSessionActive ? (
+              <>
+                <Square size={14} fill="white" />
+                Finalizar
+              </>
+            ) : (
+              <>
+                <Play size={14} fill="white" />
+                Iniciar Sesión
+              </>
+            )}
+          </motion.button>
+        </div>
       </div>
 
       {/* Indicadores en tiempo real durante la sesión */}
@@ -2,6 +2,8 @@ import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, TrendingUp, AlertCircle, Zap, Eye, Clock, Target } from 'lucide-react';
 import type { SessionSummary } from '../lib/sessionManager';
+import { KSS_LABELS } from '../lib/drowsinessScale';
+import { DISTRACTION_OBJECTS, DISTRACTION_OBJECT_IDS } from '../lib/vision/distractionObjects';
 
 interface SessionSummaryModalProps {
   isOpen: boolean;
@@ -16,6 +18,15 @@ const SessionSummaryModal: React.FC<SessionSummaryModalProps> = ({
 }) => {
   if (!summary) return null;
 
+  const objectDwell = DISTRACTION_OBJECT_IDS
+    .map(id => ({ id, seconds: summary.objectDwellSeconds?.[id] ?? 0 }))
+    .filter(entry => entry.seconds > 0);
+
+  const fatigue = summary.fatigue;
+  const showFatigue = Boolean(fatigue && (fatigue.perclosTimeline.length > 0 || fatigue.microsleeps > 0));
+  // PERCLOS por encima de esto llena la barra (somnolencia severa)
+  const perclosScale = 0.3;
+
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -101,6 +112,7 @@ const SessionSummaryModal: React.FC<SessionSummaryModalProps> = ({
                     color: '#94a3b8'
                   }}>
                     Duración: {formatDuration(summary.duration)}
+                    {summary.pausedSeconds > 0 && ` • En pausa: ${formatDuration(summary.pausedSeconds)}`}
                   </p>
                 </div>
                 <motion.button
@@ -241,6 +253,92 @@ const SessionSummaryModal: React.FC<SessionSummaryModalProps> = ({
                   </div>
                 </div>
 
+                {/* Objetos en cámara */}
+                {objectDwell.length > 0 && (
+                  <div style={{ marginBottom: 20 }}>
+                    <h3 style={{
+                      fontSize: 13,
+                      fontWeight: 600,
+                      color: '#cbd5e1',
+                      marginBottom: 12
+                    }}>
+                      Objetos en Cámara
+                    </h3>
+                    <div style={{
+                      padding: 16,
+                      borderRadius: 12,
+                      background: 'rgba(255, 255, 255, 0.03)',
+                      border: '1px solid rgba(255, 255, 255, 0.08)'
+                    }}>
+                      {objectDwell.map((entry, i) => (
+                        <div
+                          key={entry.id}
+                          style={{
+                            display: 'flex',
+                            justifyContent: 'space-between',
+                            marginBottom: i === objectDwell.length - 1 ? 0 : 8
+                          }}
+                        >
+                          <span style={{ fontSize: 11, color: '#94a3b8' }}>{DISTRACTION_OBJECTS[entry.id].label}</span>
+                          <span style={{ fontSize: 11, color: 'white', fontWeight: 600 }}>
+                            {formatDuration(entry.seconds)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Somnolencia: eventos de fatiga y PERCLOS en el tiempo */}
+                {showFatigue && (
+                  <div style={{ marginBottom: 20 }}>
+                    <h3 style={{
+                      fontSize: 13,
+                      fontWeight: 600,
+                      color: '#cbd5e1',
+                      marginBottom: 12
+                    }}>
+                      Somnolencia
+                    </h3>
+                    <div style={{
+                      padding: 16,
+                      borderRadius: 12,
+                      background: 'rgba(255, 255, 255, 0.03)',
+                      border: '1px solid rgba(255, 255, 255, 0.08)'
+                    }}>
+                      {[
+                        { label: 'Microsueños', value: `${fatigue.microsleeps}${fatigue.microsleeps > 0 ? ` (máx. ${(fatigue.longestMicrosleepMs / 1000).toFixed(1)} s)` : ''}` },
+                        { label: 'Parpadeos lentos', value: String(fatigue.slowBlinks) },
+                        { label: 'KSS máximo', value: fatigue.peakKss ? `${fatigue.peakKss} · ${KSS_LABELS[fatigue.peakKss]}` : 'Sin datos suficientes' }
+                      ].map(row => (
+                        <div key={row.label} style={{ display: 'flex', justifyContent: 'space-between', gap: 12, marginBottom: 8 }}>
+                          <span style={{ fontSize: 11, color: '#94a3b8' }}>{row.label}</span>
+                          <span style={{ fontSize: 11, color: 'white', fontWeight: 600, textAlign: 'right' }}>{row.value}</span>
+                        </div>
+                      ))}
+                      {fatigue.perclosTimeline.length > 1 && (
+                        <>
+                          <div style={{ fontSize: 10, color: '#64748b', margin: '12px 0 6px' }}>PERCLOS durante la sesión</div>
+                          <div style={{ display: 'flex', alignItems: 'flex-end', gap: 1, height: 40 }}>
+                            {fatigue.perclosTimeline.map(sample => (
+                              <div
+                                key={sample.t}
+                                title={`${formatDuration(sample.t)}: ${Math.round(sample.perclos * 100)}%${sample.kss ? ` · KSS ${sample.kss}` : ''}`}
+                                style={{
+                                  flex: 1,
+                                  height: `${Math.max(4, Math.min(1, sample.perclos / perclosScale) * 100)}%`,
+                                  borderRadius: 1,
+                                  background: sample.perclos >= 0.25 ? '#ef4444' : sample.perclos >= 0.15 ? '#fbbf24' : '#60a5fa'
+                                }}
+                              />
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {/* Estadísticas Adicionales */}
                 <div>
                   <h3 style={{
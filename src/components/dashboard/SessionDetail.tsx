@@ -1,6 +1,7 @@
 import React from "react"
 import type { SessionRow } from "~components/dashboard/SessionsTable"
 import { formatDate, formatDuration } from "~lib/dashboardUtils"
+import SessionTimelineChart from "~components/dashboard/SessionTimelineChart"
 
 type SessionDetailProps = {
   session: SessionRow
@@ -89,6 +90,8 @@ const SessionDetail: React.FC<SessionDetailProps> = ({ session }) => {
           </div>
         </div>
       </div>
+
+      <SessionTimelineChart sessionId={session.id} startedAt={session.started_at} />
     </div>
   )
 }
@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from "react"
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+  Legend
+} from "recharts"
+import { loadSessionTimeline, type SessionSample } from "~lib/sessionTimeline"
+
+type SessionTimelineChartProps = {
+  sessionId: string
+  startedAt: string | null
+}
+
+const formatOffset = (ms: number) => {
+  const totalSecs = Math.max(0, Math.round(ms / 1000))
+  const mins = Math.floor(totalSecs / 60)
+  const secs = totalSecs % 60
+  return `${mins}:${String(secs).padStart(2, "0")}`
+}
+
+const SessionTimelineChart: React.FC<SessionTimelineChartProps> = ({ sessionId, startedAt }) => {
+  const [samples, setSamples] = useState<SessionSample[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isActive = true
+    setLoading(true)
+    setError(null)
+    setSamples(null)
+
+    loadSessionTimeline(sessionId)
+      .then((result) => {
+        if (isActive) setSamples(result)
+      })
+      .catch((err) => {
+        if (isActive) setError(err instanceof Error ? err.message : "No se pudo cargar el timeline")
+      })
+      .finally(() => {
+        if (isActive) setLoading(false)
+      })
+
+    return () => {
+      isActive = false
+    }
+  }, [sessionId])
+
+  const chartData = useMemo(() => {
+    if (!samples || samples.length === 0) return []
+    const origin = startedAt ? new Date(startedAt).getTime() : samples[0].t
+    return samples.map((s) => ({
+      name: formatOffset(s.t - origin),
+      focus: s.focus,
+      stress: s.stress,
+      fatigue: s.fatigue,
+      distraction: s.distraction
+    }))
+  }, [samples, startedAt])
+
+  return (
+    <div style={{ borderTop: "1px solid rgba(255,255,255,0.06)", paddingTop: 10, marginTop: 10 }}>
+      <div style={{ fontSize: 12, color: "#94a3b8", marginBottom: 8 }}>Evolucion dentro de la sesion</div>
+
+      {loading && <div style={{ fontSize: 11, color: "#64748b" }}>Cargando timeline...</div>}
+      {error && <div style={{ fontSize: 11, color: "#fca5a5" }}>{error}</div>}
+      {!loading && !error && chartData.length === 0 && (
+        <div style={{ fontSize: 11, color: "#64748b" }}>
+          Esta sesion no tiene muestras guardadas (sesiones anteriores solo tienen promedios).
+        </div>
+      )}
+
+      {chartData.length > 0 && (
+        <div style={{ width: "100%", height: 220 }}>
+          <ResponsiveContainer>
+            <LineChart data={chartData} margin={{ top: 8, right: 16, left: -8, bottom: 0 }}>
+              <CartesianGrid stroke="rgba(148,163,184,0.15)" strokeDasharray="4 4" />
+              <XAxis dataKey="name" stroke="#94a3b8" tick={{ fontSize: 11 }} minTickGap={24} />
+              <YAxis domain={[0, 100]} stroke="#94a3b8" tick={{ fontSize: 11 }} />
+              <Tooltip
+                contentStyle={{
+                  background: "#0f172a",
+                  border: "1px solid rgba(255,255,255,0.1)",
+                  borderRadius: 8,
+                  color: "white",
+                  fontSize: 12
+                }}
+                labelStyle={{ color: "#94a3b8", fontSize: 11 }}
+                labelFormatter={(label: string) => `Minuto ${label}`}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Line type="monotone" dataKey="focus" name="Foco" stroke="#60a5fa" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="stress" name="Estres" stroke="#f87171" strokeWidth={1.5} dot={false} />
+              <Line type="monotone" dataKey="fatigue" name="Fatiga" stroke="#fbbf24" strokeWidth={1.5} dot={false} />
+              <Line
+                type="monotone"
+                dataKey="distraction"
+                name="Distraccion"
+                stroke="#a855f7"
+                strokeWidth={1.5}
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SessionTimelineChart
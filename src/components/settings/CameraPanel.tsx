@@ -0,0 +1,110 @@
+import React from "react"
+import {
+  DEFAULT_DEVICE_KEY,
+  FRAME_RATES,
+  RESOLUTION_PRESETS,
+  captureQualityFor,
+  type CameraPreferences
+} from "~lib/cameraSettings"
+import type { CalibrationProfileSummary } from "~lib/calibrationProfiles"
+import type { CameraStatus } from "~lib/monitor/protocol"
+
+type CameraPanelProps = {
+  prefs: CameraPreferences
+  camera: CameraStatus | null
+  profiles: CalibrationProfileSummary[]
+  disabled: boolean
+  onChange: (prefs: CameraPreferences) => Promise<void>
+}
+
+const selectStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 8,
+  border: "1px solid rgba(255,255,255,0.12)",
+  background: "rgba(255,255,255,0.04)",
+  color: "white",
+  fontSize: 12
+}
+
+/**
+ * Cámara que usa el monitor y su resolución/fps. La lista sale del documento
+ * offscreen (es el único con permiso de cámara); cada cámara usa su propio
+ * perfil de calibración.
+ */
+const CameraPanel: React.FC<CameraPanelProps> = ({ prefs, camera, profiles, disabled, onChange }) => {
+  const devices = camera?.devices ?? []
+  const quality = captureQualityFor(prefs, prefs.deviceId)
+  const selectedMissing = prefs.deviceId !== null && !devices.some((d) => d.deviceId === prefs.deviceId)
+
+  const setQuality = (patch: Partial<typeof quality>) =>
+    onChange({ ...prefs, quality: { ...prefs.quality, [prefs.deviceId ?? DEFAULT_DEVICE_KEY]: { ...quality, ...patch } } })
+
+  const profileFor = (deviceId: string) => profiles.find((p) => p.cameraId === deviceId)?.name ?? null
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 12 }}>
+        <select
+          value={prefs.deviceId ?? ""}
+          disabled={disabled}
+          onChange={(e) => void onChange({ ...prefs, deviceId: e.target.value || null })}
+          style={{ ...selectStyle, minWidth: 200 }}
+        >
+          <option value="">Predeterminada del sistema</option>
+          {devices.map((device) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label}
+            </option>
+          ))}
+          {selectedMissing && <option value={prefs.deviceId}>Cámara guardada (desconectada)</option>}
+        </select>
+        <select
+          value={`${quality.width}x${quality.height}`}
+          disabled={disabled}
+          onChange={(e) => {
+            const preset = RESOLUTION_PRESETS.find((p) => `${p.width}x${p.height}` === e.target.value)
+            if (preset) void setQuality({ width: preset.width, height: preset.height })
+          }}
+          style={selectStyle}
+        >
+          {RESOLUTION_PRESETS.map((preset) => (
+            <option key={preset.label} value={`${preset.width}x${preset.height}`}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={quality.frameRate}
+          disabled={disabled}
+          onChange={(e) => void setQuality({ frameRate: Number(e.target.value) })}
+          style={selectStyle}
+        >
+          {FRAME_RATES.map((fps) => (
+            <option key={fps} value={fps}>
+              {fps} fps
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {camera?.state === "running" && (
+        <p style={{ fontSize: 11, color: camera.fallback ? "#fbbf24" : "#94a3b8", marginBottom: 8 }}>
+          {camera.fallback
+            ? `La cámara elegida no está conectada; se usa ${camera.deviceLabel ?? "la predeterminada"}.`
+            : `En uso: ${camera.deviceLabel ?? "cámara sin nombre"}.`}
+        </p>
+      )}
+      {devices.length === 0 && (
+        <p style={{ fontSize: 11, color: "#94a3b8" }}>La lista de cámaras aparece cuando el monitor está activo.</p>
+      )}
+      {devices.map((device) => (
+        <div key={device.deviceId} style={{ display: "flex", justifyContent: "space-between", fontSize: 11, marginBottom: 4 }}>
+          <span style={{ color: device.deviceId === camera?.deviceId ? "#60a5fa" : "#cbd5e1" }}>{device.label}</span>
+          <span style={{ color: "#94a3b8" }}>{profileFor(device.deviceId) ?? "Sin perfil (se calibra al usarla)"}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default CameraPanel
@@ -0,0 +1,141 @@
+import React from "react"
+import { CPU_BUDGET_OPTIONS, type GovernorMode, type GovernorStats } from "~lib/vision/detectionGovernor"
+import type { ActiveEyes, EyeSide, EyeState } from "~lib/vision/faceStabilizers"
+
+type DiagnosticsPanelProps = {
+  stats: GovernorStats | null
+  // Parpadeo por ojo del último frame con rostro
+  eyes: EyeState["eyes"] | null
+  cpuBudget: number
+  disabled: boolean
+  onBudgetChange: (cpuBudget: number) => Promise<void>
+}
+
+const MODE_TEXT: Record<GovernorMode, string> = {
+  transition: "Cambio de estado: detección rápida",
+  active: "Ritmo normal",
+  stable: "Estado estable: detección espaciada",
+  hidden: "Página oculta o pantalla bloqueada: detección mínima",
+  paused: "Sesión en pausa: detección mínima"
+}
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  justifyContent: "space-between",
+  fontSize: 12,
+  padding: "4px 0",
+  borderBottom: "1px solid rgba(255,255,255,0.06)"
+}
+
+const ACTIVE_EYES_TEXT: Record<ActiveEyes, string> = {
+  both: "Ambos ojos",
+  left: "Solo el izquierdo",
+  right: "Solo el derecho"
+}
+
+const EYE_SIDE_TEXT: Record<EyeSide, string> = {
+  left: "Ojo izquierdo",
+  right: "Ojo derecho"
+}
+
+const pct = (n: number) => `${Math.round(n * 100)}%`
+
+/**
+ * Ritmo efectivo del loop de detección (documento offscreen) frente al
+ * presupuesto de CPU elegido, y el parpadeo medido en cada ojo.
+ */
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ stats, eyes, cpuBudget, disabled, onBudgetChange }) => {
+  const overBudget = stats ? stats.cpuLoad > stats.cpuBudget * 1.1 : false
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8, marginBottom: 12 }}>
+        {CPU_BUDGET_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => void onBudgetChange(option.value)}
+            disabled={disabled}
+            style={{
+              padding: "6px 10px",
+              borderRadius: 8,
+              background: option.value === cpuBudget ? "rgba(96, 165, 250, 0.2)" : "transparent",
+              border: `1px solid ${option.value === cpuBudget ? "rgba(96, 165, 250, 0.6)" : "rgba(255,255,255,0.12)"}`,
+              color: option.value === cpuBudget ? "#93c5fd" : "#cbd5e1",
+              fontSize: 11,
+              fontWeight: 700,
+              cursor: "pointer"
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {!stats ? (
+        <p style={{ fontSize: 12, color: "#94a3b8" }}>Esperando detecciones de la cámara...</p>
+      ) : (
+        <div>
+          <div style={rowStyle}>
+            <span style={{ color: "#94a3b8" }}>Modo</span>
+            <span>{MODE_TEXT[stats.mode]}</span>
+          </div>
+          <div style={rowStyle}>
+            <span style={{ color: "#94a3b8" }}>FPS efectivos</span>
+            <span>{stats.fps.toFixed(1)}</span>
+          </div>
+          <div style={rowStyle}>
+            <span style={{ color: "#94a3b8" }}>Frames descartados (inferencia atrasada)</span>
+            <span>{stats.droppedFrames}</span>
+          </div>
+          <div style={rowStyle}>
+            <span style={{ color: "#94a3b8" }}>CPU estimada / presupuesto</span>
+            <span style={{ color: overBudget ? "#fbbf24" : "#4ade80" }}>
+              {pct(stats.cpuLoad)} / {pct(stats.cpuBudget)}
+            </span>
+          </div>
+          <div style={rowStyle}>
+            <span style={{ color: "#94a3b8" }}>Rostro</span>
+            <span>
+              {Math.round(stats.faceMs)} ms cada {Math.round(stats.faceIntervalMs)} ms
+            </span>
+          </div>
+          <div style={rowStyle}>
+            <span style={{ color: "#94a3b8" }}>Objetos (COCO-SSD)</span>
+            <span>
+              {Math.round(stats.phoneMs)} ms cada {(stats.phoneIntervalMs / 1000).toFixed(1)} s
+            </span>
+          </div>
+          {eyes && (
+            <>
+              <div style={rowStyle}>
+                <span style={{ color: "#94a3b8" }}>Parpadeo con</span>
+                <span style={{ color: eyes.active === "both" ? undefined : "#fbbf24" }}>{ACTIVE_EYES_TEXT[eyes.active]}</span>
+              </div>
+              {(["left", "right"] as EyeSide[]).map((side) => {
+                const eye = eyes[side]
+                return (
+                  <div key={side} style={rowStyle}>
+                    <span style={{ color: "#94a3b8" }}>{EYE_SIDE_TEXT[side]}</span>
+                    <span style={{ color: eye.reliable ? undefined : "#fbbf24" }}>
+                      EAR {eye.ear.toFixed(2)}
+                      {eye.baseline !== null && ` / ${eye.baseline.toFixed(2)}`} · {eye.blinksPerMin}/min · PERCLOS{" "}
+                      {pct(eye.perclos)}
+                      {!eye.reliable && " · no confiable"}
+                    </span>
+                  </div>
+                )
+              })}
+            </>
+          )}
+          {overBudget && (
+            <p style={{ fontSize: 11, color: "#fbbf24", marginTop: 8 }}>
+              La inferencia es lenta incluso al ritmo mínimo; baja la resolución de la cámara.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DiagnosticsPanel
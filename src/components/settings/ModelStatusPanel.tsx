@@ -0,0 +1,82 @@
+import React from "react"
+import type { ModelState, ModelStatus } from "~lib/vision/modelRegistry"
+import type { ModelSlot } from "~lib/vision/modelManifest"
+
+type ModelStatusPanelProps = {
+  models: ModelStatus[] | null
+}
+
+const STATE_TEXT: Record<ModelState, { label: string; color: string }> = {
+  idle: { label: "Sin cargar", color: "#64748b" },
+  verifying: { label: "Verificando archivos", color: "#93c5fd" },
+  loading: { label: "Cargando", color: "#93c5fd" },
+  warming: { label: "Calentando", color: "#93c5fd" },
+  ready: { label: "Listo", color: "#4ade80" },
+  retrying: { label: "Reintentando", color: "#fbbf24" },
+  failed: { label: "Falló", color: "#f87171" }
+}
+
+const SLOT_TEXT: Record<ModelSlot, string> = {
+  face: "Rostro",
+  objects: "Objetos"
+}
+
+const rowStyle: React.CSSProperties = {
+  padding: "6px 0",
+  borderBottom: "1px solid rgba(255,255,255,0.06)"
+}
+
+/**
+ * Estado de los modelos del manifiesto en el worker de inferencia: versión,
+ * intentos, tiempo de carga y el motivo si alguno no cargó.
+ */
+const ModelStatusPanel: React.FC<ModelStatusPanelProps> = ({ models }) => {
+  if (!models) {
+    return <p style={{ fontSize: 12, color: "#94a3b8" }}>Esperando al monitor...</p>
+  }
+
+  // Un slot sin ningún modelo listo ni en camino queda deshabilitado
+  const disabledSlots = (Object.keys(SLOT_TEXT) as ModelSlot[]).filter((slot) => {
+    const inSlot = models.filter((m) => m.slot === slot)
+    return inSlot.some((m) => m.state === "failed") && inSlot.every((m) => m.state === "failed" || m.state === "idle")
+  })
+
+  return (
+    <div>
+      {models.map((model) => {
+        const state = STATE_TEXT[model.state]
+        return (
+          <div key={model.id} style={rowStyle}>
+            <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12 }}>
+              <span>
+                <span style={{ color: "#94a3b8" }}>{SLOT_TEXT[model.slot]} · </span>
+                {model.name}
+              </span>
+              <span style={{ color: state.color, fontWeight: 600 }}>
+                {state.label}
+                {model.attempts > 1 && ` (intento ${model.attempts})`}
+              </span>
+            </div>
+            <div style={{ fontSize: 11, color: "#64748b" }}>
+              {model.version}
+              {model.state === "ready" && model.loadMs !== undefined && ` · cargó en ${(model.loadMs / 1000).toFixed(1)} s`}
+              {model.retryAt !== undefined && ` · próximo intento ${new Date(model.retryAt).toLocaleTimeString()}`}
+            </div>
+            {model.error && model.state !== "ready" && (
+              <div style={{ fontSize: 11, color: "#fca5a5", wordBreak: "break-word" }}>{model.error}</div>
+            )}
+          </div>
+        )
+      })}
+      {disabledSlots.map((slot) => (
+        <p key={slot} style={{ fontSize: 11, color: "#fbbf24", marginTop: 8 }}>
+          {slot === "objects"
+            ? "Detección de objetos deshabilitada: el monitor sigue sin celular ni objetos y la vuelve a probar cada 5 minutos."
+            : "Ningún modelo de rostro cargó; reinstala la extensión o vuelve a bajar los modelos."}
+        </p>
+      ))}
+    </div>
+  )
+}
+
+export default ModelStatusPanel
@@ -0,0 +1,68 @@
+import React from "react"
+import type { PipelineComparisonRow } from "~lib/pipeline/compare"
+import type { PipelineId } from "~lib/pipeline/types"
+
+type PipelineComparisonTableProps = {
+  rows: PipelineComparisonRow[] | null
+  activeId: PipelineId
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: "8px 10px",
+  fontSize: 12,
+  color: "#e2e8f0",
+  borderBottom: "1px solid rgba(255,255,255,0.06)",
+  textAlign: "right"
+}
+
+const headStyle: React.CSSProperties = {
+  ...cellStyle,
+  color: "#94a3b8",
+  fontWeight: 600,
+  fontSize: 11
+}
+
+const PipelineComparisonTable: React.FC<PipelineComparisonTableProps> = ({ rows, activeId }) => {
+  if (!rows || rows.length === 0) {
+    return (
+      <p style={{ fontSize: 12, color: "#94a3b8" }}>
+        Esperando detecciones de la cámara... (el monitor debe estar corriendo y con rostro visible)
+      </p>
+    )
+  }
+
+  return (
+    <table style={{ width: "100%", borderCollapse: "collapse" }}>
+      <thead>
+        <tr>
+          <th style={{ ...headStyle, textAlign: "left" }}>Motor</th>
+          <th style={headStyle}>Foco</th>
+          <th style={headStyle}>Estrés</th>
+          <th style={headStyle}>Fatiga</th>
+          <th style={headStyle}>Distracción</th>
+          <th style={headStyle}>Estado</th>
+          <th style={headStyle}>Atención</th>
+          <th style={headStyle}>Confianza</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.id} style={{ background: row.id === activeId ? "rgba(96, 165, 250, 0.08)" : "transparent" }}>
+            <td style={{ ...cellStyle, textAlign: "left", fontWeight: row.id === activeId ? 700 : 400 }}>
+              {row.label}
+            </td>
+            <td style={cellStyle}>{Math.round(row.focus)}</td>
+            <td style={cellStyle}>{Math.round(row.stress)}</td>
+            <td style={cellStyle}>{Math.round(row.fatigue)}</td>
+            <td style={cellStyle}>{Math.round(row.distraction)}</td>
+            <td style={cellStyle}>{row.dominantState}</td>
+            <td style={cellStyle}>{row.attention}</td>
+            <td style={cellStyle}>{Math.round(row.confidence * 100)}%</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default PipelineComparisonTable
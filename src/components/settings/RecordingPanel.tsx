@@ -0,0 +1,76 @@
+import React, { useState } from "react"
+import type { MonitorCommand, MonitorCommandResult } from "~lib/monitor/protocol"
+import { downloadRecording } from "~lib/replay/download"
+import type { RecorderStatus } from "~lib/replay/recorder"
+
+type RecordingPanelProps = {
+  status: RecorderStatus | null
+  send: (command: MonitorCommand) => Promise<MonitorCommandResult>
+}
+
+/**
+ * Graba el stream de detecciones del monitor en JSONL para reproducirlo sin
+ * cámara (`npm run replay -- archivo.jsonl`).
+ */
+const RecordingPanel: React.FC<RecordingPanelProps> = ({ status, send }) => {
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const hasRecording = Boolean(status?.startedAt)
+
+  const handleStart = async () => {
+    setBusy(true)
+    setError(null)
+    const result = await send({ type: "start_recording" })
+    if (!result.ok) setError(result.error ?? "No se pudo iniciar la grabación")
+    setBusy(false)
+  }
+
+  const handleStop = async () => {
+    setBusy(true)
+    setError(null)
+    const startedAt = status?.startedAt ?? null
+    const result = await send({ type: "stop_recording" })
+    if (result.ok && result.recording) {
+      downloadRecording(result.recording, startedAt)
+    } else {
+      setError(result.error ?? "No se pudo obtener la grabación")
+    }
+    setBusy(false)
+  }
+
+  return (
+    <div>
+      <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
+        <button
+          onClick={() => void (hasRecording ? handleStop() : handleStart())}
+          disabled={busy || !status}
+          style={{
+            padding: "8px 14px",
+            borderRadius: 8,
+            background: hasRecording ? "rgba(239, 68, 68, 0.15)" : "rgba(96, 165, 250, 0.15)",
+            border: hasRecording ? "1px solid rgba(239, 68, 68, 0.4)" : "1px solid rgba(96, 165, 250, 0.4)",
+            color: hasRecording ? "#fca5a5" : "#93c5fd",
+            fontSize: 12,
+            fontWeight: 700,
+            cursor: busy ? "wait" : "pointer"
+          }}
+        >
+          {hasRecording ? "Detener y descargar" : "Grabar detecciones"}
+        </button>
+        {status && hasRecording && (
+          <span style={{ fontSize: 12, color: status.active ? "#4ade80" : "#fbbf24" }}>
+            {status.active ? "● Grabando" : "Tope alcanzado"} · {status.frames} frames
+          </span>
+        )}
+      </div>
+      {status?.truncated && (
+        <p style={{ fontSize: 11, color: "#fbbf24", marginTop: 8 }}>
+          Se alcanzó el máximo de frames; la grabación se detuvo sola. Descárgala para no perderla.
+        </p>
+      )}
+      {error && <p style={{ fontSize: 11, color: "#f87171", marginTop: 8 }}>{error}</p>}
+    </div>
+  )
+}
+
+export default RecordingPanel
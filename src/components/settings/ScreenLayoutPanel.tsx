@@ -0,0 +1,138 @@
+import React, { useState } from "react"
+import type { MonitorCommand, MonitorCommandResult } from "~lib/monitor/protocol"
+import {
+  MAX_SECONDARY_SCREENS,
+  SCREEN_PLACEMENTS,
+  type ScreenLayout,
+  type ScreenPlacement,
+  type SecondaryScreen
+} from "~lib/screenLayout"
+
+type ScreenLayoutPanelProps = {
+  layout: ScreenLayout
+  disabled: boolean
+  onChange: (layout: ScreenLayout) => Promise<void>
+  send: (command: MonitorCommand) => Promise<MonitorCommandResult>
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 8,
+  border: "1px solid rgba(255,255,255,0.12)",
+  background: "rgba(255,255,255,0.04)",
+  color: "white",
+  fontSize: 12
+}
+
+const smallButton = (color: string): React.CSSProperties => ({
+  padding: "6px 10px",
+  borderRadius: 8,
+  background: "transparent",
+  border: `1px solid ${color}`,
+  color,
+  fontSize: 11,
+  fontWeight: 700,
+  cursor: "pointer",
+  whiteSpace: "nowrap"
+})
+
+/**
+ * Monitores secundarios alrededor de la pantalla principal (la de la cámara).
+ * Cada uno se calibra mirándolo unos segundos desde el puesto habitual.
+ */
+const ScreenLayoutPanel: React.FC<ScreenLayoutPanelProps> = ({ layout, disabled, onChange, send }) => {
+  const [calibrating, setCalibrating] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateScreen = (id: string, patch: Partial<SecondaryScreen>) =>
+    onChange({ ...layout, secondaries: layout.secondaries.map((s) => (s.id === id ? { ...s, ...patch } : s)) })
+
+  const addScreen = () =>
+    onChange({
+      ...layout,
+      secondaries: [
+        ...layout.secondaries,
+        {
+          id: crypto.randomUUID(),
+          name: `Pantalla ${layout.secondaries.length + 2}`,
+          placement: "right",
+          headPose: null,
+          calibratedAt: null
+        }
+      ]
+    })
+
+  const removeScreen = (id: string) => onChange({ ...layout, secondaries: layout.secondaries.filter((s) => s.id !== id) })
+
+  const calibrate = async (id: string) => {
+    setError(null)
+    setCalibrating(id)
+    const result = await send({ type: "calibrate_secondary_screen", id })
+    setCalibrating(null)
+    if (!result.ok) setError(result.error ?? "No se pudo calibrar la pantalla")
+  }
+
+  return (
+    <div>
+      <label style={{ display: "flex", gap: 10, alignItems: "center", marginBottom: 12, cursor: "pointer" }}>
+        <input
+          type="checkbox"
+          checked={layout.secondaryOnTask}
+          disabled={disabled}
+          onChange={(e) => void onChange({ ...layout, secondaryOnTask: e.target.checked })}
+        />
+        <span style={{ fontSize: 12 }}>Mirar un monitor secundario cuenta como estar en pantalla</span>
+      </label>
+
+      {layout.secondaries.map((screen) => (
+        <div key={screen.id} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8, flexWrap: "wrap" }}>
+          <input
+            value={screen.name}
+            maxLength={40}
+            disabled={disabled}
+            onChange={(e) => void updateScreen(screen.id, { name: e.target.value })}
+            style={{ ...inputStyle, width: 140 }}
+          />
+          <select
+            value={screen.placement}
+            disabled={disabled}
+            onChange={(e) => void updateScreen(screen.id, { placement: e.target.value as ScreenPlacement })}
+            style={inputStyle}
+          >
+            {Object.entries(SCREEN_PLACEMENTS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <span style={{ fontSize: 11, color: screen.headPose ? "#4ade80" : "#fbbf24", minWidth: 90 }}>
+            {calibrating === screen.id
+              ? "Mira esa pantalla…"
+              : screen.headPose
+                ? `yaw ${screen.headPose.yaw.toFixed(0)}° · pitch ${screen.headPose.pitch.toFixed(0)}°`
+                : "Sin calibrar"}
+          </span>
+          <button
+            onClick={() => void calibrate(screen.id)}
+            disabled={disabled || calibrating !== null}
+            style={smallButton("rgba(96, 165, 250, 0.6)")}
+          >
+            {screen.headPose ? "Recalibrar" : "Calibrar"}
+          </button>
+          <button onClick={() => void removeScreen(screen.id)} disabled={disabled} style={smallButton("rgba(148, 163, 184, 0.4)")}>
+            Quitar
+          </button>
+        </div>
+      ))}
+
+      {layout.secondaries.length < MAX_SECONDARY_SCREENS && (
+        <button onClick={() => void addScreen()} disabled={disabled} style={smallButton("rgba(96, 165, 250, 0.6)")}>
+          Agregar monitor
+        </button>
+      )}
+      {error && <p style={{ fontSize: 11, color: "#f87171", marginTop: 8 }}>{error}</p>}
+    </div>
+  )
+}
+
+export default ScreenLayoutPanel
@@ -0,0 +1,297 @@
+import React from "react"
+import { X } from "lucide-react"
+import CameraPanel from "~components/settings/CameraPanel"
+import DiagnosticsPanel from "~components/settings/DiagnosticsPanel"
+import ModelStatusPanel from "~components/settings/ModelStatusPanel"
+import PipelineComparisonTable from "~components/settings/PipelineComparisonTable"
+import RecordingPanel from "~components/settings/RecordingPanel"
+import ScreenLayoutPanel from "~components/settings/ScreenLayoutPanel"
+import TuningProfilePanel from "~components/settings/TuningProfilePanel"
+import { useMonitor } from "~hooks/useMonitor"
+import { useSettings } from "~hooks/useSettings"
+import { PIPELINES, PIPELINE_IDS } from "~lib/pipeline/registry"
+import { DISTRACTION_OBJECTS, DISTRACTION_OBJECT_IDS } from "~lib/vision/distractionObjects"
+import { EYE_PROFILES, EYE_PROFILE_IDS } from "~lib/vision/eyeProfiles"
+import { VISION_PROVIDERS, VISION_PROVIDER_IDS } from "~lib/vision/providers/registry"
+
+const sectionStyle: React.CSSProperties = {
+  marginBottom: 20,
+  padding: 16,
+  borderRadius: 12,
+  border: "1px solid rgba(255,255,255,0.08)",
+  background: "rgba(255,255,255,0.03)"
+}
+
+/**
+ * Ajustes de la extensión. El motor elegido se guarda en chrome.storage y el
+ * monitor (documento offscreen) lo aplica sin reiniciar la cámara.
+ */
+const SettingsView = () => {
+  const { settings, loaded, update } = useSettings()
+  const { snapshot, send } = useMonitor(true)
+
+  const activeId = snapshot?.pipelineId ?? settings.pipelineId
+  const camera = snapshot?.camera
+
+  return (
+    <div style={{ minHeight: "100vh", height: "100vh", overflowY: "auto", background: "#0b1220", color: "white" }}>
+      <div
+        style={{
+          padding: "16px 20px",
+          borderBottom: "1px solid rgba(255,255,255,0.08)",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between"
+        }}
+      >
+        <div>
+          <p style={{ fontSize: 16, fontWeight: 700, color: "#60a5fa" }}>Ajustes</p>
+          <p style={{ fontSize: 12, color: "#94a3b8" }}>Motor cognitivo, comparación y grabación</p>
+        </div>
+        <button
+          onClick={() => window.close()}
+          style={{
+            padding: 8,
+            borderRadius: 8,
+            background: "rgba(148, 163, 184, 0.12)",
+            border: "1px solid rgba(148, 163, 184, 0.35)",
+            cursor: "pointer",
+            display: "flex"
+          }}
+          title="Cerrar"
+        >
+          <X size={16} color="#cbd5e1" />
+        </button>
+      </div>
+
+      <div style={{ padding: 20, maxWidth: 860 }}>
+        <div style={sectionStyle}>
+          <p style={{ fontSize: 13, fontWeight: 700, marginBottom: 12 }}>Motor cognitivo activo</p>
+          {PIPELINE_IDS.map((id) => (
+            <label
+              key={id}
+              style={{ display: "flex", gap: 10, alignItems: "flex-start", marginBottom: 10, cursor: "pointer" }}
+            >
+              <input
+                type="radio"
+                name="pipeline"
+                checked={settings.pipelineId === id}
+                disabled={!loaded}
+                onChange={() => void update({ pipelineId: id })}
+                style={{ marginTop: 3 }}
+              />
+              <span>
+                <span style={{ fontSize: 13, fontWeight: 600 }}>{PIPELINES[id].label}</span>
+                <span style={{ display: "block", fontSize: 11, color: "#94a3b8" }}>{PIPELINES[id].description}</span>
+              </span>
+            </label>
+          ))}
+          {snapshot && snapshot.pipelineId !== settings.pipelineId && (
+            <p style={{ fontSize: 11, color: "#fbbf24" }}>Aplicando cambio en el monitor...</p>
+          )}
+        </div>
+
+        <div style={sectionStyle}>
+          <label style={{ display: "flex", gap: 10, alignItems: "center", marginBottom: 12, cursor: "pointer" }}>
+            <input
+              type="checkbox"
+              checked={settings.comparePipelines}
+              disabled={!loaded}
+              onChange={(e) => void update({ comparePipelines: e.target.checked })}
+            />
+            <span style={{ fontSize: 13, fontWeight: 700 }}>Comparar motores en vivo</span>
+          </label>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12 }}>
+            Corre todos los motores sobre la misma detección. Solo el activo alimenta la sesión y los nudges.
+          </p>
+          {settings.comparePipelines && (
+            <PipelineComparisonTable rows={snapshot?.comparison ?? null} activeId={activeId} />
+          )}
+        </div>
+
+        <div style={sectionStyle}>
+          <p style={{ fontSize: 13, fontWeight: 700, marginBottom: 6 }}>Detección de rostro</p>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12 }}>
+            Los modelos van dentro de la extensión; el cambio se aplica sin cortar la cámara. Conviene recalibrar después
+            de cambiar, porque cada modelo mide los ojos y las expresiones a su manera.
+          </p>
+          {VISION_PROVIDER_IDS.map((id) => (
+            <label
+              key={id}
+              style={{ display: "flex", gap: 10, alignItems: "flex-start", marginBottom: 10, cursor: "pointer" }}
+            >
+              <input
+                type="radio"
+                name="visionProvider"
+                checked={settings.visionProvider === id}
+                disabled={!loaded}
+                onChange={() => void update({ visionProvider: id })}
+                style={{ marginTop: 3 }}
+              />
+              <span>
+                <span style={{ fontSize: 13, fontWeight: 600 }}>{VISION_PROVIDERS[id].label}</span>
+                <span style={{ display: "block", fontSize: 11, color: "#94a3b8" }}>{VISION_PROVIDERS[id].description}</span>
+              </span>
+            </label>
+          ))}
+          {camera?.visionFallback ? (
+            <p style={{ fontSize: 11, color: "#fbbf24" }}>
+              {VISION_PROVIDERS[settings.visionProvider].label} no se pudo cargar en este equipo; se usa{" "}
+              {VISION_PROVIDERS[camera.visionProvider ?? "face-api"].label}.
+            </p>
+          ) : (
+            camera?.state === "running" &&
+            camera.visionProvider &&
+            camera.visionProvider !== settings.visionProvider && (
+              <p style={{ fontSize: 11, color: "#fbbf24" }}>Cargando el modelo en el monitor...</p>
+            )
+          )}
+        </div>
+
+        <div style={sectionStyle}>
+          <p style={{ fontSize: 13, fontWeight: 700, marginBottom: 6 }}>Ojos</p>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12 }}>
+            Cada ojo tiene su propio umbral de parpadeo. Si uno se tapa o refleja, se sigue con el otro. Al cambiar de
+            perfil los umbrales se vuelven a aprender durante unos segundos.
+          </p>
+          {EYE_PROFILE_IDS.map((id) => (
+            <label
+              key={id}
+              style={{ display: "flex", gap: 10, alignItems: "flex-start", marginBottom: 10, cursor: "pointer" }}
+            >
+              <input
+                type="radio"
+                name="eyeProfile"
+                checked={settings.eyeProfile === id}
+                disabled={!loaded}
+                onChange={() => void update({ eyeProfile: id })}
+                style={{ marginTop: 3 }}
+              />
+              <span>
+                <span style={{ fontSize: 13, fontWeight: 600 }}>{EYE_PROFILES[id].label}</span>
+                <span style={{ display: "block", fontSize: 11, color: "#94a3b8" }}>{EYE_PROFILES[id].description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div style={sectionStyle}>
+          <p style={{ fontSize: 13, fontWeight: 700, marginBottom: 6 }}>Objetos en cámara</p>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12 }}>
+            Un objeto cuenta cuando aparece en 2 de las últimas 3 búsquedas. El resumen de la sesión muestra cuánto tiempo
+            estuvo cada uno a la vista.
+          </p>
+          {DISTRACTION_OBJECT_IDS.map((id) => (
+            <label
+              key={id}
+              style={{ display: "flex", gap: 10, alignItems: "flex-start", marginBottom: 8, cursor: "pointer" }}
+            >
+              <input
+                type="checkbox"
+                checked={settings.distractionObjects.includes(id)}
+                disabled={!loaded}
+                onChange={(e) =>
+                  void update({
+                    distractionObjects: e.target.checked
+                      ? [...settings.distractionObjects, id]
+                      : settings.distractionObjects.filter((other) => other !== id)
+                  })
+                }
+                style={{ marginTop: 2 }}
+              />
+              <span>
+                <span style={{ fontSize: 12, fontWeight: 600 }}>{DISTRACTION_OBJECTS[id].label}</span>
+                <span style={{ display: "block", fontSize: 11, color: "#94a3b8" }}>{DISTRACTION_OBJECTS[id].description}</span>
+              </span>
+            </label>
+          ))}
+          {(snapshot?.data?.objects ?? []).length > 0 && (
+            <p style={{ fontSize: 11, color: "#cbd5e1", marginTop: 4 }}>
+              Ahora:{" "}
+              {snapshot.data.objects
+                .map(
+                  (o) =>
+                    `${DISTRACTION_OBJECTS[o.id].label}${o.inUse === undefined ? "" : o.inUse ? " en uso" : " apoyado"} (${Math.round(o.dwellMs / 1000)} s)`
+                )
+                .join(", ")}
+            </p>
+          )}
+        </div>
+
+        <div style={sectionStyle}>
+          <p style={{ fontSize: 13, fontWeight: 700, marginBottom: 6 }}>Cámara</p>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12 }}>
+            Si la cámara se desconecta, el monitor sigue con la predeterminada y vuelve a la elegida cuando se conecta. Menos
+            resolución o fps alivian equipos lentos.
+          </p>
+          <CameraPanel
+            prefs={settings.camera}
+            camera={snapshot?.camera ?? null}
+            profiles={snapshot?.calibrationProfiles.profiles ?? []}
+            disabled={!loaded}
+            onChange={(camera) => update({ camera })}
+          />
+        </div>
+
+        <div style={sectionStyle}>
+          <p style={{ fontSize: 13, fontWeight: 700, marginBottom: 6 }}>Diagnóstico</p>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12 }}>
+            La detección se adapta a la CPU: se acelera cuando cambia tu estado y se espacia cuando está estable o la
+            sesión está en pausa.
+          </p>
+          <DiagnosticsPanel
+            stats={snapshot?.detection ?? null}
+            eyes={snapshot?.data?.eyeState.eyes ?? null}
+            cpuBudget={settings.cpuBudget}
+            disabled={!loaded}
+            onBudgetChange={(cpuBudget) => update({ cpuBudget })}
+          />
+        </div>
+
+        <div style={sectionStyle}>
+          <p style={{ fontSize: 13, fontWeight: 700, marginBottom: 6 }}>Modelos</p>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12 }}>
+            Antes de cargar, los archivos se comparan con el manifiesto (tamaño y sha256). Si un modelo falla se reintenta
+            y, si no carga, se pasa al siguiente: MediaPipe → face-api para el rostro, COCO-SSD → sin objetos.
+          </p>
+          <ModelStatusPanel models={camera?.models ?? null} />
+        </div>
+
+        <div style={sectionStyle}>
+          <p style={{ fontSize: 13, fontWeight: 700, marginBottom: 6 }}>Pantallas</p>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12 }}>
+            La pantalla principal es la de la cámara. Agrega tus otros monitores y calibra cada uno mirándolo unos
+            segundos desde tu postura habitual; así mirarlos no se cuenta como mirar a un lado.
+          </p>
+          <ScreenLayoutPanel
+            layout={settings.screenLayout}
+            disabled={!loaded}
+            onChange={(screenLayout) => update({ screenLayout })}
+            send={send}
+          />
+        </div>
+
+        <div style={sectionStyle}>
+          <p style={{ fontSize: 13, fontWeight: 700, marginBottom: 6 }}>Grabación para replay</p>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12 }}>
+            Guarda las detecciones de la cámara en un archivo JSONL. Con{" "}
+            <code>npm run replay -- archivo.jsonl</code> se reproducen sin cámara para ajustar umbrales y
+            suavizado.
+          </p>
+          <RecordingPanel status={snapshot?.recording ?? null} send={send} />
+        </div>
+
+        <div style={sectionStyle}>
+          <p style={{ fontSize: 13, fontWeight: 700, marginBottom: 6 }}>Perfil de ajuste</p>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12 }}>
+            Umbrales ajustados a tus grabaciones etiquetadas con <code>npm run tune -- archivo.jsonl</code>. Reemplaza
+            los valores por defecto de atención, postura, zonas de mirada y suavizado.
+          </p>
+          <TuningProfilePanel />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SettingsView
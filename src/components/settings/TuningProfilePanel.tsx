@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from "react"
+import { TuningProfileError, parseTuningProfile, type TuningProfile } from "~lib/tuning/profile"
+import { loadTuningProfile, saveTuningProfile, watchTuningProfile } from "~lib/tuning/storage"
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`
+
+const countOverrides = (profile: TuningProfile) => {
+  const count = (value: unknown): number =>
+    value && typeof value === "object"
+      ? Object.values(value).reduce<number>((acc, child) => acc + count(child), 0)
+      : typeof value === "number"
+        ? 1
+        : 0
+  return count(profile.overrides) + count(profile.smoothing)
+}
+
+/**
+ * Importa el perfil generado por `npm run tune`. Se guarda en chrome.storage y
+ * el monitor lo aplica en caliente (pipeline y smoother).
+ */
+const TuningProfilePanel = () => {
+  const [profile, setProfile] = useState<TuningProfile | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    void loadTuningProfile().then(setProfile)
+    return watchTuningProfile(setProfile)
+  }, [])
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    try {
+      const next = parseTuningProfile(await file.text())
+      await saveTuningProfile(next)
+    } catch (err) {
+      setError(err instanceof TuningProfileError ? err.message : "No se pudo leer el archivo")
+    } finally {
+      if (inputRef.current) inputRef.current.value = ""
+    }
+  }
+
+  return (
+    <div>
+      {profile ? (
+        <div style={{ fontSize: 12, color: "#cbd5e1", marginBottom: 12 }}>
+          <p style={{ marginBottom: 4 }}>
+            <span style={{ color: "#4ade80", fontWeight: 700 }}>● Activo</span> · {countOverrides(profile)} ajustes ·
+            motor {profile.pipelineId}
+            {profile.createdAt > 0 && <> · {new Date(profile.createdAt).toLocaleDateString()}</>}
+          </p>
+          {profile.fit && (
+            <p style={{ fontSize: 11, color: "#94a3b8" }}>
+              Accuracy {pct(profile.fit.before.accuracy)} → {pct(profile.fit.after.accuracy)} sobre{" "}
+              {profile.fit.labeledFrames} frames etiquetados ({profile.fit.recordings} grabaciones)
+            </p>
+          )}
+        </div>
+      ) : (
+        <p style={{ fontSize: 12, color: "#94a3b8", marginBottom: 12 }}>Sin perfil: se usan los umbrales por defecto.</p>
+      )}
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <button
+          onClick={() => inputRef.current?.click()}
+          style={{
+            padding: "8px 14px",
+            borderRadius: 8,
+            background: "rgba(96, 165, 250, 0.15)",
+            border: "1px solid rgba(96, 165, 250, 0.4)",
+            color: "#93c5fd",
+            fontSize: 12,
+            fontWeight: 700,
+            cursor: "pointer"
+          }}
+        >
+          {profile ? "Reemplazar perfil" : "Importar perfil"}
+        </button>
+        {profile && (
+          <button
+            onClick={() => void saveTuningProfile(null)}
+            style={{
+              padding: "8px 14px",
+              borderRadius: 8,
+              background: "transparent",
+              border: "1px solid rgba(255,255,255,0.12)",
+              color: "#94a3b8",
+              fontSize: 12,
+              cursor: "pointer"
+            }}
+          >
+            Quitar
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(e) => void handleFile(e.target.files?.[0])}
+        />
+      </div>
+      {error && <p style={{ fontSize: 11, color: "#f87171", marginTop: 8 }}>{error}</p>}
+    </div>
+  )
+}
+
+export default TuningProfilePanel
@@ -0,0 +1,66 @@
+import React from "react"
+import type { AdaptationHold, BaselineDriftStatus } from "~lib/baselineAdapter"
+
+type BaselineDriftIndicatorProps = {
+  drift: BaselineDriftStatus
+}
+
+const HOLD_TEXT: Record<AdaptationHold, string> = {
+  warming_up: "esperando un tramo estable",
+  off_screen: "en pausa: mirada fuera de pantalla",
+  low_quality: "en pausa: detección poco confiable",
+  low_focus: "en pausa: foco bajo",
+  stress: "en pausa: estrés alto",
+  fatigue: "en pausa: fatiga alta",
+  eyes: "en pausa: ojos cerrados o parpadeo sostenido",
+  drift_limit: "tope de corrimiento alcanzado"
+}
+
+const signed = (value: number, digits = 1) => `${value > 0 ? "+" : ""}${value.toFixed(digits)}`
+
+/**
+ * Cuánto se corrió el baseline adaptado respecto de la calibración y si el
+ * adaptador está aprendiendo ahora o por qué está en pausa.
+ */
+const BaselineDriftIndicator: React.FC<BaselineDriftIndicatorProps> = ({ drift }) => {
+  const items = [
+    { label: "Yaw", value: `${signed(drift.yaw)}°` },
+    { label: "Pitch", value: `${signed(drift.pitch)}°` },
+    { label: "Mirada", value: `${signed(drift.gazeX * 100, 0)}% / ${signed(drift.gazeY * 100, 0)}%` },
+    { label: "EAR", value: drift.ear === null ? "—" : `${signed(drift.ear * 100, 0)}%` },
+    { label: "Parpadeo", value: `${signed(drift.blinkRate)}/min` }
+  ]
+  const color = drift.atLimit ? "#fbbf24" : drift.adapting ? "#4ade80" : "#94a3b8"
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: "8px 12px",
+        borderRadius: 12,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(255,255,255,0.03)",
+        fontSize: 11
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 6 }}>
+        <span style={{ color: "#94a3b8" }}>Baseline adaptativo</span>
+        <span style={{ color }}>{drift.adapting ? "● adaptando" : HOLD_TEXT[drift.hold]}</span>
+      </div>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "4px 12px", color: "#cbd5e1" }}>
+        {items.map((item) => (
+          <span key={item.label}>
+            <span style={{ color: "#64748b" }}>{item.label}</span> {item.value}
+          </span>
+        ))}
+      </div>
+      {drift.atLimit && (
+        <p style={{ marginTop: 6, color: "#fbbf24" }}>
+          El baseline se alejó mucho de la calibración; conviene recalibrar.
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default BaselineDriftIndicator
@@ -1,13 +1,102 @@
 import React from "react"
-import type { CalibrationState } from "~lib/calibration"
+import type { CalibrationIssueCode, CalibrationState, CalibrationStepStatus, CalibrationValidation } from "~lib/calibration"
 
 type CalibrationBannerProps = {
   calState: CalibrationState
   onStartCalibration: () => void
 }
 
+const ISSUE_TEXT: Record<CalibrationIssueCode, string> = {
+  few_samples: "Casi no hubo detecciones del rostro.",
+  low_quality: "La calidad de imagen fue baja (luz o encuadre).",
+  head_movement: "La cabeza se movió mucho mientras mirabas la pantalla.",
+  gaze_unstable: "La mirada no se mantuvo en el centro.",
+  ear_unstable: "La apertura de ojos varió mucho (entrecerrar, mirar abajo).",
+  gaze_range: "No se distinguieron las esquinas: se usa la mirada sin corregir."
+}
+
+// Pantalla en miniatura con el punto a mirar
+const StepTarget: React.FC<{ step: CalibrationStepStatus }> = ({ step }) => (
+  <div
+    style={{
+      position: "relative",
+      width: 64,
+      height: 40,
+      flexShrink: 0,
+      borderRadius: 6,
+      border: "1px solid rgba(148, 163, 184, 0.4)",
+      background: "rgba(15, 23, 42, 0.6)"
+    }}
+  >
+    {step.target ? (
+      <div
+        style={{
+          position: "absolute",
+          left: `calc(${step.target.x * 100}% - 4px)`,
+          top: `calc(${step.target.y * 100}% - 4px)`,
+          width: 8,
+          height: 8,
+          borderRadius: 999,
+          background: "#60a5fa",
+          boxShadow: "0 0 8px rgba(96, 165, 250, 0.8)",
+          transition: "left 0.3s ease, top 0.3s ease"
+        }}
+      />
+    ) : (
+      <div style={{ position: "absolute", inset: 0, display: "grid", placeItems: "center", fontSize: 16 }}>👀</div>
+    )}
+  </div>
+)
+
+const ValidationNotice: React.FC<{ validation: CalibrationValidation; onRetry: () => void }> = ({ validation, onRetry }) => {
+  const rejected = validation.verdict === "reject"
+  const color = rejected ? "#f87171" : "#fbbf24"
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: "10px 12px",
+        borderRadius: 12,
+        border: `1px solid ${rejected ? "rgba(248, 113, 113, 0.35)" : "rgba(251, 191, 36, 0.35)"}`,
+        background: rejected ? "rgba(239, 68, 68, 0.08)" : "rgba(251, 191, 36, 0.08)",
+        fontSize: 11
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8, marginBottom: 6 }}>
+        <span style={{ fontWeight: 700, color }}>
+          {rejected ? "La calibración no fue válida" : "Calibración aceptada con avisos"}
+        </span>
+        <button
+          onClick={onRetry}
+          style={{
+            padding: "4px 8px",
+            borderRadius: 6,
+            background: "transparent",
+            border: `1px solid ${color}`,
+            color,
+            fontSize: 11,
+            fontWeight: 700,
+            cursor: "pointer",
+            whiteSpace: "nowrap"
+          }}
+        >
+          Repetir
+        </button>
+      </div>
+      <ul style={{ margin: 0, paddingLeft: 16, color: "#cbd5e1" }}>
+        {validation.issues.map((issue) => (
+          <li key={issue.code}>{ISSUE_TEXT[issue.code]}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
 const CalibrationBanner: React.FC<CalibrationBannerProps> = ({ calState, onStartCalibration }) => {
   if (!calState.isCalibrating) {
+    if (calState.validation && calState.validation.verdict !== "ok") {
+      return <ValidationNotice validation={calState.validation} onRetry={onStartCalibration} />
+    }
     return (
       <div style={{ display: "flex", justifyContent: "flex-end", marginBottom: 16 }}>
         <button
@@ -30,6 +119,8 @@ const CalibrationBanner: React.FC<CalibrationBannerProps> = ({ calState, onStart
     )
   }
 
+  const step = calState.step
+
   return (
     <div
       style={{
@@ -41,9 +132,13 @@ const CalibrationBanner: React.FC<CalibrationBannerProps> = ({ calState, onStart
         boxShadow: "0 4px 12px rgba(59, 130, 246, 0.1)"
       }}
     >
-      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 10 }}>
-        <div>
-          <div style={{ fontWeight: 700, fontSize: 14, color: "white", marginBottom: 4 }}>Calibrando...</div>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10, marginBottom: 10 }}>
+        {step && <StepTarget step={step} />}
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ fontWeight: 700, fontSize: 14, color: "white", marginBottom: 4 }}>
+            {step ? `Calibrando · paso ${step.index + 1}/${step.total}` : "Calibrando..."}
+          </div>
+          {step && <div style={{ fontSize: 12, color: "#e2e8f0", marginBottom: 4 }}>{step.instruction}</div>}
           <div style={{ fontSize: 11, color: "#94a3b8" }}>
             {calState.message || `${calState.secondsRemaining}s • ${calState.samples}/${calState.targetSamples} muestras`}
           </div>
@@ -0,0 +1,170 @@
+import React, { useState } from "react"
+import type { ProfileRefreshReason } from "~lib/calibrationProfiles"
+import type { CalibrationProfilesStatus, MonitorCommand, MonitorCommandResult } from "~lib/monitor/protocol"
+import type { GazeModel } from "~lib/vision/gazeMapping"
+
+type CalibrationProfilesPanelProps = {
+  status: CalibrationProfilesStatus
+  // Modelo de mirada multipunto del baseline en uso
+  gazeModel: GazeModel | null
+  onRecalibrate: () => void
+  send: (command: MonitorCommand) => Promise<MonitorCommandResult>
+}
+
+const REFRESH_TEXT: Record<ProfileRefreshReason, string> = {
+  expired: "La calibración de este perfil venció.",
+  lighting: "La iluminación cambió desde que calibraste este perfil.",
+  posture: "Tu postura o distancia a la cámara cambió desde la calibración."
+}
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: "6px 8px",
+  borderRadius: 8,
+  border: "1px solid rgba(255,255,255,0.12)",
+  background: "rgba(255,255,255,0.04)",
+  color: "white",
+  fontSize: 11
+}
+
+const openGazeCalibration = () => chrome.tabs.create({ url: chrome.runtime.getURL("tabs/gaze-calibration.html") })
+
+/**
+ * Perfil de calibración en uso: cambiar a otro guardado, guardar el baseline
+ * actual con nombre ("escritorio", "noche"...), calibrar la mirada del perfil
+ * y aviso cuando toca recalibrar.
+ */
+const CalibrationProfilesPanel: React.FC<CalibrationProfilesPanelProps> = ({ status, gazeModel, onRecalibrate, send }) => {
+  const [name, setName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const { active, profiles, refresh } = status
+
+  const run = async (command: MonitorCommand) => {
+    setError(null)
+    const result = await send(command)
+    if (!result.ok) setError(result.error ?? "No se pudo actualizar el perfil")
+    return result.ok
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+    if (await run({ type: "save_calibration_profile", name: name.trim() })) setName("")
+  }
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: "10px 12px",
+        borderRadius: 12,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(255,255,255,0.03)"
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8 }}>
+        <span style={{ fontSize: 11, color: "#94a3b8" }}>Perfil</span>
+        <select
+          value={active?.id ?? ""}
+          onChange={(e) => e.target.value && void run({ type: "use_calibration_profile", id: e.target.value })}
+          style={inputStyle}
+        >
+          {!active && <option value="">Sin guardar</option>}
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+              {profile.cameraLabel ? ` · ${profile.cameraLabel}` : ""}
+              {profile.expired ? " (vencido)" : ""}
+            </option>
+          ))}
+        </select>
+        {active && (
+          <button
+            onClick={() => void run({ type: "delete_calibration_profile", id: active.id })}
+            title="Borrar perfil"
+            style={{ background: "transparent", border: "none", color: "#64748b", fontSize: 11, cursor: "pointer" }}
+          >
+            Borrar
+          </button>
+        )}
+      </div>
+
+      <div style={{ display: "flex", gap: 6 }}>
+        <input
+          value={name}
+          maxLength={40}
+          placeholder="Guardar como… (escritorio, noche)"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && void handleSave()}
+          style={inputStyle}
+        />
+        <button
+          onClick={() => void handleSave()}
+          disabled={!name.trim()}
+          style={{
+            padding: "6px 10px",
+            borderRadius: 8,
+            background: "rgba(96, 165, 250, 0.15)",
+            border: "1px solid rgba(96, 165, 250, 0.4)",
+            color: "#93c5fd",
+            fontSize: 11,
+            fontWeight: 700,
+            cursor: name.trim() ? "pointer" : "default"
+          }}
+        >
+          Guardar
+        </button>
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8, marginTop: 8 }}>
+        <span style={{ fontSize: 11, color: "#94a3b8" }}>
+          Mirada:{" "}
+          {gazeModel
+            ? `${gazeModel.points} puntos · error ≈ ${(gazeModel.accuracy.crossValidatedError * 100).toFixed(1)}% de pantalla`
+            : "sin calibrar"}
+        </span>
+        <button
+          onClick={openGazeCalibration}
+          style={{ background: "transparent", border: "none", color: "#93c5fd", fontSize: 11, fontWeight: 700, cursor: "pointer" }}
+        >
+          {gazeModel ? "Repetir" : "Calibrar mirada"}
+        </button>
+      </div>
+
+      {refresh && (
+        <div
+          style={{
+            marginTop: 8,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: 8,
+            fontSize: 11,
+            color: "#fbbf24"
+          }}
+        >
+          <span>{REFRESH_TEXT[refresh]}</span>
+          <button
+            onClick={onRecalibrate}
+            style={{
+              padding: "4px 8px",
+              borderRadius: 6,
+              background: "rgba(251, 191, 36, 0.12)",
+              border: "1px solid rgba(251, 191, 36, 0.35)",
+              color: "#fbbf24",
+              fontSize: 11,
+              fontWeight: 700,
+              cursor: "pointer",
+              whiteSpace: "nowrap"
+            }}
+          >
+            Recalibrar
+          </button>
+        </div>
+      )}
+      {error && <p style={{ fontSize: 11, color: "#f87171", marginTop: 8 }}>{error}</p>}
+    </div>
+  )
+}
+
+export default CalibrationProfilesPanel
@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from "react"
+import type { CameraStatus } from "~lib/monitor/protocol"
+
+type CameraPreviewProps = {
+  status: CameraStatus | null
+  width?: number
+  height?: number
+  // Se llama cuando el panel obtiene la cámara (el permiso ya quedó concedido)
+  onCameraReady?: () => void
+  onRetryMonitorCamera: () => void
+}
+
+/**
+ * Vista previa de la cámara en el side panel. La detección corre en el
+ * documento offscreen; este stream es solo visual y de paso sirve para
+ * pedir el permiso de cámara, que un documento offscreen no puede mostrar.
+ */
+const CameraPreview: React.FC<CameraPreviewProps> = ({
+  status,
+  width = 368,
+  height = 240,
+  onCameraReady,
+  onRetryMonitorCamera
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+
+  const stopStream = () => {
+    if (!streamRef.current) return
+    for (const track of streamRef.current.getTracks()) track.stop()
+    streamRef.current = null
+  }
+
+  const startPreview = async () => {
+    try {
+      stopStream()
+      setPreviewError(null)
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { width: 640, height: 480, facingMode: "user" }
+      })
+      streamRef.current = stream
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream
+        void videoRef.current.play().catch(() => {})
+      }
+      onCameraReady?.()
+    } catch (err) {
+      const errorName = err instanceof Error ? err.name : ""
+      setPreviewError(
+        errorName === "NotAllowedError"
+          ? "Permiso de cámara bloqueado o descartado. Habilítalo y pulsa Reintentar."
+          : "No se pudo mostrar la vista previa de la cámara."
+      )
+    }
+  }
+
+  useEffect(() => {
+    void startPreview()
+    return () => stopStream()
+  }, [])
+
+  const monitorMessage =
+    status?.state === "loading"
+      ? "⏳ Cargando modelos de IA..."
+      : status?.state === "starting"
+        ? "📹 Inicializando cámara..."
+        : null
+
+  return (
+    <div style={{ position: "relative" }}>
+      <div
+        style={{
+          width,
+          height,
+          borderRadius: 14,
+          overflow: "hidden",
+          position: "relative",
+          border: "1px solid rgba(255,255,255,0.10)",
+          background: "rgba(255,255,255,0.04)"
+        }}
+      >
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          style={{ width: "100%", height: "100%", objectFit: "cover", transform: "scaleX(-1)" }}
+        />
+      </div>
+
+      {monitorMessage && (
+        <div
+          style={{
+            color: "#60a5fa",
+            padding: "10px",
+            background: "rgba(96, 165, 250, 0.1)",
+            borderRadius: "8px",
+            fontSize: "12px",
+            marginTop: 10
+          }}
+        >
+          {monitorMessage}
+        </div>
+      )}
+
+      {(previewError || status?.state === "error") && (
+        <div
+          style={{
+            color: "#fca5a5",
+            padding: "10px",
+            background: "rgba(239, 68, 68, 0.1)",
+            borderRadius: "8px",
+            fontSize: "12px",
+            marginTop: 10,
+            border: "1px solid rgba(239, 68, 68, 0.25)"
+          }}
+        >
+          <div style={{ marginBottom: 8 }}>{previewError ?? status?.error}</div>
+          <button
+            onClick={() => {
+              if (previewError) void startPreview()
+              onRetryMonitorCamera()
+            }}
+            style={{
+              padding: "6px 10px",
+              borderRadius: 8,
+              border: "1px solid rgba(239, 68, 68, 0.4)",
+              background: "rgba(239, 68, 68, 0.15)",
+              color: "#fecaca",
+              cursor: "pointer",
+              fontSize: 11,
+              fontWeight: 600
+            }}
+          >
+            Reintentar cámara
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CameraPreview
@@ -0,0 +1,180 @@
+import React, { useState } from "react"
+import type { MonitorCommand, MonitorCommandResult } from "~lib/monitor/protocol"
+import { downloadRecording } from "~lib/replay/download"
+import { ATTENTION_LABELS, type AttentionLabel } from "~lib/replay/labels"
+import type { RecorderStatus } from "~lib/replay/recorder"
+
+type LabelingPanelProps = {
+  status: RecorderStatus | null
+  send: (command: MonitorCommand) => Promise<MonitorCommandResult>
+}
+
+const LABEL_IDS = Object.keys(ATTENTION_LABELS) as AttentionLabel[]
+
+/**
+ * Modo etiquetado: graba las detecciones y deja marcar qué estaba haciendo el
+ * usuario realmente, para evaluar la atención con `npm run evaluate`.
+ */
+const LabelingPanel: React.FC<LabelingPanelProps> = ({ status, send }) => {
+  const [open, setOpen] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const recording = Boolean(status?.active)
+
+  const run = async (command: MonitorCommand) => {
+    setBusy(true)
+    setError(null)
+    const result = await send(command)
+    if (!result.ok) setError(result.error ?? "No se pudo completar la acción")
+    setBusy(false)
+    return result
+  }
+
+  const handleStart = async () => {
+    const result = await run({ type: "start_recording" })
+    if (result.ok) await run({ type: "set_label", label: "reading" })
+  }
+
+  const handleFinish = async () => {
+    const startedAt = status?.startedAt ?? null
+    const result = await run({ type: "stop_recording" })
+    if (result.ok && result.recording) downloadRecording(result.recording, startedAt)
+  }
+
+  if (!open && !recording) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        style={{
+          width: "100%",
+          marginBottom: 12,
+          padding: "8px 12px",
+          borderRadius: 10,
+          border: "1px dashed rgba(148, 163, 184, 0.35)",
+          background: "transparent",
+          color: "#94a3b8",
+          fontSize: 11,
+          cursor: "pointer"
+        }}
+      >
+        Modo etiquetado (evaluar atención)
+      </button>
+    )
+  }
+
+  return (
+    <div
+      style={{
+        marginBottom: 12,
+        padding: "10px 12px",
+        borderRadius: 10,
+        border: "1px solid rgba(139, 92, 246, 0.35)",
+        background: "rgba(139, 92, 246, 0.08)"
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+        <span style={{ fontSize: 12, fontWeight: 700, color: "#c4b5fd" }}>
+          {recording ? `● Etiquetando · ${status?.frames ?? 0} frames` : "Modo etiquetado"}
+        </span>
+        {!recording && (
+          <button
+            onClick={() => setOpen(false)}
+            style={{ background: "transparent", border: "none", color: "#94a3b8", fontSize: 11, cursor: "pointer" }}
+          >
+            Cerrar
+          </button>
+        )}
+      </div>
+
+      {!recording ? (
+        <>
+          <p style={{ fontSize: 11, color: "#94a3b8", marginBottom: 8 }}>
+            Marca lo que realmente estás haciendo mientras se graba. Al terminar se descarga un archivo para evaluar
+            el clasificador de atención.
+          </p>
+          <button
+            onClick={() => void handleStart()}
+            disabled={busy}
+            style={{
+              padding: "6px 12px",
+              borderRadius: 8,
+              background: "rgba(139, 92, 246, 0.2)",
+              border: "1px solid rgba(139, 92, 246, 0.45)",
+              color: "#ddd6fe",
+              fontSize: 11,
+              fontWeight: 700,
+              cursor: busy ? "wait" : "pointer"
+            }}
+          >
+            Empezar a grabar
+          </button>
+        </>
+      ) : (
+        <>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6, marginBottom: 8 }}>
+            {LABEL_IDS.map((id) => {
+              const selected = status?.label === id
+              return (
+                <button
+                  key={id}
+                  onClick={() => void run({ type: "set_label", label: id })}
+                  disabled={busy}
+                  style={{
+                    padding: "6px 8px",
+                    borderRadius: 8,
+                    background: selected ? "rgba(139, 92, 246, 0.35)" : "rgba(255,255,255,0.04)",
+                    border: selected ? "1px solid rgba(196, 181, 253, 0.7)" : "1px solid rgba(255,255,255,0.1)",
+                    color: selected ? "#f5f3ff" : "#cbd5e1",
+                    fontSize: 11,
+                    fontWeight: selected ? 700 : 500,
+                    cursor: "pointer"
+                  }}
+                >
+                  {ATTENTION_LABELS[id].text}
+                </button>
+              )
+            })}
+          </div>
+          <div style={{ display: "flex", gap: 6 }}>
+            <button
+              onClick={() => void run({ type: "set_label", label: null })}
+              disabled={busy || !status?.label}
+              style={{
+                flex: 1,
+                padding: "6px 8px",
+                borderRadius: 8,
+                background: "transparent",
+                border: "1px solid rgba(255,255,255,0.1)",
+                color: "#94a3b8",
+                fontSize: 11,
+                cursor: "pointer"
+              }}
+            >
+              Sin etiqueta
+            </button>
+            <button
+              onClick={() => void handleFinish()}
+              disabled={busy}
+              style={{
+                flex: 1,
+                padding: "6px 8px",
+                borderRadius: 8,
+                background: "rgba(239, 68, 68, 0.15)",
+                border: "1px solid rgba(239, 68, 68, 0.4)",
+                color: "#fca5a5",
+                fontSize: 11,
+                fontWeight: 700,
+                cursor: busy ? "wait" : "pointer"
+              }}
+            >
+              Terminar y descargar
+            </button>
+          </div>
+        </>
+      )}
+      {error && <p style={{ fontSize: 11, color: "#f87171", marginTop: 8 }}>{error}</p>}
+    </div>
+  )
+}
+
+export default LabelingPanel
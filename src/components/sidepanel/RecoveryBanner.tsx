@@ -0,0 +1,73 @@
+import React from "react"
+import type { SessionCheckpoint } from "~lib/sessionManager"
+import { formatDate } from "~lib/dashboardUtils"
+
+type RecoveryBannerProps = {
+  checkpoint: SessionCheckpoint
+  busy: boolean
+  onResume: () => void
+  onFinalize: () => void
+  onDiscard: () => void
+}
+
+const buttonStyle = (color: string, border: string, background: string): React.CSSProperties => ({
+  flex: 1,
+  padding: "8px 10px",
+  borderRadius: 8,
+  border: `1px solid ${border}`,
+  background,
+  color,
+  cursor: "pointer",
+  fontSize: 11,
+  fontWeight: 600
+})
+
+const RecoveryBanner: React.FC<RecoveryBannerProps> = ({ checkpoint, busy, onResume, onFinalize, onDiscard }) => {
+  const samples = checkpoint.timeline.dt.length
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: "14px 16px",
+        borderRadius: 14,
+        background: "rgba(251, 191, 36, 0.08)",
+        border: "1px solid rgba(251, 191, 36, 0.3)",
+        opacity: busy ? 0.6 : 1
+      }}
+    >
+      <div style={{ fontWeight: 700, fontSize: 14, color: "white", marginBottom: 4 }}>
+        Sesion sin cerrar
+      </div>
+      <div style={{ fontSize: 11, color: "#94a3b8", marginBottom: 12, lineHeight: 1.5 }}>
+        Se interrumpio una sesion iniciada el {formatDate(checkpoint.startedAt)} ({samples} muestras,
+        ultimo guardado {formatDate(checkpoint.savedAt)}). ¿Que quieres hacer?
+      </div>
+      <div style={{ display: "flex", gap: 8 }}>
+        <button
+          disabled={busy}
+          onClick={onResume}
+          style={buttonStyle("#4ade80", "rgba(34, 197, 94, 0.35)", "rgba(34, 197, 94, 0.12)")}
+        >
+          Reanudar
+        </button>
+        <button
+          disabled={busy}
+          onClick={onFinalize}
+          style={buttonStyle("#93c5fd", "rgba(96, 165, 250, 0.35)", "rgba(96, 165, 250, 0.12)")}
+        >
+          Finalizar
+        </button>
+        <button
+          disabled={busy}
+          onClick={onDiscard}
+          style={buttonStyle("#fca5a5", "rgba(239, 68, 68, 0.35)", "rgba(239, 68, 68, 0.12)")}
+        >
+          Descartar
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default RecoveryBanner
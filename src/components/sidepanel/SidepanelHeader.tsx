@@ -7,6 +7,7 @@ type SidepanelHeaderProps = {
   soundEnabled: boolean
   onToggleSound: () => void
   onOpenDashboard: () => void
+  onOpenSettings: () => void
   onLogout: () => void
 }
 
@@ -15,6 +16,7 @@ const SidepanelHeader: React.FC<SidepanelHeaderProps> = ({
   soundEnabled,
   onToggleSound,
   onOpenDashboard,
+  onOpenSettings,
   onLogout
 }) => {
   return (
@@ -85,6 +87,22 @@ const SidepanelHeader: React.FC<SidepanelHeaderProps> = ({
         >
           <span style={{ fontSize: 12, color: "#93c5fd", fontWeight: 700 }}>DB</span>
         </motion.button>
+        <motion.button
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.9 }}
+          onClick={onOpenSettings}
+          style={{
+            padding: 8,
+            borderRadius: 8,
+            background: "rgba(139, 92, 246, 0.12)",
+            border: "1px solid rgba(139, 92, 246, 0.35)",
+            cursor: "pointer",
+            display: "flex"
+          }}
+          title="Abrir ajustes"
+        >
+          <span style={{ fontSize: 12, color: "#c4b5fd", fontWeight: 700 }}>CFG</span>
+        </motion.button>
         <motion.button
           whileHover={{ scale: 1.1 }}
           whileTap={{ scale: 0.9 }}
@@ -1,4 +1,5 @@
 import type { PlasmoCSConfig } from "plasmo"
+import { PORT_NAMES, subscribePort } from "~lib/messaging/ports"
 
 export const config: PlasmoCSConfig = {
   matches: ["<all_urls>"]
@@ -35,7 +36,7 @@ const removeOverlay = () => {
   setTimeout(() => el.remove(), 800)
 }
 
-chrome.runtime.onMessage.addListener((msg) => {
+subscribePort(PORT_NAMES.state, (msg) => {
   if (msg.type === "WARM_FILTER") {
     if (msg.enabled) {
       createOverlay()
@@ -0,0 +1,47 @@
+/**
+ * SYNAPSE UI - useMonitor Hook
+ * Suscribe la UI al monitor que corre en el documento offscreen
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { ensureMonitor, sendMonitorCommand, subscribeToMonitor } from '../lib/monitor/client';
+import type { MonitorCommand, MonitorCommandResult, MonitorSnapshot } from '../lib/monitor/protocol';
+
+interface UseMonitorReturn {
+  snapshot: MonitorSnapshot | null;
+  send: (command: MonitorCommand) => Promise<MonitorCommandResult>;
+}
+
+export function useMonitor(enabled: boolean = true): UseMonitorReturn {
+  const [snapshot, setSnapshot] = useState<MonitorSnapshot | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let isActive = true;
+    let unsubscribe: (() => void) | null = null;
+
+    // Crear el documento offscreen (si hace falta) y suscribirse; el hub manda
+    // el snapshot actual apenas se conecta el puerto
+    ensureMonitor()
+      .catch((err) => console.warn('[SYNAPSE] No se pudo crear el monitor:', err))
+      .then(() => {
+        if (!isActive) return;
+        unsubscribe = subscribeToMonitor((next) => {
+          if (isActive) setSnapshot(next);
+        });
+      });
+
+    return () => {
+      isActive = false;
+      unsubscribe?.();
+    };
+  }, [enabled]);
+
+  const send = useCallback(async (command: MonitorCommand) => {
+    const result = await sendMonitorCommand(command);
+    if (result.snapshot) setSnapshot(result.snapshot);
+    return result;
+  }, []);
+
+  return { snapshot, send };
+}
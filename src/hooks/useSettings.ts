@@ -0,0 +1,40 @@
+/**
+ * SYNAPSE UI - useSettings Hook
+ * Lee y guarda las preferencias compartidas (chrome.storage.local)
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, watchSettings, type ExtensionSettings } from '../lib/settings';
+
+interface UseSettingsReturn {
+  settings: ExtensionSettings;
+  loaded: boolean;
+  update: (patch: Partial<ExtensionSettings>) => Promise<void>;
+}
+
+export function useSettings(): UseSettingsReturn {
+  const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let isActive = true;
+    loadSettings().then((value) => {
+      if (!isActive) return;
+      setSettings(value);
+      setLoaded(true);
+    });
+    const unwatch = watchSettings((value) => {
+      if (isActive) setSettings(value);
+    });
+    return () => {
+      isActive = false;
+      unwatch();
+    };
+  }, []);
+
+  const update = useCallback(async (patch: Partial<ExtensionSettings>) => {
+    setSettings(await saveSettings(patch));
+  }, []);
+
+  return { settings, loaded, update };
+}
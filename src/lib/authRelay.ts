@@ -0,0 +1,69 @@
+// src/lib/authRelay.ts
+
+/**
+ * Token de Supabase para el documento offscreen, que no tiene chrome.storage.
+ *
+ * Ahí el cliente de Supabase usa relayedAuthStorage: lee las claves que le
+ * empuja el service worker (OFFSCREEN_SYNC / OFFSCREEN_STATE) y, si el token
+ * se renueva, le pide al service worker que lo guarde (AUTH_STORAGE_WRITE),
+ * así todos los contextos siguen con la misma sesión. El resto de este módulo
+ * es el lado del service worker, que sí lee chrome.storage.
+ */
+
+import { sendRequest } from "./messaging/request"
+
+export const isAuthStorageKey = (key: string) => key.startsWith("sb-") && key.includes("-auth-token")
+
+const items = new Map<string, string>()
+
+/** Claves recibidas del service worker (null = se borró). */
+export const receiveAuthItems = (next: Record<string, string | null>) => {
+  for (const [key, value] of Object.entries(next)) {
+    if (value === null) items.delete(key)
+    else items.set(key, value)
+  }
+}
+
+const writeThrough = async (key: string, value: string | null) => {
+  if (value === null) items.delete(key)
+  else items.set(key, value)
+  try {
+    await sendRequest("AUTH_STORAGE_WRITE", { key, value })
+  } catch (err) {
+    console.warn("[SYNAPSE] No se pudo guardar el token en el service worker:", err)
+  }
+}
+
+export const relayedAuthStorage = {
+  getItem: (key: string) => items.get(key) ?? null,
+  setItem: (key: string, value: string) => writeThrough(key, value),
+  removeItem: (key: string) => writeThrough(key, null)
+}
+
+/* ============================
+   SERVICE WORKER
+   ============================ */
+
+export const readAuthItems = () =>
+  new Promise<Record<string, string>>((resolve) => {
+    chrome.storage.local.get(null, (result) => {
+      resolve(Object.fromEntries(Object.entries(result).filter(([key]) => isAuthStorageKey(key))))
+    })
+  })
+
+export const writeAuthItem = (key: string, value: string | null) =>
+  new Promise<void>((resolve) => {
+    if (value === null) chrome.storage.local.remove([key], () => resolve())
+    else chrome.storage.local.set({ [key]: value }, () => resolve())
+  })
+
+/** Notifica las claves del token que cambian (login, logout, refresh desde cualquier contexto). */
+export const watchAuthItems = (listener: (changed: Record<string, string | null>) => void) => {
+  const handleChange = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+    if (area !== "local") return
+    const changed = Object.entries(changes).filter(([key]) => isAuthStorageKey(key))
+    if (changed.length > 0) listener(Object.fromEntries(changed.map(([key, change]) => [key, change.newValue ?? null])))
+  }
+  chrome.storage.onChanged.addListener(handleChange)
+  return () => chrome.storage.onChanged.removeListener(handleChange)
+}
@@ -0,0 +1,202 @@
+// src/lib/baselineAdapter.ts
+
+/**
+ * Adaptación continua del baseline durante la sesión.
+ *
+ * La calibración da un punto de partida; en una sesión larga la postura, la
+ * silla o la luz cambian y los desvíos de yaw/pitch, la mirada y el EAR
+ * quedan sesgados. El adaptador mueve el baseline muy despacio (EMA lenta)
+ * solo en tramos claramente "normales": mirando la pantalla con buena calidad,
+ * con foco alto y estrés/fatiga bajos, sostenidos unos segundos. Así no
+ * absorbe fatiga (EAR bajo, parpadeo alto) ni distracción (cabeza girada).
+ *
+ * El corrimiento total respecto de la calibración está acotado: pasado ese
+ * tope se deja de adaptar y el perfil de calibración pide recalibrar.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import type { Baseline } from "./calibration"
+import type { AttentionState } from "./cognitivethresholds"
+import type { Metrics } from "./metricsSmoothing"
+
+// ~5 Hz de detección → constante de tiempo de ~2 min
+const ADAPT_ALPHA = 0.002
+// Bajar el EAR o subir el parpadeo se parece a fatiga: esas direcciones van más lento
+const FATIGUE_DIRECTION_FACTOR = 0.25
+// Las condiciones tienen que sostenerse antes de adaptar (evita transiciones)
+const STABLE_MS = 10_000
+// Cada cuánto se empuja el baseline adaptado al pipeline
+const PUBLISH_INTERVAL_MS = 5_000
+
+const MIN_QUALITY = 0.7
+const MIN_FOCUS = 55
+const MAX_STRESS = 45
+const MAX_FATIGUE = 45
+const MAX_PERCLOS = 0.15
+// Muestras muy lejos del baseline actual no son deriva, son mirar a otro lado
+const MAX_SAMPLE_DEVIATION = { yaw: 15, pitch: 12 }
+// Corrimiento máximo acumulado respecto de la calibración
+export const MAX_BASELINE_DRIFT = { yaw: 10, pitch: 8, gaze: 0.12, earRatio: 0.25, blinkRate: 6 }
+
+export type AdaptationHold =
+  | "warming_up"
+  | "off_screen"
+  | "low_quality"
+  | "low_focus"
+  | "stress"
+  | "fatigue"
+  | "eyes"
+  | "drift_limit"
+
+export type BaselineDriftStatus = {
+  // Corrimiento actual respecto del baseline calibrado
+  yaw: number
+  pitch: number
+  // Fracción de pantalla
+  gazeX: number
+  gazeY: number
+  // Relativo (−0.1 = EAR 10% más bajo que al calibrar)
+  ear: number | null
+  blinkRate: number
+  adapting: boolean
+  hold: AdaptationHold | null
+  // Alguno de los corrimientos llegó al tope
+  atLimit: boolean
+  samples: number
+  updatedAt: number | null
+}
+
+type Observation = {
+  data: DetectionData
+  attention: AttentionState
+  metrics: Metrics
+  screen: { width: number; height: number }
+  now?: number
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+const round = (value: number, digits = 2) => Number(value.toFixed(digits))
+
+export const createBaselineAdapter = (calibrated: Baseline) => {
+  const current: Baseline = {
+    ...calibrated,
+    headPose: { ...calibrated.headPose },
+    expressions: { ...calibrated.expressions }
+  }
+  let goodSince: number | null = null
+  let hold: AdaptationHold | null = "warming_up"
+  let samples = 0
+  let lastPublishedAt = 0
+  let updatedAt: number | null = null
+
+  const checkHold = ({ data, attention, metrics }: Observation): AdaptationHold | null => {
+    if (!attention.reliable || (data.quality?.score ?? 0) < MIN_QUALITY) return "low_quality"
+    if (attention.classification !== "on_screen" || attention.secondaryScreen) return "off_screen"
+    if (data.eyeState.eyesClosed || data.eyeState.perclos > MAX_PERCLOS || data.eyeState.microsleepCount > 0) {
+      return "eyes"
+    }
+    if (metrics.fatigue > MAX_FATIGUE) return "fatigue"
+    if (metrics.stress > MAX_STRESS) return "stress"
+    if (metrics.focus < MIN_FOCUS) return "low_focus"
+    const yawDev = Math.abs(data.headPose.yaw - current.headPose.yaw)
+    const pitchDev = Math.abs(data.headPose.pitch - current.headPose.pitch)
+    if (yawDev > MAX_SAMPLE_DEVIATION.yaw || pitchDev > MAX_SAMPLE_DEVIATION.pitch) return "off_screen"
+    return null
+  }
+
+  // Paso EMA acotado a ±limit alrededor del valor calibrado
+  const step = (value: number, target: number, origin: number, limit: number, alpha = ADAPT_ALPHA) =>
+    clamp(value + alpha * (target - value), origin - limit, origin + limit)
+
+  const adapt = ({ data, screen }: Observation) => {
+    const { yaw, pitch } = MAX_BASELINE_DRIFT
+    current.headPose = {
+      yaw: step(current.headPose.yaw, data.headPose.yaw, calibrated.headPose.yaw, yaw),
+      pitch: step(current.headPose.pitch, data.headPose.pitch, calibrated.headPose.pitch, pitch),
+      roll: current.headPose.roll
+    }
+    current.gazeX = step(current.gazeX, data.gazeX, calibrated.gazeX, MAX_BASELINE_DRIFT.gaze * screen.width)
+    current.gazeY = step(current.gazeY, data.gazeY, calibrated.gazeY, MAX_BASELINE_DRIFT.gaze * screen.height)
+
+    const blinkAlpha = data.blinkRate > current.blinkRate ? ADAPT_ALPHA * FATIGUE_DIRECTION_FACTOR : ADAPT_ALPHA
+    current.blinkRate = step(current.blinkRate, data.blinkRate, calibrated.blinkRate, MAX_BASELINE_DRIFT.blinkRate, blinkAlpha)
+
+    if (calibrated.ear && data.eyeState.earAvg > 0) {
+      const earAlpha = data.eyeState.earAvg < current.ear ? ADAPT_ALPHA * FATIGUE_DIRECTION_FACTOR : ADAPT_ALPHA
+      current.ear = step(current.ear, data.eyeState.earAvg, calibrated.ear, calibrated.ear * MAX_BASELINE_DRIFT.earRatio, earAlpha)
+    }
+  }
+
+  const driftOf = (screen: { width: number; height: number }) => ({
+    yaw: current.headPose.yaw - calibrated.headPose.yaw,
+    pitch: current.headPose.pitch - calibrated.headPose.pitch,
+    gazeX: (current.gazeX - calibrated.gazeX) / (screen.width || 1),
+    gazeY: (current.gazeY - calibrated.gazeY) / (screen.height || 1),
+    ear: calibrated.ear ? (current.ear - calibrated.ear) / calibrated.ear : null,
+    blinkRate: current.blinkRate - calibrated.blinkRate
+  })
+
+  const isAtLimit = (screen: { width: number; height: number }) => {
+    const d = driftOf(screen)
+    const near = (value: number, limit: number) => Math.abs(value) >= limit * 0.98
+    return (
+      near(d.yaw, MAX_BASELINE_DRIFT.yaw) ||
+      near(d.pitch, MAX_BASELINE_DRIFT.pitch) ||
+      near(d.gazeX, MAX_BASELINE_DRIFT.gaze) ||
+      near(d.gazeY, MAX_BASELINE_DRIFT.gaze) ||
+      (d.ear !== null && near(d.ear, MAX_BASELINE_DRIFT.earRatio))
+    )
+  }
+
+  /** Baseline vigente (calibrado + adaptación acumulada). */
+  const getBaseline = (): Baseline => ({ ...current, headPose: { ...current.headPose } })
+
+  /**
+   * Registra un frame. Retorna el baseline adaptado cuando toca publicarlo
+   * (a lo sumo cada PUBLISH_INTERVAL_MS), o null si no hay nada nuevo.
+   */
+  const observe = (observation: Observation): Baseline | null => {
+    const now = observation.now ?? Date.now()
+    const reason = checkHold(observation)
+    if (reason) {
+      goodSince = null
+      hold = reason
+      return null
+    }
+    if (goodSince === null) goodSince = now
+    if (now - goodSince < STABLE_MS) {
+      hold = "warming_up"
+      return null
+    }
+
+    adapt(observation)
+    samples += 1
+    hold = isAtLimit(observation.screen) ? "drift_limit" : null
+
+    if (now - lastPublishedAt < PUBLISH_INTERVAL_MS) return null
+    lastPublishedAt = now
+    updatedAt = now
+    return getBaseline()
+  }
+
+  const getStatus = (screen: { width: number; height: number }): BaselineDriftStatus => {
+    const d = driftOf(screen)
+    return {
+      yaw: round(d.yaw, 1),
+      pitch: round(d.pitch, 1),
+      gazeX: round(d.gazeX, 3),
+      gazeY: round(d.gazeY, 3),
+      ear: d.ear === null ? null : round(d.ear, 3),
+      blinkRate: round(d.blinkRate, 1),
+      adapting: hold === null,
+      hold,
+      atLimit: isAtLimit(screen),
+      samples,
+      updatedAt
+    }
+  }
+
+  return { observe, getStatus, getBaseline }
+}
+
+export type BaselineAdapter = ReturnType<typeof createBaselineAdapter>
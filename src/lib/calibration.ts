@@ -1,5 +1,7 @@
 // src/lib/calibration.ts
 import type { DetectionData } from "~components/CameraFeed"
+import type { GazeModel } from "./vision/gazeMapping"
+import { getScreenSize, type ScreenSize } from "./cognitivethresholds"
 
 /**
  * Keys soportadas por face-api.js en FaceExpressions.
@@ -23,12 +25,192 @@ export type Baseline = {
   blinkRate: number
   headPose: { yaw: number; pitch: number; roll: number }
   expressions: Record<ExpressionKey, number>
+  // EAR con ojos abiertos (opcional: perfiles guardados antes no lo tienen)
+  ear?: number
+  // Mapeo de la mirada cruda a la pantalla, ajustado en los pasos guiados
+  gazeMap?: GazeMap
+  // Regresión de la calibración de mirada multipunto (tiene prioridad sobre gazeMap)
+  gazeModel?: GazeModel
+
+  // Condiciones de captura al calibrar (para detectar cambios de luz o de postura después)
+  conditions?: {
+    brightness: number | null
+    faceArea: number | null
+  }
 
   samples: number
   startedAt: number
   finishedAt: number | null
 }
 
+
+// ============================================================================
+// PASOS GUIADOS
+// ============================================================================
+
+export type CalibrationStepId = "center" | "top_left" | "top_right" | "bottom_right" | "bottom_left" | "relaxed"
+
+export type CalibrationStep = {
+  id: CalibrationStepId
+  instruction: string
+  // Punto a mirar en fracción de pantalla; null = mirada libre
+  target: { x: number; y: number } | null
+  durationMs: number
+  // Los pasos "en reposo" alimentan los promedios del baseline; las esquinas solo el mapeo de mirada
+  baseline: boolean
+}
+
+export const CALIBRATION_STEPS: CalibrationStep[] = [
+  {
+    id: "center",
+    instruction: "Mira el centro de la pantalla sin mover la cabeza",
+    target: { x: 0.5, y: 0.5 },
+    durationMs: 4000,
+    baseline: true
+  },
+  { id: "top_left", instruction: "Mira la esquina superior izquierda", target: { x: 0.05, y: 0.05 }, durationMs: 2000, baseline: false },
+  { id: "top_right", instruction: "Mira la esquina superior derecha", target: { x: 0.95, y: 0.05 }, durationMs: 2000, baseline: false },
+  { id: "bottom_right", instruction: "Mira la esquina inferior derecha", target: { x: 0.95, y: 0.95 }, durationMs: 2000, baseline: false },
+  { id: "bottom_left", instruction: "Mira la esquina inferior izquierda", target: { x: 0.05, y: 0.95 }, durationMs: 2000, baseline: false },
+  {
+    id: "relaxed",
+    instruction: "Relájate y parpadea con normalidad mirando la pantalla",
+    target: null,
+    durationMs: 4000,
+    baseline: true
+  }
+]
+
+export const calibrationDurationMs = (steps: CalibrationStep[]) => steps.reduce((acc, step) => acc + step.durationMs, 0)
+
+// Al cambiar de punto los ojos tardan en llegar: esas muestras no entran al mapeo
+const STEP_SETTLE_MS = 600
+
+// ============================================================================
+// MAPEO DE MIRADA
+// ============================================================================
+
+export type GazeAxisMap = { offset: number; scale: number }
+
+/**
+ * Corrección lineal por eje de la mirada estimada (fracción de pantalla) al
+ * punto que el usuario realmente miraba en la calibración.
+ */
+export type GazeMap = {
+  x: GazeAxisMap
+  y: GazeAxisMap
+  // Error RMS en los puntos de calibración (fracción de pantalla)
+  error: number
+  points: number
+}
+
+// Si la estimación cruda casi no se movió entre esquinas, el ajuste solo amplifica ruido
+const MIN_GAZE_SPREAD = 0.03
+const MAX_GAZE_SCALE = 8
+
+/** Aplica el mapeo a la mirada de un frame (en píxeles de pantalla). */
+export const applyGazeMap = (map: GazeMap, data: DetectionData, screen: ScreenSize = getScreenSize()): DetectionData => {
+  const w = screen.width || 1
+  const h = screen.height || 1
+  return {
+    ...data,
+    gazeX: (map.x.offset + map.x.scale * (data.gazeX / w)) * w,
+    gazeY: (map.y.offset + map.y.scale * (data.gazeY / h)) * h
+  }
+}
+
+// Mínimos cuadrados target = offset + scale * raw
+const fitAxis = (raw: number[], target: number[]): GazeAxisMap | null => {
+  const n = raw.length
+  const meanR = raw.reduce((a, b) => a + b, 0) / n
+  const meanT = target.reduce((a, b) => a + b, 0) / n
+  let cov = 0
+  let varR = 0
+  for (let i = 0; i < n; i++) {
+    cov += (raw[i] - meanR) * (target[i] - meanT)
+    varR += (raw[i] - meanR) ** 2
+  }
+  if (Math.max(...raw) - Math.min(...raw) < MIN_GAZE_SPREAD || varR === 0) return null
+  const scale = cov / varR
+  if (scale <= 0 || scale > MAX_GAZE_SCALE) return null
+  return { offset: meanT - scale * meanR, scale }
+}
+
+const fitGazeMap = (points: Array<{ raw: { x: number; y: number }; target: { x: number; y: number } }>): GazeMap | null => {
+  if (points.length < 3) return null
+  const x = fitAxis(points.map((p) => p.raw.x), points.map((p) => p.target.x))
+  const y = fitAxis(points.map((p) => p.raw.y), points.map((p) => p.target.y))
+  if (!x || !y) return null
+  const sq = points.reduce((acc, p) => {
+    const dx = x.offset + x.scale * p.raw.x - p.target.x
+    const dy = y.offset + y.scale * p.raw.y - p.target.y
+    return acc + dx * dx + dy * dy
+  }, 0)
+  return { x, y, error: Math.sqrt(sq / points.length), points: points.length }
+}
+
+// ============================================================================
+// VALIDACIÓN
+// ============================================================================
+
+export type CalibrationIssueCode =
+  | "few_samples"
+  | "low_quality"
+  | "head_movement"
+  | "gaze_unstable"
+  | "ear_unstable"
+  | "gaze_range"
+
+export type CalibrationIssue = { code: CalibrationIssueCode; severity: "warn" | "reject" }
+
+export type CalibrationValidation = {
+  verdict: "ok" | "warn" | "reject"
+  issues: CalibrationIssue[]
+  // Promedio de DetectionQuality.score (null si la cámara no lo reporta)
+  quality: number | null
+  headPoseStd: { yaw: number; pitch: number }
+  // Desvío de la mirada mientras se mira el centro (fracción de pantalla)
+  gazeStd: number
+  // Coeficiente de variación del EAR con ojos abiertos
+  earCv: number | null
+}
+
+// warn / reject
+const VALIDATION_LIMITS = {
+  minBaselineSamples: 5,
+  quality: { warn: 0.65, reject: 0.45 },
+  headPoseStd: { warn: 4, reject: 8 },
+  gazeStd: { warn: 0.04, reject: 0.08 },
+  earCv: { warn: 0.2, reject: 0.35 }
+}
+
+type RunningStat = { n: number; mean: number; m2: number }
+
+const createStat = (): RunningStat => ({ n: 0, mean: 0, m2: 0 })
+
+// Welford: media y varianza sin guardar las muestras
+const pushStat = (stat: RunningStat, value: number) => {
+  stat.n += 1
+  const delta = value - stat.mean
+  stat.mean += delta / stat.n
+  stat.m2 += delta * (value - stat.mean)
+}
+
+const stdOf = (stat: RunningStat) => (stat.n > 1 ? Math.sqrt(stat.m2 / (stat.n - 1)) : 0)
+
+// ============================================================================
+// CALIBRADOR
+// ============================================================================
+
+export type CalibrationStepStatus = {
+  id: CalibrationStepId
+  index: number
+  total: number
+  instruction: string
+  target: { x: number; y: number } | null
+  progress: number // 0..1 dentro del paso
+}
+
 export type CalibrationState = {
   isCalibrating: boolean
   isCalibrated: boolean
@@ -40,11 +222,14 @@ export type CalibrationState = {
   samples: number
   targetSamples: number
   message?: string
+  // Paso guiado en curso
+  step?: CalibrationStepStatus
+  // Resultado de validar la última calibración
+  validation?: CalibrationValidation | null
 }
 
-export type CalibrationConfig = {
-  durationMs: number
-}
+// Sin pasos se calibra como antes: una sola ventana de mirada libre
+export type CalibrationConfig = { durationMs: number } | { steps: CalibrationStep[] }
 
 const defaultExpressions = (): Record<ExpressionKey, number> => ({
   neutral: 0,
@@ -58,36 +243,103 @@ const defaultExpressions = (): Record<ExpressionKey, number> => ({
 
 /**
  * Calibrador:
- * - Acumula promedios.
+ * - Recorre los pasos por tiempo y acumula promedios de los pasos en reposo.
+ * - Junta la mirada de cada punto guiado para ajustar el GazeMap.
  * - NO decide por sí solo cuándo terminar (para evitar quedar colgado).
- * - El caller (popup) decide cuándo "finalizar" según tiempo + samples.
+ * - El caller (monitor) decide cuándo "finalizar" según tiempo + samples, y
+ *   con validate() si el baseline es usable.
  */
 export const createCalibrator = (config: CalibrationConfig) => {
+  const steps: CalibrationStep[] =
+    "steps" in config
+      ? config.steps
+      : [{ id: "relaxed", instruction: "Mira la pantalla con normalidad", target: null, durationMs: config.durationMs, baseline: true }]
+  const durationMs = calibrationDurationMs(steps)
   const startedAt = Date.now()
   let samples = 0
+  let baselineSamples = 0
 
-  // acumuladores
+  // acumuladores (solo pasos en reposo)
   let sumGazeX = 0
   let sumGazeY = 0
   let sumBlink = 0
   let sumYaw = 0
   let sumPitch = 0
   let sumRoll = 0
+  let sumBrightness = 0
+  let brightnessSamples = 0
+  let sumFaceArea = 0
+  let faceAreaSamples = 0
+  let sumEar = 0
+  let earSamples = 0
 
   const sumExpr: Record<ExpressionKey, number> = defaultExpressions()
 
+  // estadísticas para validar
+  const quality = createStat()
+  const yawStat = createStat()
+  const pitchStat = createStat()
+  const earStat = createStat()
+  const centerGaze = { x: createStat(), y: createStat() }
+  // mirada media por punto guiado (fracción de pantalla)
+  const targetGaze = new Map<CalibrationStepId, { x: RunningStat; y: RunningStat }>()
+
   let finishedAt: number | null = null
 
-  const addSample = (d: DetectionData) => {
+  const locateStep = (elapsed: number) => {
+    let offset = 0
+    for (let index = 0; index < steps.length; index++) {
+      const step = steps[index]
+      if (elapsed < offset + step.durationMs || index === steps.length - 1) {
+        return { step, index, stepElapsed: elapsed - offset }
+      }
+      offset += step.durationMs
+    }
+  }
+
+  const addSample = (d: DetectionData, screen: ScreenSize = getScreenSize()) => {
     if (finishedAt) return
 
     samples += 1
+    const { step, stepElapsed } = locateStep(Date.now() - startedAt)
+    const gx = d.gazeX / (screen.width || 1)
+    const gy = d.gazeY / (screen.height || 1)
+    if (typeof d.quality?.score === "number") pushStat(quality, d.quality.score)
+
+    if (step.target && stepElapsed >= STEP_SETTLE_MS) {
+      const stat = targetGaze.get(step.id) ?? { x: createStat(), y: createStat() }
+      pushStat(stat.x, gx)
+      pushStat(stat.y, gy)
+      targetGaze.set(step.id, stat)
+      if (step.id === "center") {
+        pushStat(centerGaze.x, gx)
+        pushStat(centerGaze.y, gy)
+      }
+    }
+    if (!step.baseline) return
+
+    baselineSamples += 1
     sumGazeX += d.gazeX
     sumGazeY += d.gazeY
     sumBlink += d.blinkRate
     sumYaw += d.headPose.yaw
     sumPitch += d.headPose.pitch
     sumRoll += d.headPose.roll
+    pushStat(yawStat, d.headPose.yaw)
+    pushStat(pitchStat, d.headPose.pitch)
+    if (typeof d.quality?.brightness === "number") {
+      sumBrightness += d.quality.brightness
+      brightnessSamples += 1
+    }
+    if (!d.eyeState.eyesClosed && d.eyeState.earAvg > 0) {
+      sumEar += d.eyeState.earAvg
+      earSamples += 1
+      pushStat(earStat, d.eyeState.earAvg)
+    }
+    if (typeof d.quality?.areaRatio === "number") {
+      sumFaceArea += d.quality.areaRatio
+      faceAreaSamples += 1
+    }
 
     for (const k of EXPRESSION_KEYS) {
       sumExpr[k] += d.expressions[k] ?? 0
@@ -97,12 +349,24 @@ export const createCalibrator = (config: CalibrationConfig) => {
   const getProgress = () => {
     const now = Date.now()
     const elapsed = now - startedAt
-    const progress = Math.min(1, Math.max(0, elapsed / config.durationMs))
-    const secondsRemaining = Math.max(0, Math.ceil((config.durationMs - elapsed) / 1000))
-    const timeElapsed = elapsed >= config.durationMs
+    const progress = Math.min(1, Math.max(0, elapsed / durationMs))
+    const secondsRemaining = Math.max(0, Math.ceil((durationMs - elapsed) / 1000))
+    const timeElapsed = elapsed >= durationMs
     return { progress, secondsRemaining, elapsed, timeElapsed }
   }
 
+  const getStep = (): CalibrationStepStatus => {
+    const { step, index, stepElapsed } = locateStep(Date.now() - startedAt)
+    return {
+      id: step.id,
+      index,
+      total: steps.length,
+      instruction: step.instruction,
+      target: step.target,
+      progress: Math.min(1, Math.max(0, stepElapsed / step.durationMs))
+    }
+  }
+
   const getSamples = () => samples
 
   const isDone = () => finishedAt !== null
@@ -111,37 +375,81 @@ export const createCalibrator = (config: CalibrationConfig) => {
     if (!finishedAt) finishedAt = Date.now()
   }
 
+  const buildGazeMap = (): GazeMap | null => {
+    const points = steps.flatMap((step) => {
+      const stat = targetGaze.get(step.id)
+      return step.target && stat?.x.n ? [{ raw: { x: stat.x.mean, y: stat.y.mean }, target: step.target }] : []
+    })
+    return fitGazeMap(points)
+  }
+
   const buildBaseline = (): Baseline | null => {
     if (!finishedAt) return null
-    if (samples <= 0) return null
+    if (baselineSamples <= 0) return null
 
     const exprAvg: Record<ExpressionKey, number> = defaultExpressions()
     for (const k of EXPRESSION_KEYS) {
-      exprAvg[k] = sumExpr[k] / samples
+      exprAvg[k] = sumExpr[k] / baselineSamples
     }
 
     return {
-      gazeX: sumGazeX / samples,
-      gazeY: sumGazeY / samples,
-      blinkRate: sumBlink / samples,
+      gazeX: sumGazeX / baselineSamples,
+      gazeY: sumGazeY / baselineSamples,
+      blinkRate: sumBlink / baselineSamples,
       headPose: {
-        yaw: sumYaw / samples,
-        pitch: sumPitch / samples,
-        roll: sumRoll / samples
+        yaw: sumYaw / baselineSamples,
+        pitch: sumPitch / baselineSamples,
+        roll: sumRoll / baselineSamples
       },
       expressions: exprAvg,
-      samples,
+      ear: earSamples > 0 ? sumEar / earSamples : undefined,
+      gazeMap: buildGazeMap() ?? undefined,
+      conditions: {
+        brightness: brightnessSamples > 0 ? sumBrightness / brightnessSamples : null,
+        faceArea: faceAreaSamples > 0 ? sumFaceArea / faceAreaSamples : null
+      },
+      samples: baselineSamples,
       startedAt,
       finishedAt
     }
   }
 
+  /** Revisa que la calibración sea usable: calidad media y estabilidad de cabeza, mirada y EAR. */
+  const validate = (): CalibrationValidation => {
+    const issues: CalibrationIssue[] = []
+    const check = (code: CalibrationIssueCode, value: number | null, limits: { warn: number; reject: number }, lowerIsWorse = false) => {
+      if (value === null) return
+      const bad = (limit: number) => (lowerIsWorse ? value < limit : value > limit)
+      if (bad(limits.reject)) issues.push({ code, severity: "reject" })
+      else if (bad(limits.warn)) issues.push({ code, severity: "warn" })
+    }
+
+    const avgQuality = quality.n > 0 ? quality.mean : null
+    const headPoseStd = { yaw: stdOf(yawStat), pitch: stdOf(pitchStat) }
+    const gazeStd = Math.max(stdOf(centerGaze.x), stdOf(centerGaze.y))
+    const earCv = earStat.n > 1 && earStat.mean > 0 ? stdOf(earStat) / earStat.mean : null
+
+    if (baselineSamples < VALIDATION_LIMITS.minBaselineSamples) issues.push({ code: "few_samples", severity: "reject" })
+    check("low_quality", avgQuality, VALIDATION_LIMITS.quality, true)
+    check("head_movement", Math.max(headPoseStd.yaw, headPoseStd.pitch), VALIDATION_LIMITS.headPoseStd)
+    check("gaze_unstable", gazeStd, VALIDATION_LIMITS.gazeStd)
+    check("ear_unstable", earCv, VALIDATION_LIMITS.earCv)
+    if (steps.some((step) => step.target && step.id !== "center") && !buildGazeMap()) {
+      issues.push({ code: "gaze_range", severity: "warn" })
+    }
+
+    const verdict = issues.some((i) => i.severity === "reject") ? "reject" : issues.length > 0 ? "warn" : "ok"
+    return { verdict, issues, quality: avgQuality, headPoseStd, gazeStd, earCv }
+  }
+
   return {
     addSample,
     getProgress,
+    getStep,
     getSamples,
     finish,
     isDone,
-    buildBaseline
+    buildBaseline,
+    validate
   }
 }
@@ -0,0 +1,266 @@
+// src/lib/calibrationProfiles.ts
+
+/**
+ * Perfiles de calibración con nombre ("escritorio", "laptop", "noche").
+ *
+ * - Cada perfil guarda el Baseline junto con el entorno en que se calibró
+ *   (cámara y tamaño de pantalla) para elegirlo solo al volver a ese entorno.
+ * - Se guardan en IndexedDB y se sincronizan a Supabase (`calibration_profiles`)
+ *   con la misma cola offline-first que las sesiones.
+ * - Vencen a los PROFILE_MAX_AGE_MS; además el monitor de deriva avisa cuando
+ *   la luz o la postura ya no se parecen a las de la calibración.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import type { Baseline } from "./calibration"
+import type { ScreenSize } from "./cognitivethresholds"
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from "./localDb"
+import { supabase } from "./supabase"
+import { enqueueSync, flushSyncQueue } from "./syncQueue"
+
+export const PROFILE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+// Diferencia relativa de pantalla que todavía se considera "la misma" (zoom, barra de tareas)
+const SCREEN_TOLERANCE = 0.05
+
+export type CalibrationEnvironment = {
+  cameraId: string | null
+  cameraLabel: string | null
+  screen: ScreenSize
+}
+
+export interface CalibrationProfile {
+  id: string
+  userId: string | null
+  name: string
+  baseline: Baseline
+  environment: CalibrationEnvironment
+  createdAt: number
+  // Última recalibración (de aquí se cuenta el vencimiento)
+  updatedAt: number
+  lastUsedAt: number
+}
+
+export type ProfileRefreshReason = "expired" | "lighting" | "posture"
+
+export type CalibrationProfileSummary = {
+  id: string
+  name: string
+  cameraId: string | null
+  cameraLabel: string | null
+  screen: ScreenSize
+  updatedAt: number
+  expired: boolean
+}
+
+export const isProfileExpired = (profile: CalibrationProfile, now: number = Date.now()) =>
+  now - profile.updatedAt > PROFILE_MAX_AGE_MS
+
+export const summarizeProfile = (profile: CalibrationProfile, now: number = Date.now()): CalibrationProfileSummary => ({
+  id: profile.id,
+  name: profile.name,
+  cameraId: profile.environment.cameraId,
+  cameraLabel: profile.environment.cameraLabel,
+  screen: profile.environment.screen,
+  updatedAt: profile.updatedAt,
+  expired: isProfileExpired(profile, now)
+})
+
+const sameScreen = (a: ScreenSize, b: ScreenSize) =>
+  Math.abs(a.width - b.width) <= a.width * SCREEN_TOLERANCE &&
+  Math.abs(a.height - b.height) <= a.height * SCREEN_TOLERANCE
+
+/**
+ * Perfil que corresponde al entorno actual: misma cámara y pantalla; si no hay,
+ * misma cámara; si alguno no conoce la cámara, misma pantalla. Empates: el más usado.
+ */
+export const matchCalibrationProfile = (
+  profiles: CalibrationProfile[],
+  env: CalibrationEnvironment
+): CalibrationProfile | null => {
+  const sameCamera = (p: CalibrationProfile) =>
+    Boolean(env.cameraId) && p.environment.cameraId === env.cameraId
+  const unknownCamera = (p: CalibrationProfile) => !env.cameraId || !p.environment.cameraId
+
+  const tiers = [
+    profiles.filter((p) => sameCamera(p) && sameScreen(p.environment.screen, env.screen)),
+    profiles.filter(sameCamera),
+    profiles.filter((p) => unknownCamera(p) && sameScreen(p.environment.screen, env.screen))
+  ]
+  const candidates = tiers.find((tier) => tier.length > 0)
+  if (!candidates) return null
+  return candidates.reduce((best, p) => (p.lastUsedAt > best.lastUsedAt ? p : best))
+}
+
+/** "Perfil N" con el primer N libre. */
+export const nextProfileName = (profiles: CalibrationProfile[]) => {
+  const names = new Set(profiles.map((p) => p.name))
+  let n = profiles.length + 1
+  while (names.has(`Perfil ${n}`)) n++
+  return `Perfil ${n}`
+}
+
+export const createCalibrationProfile = (input: {
+  userId: string | null
+  name: string
+  baseline: Baseline
+  environment: CalibrationEnvironment
+}): CalibrationProfile => {
+  const now = Date.now()
+  return { id: crypto.randomUUID(), ...input, createdAt: now, updatedAt: now, lastUsedAt: now }
+}
+
+// ============================================================================
+// ALMACENAMIENTO (IndexedDB + Supabase)
+// ============================================================================
+
+type CalibrationProfileRow = {
+  id: string
+  user_id: string
+  name: string
+  baseline: Baseline
+  camera_id: string | null
+  camera_label: string | null
+  screen_width: number
+  screen_height: number
+  created_at: string
+  updated_at: string
+  last_used_at: string
+}
+
+const toRow = (profile: CalibrationProfile): Omit<CalibrationProfileRow, "id" | "user_id"> => ({
+  name: profile.name,
+  baseline: profile.baseline,
+  camera_id: profile.environment.cameraId,
+  camera_label: profile.environment.cameraLabel,
+  screen_width: profile.environment.screen.width,
+  screen_height: profile.environment.screen.height,
+  created_at: new Date(profile.createdAt).toISOString(),
+  updated_at: new Date(profile.updatedAt).toISOString(),
+  last_used_at: new Date(profile.lastUsedAt).toISOString()
+})
+
+const fromRow = (row: CalibrationProfileRow): CalibrationProfile => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  baseline: row.baseline,
+  environment: {
+    cameraId: row.camera_id,
+    cameraLabel: row.camera_label,
+    screen: { width: row.screen_width, height: row.screen_height }
+  },
+  createdAt: Date.parse(row.created_at),
+  updatedAt: Date.parse(row.updated_at),
+  lastUsedAt: Date.parse(row.last_used_at)
+})
+
+/** Usuario de la sesión guardada (funciona offline). */
+export async function getProfileUserId(): Promise<string | null> {
+  const {
+    data: { session }
+  } = await supabase.auth.getSession()
+  return session?.user?.id ?? null
+}
+
+export async function listCalibrationProfiles(userId: string | null): Promise<CalibrationProfile[]> {
+  const all = await getAllRecords<CalibrationProfile>(STORES.calibrationProfiles)
+  return all.filter((p) => p.userId === userId).sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+}
+
+export async function saveCalibrationProfile(profile: CalibrationProfile): Promise<void> {
+  await putRecord(STORES.calibrationProfiles, profile)
+  await enqueueSync({
+    kind: "upsert_calibration_profile",
+    sessionId: profile.id,
+    userId: profile.userId,
+    payload: toRow(profile)
+  })
+  void flushSyncQueue()
+}
+
+export async function deleteCalibrationProfile(profile: CalibrationProfile): Promise<void> {
+  await deleteRecord(STORES.calibrationProfiles, profile.id)
+  await enqueueSync({ kind: "delete_calibration_profile", sessionId: profile.id, userId: profile.userId, payload: {} })
+  void flushSyncQueue()
+}
+
+/**
+ * Trae los perfiles remotos del usuario (otro dispositivo, reinstalación) y
+ * los fusiona con los locales: gana el de `updatedAt` más reciente. Sin red
+ * se queda con los locales.
+ */
+export async function pullCalibrationProfiles(userId: string): Promise<CalibrationProfile[]> {
+  try {
+    const { data, error } = await supabase.from("calibration_profiles").select("*").eq("user_id", userId)
+    if (error) throw error
+    for (const row of (data ?? []) as CalibrationProfileRow[]) {
+      const remote = fromRow(row)
+      const local = await getRecord<CalibrationProfile>(STORES.calibrationProfiles, remote.id)
+      if (!local || remote.updatedAt > local.updatedAt) {
+        await putRecord(STORES.calibrationProfiles, { ...remote, lastUsedAt: Math.max(remote.lastUsedAt, local?.lastUsedAt ?? 0) })
+      }
+    }
+  } catch (err) {
+    console.warn("[SYNAPSE] No se pudieron traer los perfiles de calibración:", err)
+  }
+  return listCalibrationProfiles(userId)
+}
+
+// ============================================================================
+// DERIVA (luz / postura distintas a las de la calibración)
+// ============================================================================
+
+// ~10 s de constante de tiempo a 5 Hz: ignora movimientos puntuales
+const DRIFT_EMA_ALPHA = 0.02
+// La deriva tiene que sostenerse este tiempo antes de pedir recalibrar
+const DRIFT_HOLD_MS = 60_000
+const LIGHTING_DRIFT = 0.15
+const FACE_AREA_DRIFT_RATIO = 0.45
+const POSE_DRIFT = { yaw: 12, pitch: 10 }
+
+export const createCalibrationDriftMonitor = (baseline: Baseline) => {
+  let ema: { brightness: number | null; faceArea: number | null; yaw: number; pitch: number } | null = null
+  const since: Record<"lighting" | "posture", number | null> = { lighting: null, posture: null }
+
+  const smooth = (prev: number | null, next: number | undefined) =>
+    typeof next !== "number" ? prev : prev === null ? next : prev + DRIFT_EMA_ALPHA * (next - prev)
+
+  const hold = (reason: "lighting" | "posture", drifting: boolean, now: number) => {
+    if (!drifting) {
+      since[reason] = null
+      return false
+    }
+    if (since[reason] === null) since[reason] = now
+    return now - since[reason] >= DRIFT_HOLD_MS
+  }
+
+  /** Retorna el motivo cuando la deriva lleva DRIFT_HOLD_MS sostenida. */
+  const observe = (data: DetectionData, now: number = Date.now()): ProfileRefreshReason | null => {
+    if (data.quality && !data.quality.reliable) return null
+    ema = {
+      brightness: smooth(ema?.brightness ?? null, data.quality?.brightness),
+      faceArea: smooth(ema?.faceArea ?? null, data.quality?.areaRatio),
+      yaw: smooth(ema?.yaw ?? null, data.headPose.yaw),
+      pitch: smooth(ema?.pitch ?? null, data.headPose.pitch)
+    }
+
+    const base = baseline.conditions
+    const lighting =
+      base?.brightness != null && ema.brightness !== null && Math.abs(ema.brightness - base.brightness) > LIGHTING_DRIFT
+    const distance =
+      base?.faceArea != null &&
+      ema.faceArea !== null &&
+      Math.abs(ema.faceArea - base.faceArea) / Math.max(0.001, base.faceArea) > FACE_AREA_DRIFT_RATIO
+    const pose =
+      Math.abs(ema.yaw - baseline.headPose.yaw) > POSE_DRIFT.yaw ||
+      Math.abs(ema.pitch - baseline.headPose.pitch) > POSE_DRIFT.pitch
+
+    if (hold("lighting", lighting, now)) return "lighting"
+    if (hold("posture", distance || pose, now)) return "posture"
+    return null
+  }
+
+  return { observe }
+}
+
+export type CalibrationDriftMonitor = ReturnType<typeof createCalibrationDriftMonitor>
@@ -0,0 +1,87 @@
+// src/lib/cameraSettings.ts
+
+/**
+ * Cámara elegida y calidad de captura por dispositivo. Se guardan con los
+ * ajustes de la extensión; el documento offscreen los traduce a constraints
+ * de getUserMedia. Cada cámara queda ligada a su propio perfil de
+ * calibración por deviceId (ver calibrationProfiles).
+ */
+
+export type CaptureQuality = {
+  width: number
+  height: number
+  frameRate: number
+}
+
+export type CameraPreferences = {
+  // null = la cámara predeterminada del sistema
+  deviceId: string | null
+  // Calidad preferida por deviceId ("default" para la predeterminada)
+  quality: Record<string, CaptureQuality>
+}
+
+export type CaptureConstraints = CaptureQuality & { deviceId: string | null }
+
+export const DEFAULT_DEVICE_KEY = "default"
+
+export const DEFAULT_CAPTURE_QUALITY: CaptureQuality = { width: 640, height: 480, frameRate: 30 }
+
+export const RESOLUTION_PRESETS: Array<{ label: string; width: number; height: number }> = [
+  { label: "320 × 240 (liviano)", width: 320, height: 240 },
+  { label: "640 × 480", width: 640, height: 480 },
+  { label: "1280 × 720", width: 1280, height: 720 }
+]
+
+export const FRAME_RATES = [15, 24, 30]
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = { deviceId: null, quality: {} }
+
+const normalizeQuality = (value: unknown): CaptureQuality | null => {
+  if (!value || typeof value !== "object") return null
+  const raw = value as Partial<CaptureQuality>
+  const preset = RESOLUTION_PRESETS.find((p) => p.width === raw.width && p.height === raw.height)
+  if (!preset) return null
+  return {
+    width: preset.width,
+    height: preset.height,
+    frameRate: FRAME_RATES.includes(raw.frameRate) ? raw.frameRate : DEFAULT_CAPTURE_QUALITY.frameRate
+  }
+}
+
+export const normalizeCameraPreferences = (value: unknown): CameraPreferences => {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<CameraPreferences>
+  const quality: Record<string, CaptureQuality> = {}
+  if (raw.quality && typeof raw.quality === "object") {
+    for (const [key, entry] of Object.entries(raw.quality)) {
+      const normalized = normalizeQuality(entry)
+      if (normalized) quality[key] = normalized
+    }
+  }
+  return {
+    deviceId: typeof raw.deviceId === "string" && raw.deviceId ? raw.deviceId : null,
+    quality
+  }
+}
+
+export const captureQualityFor = (prefs: CameraPreferences, deviceId: string | null): CaptureQuality =>
+  prefs.quality[deviceId ?? DEFAULT_DEVICE_KEY] ?? DEFAULT_CAPTURE_QUALITY
+
+/** Lo que se le pide a getUserMedia para la cámara elegida. */
+export const resolveCaptureConstraints = (prefs: CameraPreferences): CaptureConstraints => ({
+  deviceId: prefs.deviceId,
+  ...captureQualityFor(prefs, prefs.deviceId)
+})
+
+/**
+ * Constraints de video para getUserMedia. Con `withDevice` en false se ignora
+ * la cámara elegida (respaldo cuando no está conectada).
+ */
+export const buildVideoConstraints = (capture: CaptureConstraints | null, withDevice = true): MediaTrackConstraints => {
+  const quality = capture ?? { ...DEFAULT_CAPTURE_QUALITY, deviceId: null }
+  return {
+    width: { ideal: quality.width },
+    height: { ideal: quality.height },
+    frameRate: { ideal: quality.frameRate },
+    ...(withDevice && quality.deviceId ? { deviceId: { exact: quality.deviceId } } : { facingMode: "user" })
+  }
+}
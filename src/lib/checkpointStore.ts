@@ -0,0 +1,26 @@
+// src/lib/checkpointStore.ts
+
+/**
+ * Checkpoint de la sesión en curso en chrome.storage.local. Lo usa el service
+ * worker: la sesión corre en el documento offscreen, que no tiene
+ * chrome.storage y pide estas lecturas y escrituras con CHECKPOINT_READ /
+ * CHECKPOINT_WRITE (sessionRecovery.ts).
+ */
+
+import type { SessionCheckpoint } from "./sessionManager"
+
+const CHECKPOINT_KEY = "synapse_session_checkpoint"
+
+export const readCheckpoint = () =>
+  new Promise<SessionCheckpoint | null>((resolve) => {
+    chrome.storage.local.get([CHECKPOINT_KEY], (result) => {
+      resolve((result[CHECKPOINT_KEY] as SessionCheckpoint | undefined) ?? null)
+    })
+  })
+
+/** Guarda el checkpoint, o lo borra con null. */
+export const writeCheckpoint = (checkpoint: SessionCheckpoint | null) =>
+  new Promise<void>((resolve) => {
+    if (checkpoint) chrome.storage.local.set({ [CHECKPOINT_KEY]: checkpoint }, () => resolve())
+    else chrome.storage.local.remove([CHECKPOINT_KEY], () => resolve())
+  })
@@ -12,6 +12,16 @@
 
 import type { DetectionData } from "~components/CameraFeed"
 import type { Baseline } from "./calibration"
+import {
+  DROWSINESS_WINDOWS,
+  KSS_LABELS,
+  estimateKss,
+  summarizeFatigueEvents,
+  type DrowsinessEstimate
+} from "./drowsinessScale"
+import { matchSecondaryScreen, type ScreenLayout } from "./screenLayout"
+import type { FatigueEvent } from "./vision/faceStabilizers"
+import { isPhoneInUse } from "./vision/phoneUsage"
 
 // ============================================================================
 // CONSTANTES CIENTÍFICAS
@@ -115,11 +125,57 @@ export const ATTENTION_RULES = {
   sideYawDeg: 25,
   offscreenYawDeg: 35,
   minQualityForDecision: 0.55,
+  // Confianza mínima del ajuste de pose para clasificar por yaw/pitch
+  minPoseConfidence: 0.35,
   holdToDistractedMs: 1000,
   holdToOnScreenMs: 450,
   holdToUncertainMs: 300
 } as const
 
+export type AttentionRules = { -readonly [K in keyof typeof ATTENTION_RULES]: number }
+
+/** Reglas de atención con overrides (para evaluar configuraciones contra etiquetas). */
+export const resolveAttentionRules = (overrides: Partial<AttentionRules> = {}): AttentionRules => ({
+  ...ATTENTION_RULES,
+  ...overrides
+})
+
+export type HeadPoseThresholds = Record<keyof typeof HEAD_POSE_THRESHOLDS, { yaw: number; pitch: number }>
+export type HeadPoseOverrides = { [K in keyof HeadPoseThresholds]?: Partial<HeadPoseThresholds[K]> }
+
+export type GazeZone = { x: { min: number; max: number }; y: { min: number; max: number } }
+export type GazeZones = Record<keyof typeof GAZE_ZONES, GazeZone>
+export type GazeZoneOverrides = {
+  [K in keyof GazeZones]?: { x?: Partial<GazeZone["x"]>; y?: Partial<GazeZone["y"]> }
+}
+
+/** Umbrales de cabeza con overrides por nivel (un perfil puede tocar solo OPTIMAL.yaw, por ejemplo). */
+export const resolveHeadPoseThresholds = (overrides: HeadPoseOverrides = {}): HeadPoseThresholds => ({
+  OPTIMAL: { ...HEAD_POSE_THRESHOLDS.OPTIMAL, ...overrides.OPTIMAL },
+  MODERATE: { ...HEAD_POSE_THRESHOLDS.MODERATE, ...overrides.MODERATE },
+  HIGH: { ...HEAD_POSE_THRESHOLDS.HIGH, ...overrides.HIGH }
+})
+
+const mergeZone = (base: GazeZone, override: GazeZoneOverrides[keyof GazeZones] = {}): GazeZone => ({
+  x: { ...base.x, ...override.x },
+  y: { ...base.y, ...override.y }
+})
+
+export const resolveGazeZones = (overrides: GazeZoneOverrides = {}): GazeZones => ({
+  CENTER: mergeZone(GAZE_ZONES.CENTER, overrides.CENTER),
+  EXTENDED: mergeZone(GAZE_ZONES.EXTENDED, overrides.EXTENDED)
+})
+
+/**
+ * Overrides de las constantes globales para una instancia del calculador
+ * (perfil de ajuste por usuario o configuración a evaluar contra etiquetas).
+ */
+export type CognitiveOverrides = {
+  attentionRules?: Partial<AttentionRules>
+  headPose?: HeadPoseOverrides
+  gazeZones?: GazeZoneOverrides
+}
+
 
 // ============================================================================
 // SISTEMA DE CLASIFICACIÓN COGNITIVA
@@ -127,7 +183,7 @@ export const ATTENTION_RULES = {
 
 export type CognitiveState = 'deep_focus' | 'focus' | 'normal' | 'distracted' | 'stressed' | 'tired' | 'drowsy'
 export type AttentionClassification = "on_screen" | "off_screen" | "phone_like" | "side_like" | "uncertain"
-type AttentionState = {
+export type AttentionState = {
   onScreen: boolean
   offScreenMs: number
   phoneLooking: boolean
@@ -135,6 +191,8 @@ type AttentionState = {
   classification: AttentionClassification
   qualityScore: number
   reliable: boolean
+  // Monitor secundario al que apunta la cabeza (ya contado como en/fuera de pantalla)
+  secondaryScreen?: string | null
 }
 
 
@@ -153,18 +211,35 @@ export interface CognitiveMetrics {
 
   // Confianza del modelo (0-1)
   confidence: number
+
+  // Somnolencia tipo KSS desde PERCLOS, parpadeos lentos y microsueños (solo este calculador)
+  drowsiness?: DrowsinessEstimate
   
   // Flags de alerta
-  alerts: {
-    highStress: boolean
-    highFatigue: boolean
-    poorPosture: boolean
-    frequentDistraction: boolean
-    eyesClosed: boolean
-    microsleep: boolean
-  }
+  alerts: CognitiveAlerts
 }
 
+export interface CognitiveAlerts {
+  highStress: boolean
+  highFatigue: boolean
+  poorPosture: boolean
+  frequentDistraction: boolean
+  eyesClosed: boolean
+  microsleep: boolean
+}
+
+export type ScreenSize = { width: number; height: number }
+
+// El service worker y el replay en Node no tienen window.screen; usamos un monitor típico
+const FALLBACK_SCREEN: ScreenSize = { width: 1920, height: 1080 }
+// Sin detecciones por más que esto, la ventana de somnolencia vuelve a empezar
+const DROWSINESS_MAX_GAP_MS = 10_000
+
+export const getScreenSize = (): ScreenSize =>
+  typeof window !== "undefined" && window.screen?.width
+    ? { width: window.screen.width, height: window.screen.height || FALLBACK_SCREEN.height }
+    : FALLBACK_SCREEN
+
 export interface AdaptiveThresholds {
   // Umbrales personalizados basados en baseline
   focusThreshold: number      // Por defecto 65, ajustable ±15
@@ -192,9 +267,21 @@ export class CognitiveMetricsCalculator {
   private lowQualitySince: number | null = null
   private accumulatedFatigue: number = 0
   private lastFatigueUpdateAt: number = 0
+  // Parpadeos lentos y microsueños de los últimos 5 min (DetectionData.fatigueEvents)
+  private fatigueEvents: FatigueEvent[] = []
+  private drowsinessObservedSince: number | null = null
+  private lastDrowsinessAt: number = 0
+  private screen: ScreenSize = FALLBACK_SCREEN
+  private layout: ScreenLayout | null = null
+  private rules: AttentionRules
+  private headPose: HeadPoseThresholds
+  private gazeZones: GazeZones
 
   
-  constructor(baseline: Baseline | null = null) {
+  constructor(baseline: Baseline | null = null, options: CognitiveOverrides = {}) {
+    this.rules = resolveAttentionRules(options.attentionRules)
+    this.headPose = resolveHeadPoseThresholds(options.headPose)
+    this.gazeZones = resolveGazeZones(options.gazeZones)
     this.baseline = baseline
     this.adaptiveThresholds = this.computeAdaptiveThresholds(baseline)
   }
@@ -257,10 +344,18 @@ export class CognitiveMetricsCalculator {
   }
   
   /**
-   * CÁLCULO PRINCIPAL - Analiza DetectionData y retorna métricas cognitivas
+   * CÁLCULO PRINCIPAL - Analiza DetectionData y retorna métricas cognitivas.
+   * `now` y `screen` se pueden inyectar para reproducir grabaciones sin cámara;
+   * `layout` agrega los monitores secundarios calibrados.
    */
-  calculate(data: DetectionData): CognitiveMetrics {
-    const now = Date.now()
+  calculate(
+    data: DetectionData,
+    now: number = Date.now(),
+    screen: ScreenSize = getScreenSize(),
+    layout: ScreenLayout | null = null
+  ): CognitiveMetrics {
+    this.screen = screen
+    this.layout = layout
     this.lastSeenAt = now
     const attention = this.evaluateAttention(data, now)
 
@@ -279,7 +374,7 @@ export class CognitiveMetricsCalculator {
     // 2. Calcular métricas individuales
     const focus = this.calculateFocus(data, attention)
     const stress = this.calculateStress(data)
-    let fatigue = this.calculateFatigue(data)
+    let fatigue = this.calculateFatigue(data, now)
 
     // Fallback: si la detección es de baja calidad por >1s (ojos cerrados, cara parcial)
     // face-api a veces no da buenos EAR landmarks con ojos cerrados,
@@ -296,6 +391,7 @@ export class CognitiveMetricsCalculator {
     }
 
     const distraction = 100 - focus // Inverso del foco
+    const drowsiness = this.estimateDrowsiness(data, now)
 
     // 3. Clasificar estado dominante
     const dominantState = this.classifyDominantState(focus, stress, fatigue)
@@ -311,19 +407,20 @@ export class CognitiveMetricsCalculator {
       dominantState,
       attention,
       confidence,
+      drowsiness,
       alerts
     }
   }
   
   private getHoldMsForAttention(candidate: AttentionClassification): number {
-    if (candidate === "on_screen") return ATTENTION_RULES.holdToOnScreenMs
-    if (candidate === "uncertain") return ATTENTION_RULES.holdToUncertainMs
-    return ATTENTION_RULES.holdToDistractedMs
+    if (candidate === "on_screen") return this.rules.holdToOnScreenMs
+    if (candidate === "uncertain") return this.rules.holdToUncertainMs
+    return this.rules.holdToDistractedMs
   }
 
   private evaluateAttention(data: DetectionData, now: number): AttentionState {
-    const screenW = window.screen.width || 1
-    const screenH = window.screen.height || 1
+    const screenW = this.screen.width || 1
+    const screenH = this.screen.height || 1
     const gazeXn = data.gazeX / screenW
     const gazeYn = data.gazeY / screenH
     const baseYaw = this.baseline?.headPose.yaw ?? 0
@@ -331,28 +428,35 @@ export class CognitiveMetricsCalculator {
     const yawDev = Math.abs(data.headPose.yaw - baseYaw)
     const pitchDev = Math.abs(data.headPose.pitch - basePitch)
     const qualityScore = data.quality?.score ?? 0.75
-    const reliable = (data.quality?.reliable ?? true) && qualityScore >= ATTENTION_RULES.minQualityForDecision
+    const reliable = (data.quality?.reliable ?? true) && qualityScore >= this.rules.minQualityForDecision
+    // Pose mal ajustada (perfil extremo, landmarks inventados): yaw/pitch no deciden
+    const poseReliable = (data.headPose.confidence ?? 1) >= this.rules.minPoseConfidence
 
     const inExtended =
-      gazeXn >= GAZE_ZONES.EXTENDED.x.min && gazeXn <= GAZE_ZONES.EXTENDED.x.max &&
-      gazeYn >= 0.15 && gazeYn <= GAZE_ZONES.EXTENDED.y.max
+      gazeXn >= this.gazeZones.EXTENDED.x.min && gazeXn <= this.gazeZones.EXTENDED.x.max &&
+      gazeYn >= 0.15 && gazeYn <= this.gazeZones.EXTENDED.y.max
     const inCenter =
-      gazeXn >= GAZE_ZONES.CENTER.x.min && gazeXn <= GAZE_ZONES.CENTER.x.max &&
-      gazeYn >= GAZE_ZONES.CENTER.y.min && gazeYn <= GAZE_ZONES.CENTER.y.max
+      gazeXn >= this.gazeZones.CENTER.x.min && gazeXn <= this.gazeZones.CENTER.x.max &&
+      gazeYn >= this.gazeZones.CENTER.y.min && gazeYn <= this.gazeZones.CENTER.y.max
 
-    const onScreenCandidate = inExtended && yawDev < ATTENTION_RULES.offscreenYawDeg && pitchDev < 28
-    const phoneCandidate = pitchDev > ATTENTION_RULES.phonePitchDeg && gazeYn > ATTENTION_RULES.phoneGazeY
-    const phoneObjectDetected = data.phoneInFrame === true
+    const onScreenCandidate = inExtended && yawDev < this.rules.offscreenYawDeg && pitchDev < 28
+    const phoneCandidate = pitchDev > this.rules.phonePitchDeg && gazeYn > this.rules.phoneGazeY
+    // Un celular apoyado en el escritorio no cuenta; solo en la mano o junto a la cara
+    const phoneObjectDetected = isPhoneInUse(data)
     // Mirar hacia arriba: pitch negativo (cabeza inclinada arriba) + gaze en zona superior
     const rawPitch = data.headPose.pitch - basePitch
-    const lookUpCandidate = rawPitch < -ATTENTION_RULES.lookUpPitchDeg && gazeYn < ATTENTION_RULES.lookUpGazeY
+    const lookUpCandidate = rawPitch < -this.rules.lookUpPitchDeg && gazeYn < this.rules.lookUpGazeY
     const sideCandidate =
-      yawDev > ATTENTION_RULES.sideYawDeg || !inCenter
+      yawDev > this.rules.sideYawDeg || !inCenter
+    // Cabeza hacia un monitor secundario calibrado: cuenta según la preferencia del usuario
+    const secondary = matchSecondaryScreen(this.layout, data, this.baseline)
 
     let candidate: AttentionClassification
     if (!reliable) candidate = "uncertain"
     else if (phoneObjectDetected) candidate = "phone_like"
+    else if (!poseReliable) candidate = "uncertain"
     else if (onScreenCandidate && !lookUpCandidate) candidate = "on_screen"
+    else if (secondary) candidate = this.layout.secondaryOnTask ? "on_screen" : "off_screen"
     else if (phoneCandidate) candidate = "phone_like"
     else if (lookUpCandidate) candidate = "off_screen"
     else if (sideCandidate) candidate = "side_like"
@@ -390,6 +494,8 @@ export class CognitiveMetricsCalculator {
       offScreenMs,
       phoneLooking: stable === "phone_like",
       sideLooking: stable === "side_like" || stable === "off_screen",
+      secondaryScreen:
+        reliable && secondary && !onScreenCandidate && (stable === "on_screen" || stable === "off_screen") ? secondary.id : null,
       classification: stable,
       qualityScore,
       reliable
@@ -398,10 +504,10 @@ export class CognitiveMetricsCalculator {
 
   private computeAttentionPenalty(attention: AttentionState): number {
     if (attention.onScreen || attention.classification === "uncertain" || !attention.reliable) return 0
-    const effectiveMs = Math.max(0, attention.offScreenMs - ATTENTION_RULES.offscreenGraceMs)
-    const range = Math.max(1, ATTENTION_RULES.offscreenMaxMs - ATTENTION_RULES.offscreenGraceMs)
+    const effectiveMs = Math.max(0, attention.offScreenMs - this.rules.offscreenGraceMs)
+    const range = Math.max(1, this.rules.offscreenMaxMs - this.rules.offscreenGraceMs)
     const t = Math.min(1, effectiveMs / range)
-    let penalty = ATTENTION_RULES.offscreenMaxPenalty * t
+    let penalty = this.rules.offscreenMaxPenalty * t
     if (attention.phoneLooking) penalty += 10
     else if (attention.sideLooking) penalty += 5
     const qualityBoost = 0.75 + attention.qualityScore * 0.25
@@ -425,21 +531,25 @@ export class CognitiveMetricsCalculator {
     // ============================================================
     // 1. POSTURA DE CABEZA (Penalización: 0-40 puntos)
     // ============================================================
-    const yawDev = Math.abs(headPose.yaw - (this.baseline?.headPose.yaw || 0))
-    const pitchDev = Math.abs(headPose.pitch - (this.baseline?.headPose.pitch || 0))
+    // Mirando un secundario en tarea: la postura se mide contra ese monitor y no hay zonas de mirada
+    const secondary = this.layout?.secondaryOnTask
+      ? this.layout.secondaries.find((s) => s.id === attention.secondaryScreen)?.headPose
+      : null
+    const yawDev = Math.abs(headPose.yaw - (this.baseline?.headPose.yaw || 0) - (secondary?.yaw ?? 0))
+    const pitchDev = Math.abs(headPose.pitch - (this.baseline?.headPose.pitch || 0) - (secondary?.pitch ?? 0))
     
     let headPenalty = 0
     
     // CABEZA MUY DESVIADA (>35° yaw o >25° pitch) → -40 puntos
-    if (yawDev > HEAD_POSE_THRESHOLDS.HIGH.yaw || pitchDev > HEAD_POSE_THRESHOLDS.HIGH.pitch) {
+    if (yawDev > this.headPose.HIGH.yaw || pitchDev > this.headPose.HIGH.pitch) {
       headPenalty = 40
     } 
     // CABEZA MODERADAMENTE DESVIADA (>25° yaw o >20° pitch) → -25 puntos
-    else if (yawDev > HEAD_POSE_THRESHOLDS.MODERATE.yaw || pitchDev > HEAD_POSE_THRESHOLDS.MODERATE.pitch) {
+    else if (yawDev > this.headPose.MODERATE.yaw || pitchDev > this.headPose.MODERATE.pitch) {
       headPenalty = 25
     }
     // CABEZA LIGERAMENTE DESVIADA (>10° yaw o >10° pitch) → -10 puntos
-    else if (yawDev > HEAD_POSE_THRESHOLDS.OPTIMAL.yaw || pitchDev > HEAD_POSE_THRESHOLDS.OPTIMAL.pitch) {
+    else if (yawDev > this.headPose.OPTIMAL.yaw || pitchDev > this.headPose.OPTIMAL.pitch) {
       headPenalty = 10
     }
     // CABEZA PERFECTA → 0 puntos de penalización
@@ -451,24 +561,26 @@ export class CognitiveMetricsCalculator {
     // ============================================================
     // 2. MIRADA (Penalización: 0-30 puntos)
     // ============================================================
-    const screenW = window.screen.width || 1920
-    const screenH = window.screen.height || 1080
+    const screenW = this.screen.width || FALLBACK_SCREEN.width
+    const screenH = this.screen.height || FALLBACK_SCREEN.height
     
     const inCenterZone = 
-      gazeX >= screenW * GAZE_ZONES.CENTER.x.min &&
-      gazeX <= screenW * GAZE_ZONES.CENTER.x.max &&
-      gazeY >= screenH * GAZE_ZONES.CENTER.y.min &&
-      gazeY <= screenH * GAZE_ZONES.CENTER.y.max
+      gazeX >= screenW * this.gazeZones.CENTER.x.min &&
+      gazeX <= screenW * this.gazeZones.CENTER.x.max &&
+      gazeY >= screenH * this.gazeZones.CENTER.y.min &&
+      gazeY <= screenH * this.gazeZones.CENTER.y.max
     
     const inExtendedZone = 
-      gazeX >= screenW * GAZE_ZONES.EXTENDED.x.min &&
-      gazeX <= screenW * GAZE_ZONES.EXTENDED.x.max &&
-      gazeY >= screenH * GAZE_ZONES.EXTENDED.y.min &&
-      gazeY <= screenH * GAZE_ZONES.EXTENDED.y.max
+      gazeX >= screenW * this.gazeZones.EXTENDED.x.min &&
+      gazeX <= screenW * this.gazeZones.EXTENDED.x.max &&
+      gazeY >= screenH * this.gazeZones.EXTENDED.y.min &&
+      gazeY <= screenH * this.gazeZones.EXTENDED.y.max
     
     let gazePenalty = 0
     
-    if (!inExtendedZone) {
+    if (secondary) {
+      // La mirada se estima contra la pantalla principal: no aplica
+    } else if (!inExtendedZone) {
       // MIRANDO FUERA DE LA PANTALLA → -30 puntos (PENALIZACIÓN MÁXIMA)
       gazePenalty = 30
     } else if (!inCenterZone) {
@@ -564,9 +676,9 @@ export class CognitiveMetricsCalculator {
     score -= Math.round(attentionPenalty * visualPenaltyFactor)
 
     // ============================================================
-    // 4.6. CELULAR EN PANTALLA → penalización directa fuerte
+    // 4.6. CELULAR EN USO → penalización directa fuerte
     // ============================================================
-    if (data.phoneInFrame) {
+    if (isPhoneInUse(data)) {
       score -= 35
     }
 
@@ -639,9 +751,8 @@ export class CognitiveMetricsCalculator {
    *
    * Con acumulación temporal: fatiga sube rápido, baja lento (inercia)
    */
-  private calculateFatigue(data: DetectionData): number {
+  private calculateFatigue(data: DetectionData, now: number): number {
     const { blinkRate, expressions, headPose, eyeState } = data
-    const now = Date.now()
 
     let instantScore = 0
 
@@ -759,6 +870,41 @@ export class CognitiveMetricsCalculator {
     return Math.round(Math.max(instantScore, this.accumulatedFatigue))
   }
   
+  /**
+   * SOMNOLENCIA KSS (1-9)
+   * Junta los eventos de fatiga del worker en una ventana de 5 min. Las
+   * grabaciones sin eventos usan los conteos de EyeState (mismas ventanas).
+   * Solo es válida tras un minuto continuo con la cara a la vista: antes,
+   * PERCLOS no cubre su ventana.
+   */
+  private estimateDrowsiness(data: DetectionData, now: number): DrowsinessEstimate {
+    const { eyeState } = data
+    if (data.fatigueEvents) this.fatigueEvents.push(...data.fatigueEvents.filter((e) => e.type !== "perclos"))
+    this.fatigueEvents = this.fatigueEvents.filter((e) => now - e.at < DROWSINESS_WINDOWS.microsleepMs)
+
+    // Un hueco sin cara corta la observación continua
+    if (this.drowsinessObservedSince === null || now - this.lastDrowsinessAt > DROWSINESS_MAX_GAP_MS) {
+      this.drowsinessObservedSince = now
+    }
+    this.lastDrowsinessAt = now
+
+    const events = summarizeFatigueEvents(this.fatigueEvents, now)
+    const signals = {
+      perclos: eyeState.perclos,
+      slowBlinksPerMin: Math.max(events.slowBlinksPerMin, eyeState.slowBlinkCount),
+      microsleeps: Math.max(events.microsleeps, eyeState.microsleepCount),
+      longestMicrosleepMs: events.longestMicrosleepMs,
+      eyeClosureMs: eyeState.eyesClosed ? eyeState.eyeClosureDurationMs : 0
+    }
+    const kss = estimateKss(signals)
+    return {
+      ...signals,
+      kss,
+      label: KSS_LABELS[kss],
+      valid: now - this.drowsinessObservedSince >= DROWSINESS_WINDOWS.minObservationMs
+    }
+  }
+
   /**
    * CLASIFICACIÓN DE ESTADO DOMINANTE - VERSIÓN MEJORADA
    * Prioridad: ojos cerrados > fatiga extrema > estrés alto > distracción > foco
@@ -821,18 +967,16 @@ export class CognitiveMetricsCalculator {
    * GENERACIÓN DE ALERTAS
    */
   private generateAlerts(focus: number, stress: number, fatigue: number, data: DetectionData, attention: AttentionState) {
-    return {
-      highStress: stress >= 75,
-      highFatigue: fatigue >= 70,
-      poorPosture:
-        attention.reliable &&
-        (Math.abs(data.headPose.yaw) > 35 || Math.abs(data.headPose.pitch) > 25),
-      frequentDistraction: attention.classification !== "uncertain" && focus < 30,
-      eyesClosed: data.eyeState.eyesClosed && data.eyeState.eyeClosureDurationMs > 500,
-      microsleep: data.eyeState.eyeClosureDurationMs > 1500
-    }
+    return buildCognitiveAlerts({ focus, stress, fatigue }, data, attention)
   }
   
+  /**
+   * Reglas de atención en uso (default + overrides)
+   */
+  getAttentionRules(): AttentionRules {
+    return this.rules
+  }
+
   /**
    * Obtener umbrales actuales
    */
@@ -841,10 +985,34 @@ export class CognitiveMetricsCalculator {
   }
 }
 
+// ============================================================================
+// ALERTAS (compartidas con los demás pipelines)
+// ============================================================================
+
+export function buildCognitiveAlerts(
+  scores: { focus: number; stress: number; fatigue: number },
+  data: DetectionData,
+  attention: AttentionState
+): CognitiveAlerts {
+  return {
+    highStress: scores.stress >= 75,
+    highFatigue: scores.fatigue >= 70,
+    poorPosture:
+      attention.reliable &&
+      (Math.abs(data.headPose.yaw) > 35 || Math.abs(data.headPose.pitch) > 25),
+    frequentDistraction: attention.classification !== "uncertain" && scores.focus < 30,
+    eyesClosed: data.eyeState.eyesClosed && data.eyeState.eyeClosureDurationMs > 500,
+    microsleep: data.eyeState.eyeClosureDurationMs > 1500
+  }
+}
+
 // ============================================================================
 // EXPORTAR INSTANCIA SINGLETON
 // ============================================================================
 
-export const createCognitiveCalculator = (baseline: Baseline | null = null) => {
-  return new CognitiveMetricsCalculator(baseline)
+export const createCognitiveCalculator = (
+  baseline: Baseline | null = null,
+  options: CognitiveOverrides = {}
+) => {
+  return new CognitiveMetricsCalculator(baseline, options)
 }
@@ -0,0 +1,107 @@
+// src/lib/drowsinessScale.ts
+
+/**
+ * Escala de somnolencia tipo KSS (Karolinska Sleepiness Scale, 1–9)
+ *
+ * Combina PERCLOS, parpadeos lentos y microsueños en un nivel de KSS en vez
+ * de sumarlos en un puntaje arbitrario. Los anclajes siguen los umbrales que
+ * ya usa calculateFatigue (FHWA: PERCLOS > 15% fatiga, > 25% somnolencia
+ * severa; Caffier 2003 para parpadeos > 400 ms) y la relación entre KSS alto,
+ * parpadeos largos y microsueños (Ingre 2006; Åkerstedt 2014): los
+ * microsueños recién aparecen en KSS 8–9. El nivel es el mayor que justifica
+ * alguna señal. Sin un minuto continuo de cara a la vista (la ventana de
+ * PERCLOS) la estimación se marca como no válida.
+ */
+
+import { EYE_HISTORY_WINDOWS, type FatigueEvent } from "./vision/faceStabilizers"
+
+export type KssLevel = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9
+
+export const KSS_LABELS: Record<KssLevel, string> = {
+  1: "Extremadamente alerta",
+  2: "Muy alerta",
+  3: "Alerta",
+  4: "Bastante alerta",
+  5: "Ni alerta ni somnoliento",
+  6: "Algunos signos de somnolencia",
+  7: "Somnoliento, sin esfuerzo para seguir despierto",
+  8: "Somnoliento, con esfuerzo para seguir despierto",
+  9: "Muy somnoliento, luchando contra el sueño"
+}
+
+export type DrowsinessSignals = {
+  perclos: number
+  slowBlinksPerMin: number
+  // Últimos 5 minutos
+  microsleeps: number
+  longestMicrosleepMs: number
+  // Cierre en curso (todavía no es evento)
+  eyeClosureMs: number
+}
+
+export type DrowsinessEstimate = DrowsinessSignals & {
+  kss: KssLevel
+  label: string
+  // false mientras no hay una ventana completa de PERCLOS
+  valid: boolean
+}
+
+export const DROWSINESS_WINDOWS = {
+  slowBlinkMs: EYE_HISTORY_WINDOWS.slowBlinkMs,
+  microsleepMs: EYE_HISTORY_WINDOWS.microsleepMs,
+  // Observación mínima continua antes de dar el nivel por válido (ventana de PERCLOS)
+  minObservationMs: 60_000
+}
+
+// [PERCLOS mínimo, KSS]: de mayor a menor
+const PERCLOS_ANCHORS: Array<[number, KssLevel]> = [
+  [0.25, 8],
+  [0.15, 7],
+  [0.1, 6],
+  [0.06, 5],
+  [0.04, 4],
+  [0.02, 3],
+  [0, 2]
+]
+// [parpadeos lentos por minuto, KSS]
+const SLOW_BLINK_ANCHORS: Array<[number, KssLevel]> = [
+  [5, 7],
+  [3, 6],
+  [1, 5]
+]
+// Cierre en curso que ya cuenta como dormirse
+const ASLEEP_CLOSURE_MS = 3000
+const LONG_MICROSLEEP_MS = 3000
+
+const fromAnchors = (value: number, anchors: Array<[number, KssLevel]>): KssLevel | 1 =>
+  anchors.find(([min]) => value >= min)?.[1] ?? 1
+
+/** Nivel KSS para las señales dadas (el mayor que justifica alguna). */
+export const estimateKss = (signals: DrowsinessSignals): KssLevel => {
+  let kss: KssLevel = Math.max(
+    fromAnchors(signals.perclos, PERCLOS_ANCHORS),
+    fromAnchors(signals.slowBlinksPerMin, SLOW_BLINK_ANCHORS)
+  ) as KssLevel
+  if (signals.microsleeps > 0) kss = Math.max(kss, 8) as KssLevel
+  if (signals.microsleeps > 1 || signals.longestMicrosleepMs >= LONG_MICROSLEEP_MS) kss = 9
+  if (signals.eyeClosureMs >= ASLEEP_CLOSURE_MS) kss = 9
+  return kss
+}
+
+/** Señales de la ventana de eventos al momento `now`. */
+export const summarizeFatigueEvents = (
+  events: FatigueEvent[],
+  now: number
+): Pick<DrowsinessSignals, "slowBlinksPerMin" | "microsleeps" | "longestMicrosleepMs"> => {
+  let slowBlinksPerMin = 0
+  let microsleeps = 0
+  let longestMicrosleepMs = 0
+  for (const event of events) {
+    if (event.type === "slow_blink" && now - event.at < DROWSINESS_WINDOWS.slowBlinkMs) slowBlinksPerMin++
+    if (event.type === "microsleep" && now - event.at < DROWSINESS_WINDOWS.microsleepMs) {
+      microsleeps++
+      longestMicrosleepMs = Math.max(longestMicrosleepMs, event.durationMs)
+    }
+  }
+  return { slowBlinksPerMin, microsleeps, longestMicrosleepMs }
+}
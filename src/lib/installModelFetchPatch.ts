@@ -32,6 +32,8 @@ function isModelUrl(url: string): boolean {
  * - Fuerza RequestInit estable para MV3 (no-store, omit, same-origin)
  *
  * Safe: se ejecuta una vez y no se “re-parcha” si ya está instalado.
+ * Solo usa globalThis: funciona igual en páginas y en el worker de inferencia
+ * (cada contexto tiene su propio fetch y hay que parcharlo en cada uno).
  */
 export function installModelFetchPatch() {
   const g = globalThis as any
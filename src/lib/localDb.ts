@@ -0,0 +1,99 @@
+// src/lib/localDb.ts
+
+/**
+ * Almacenamiento local (IndexedDB) de SYNAPSE UI.
+ * Todo lo que se guarda aqui existe aunque no haya red ni usuario autenticado;
+ * la sincronizacion con Supabase la hace syncQueue.ts despues.
+ */
+
+const DB_NAME = "synapse-ui"
+const DB_VERSION = 3
+
+export const STORES = {
+  sessions: "sessions",
+  syncQueue: "sync_queue",
+  timelines: "timelines",
+  calibrationProfiles: "calibration_profiles"
+} as const
+
+export type StoreName = (typeof STORES)[keyof typeof STORES]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+// Cada version agrega sus stores; nunca se modifican las anteriores.
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.sessions, { keyPath: "id" })
+    db.createObjectStore(STORES.syncQueue, { keyPath: "id" })
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.timelines, { keyPath: "sessionId" })
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.calibrationProfiles, { keyPath: "id" })
+  }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export const openLocalDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion)
+    request.onsuccess = () => {
+      const db = request.result
+      // Si otra pestaña sube la version, cerramos para no bloquearla
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
+    }
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openLocalDb()
+  const tx = db.transaction(store, mode)
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+  const result = await requestToPromise(run(tx.objectStore(store)))
+  await done
+  return result
+}
+
+export const putRecord = async <T>(store: StoreName, value: T): Promise<void> => {
+  await withStore(store, "readwrite", (s) => s.put(value))
+}
+
+export const getRecord = async <T>(store: StoreName, key: IDBValidKey): Promise<T | null> => {
+  const value = await withStore<T | undefined>(store, "readonly", (s) => s.get(key))
+  return value ?? null
+}
+
+export const getAllRecords = async <T>(store: StoreName): Promise<T[]> => {
+  return withStore<T[]>(store, "readonly", (s) => s.getAll())
+}
+
+export const deleteRecord = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  await withStore(store, "readwrite", (s) => s.delete(key))
+}
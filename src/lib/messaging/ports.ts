@@ -0,0 +1,122 @@
+// src/lib/messaging/ports.ts
+
+/**
+ * Suscripciones de larga duración con chrome.runtime.Port. El que publica
+ * (background u offscreen) mantiene un hub con los puertos conectados y solo
+ * envía a quien está suscrito, en vez de recorrer todas las pestañas.
+ */
+
+import { parseMessage, type ExtensionMessage } from "./schema"
+
+export const PORT_NAMES = {
+  // background -> content scripts / side panel: STATE_UPDATED, WARM_FILTER
+  state: "synapse-state",
+  // offscreen -> side panel / popup: MONITOR_SNAPSHOT
+  monitor: "synapse-monitor"
+} as const
+
+export type PortName = (typeof PORT_NAMES)[keyof typeof PORT_NAMES]
+
+const RECONNECT_BASE_MS = 1000
+const RECONNECT_MAX_MS = 30_000
+
+export type PortHub = {
+  broadcast: (message: ExtensionMessage) => void
+  size: () => number
+}
+
+const hubs = new Map<string, (port: chrome.runtime.Port) => void>()
+let isListening = false
+
+// runtime.connect llega a todos los contextos de la extensión con onConnect.
+// Un contexto que no sirve ese nombre suelta su extremo para no mantener vivo
+// un puerto que nunca va a recibir nada.
+const handleConnect = (port: chrome.runtime.Port) => {
+  const accept = hubs.get(port.name)
+  if (accept) {
+    accept(port)
+  } else {
+    port.disconnect()
+  }
+}
+
+/**
+ * Crea el hub de un nombre de puerto en este contexto. `onSubscribe` permite
+ * mandar el estado actual a cada suscriptor nuevo.
+ */
+export function createPortHub(
+  name: PortName,
+  { onSubscribe }: { onSubscribe?: (port: chrome.runtime.Port) => void } = {}
+): PortHub {
+  const ports = new Set<chrome.runtime.Port>()
+
+  hubs.set(name, (port) => {
+    ports.add(port)
+    port.onDisconnect.addListener(() => ports.delete(port))
+    onSubscribe?.(port)
+  })
+
+  if (!isListening) {
+    isListening = true
+    chrome.runtime.onConnect.addListener(handleConnect)
+  }
+
+  return {
+    broadcast: (message) => {
+      ports.forEach((port) => {
+        try {
+          port.postMessage(message)
+        } catch {
+          ports.delete(port)
+        }
+      })
+    },
+    size: () => ports.size
+  }
+}
+
+/**
+ * Se suscribe a un hub y reconecta con backoff cuando el otro extremo
+ * desaparece (service worker dormido, offscreen recreado). Retorna la función
+ * para cancelar la suscripción.
+ */
+export function subscribePort(
+  name: PortName,
+  onMessage: (message: ExtensionMessage) => void,
+  { onConnect }: { onConnect?: () => void } = {}
+): () => void {
+  let port: chrome.runtime.Port | null = null
+  let stopped = false
+  let attempts = 0
+  let reconnectId: ReturnType<typeof setTimeout> | undefined
+
+  const connect = () => {
+    // Contexto invalidado (extensión recargada): un content script viejo no debe reintentar
+    if (stopped || !chrome.runtime?.id) return
+
+    port = chrome.runtime.connect({ name })
+    port.onMessage.addListener((raw) => {
+      attempts = 0
+      const message = parseMessage(raw)
+      if (message) onMessage(message)
+    })
+    port.onDisconnect.addListener(() => {
+      void chrome.runtime.lastError
+      port = null
+      if (stopped) return
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts)
+      attempts++
+      reconnectId = setTimeout(connect, delay)
+    })
+    onConnect?.()
+  }
+
+  connect()
+
+  return () => {
+    stopped = true
+    clearTimeout(reconnectId)
+    port?.disconnect()
+    port = null
+  }
+}
@@ -0,0 +1,94 @@
+// src/lib/messaging/request.ts
+
+import {
+  createMessage,
+  parseMessage,
+  type ExtensionMessage,
+  type MessageBody,
+  type MessageOf,
+  type MessageType,
+  type RequestType,
+  type ResponseMap
+} from "./schema"
+
+const DEFAULT_TIMEOUT_MS = 5000
+
+export class MessageTimeoutError extends Error {
+  constructor(type: MessageType, timeoutMs: number) {
+    super(`Sin respuesta a ${type} tras ${timeoutMs}ms`)
+    this.name = "MessageTimeoutError"
+  }
+}
+
+/**
+ * Envía un request por chrome.runtime y espera la respuesta tipada.
+ * Falla con MessageTimeoutError si nadie responde a tiempo (p. ej. el
+ * documento offscreen todavía no existe).
+ */
+export async function sendRequest<T extends RequestType>(
+  type: T,
+  body: MessageBody<T>,
+  { timeoutMs = DEFAULT_TIMEOUT_MS }: { timeoutMs?: number } = {}
+): Promise<ResponseMap[T]> {
+  const message = createMessage(type, body)
+  let timeoutId: number | undefined
+
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = self.setTimeout(() => reject(new MessageTimeoutError(type, timeoutMs)), timeoutMs)
+  })
+
+  try {
+    const response = await Promise.race([chrome.runtime.sendMessage(message), timeout])
+    if (response === undefined) throw new Error(`${type} no tuvo respuesta`)
+    return response as ResponseMap[T]
+  } finally {
+    self.clearTimeout(timeoutId)
+  }
+}
+
+/** Mensaje sin respuesta (eventos). Ignora que no haya receptores. */
+export const sendEvent = <T extends MessageType>(type: T, body: MessageBody<T>) => {
+  chrome.runtime.sendMessage(createMessage(type, body)).catch(() => {
+    // Nadie escuchando: es normal (panel cerrado, offscreen sin crear)
+  })
+}
+
+type Handler<T extends MessageType> = (
+  message: MessageOf<T>,
+  sender: chrome.runtime.MessageSender
+) => T extends RequestType ? ResponseMap[T] | Promise<ResponseMap[T]> : void
+
+export type MessageHandlers = { [T in MessageType]?: Handler<T> }
+
+/**
+ * Registra handlers por tipo de mensaje. Solo responde a los tipos que maneja,
+ * así varios contextos (background, offscreen) pueden escuchar a la vez.
+ */
+export function listenForMessages(handlers: MessageHandlers): () => void {
+  const listener = (
+    raw: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: unknown) => void
+  ) => {
+    const message = parseMessage(raw)
+    if (!message) return false
+    const handler = handlers[message.type] as
+      | ((message: ExtensionMessage, sender: chrome.runtime.MessageSender) => unknown)
+      | undefined
+    if (!handler) return false
+
+    const result = handler(message, sender)
+    if (result === undefined) return false
+
+    Promise.resolve(result)
+      .then(sendResponse)
+      .catch((err) => {
+        console.error(`[SYNAPSE] Error manejando ${message.type}:`, err)
+        sendResponse(undefined)
+      })
+    return true
+  }
+
+  chrome.runtime.onMessage.addListener(listener)
+  return () => chrome.runtime.onMessage.removeListener(listener)
+}
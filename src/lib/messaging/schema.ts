@@ -0,0 +1,251 @@
+// src/lib/messaging/schema.ts
+
+/**
+ * Esquema único de mensajes entre background, documento offscreen, side panel
+ * y content scripts. Todo mensaje lleva la versión del protocolo (`v`) y se
+ * valida al recibirlo: lo que no encaja se descarta en vez de romper al receptor.
+ */
+
+import type { MonitorCommand, MonitorCommandResult, MonitorSnapshot } from "~lib/monitor/protocol"
+import { isAttentionLabel } from "~lib/replay/labels"
+import type { SessionCheckpoint } from "~lib/sessionManager"
+import type { ExtensionSettings } from "~lib/settings"
+import type { TuningProfile } from "~lib/tuning/profile"
+
+export const PROTOCOL_VERSION = 1
+
+export interface FocusState {
+  score: number
+  focusScore: number
+  stressLevel: number
+  fatigueLevel: number
+  distractionLevel: number
+  emotion: string
+}
+
+// Payload de UPDATE_FOCUS_DATA: DetectionData + métricas ya calculadas (todas opcionales)
+export type FocusDataPayload = {
+  expressions?: Record<string, number>
+  gazeX?: number
+  gazeY?: number
+  headPose?: { yaw: number; pitch: number; roll: number }
+  blinkRate?: number
+  emotion?: string
+  focusScore?: number
+  stressLevel?: number
+  fatigueLevel?: number
+  distractionLevel?: number
+  [key: string]: unknown
+}
+
+// Lo guardado en chrome.storage que necesita el documento offscreen (que no tiene chrome.storage)
+export type OffscreenState = {
+  // Claves del token de Supabase; null = la clave se borró (logout)
+  auth: Record<string, string | null>
+  settings: ExtensionSettings
+  tuningProfile: TuningProfile | null
+  // Pantalla bloqueada (chrome.idle); el offscreen nunca está oculto, esto hace de visibilidad
+  screenLocked: boolean
+}
+
+type MessageBodies = {
+  UPDATE_FOCUS_DATA: { data: FocusDataPayload }
+  GET_FOCUS_STATE: {}
+  STATE_UPDATED: { state: FocusState }
+  WARM_FILTER: { enabled: boolean }
+  MONITOR_ENSURE: {}
+  MONITOR_COMMAND: { command: MonitorCommand }
+  MONITOR_SNAPSHOT: { snapshot: MonitorSnapshot }
+  // offscreen -> background: estado guardado al arrancar
+  OFFSCREEN_SYNC: {}
+  // background -> offscreen: lo que cambió en chrome.storage
+  OFFSCREEN_STATE: { state: Partial<OffscreenState> }
+  // offscreen -> background: escrituras en chrome.storage
+  AUTH_STORAGE_WRITE: { key: string; value: string | null }
+  SETTINGS_SAVE: { patch: Partial<ExtensionSettings> }
+  CHECKPOINT_READ: {}
+  CHECKPOINT_WRITE: { checkpoint: SessionCheckpoint | null }
+}
+
+export type MessageType = keyof MessageBodies
+
+// Cuerpo de un mensaje sin `v` ni `type`: lo que reciben createMessage, sendRequest y sendEvent
+export type MessageBody<T extends MessageType> = MessageBodies[T]
+
+export type MessageOf<T extends MessageType> = { v: typeof PROTOCOL_VERSION; type: T } & MessageBodies[T]
+
+export type ExtensionMessage = { [T in MessageType]: MessageOf<T> }[MessageType]
+
+// Respuestas de los mensajes que se usan como request/response
+export type ResponseMap = {
+  UPDATE_FOCUS_DATA: { status: "ok" | "error"; state?: FocusState; message?: string }
+  GET_FOCUS_STATE: { state: FocusState; message?: string }
+  MONITOR_ENSURE: { ok: boolean }
+  MONITOR_COMMAND: MonitorCommandResult
+  OFFSCREEN_SYNC: OffscreenState
+  AUTH_STORAGE_WRITE: { ok: boolean }
+  SETTINGS_SAVE: { settings: ExtensionSettings }
+  CHECKPOINT_READ: { checkpoint: SessionCheckpoint | null }
+  CHECKPOINT_WRITE: { ok: boolean }
+}
+
+export type RequestType = keyof ResponseMap
+
+export const createMessage = <T extends MessageType>(type: T, body: MessageBody<T>) =>
+  ({ v: PROTOCOL_VERSION, type, ...body }) as MessageOf<T>
+
+/* ============================
+   VALIDACIÓN EN RUNTIME
+   ============================ */
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+const optional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value)
+
+const isFocusState = (value: unknown): value is FocusState =>
+  isRecord(value) &&
+  isFiniteNumber(value.focusScore) &&
+  isFiniteNumber(value.stressLevel) &&
+  isFiniteNumber(value.fatigueLevel) &&
+  isFiniteNumber(value.distractionLevel) &&
+  typeof value.emotion === "string"
+
+const isFocusDataPayload = (value: unknown): value is FocusDataPayload =>
+  isRecord(value) &&
+  optional(value.expressions, isRecord) &&
+  optional(value.gazeX, isFiniteNumber) &&
+  optional(value.gazeY, isFiniteNumber) &&
+  optional(value.blinkRate, isFiniteNumber) &&
+  optional(value.headPose, isRecord) &&
+  optional(value.emotion, (v) => typeof v === "string") &&
+  optional(value.focusScore, isFiniteNumber) &&
+  optional(value.stressLevel, isFiniteNumber) &&
+  optional(value.fatigueLevel, isFiniteNumber) &&
+  optional(value.distractionLevel, isFiniteNumber)
+
+const MONITOR_COMMAND_TYPES: ReadonlySet<string> = new Set<MonitorCommand["type"]>([
+  "get_snapshot",
+  "start_calibration",
+  "start_session",
+  "end_session",
+  "pause_session",
+  "resume_session",
+  "recover_session",
+  "set_sound",
+  "retry_camera",
+  "start_recording",
+  "stop_recording",
+  "set_label",
+  "use_calibration_profile",
+  "save_calibration_profile",
+  "delete_calibration_profile",
+  "start_gaze_calibration",
+  "gaze_calibration_point",
+  "finish_gaze_calibration",
+  "cancel_gaze_calibration",
+  "calibrate_secondary_screen"
+])
+
+const isMonitorCommand = (value: unknown): value is MonitorCommand => {
+  if (!isRecord(value) || typeof value.type !== "string" || !MONITOR_COMMAND_TYPES.has(value.type)) return false
+  if (value.type === "recover_session") {
+    return value.action === "resume" || value.action === "finalize" || value.action === "discard"
+  }
+  if (value.type === "set_sound") return typeof value.enabled === "boolean"
+  if (value.type === "set_label") return value.label === null || isAttentionLabel(value.label)
+  if (
+    value.type === "use_calibration_profile" ||
+    value.type === "delete_calibration_profile" ||
+    value.type === "calibrate_secondary_screen"
+  ) {
+    return typeof value.id === "string" && value.id.length > 0
+  }
+  if (value.type === "save_calibration_profile") {
+    return typeof value.name === "string" && value.name.trim().length > 0 && value.name.length <= 40
+  }
+  if (value.type === "start_gaze_calibration") return value.points === 5 || value.points === 9
+  if (value.type === "gaze_calibration_point") {
+    return value.point === null || (Number.isInteger(value.point) && (value.point as number) >= 0)
+  }
+  return true
+}
+
+const isAuthItems = (value: unknown) =>
+  isRecord(value) && Object.values(value).every((v) => v === null || typeof v === "string")
+
+const isOffscreenState = (value: unknown) =>
+  isRecord(value) &&
+  optional(value.auth, isAuthItems) &&
+  optional(value.settings, isRecord) &&
+  optional(value.tuningProfile, (v) => v === null || isRecord(v)) &&
+  optional(value.screenLocked, (v) => typeof v === "boolean")
+
+const validators: { [T in MessageType]: (message: Record<string, unknown>) => boolean } = {
+  UPDATE_FOCUS_DATA: (m) => isFocusDataPayload(m.data),
+  GET_FOCUS_STATE: () => true,
+  STATE_UPDATED: (m) => isFocusState(m.state),
+  WARM_FILTER: (m) => typeof m.enabled === "boolean",
+  MONITOR_ENSURE: () => true,
+  MONITOR_COMMAND: (m) => isMonitorCommand(m.command),
+  // El snapshot lo produce siempre el offscreen de esta misma versión: basta con la forma general
+  MONITOR_SNAPSHOT: (m) => isRecord(m.snapshot) && isRecord(m.snapshot.metrics),
+  OFFSCREEN_SYNC: () => true,
+  OFFSCREEN_STATE: (m) => isOffscreenState(m.state),
+  AUTH_STORAGE_WRITE: (m) => typeof m.key === "string" && (m.value === null || typeof m.value === "string"),
+  SETTINGS_SAVE: (m) => isRecord(m.patch),
+  CHECKPOINT_READ: () => true,
+  CHECKPOINT_WRITE: (m) =>
+    m.checkpoint === null || (isRecord(m.checkpoint) && typeof m.checkpoint.sessionId === "string")
+}
+
+const isMessageType = (value: unknown): value is MessageType =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(validators, value)
+
+/**
+ * Valida un mensaje recibido. Retorna null si no es nuestro, es de otra versión
+ * del protocolo (p. ej. un content script viejo tras actualizar) o está mal formado.
+ */
+export function parseMessage(value: unknown): ExtensionMessage | null {
+  if (!isRecord(value) || !isMessageType(value.type)) return null
+  if (value.v !== PROTOCOL_VERSION) {
+    console.warn(`[SYNAPSE] Mensaje ${value.type} con versión ${String(value.v)} ignorado (esperada ${PROTOCOL_VERSION})`)
+    return null
+  }
+  if (!validators[value.type](value)) {
+    console.warn(`[SYNAPSE] Mensaje ${value.type} mal formado ignorado`)
+    return null
+  }
+  return value as ExtensionMessage
+}
+
+/* ============================
+   FOCUS STATE
+   ============================ */
+
+export const DEFAULT_FOCUS_STATE: FocusState = {
+  score: 50,
+  focusScore: 50,
+  stressLevel: 20,
+  fatigueLevel: 20,
+  distractionLevel: 50,
+  emotion: "neutral"
+}
+
+const asFiniteNumber = (value: unknown) => (isFiniteNumber(value) ? value : null)
+const asString = (value: unknown) => (typeof value === "string" && value.trim().length > 0 ? value : null)
+
+export const normalizeFocusState = (value: unknown): FocusState => {
+  if (!isRecord(value)) return DEFAULT_FOCUS_STATE
+  const focusScore = asFiniteNumber(value.focusScore ?? value.score) ?? DEFAULT_FOCUS_STATE.focusScore
+  return {
+    score: focusScore,
+    focusScore,
+    stressLevel: asFiniteNumber(value.stressLevel) ?? DEFAULT_FOCUS_STATE.stressLevel,
+    fatigueLevel: asFiniteNumber(value.fatigueLevel) ?? DEFAULT_FOCUS_STATE.fatigueLevel,
+    distractionLevel: asFiniteNumber(value.distractionLevel) ?? DEFAULT_FOCUS_STATE.distractionLevel,
+    emotion: asString(value.emotion) ?? DEFAULT_FOCUS_STATE.emotion
+  }
+}
@@ -68,6 +68,38 @@ export const defaultSmoothingConfig: SmoothingConfig = {
   thresholds: defaultThresholds
 }
 
+// Config del monitor en vivo (más reactiva que la default); el replay usa la misma
+export const liveSmoothingConfig: SmoothingConfig = {
+  ...defaultSmoothingConfig,
+  alpha: 0.18,
+  maxDeltaPerTick: 8
+}
+
+export const initialMetrics: Metrics = { focus: 50, stress: 20, fatigue: 20, distraction: 50 }
+
+export type SmoothingOverrides = Partial<Omit<SmoothingConfig, "thresholds">> & {
+  thresholds?: { [K in keyof Metrics]?: Partial<NonNullable<SmoothingConfig["thresholds"]>[K]> }
+}
+
+/** Config del smoother con los overrides de un perfil de ajuste encima de `base`. */
+export const resolveSmoothingConfig = (
+  overrides: SmoothingOverrides = {},
+  base: SmoothingConfig = liveSmoothingConfig
+): SmoothingConfig => {
+  const baseThresholds = base.thresholds ?? defaultThresholds
+  const thresholds = overrides.thresholds ?? {}
+  return {
+    ...base,
+    ...overrides,
+    thresholds: {
+      focus: { ...baseThresholds.focus, ...thresholds.focus },
+      stress: { ...baseThresholds.stress, ...thresholds.stress },
+      fatigue: { ...baseThresholds.fatigue, ...thresholds.fatigue },
+      distraction: { ...baseThresholds.distraction, ...thresholds.distraction }
+    }
+  }
+}
+
 export type MetricsSmoother = {
   update: (raw: Metrics) => { smoothed: Metrics; levels: MetricsLevels }
   get: () => { smoothed: Metrics; levels: MetricsLevels }
@@ -0,0 +1,34 @@
+// src/lib/monitor/client.ts
+
+/**
+ * Lado suscriptor del monitor: side panel, popup o cualquier página de la
+ * extensión que quiera leer el estado o mandar comandos al documento offscreen.
+ */
+
+import { PORT_NAMES, subscribePort } from "~lib/messaging/ports"
+import { sendRequest } from "~lib/messaging/request"
+import type { MonitorCommand, MonitorCommandResult, MonitorSnapshot } from "./protocol"
+
+// Crear el offscreen incluye cargar la página; le damos más margen que a un request normal
+const ENSURE_TIMEOUT_MS = 10_000
+// end_session / recover_session esperan a IndexedDB y a la cola de sync
+const COMMAND_TIMEOUT_MS = 15_000
+
+/** Pide al background que cree el documento offscreen (idempotente). */
+export const ensureMonitor = async () => {
+  const { ok } = await sendRequest("MONITOR_ENSURE", {}, { timeoutMs: ENSURE_TIMEOUT_MS })
+  if (!ok) throw new Error("No se pudo crear el documento offscreen")
+}
+
+export const sendMonitorCommand = async (command: MonitorCommand): Promise<MonitorCommandResult> => {
+  try {
+    return await sendRequest("MONITOR_COMMAND", { command }, { timeoutMs: COMMAND_TIMEOUT_MS })
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+export const subscribeToMonitor = (listener: (snapshot: MonitorSnapshot) => void) =>
+  subscribePort(PORT_NAMES.monitor, (message) => {
+    if (message.type === "MONITOR_SNAPSHOT") listener(message.snapshot)
+  })
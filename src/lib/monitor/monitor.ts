@@ -0,0 +1,966 @@
+// src/lib/monitor/monitor.ts
+
+/**
+ * Núcleo del monitoreo: calibración, cálculo cognitivo, suavizado, nudges y
+ * sesión. Vive en el documento offscreen para que siga corriendo aunque el
+ * side panel esté cerrado; la UI solo recibe snapshots y envía comandos.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import { createBaselineAdapter, type BaselineAdapter } from "~lib/baselineAdapter"
+import {
+  CALIBRATION_STEPS,
+  calibrationDurationMs,
+  createCalibrator,
+  type Baseline,
+  type CalibrationState
+} from "~lib/calibration"
+import {
+  createCalibrationDriftMonitor,
+  createCalibrationProfile,
+  deleteCalibrationProfile,
+  getProfileUserId,
+  isProfileExpired,
+  listCalibrationProfiles,
+  matchCalibrationProfile,
+  nextProfileName,
+  pullCalibrationProfiles,
+  saveCalibrationProfile,
+  summarizeProfile,
+  type CalibrationDriftMonitor,
+  type CalibrationEnvironment,
+  type CalibrationProfile,
+  type ProfileRefreshReason
+} from "~lib/calibrationProfiles"
+import { getScreenSize } from "~lib/cognitivethresholds"
+import type { DrowsinessEstimate } from "~lib/drowsinessScale"
+import {
+  createMetricsSmoother,
+  initialMetrics,
+  liveSmoothingConfig,
+  type Metrics,
+  type MetricsLevels
+} from "~lib/metricsSmoothing"
+import { createPipelineComparator } from "~lib/pipeline/compare"
+import { createPipelineById } from "~lib/pipeline/registry"
+import { createDetectionRecorder } from "~lib/replay/recorder"
+import { MIN_SECONDARY_SEPARATION_DEG, type ScreenLayout } from "~lib/screenLayout"
+import { DEFAULT_SETTINGS, type ExtensionSettings } from "~lib/settings"
+import { profilePipelineOptions, profileSmoothingConfig, type TuningProfile } from "~lib/tuning/profile"
+import { sessionManager, type SessionMetrics, type SessionSummary } from "~lib/sessionManager"
+import {
+  clearCheckpoint,
+  finalizeStaleSessions,
+  getPendingRecovery,
+  startCheckpointLoop
+} from "~lib/sessionRecovery"
+import { startSyncLoop } from "~lib/syncQueue"
+import {
+  GAZE_CALIBRATION_POINTS,
+  extractGazeFeatures,
+  fitGazeModel,
+  type GazeCalibrationSample
+} from "~lib/vision/gazeMapping"
+import type { DetectionGovernor } from "~lib/vision/detectionGovernor"
+import { isPhoneInUse } from "~lib/vision/phoneUsage"
+import { sendEvent } from "~lib/messaging/request"
+import type {
+  AttentionStatus,
+  CameraStatus,
+  MonitorCommand,
+  MonitorCommandResult,
+  MonitorSnapshot,
+  Nudge,
+  NudgeType,
+  RecoveryAction
+} from "./protocol"
+// Sin chrome.storage en el offscreen: settings y perfil de ajuste llegan del service worker
+import { loadSettings, loadTuningProfile, saveSettings, watchSettings, watchTuningProfile } from "./relay"
+
+const CALIBRATION_DURATION_MS = calibrationDurationMs(CALIBRATION_STEPS)
+const TARGET_SAMPLES = 20
+const FALLBACK_MIN_SAMPLES = 8
+const NUDGE_COOLDOWN_MS = 15000
+const NO_FACE_MS = 4000
+const OFFSCREEN_NUDGE_MS = 8000
+const LOW_FOCUS_MS = 15000
+const LOW_FOCUS_THRESHOLD = 40
+const RECOVERY_FOCUS_THRESHOLD = 50
+const BACKGROUND_BROADCAST_INTERVAL_MS = 1000
+const SESSION_BREAK_NUDGE_MS = 40 * 60 * 1000 // 40 minutos
+const FATIGUE_FILTER_THRESHOLD = 70
+const SESSION_RECORD_INTERVAL_MS = 2000
+const SOUND_STORAGE_KEY = "synapse_sound_enabled"
+// Tiempo para que la mirada llegue al punto nuevo antes de tomar muestras
+const GAZE_POINT_SETTLE_MS = 700
+// Calibración de un monitor secundario: girar hacia él, asentarse y promediar la pose
+const SCREEN_CALIBRATION_SETTLE_MS = 800
+const SCREEN_CALIBRATION_MS = 3500
+const SCREEN_CALIBRATION_MIN_SAMPLES = 5
+
+const DRIFT_MESSAGES: Record<Exclude<ProfileRefreshReason, "expired">, string> = {
+  lighting: "La iluminación cambió desde tu calibración. Recalibra para mantener la precisión.",
+  posture: "Tu postura o distancia a la cámara cambió desde la calibración. Recalibra cuando puedas."
+}
+
+const ATTENTION: Record<"onScreen" | "secondary" | "offScreen" | "phone" | "uncertain" | "noFace", AttentionStatus> = {
+  onScreen: { label: "En pantalla", color: "#4ade80", bg: "rgba(34, 197, 94, 0.12)" },
+  secondary: { label: "Otra pantalla", color: "#60a5fa", bg: "rgba(96, 165, 250, 0.12)" },
+  offScreen: { label: "Fuera", color: "#f87171", bg: "rgba(239, 68, 68, 0.12)" },
+  phone: { label: "Celular", color: "#fbbf24", bg: "rgba(251, 191, 36, 0.12)" },
+  uncertain: { label: "Ajustando", color: "#fbbf24", bg: "rgba(251, 191, 36, 0.12)" },
+  noFace: { label: "Sin rostro", color: "#fbbf24", bg: "rgba(251, 191, 36, 0.12)" }
+}
+
+const initialCalibrationState = (): CalibrationState => ({
+  isCalibrating: true,
+  isCalibrated: false,
+  progress: 0,
+  secondsRemaining: Math.ceil(CALIBRATION_DURATION_MS / 1000),
+  baseline: null,
+  samples: 0,
+  targetSamples: TARGET_SAMPLES,
+  message: undefined,
+  validation: null
+})
+
+// La malla de MediaPipe (~478 puntos) solo la usa el pipeline: no viaja en snapshots ni eventos
+const withoutMesh = ({ faceMesh: _mesh, ...rest }: DetectionData): DetectionData => rest
+
+const dominantStateFromLevels = (levels: MetricsLevels): SessionMetrics["dominantState"] =>
+  levels.focus === "Alto"
+    ? "focus"
+    : levels.stress === "Alto"
+      ? "stress"
+      : levels.fatigue === "Alto"
+        ? "fatigue"
+        : levels.distraction === "Alto"
+          ? "distraction"
+          : "neutral"
+
+export type MonitorListener = (snapshot: MonitorSnapshot) => void
+
+export type Monitor = ReturnType<typeof createMonitor>
+
+export type MonitorOptions = {
+  // Governor del loop de detección (lo comparte con CameraFeed); sin él no hay diagnóstico de FPS
+  governor?: DetectionGovernor
+}
+
+export const createMonitor = ({ governor }: MonitorOptions = {}) => {
+  let running = false
+  let camera: CameraStatus = { state: "loading" }
+  let data: DetectionData | null = null
+  let metrics: Metrics = { ...initialMetrics }
+  let levels: MetricsLevels = { focus: "Normal", stress: "Normal", fatigue: "Normal", distraction: "Normal" }
+  let confidence = 0.5
+  let attention: AttentionStatus = ATTENTION.onScreen
+  let nudge: Nudge | null = null
+  let calState = initialCalibrationState()
+  let pendingRecovery: MonitorSnapshot["pendingRecovery"] = null
+  let soundEnabled = localStorage.getItem(SOUND_STORAGE_KEY) === "1"
+
+  let calibrator = createCalibrator({ steps: CALIBRATION_STEPS })
+  let calibrationFinalized = false
+  let previousBaseline: Baseline | null = null
+  let calibrationProfiles: CalibrationProfile[] = []
+  let activeProfile: CalibrationProfile | null = null
+  let profileRefresh: ProfileRefreshReason | null = null
+  let profileUserId: string | null = null
+  // Cámara para la que ya se buscó perfil (se vuelve a buscar si cambia)
+  let profileResolvedFor: string | null = null
+  let driftMonitor: CalibrationDriftMonitor | null = null
+  let baselineAdapter: BaselineAdapter | null = null
+  // Calibración de mirada multipunto en curso (la página de calibración marca el punto visible)
+  let gazeCalibration: {
+    points: 5 | 9
+    point: number | null
+    pointSince: number
+    samples: GazeCalibrationSample[]
+  } | null = null
+  let tuningProfile: TuningProfile | null = null
+  let smoother = createMetricsSmoother({ ...initialMetrics }, liveSmoothingConfig)
+  let pipeline = createPipelineById(DEFAULT_SETTINGS.pipelineId)
+  let comparator: ReturnType<typeof createPipelineComparator> | null = null
+  let screenLayout: ScreenLayout | null = null
+  // Muestras de pose mientras se calibra un monitor secundario
+  let screenCalibration: { since: number; samples: Array<{ yaw: number; pitch: number }> } | null = null
+  let comparison: MonitorSnapshot["comparison"] = null
+  let drowsiness: DrowsinessEstimate | null = null
+  const recorder = createDetectionRecorder()
+
+  let lastDetectionAt = 0
+  let nudgeCooldownAt = 0
+  let lowFocusSince: number | null = null
+  let lastSoundAt = 0
+  let lastBackgroundBroadcastAt = 0
+  let breakNudgeSent = false
+  let warmFilterActive = false
+
+  const listeners = new Set<MonitorListener>()
+  let stopFns: Array<() => void> = []
+
+  const getSnapshot = (): MonitorSnapshot => ({
+    running,
+    camera,
+    data,
+    metrics,
+    levels,
+    confidence,
+    drowsiness,
+    attention,
+    nudge,
+    calibration: calState,
+    baselineDrift: baselineAdapter?.getStatus(getScreenSize()) ?? null,
+    calibrationProfiles: {
+      active: activeProfile ? summarizeProfile(activeProfile) : null,
+      profiles: calibrationProfiles.map((profile) => summarizeProfile(profile)),
+      refresh: profileRefresh
+    },
+    session: sessionManager.getSessionStatus(),
+    pendingRecovery,
+    soundEnabled,
+    pipelineId: pipeline.id,
+    comparison,
+    recording: recorder.getStatus(),
+    detection: governor?.getStats() ?? null,
+    gazeCalibration: gazeCalibration && {
+      points: gazeCalibration.points,
+      point: gazeCalibration.point,
+      samples: GAZE_CALIBRATION_POINTS[gazeCalibration.points].map(
+        (_, i) => gazeCalibration.samples.filter((s) => s.point === i).length
+      )
+    },
+    updatedAt: Date.now()
+  })
+
+  const emit = () => {
+    const snapshot = getSnapshot()
+    listeners.forEach((listener) => listener(snapshot))
+  }
+
+  const subscribe = (listener: MonitorListener) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  const playBeep = () => {
+    const now = Date.now()
+    if (now - lastSoundAt < 3000) return
+    lastSoundAt = now
+
+    try {
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)()
+      const osc = ctx.createOscillator()
+      const gain = ctx.createGain()
+      osc.type = "sine"
+      osc.frequency.value = 880
+      gain.gain.value = 0.05
+      osc.connect(gain)
+      gain.connect(ctx.destination)
+      osc.start()
+      osc.stop(ctx.currentTime + 0.2)
+      osc.onended = () => ctx.close()
+    } catch {
+      // ignore audio errors
+    }
+  }
+
+  const clearNudge = (id?: string) => {
+    if (!nudge) return
+    if (!id || nudge.id === id) nudge = null
+  }
+
+  const pushNudge = (id: string, type: NudgeType, textMsg: string, withSound: boolean = false) => {
+    const now = Date.now()
+    if (now - nudgeCooldownAt < NUDGE_COOLDOWN_MS) return
+    nudgeCooldownAt = now
+    nudge = { id, type, text: textMsg }
+    if (soundEnabled && withSound) playBeep()
+  }
+
+  const startCalibration = () => {
+    // Si la calibración nueva sale rechazada se vuelve a este baseline
+    if (calState.isCalibrated && calState.baseline) previousBaseline = calState.baseline
+    calibrationFinalized = false
+    calibrator = createCalibrator({ steps: CALIBRATION_STEPS })
+    calState = initialCalibrationState()
+    driftMonitor = null
+    baselineAdapter = null
+    clearNudge("calibration-drift")
+  }
+
+  const currentEnvironment = (): CalibrationEnvironment => ({
+    cameraId: camera.deviceId ?? null,
+    cameraLabel: camera.deviceLabel ?? null,
+    screen: getScreenSize()
+  })
+
+  const applyBaseline = (baseline: Baseline | null) => {
+    // Actualizar el pipeline cognitivo (y los comparados) con el nuevo baseline
+    if (baseline) {
+      pipeline.updateBaseline(baseline)
+      comparator?.updateBaseline(baseline)
+      recorder.recordBaseline(baseline)
+      driftMonitor = createCalibrationDriftMonitor(baseline)
+      baselineAdapter = createBaselineAdapter(baseline)
+      console.log(`🎯 Baseline aplicado al pipeline "${pipeline.id}"`)
+    }
+
+    calState = {
+      ...calState,
+      isCalibrating: false,
+      isCalibrated: true,
+      progress: 1,
+      secondsRemaining: 0,
+      baseline,
+      step: undefined,
+      validation: null
+    }
+  }
+
+  // Baseline en uso: el calibrado más lo que el adaptador fue corrigiendo en la sesión
+  const currentBaseline = () => baselineAdapter?.getBaseline() ?? calState.baseline
+
+  const storeProfile = async (profile: CalibrationProfile) => {
+    activeProfile = profile
+    calibrationProfiles = [profile, ...calibrationProfiles.filter((p) => p.id !== profile.id)]
+    emit()
+    try {
+      await saveCalibrationProfile(profile)
+    } catch (err) {
+      console.warn("[SYNAPSE] No se pudo guardar el perfil de calibración:", err)
+    }
+  }
+
+  // Una calibración nueva actualiza el perfil activo (recalibrar) o crea uno para este entorno
+  const persistCalibration = (baseline: Baseline) => {
+    const now = Date.now()
+    const environment = currentEnvironment()
+    profileRefresh = null
+    void storeProfile(
+      activeProfile
+        ? { ...activeProfile, baseline, environment, updatedAt: now, lastUsedAt: now }
+        : createCalibrationProfile({
+            userId: profileUserId,
+            name: nextProfileName(calibrationProfiles),
+            baseline,
+            environment
+          })
+    )
+  }
+
+  const finalizeCalibration = () => {
+    if (calibrationFinalized || calibrator.isDone()) return
+    calibrationFinalized = true
+    calibrator.finish()
+    const baseline = calibrator.buildBaseline()
+    const validation = calibrator.validate()
+
+    // Baseline ruidoso: no se usa ni se guarda; se vuelve al anterior (si había) y la UI pide repetir
+    if (!baseline || validation.verdict === "reject") {
+      console.warn("[SYNAPSE] Calibración rechazada:", validation.issues.map((i) => i.code).join(", "))
+      if (previousBaseline) applyBaseline(previousBaseline)
+      else calState = { ...calState, isCalibrating: false, isCalibrated: false, step: undefined }
+      calState = { ...calState, validation }
+      return
+    }
+
+    previousBaseline = null
+    applyBaseline(baseline)
+    calState = { ...calState, validation }
+    persistCalibration(baseline)
+  }
+
+  // Usa el baseline guardado en lugar de calibrar de nuevo
+  const useProfile = (profile: CalibrationProfile) => {
+    calibrationFinalized = true
+    calibrator.finish()
+    clearNudge("calibration-drift")
+    profileRefresh = isProfileExpired(profile) ? "expired" : null
+    applyBaseline(profile.baseline)
+    void storeProfile({ ...profile, lastUsedAt: Date.now() })
+    console.log(`🗂️ Perfil de calibración "${profile.name}" aplicado`)
+  }
+
+  /**
+   * Elige el perfil del entorno actual (cámara + pantalla) al arrancar o al
+   * cambiar de cámara. Un perfil vencido no se aplica: se recalibra y la
+   * calibración nueva lo actualiza.
+   */
+  const resolveEnvironmentProfile = async () => {
+    if (!running || camera.state !== "running") return
+    const cameraKey = camera.deviceId ?? "unknown"
+    if (profileResolvedFor === cameraKey) return
+    const cameraChanged = profileResolvedFor !== null
+    profileResolvedFor = cameraKey
+
+    try {
+      profileUserId = await getProfileUserId()
+      calibrationProfiles = profileUserId
+        ? await pullCalibrationProfiles(profileUserId)
+        : await listCalibrationProfiles(null)
+    } catch (err) {
+      console.warn("[SYNAPSE] No se pudieron leer los perfiles de calibración:", err)
+      return
+    }
+    if (!running || profileResolvedFor !== cameraKey) return
+
+    const match = matchCalibrationProfile(calibrationProfiles, currentEnvironment())
+    if (match && !isProfileExpired(match)) {
+      useProfile(match)
+    } else {
+      activeProfile = match
+      profileRefresh = match ? "expired" : null
+      // Baseline de otra cámara: no sirve para esta
+      if ((match || cameraChanged) && !calState.isCalibrating) startCalibration()
+    }
+    emit()
+  }
+
+  // Cambiar de motor crea una instancia nueva; el baseline de la calibración actual se conserva
+  const applySettings = (next: ExtensionSettings) => {
+    const baseline = currentBaseline()
+    if (next.pipelineId !== pipeline.id) {
+      pipeline = createPipelineById(next.pipelineId, profilePipelineOptions(tuningProfile))
+      if (baseline) pipeline.updateBaseline(baseline)
+      console.log(`🔀 Pipeline cognitivo activo: ${pipeline.id}`)
+    }
+    if (next.comparePipelines && !comparator) {
+      comparator = createPipelineComparator(undefined, profilePipelineOptions(tuningProfile))
+      if (baseline) comparator.updateBaseline(baseline)
+    } else if (!next.comparePipelines) {
+      comparator = null
+      comparison = null
+    }
+    screenLayout = next.screenLayout
+    pipeline.updateLayout(screenLayout)
+    comparator?.updateLayout(screenLayout)
+    governor?.setBudget(next.cpuBudget)
+    emit()
+  }
+
+  // Perfil de ajuste (npm run tune): rearma pipeline, comparador y smoother con sus overrides
+  const applyTuningProfile = (next: TuningProfile | null) => {
+    if (!next && !tuningProfile) return
+    tuningProfile = next
+    const baseline = currentBaseline()
+    const options = profilePipelineOptions(tuningProfile)
+    pipeline = createPipelineById(pipeline.id, options)
+    if (baseline) pipeline.updateBaseline(baseline)
+    pipeline.updateLayout(screenLayout)
+    if (comparator) {
+      comparator = createPipelineComparator(undefined, options)
+      if (baseline) comparator.updateBaseline(baseline)
+      comparator.updateLayout(screenLayout)
+    }
+    // Se conserva el valor suavizado actual para no saltar en la UI
+    smoother = createMetricsSmoother(smoother.get().smoothed, profileSmoothingConfig(tuningProfile))
+    console.log(tuningProfile ? "🎛️ Perfil de ajuste aplicado" : "🎛️ Perfil de ajuste quitado; umbrales por defecto")
+    emit()
+  }
+
+  const tickCalibration = () => {
+    if (!calState.isCalibrating) return
+    const { progress, secondsRemaining, timeElapsed } = calibrator.getProgress()
+    const samples = calibrator.getSamples()
+    const message = timeElapsed && samples < FALLBACK_MIN_SAMPLES ? "Pocas detecciones. Mejora iluminación." : undefined
+    calState = { ...calState, progress, secondsRemaining, samples, message, step: calibrator.getStep() }
+    emit()
+  }
+
+  const tickNoFace = () => {
+    if (lastDetectionAt !== 0) {
+      const since = Date.now() - lastDetectionAt
+      if (since > NO_FACE_MS) {
+        pushNudge("no-face", "warn", "No te veo en la camara. Vuelve al encuadre para continuar el analisis.")
+        attention = ATTENTION.noFace
+        // Subir fatiga gradualmente sin cara (posible somnolencia)
+        metrics = {
+          focus: Math.max(0, metrics.focus - 1),
+          stress: metrics.stress,
+          fatigue: Math.min(100, metrics.fatigue + 2),
+          distraction: Math.min(100, metrics.distraction + 1)
+        }
+      } else {
+        clearNudge("no-face")
+      }
+    }
+    // También refresca el cronómetro de la sesión en los suscriptores
+    emit()
+  }
+
+  // Antes vivía en SessionControl; ahora la sesión registra aunque no haya UI abierta
+  const recordSessionSample = () => {
+    const status = sessionManager.getSessionStatus()
+    if (!status || status.isPaused || !data) return
+    sessionManager.recordMetrics({
+      ...metrics,
+      dominantState: dominantStateFromLevels(levels),
+      confidence
+    })
+  }
+
+  // Muestra para el modelo de mirada: solo con el punto asentado, buena calidad y ojos abiertos
+  const collectGazeSample = (detectedData: DetectionData) => {
+    const { point, pointSince, points } = gazeCalibration
+    if (point === null || lastDetectionAt - pointSince < GAZE_POINT_SETTLE_MS) return
+    if (!detectedData.quality?.reliable || detectedData.eyeState.eyesClosed) return
+    const features = extractGazeFeatures(detectedData)
+    if (!features) return
+    gazeCalibration.samples.push({ features, target: GAZE_CALIBRATION_POINTS[points][point], point })
+  }
+
+  const finishGazeCalibration = () => {
+    if (!gazeCalibration) throw new Error("No hay una calibración de mirada en curso")
+    const baseline = calState.baseline
+    if (!baseline) throw new Error("Calibra antes de calibrar la mirada")
+    const model = fitGazeModel(gazeCalibration.samples)
+    gazeCalibration = null
+    if (!model) throw new Error("Pocas muestras válidas. Repite la calibración de mirada con buena luz y sin mover la cabeza.")
+    // El modelo viaja en el baseline: se guarda con el perfil activo
+    const updated = { ...baseline, gazeModel: model }
+    applyBaseline(updated)
+    persistCalibration(updated)
+    console.log(`👁️ Modelo de mirada ajustado (${model.points} puntos, error ${(model.accuracy.crossValidatedError * 100).toFixed(1)}%)`)
+  }
+
+  /**
+   * Pose media (relativa al baseline) mientras el usuario mira un monitor
+   * secundario; se guarda en la disposición de pantallas de los ajustes.
+   */
+  const calibrateSecondaryScreen = async (id: string) => {
+    const baseline = currentBaseline()
+    if (!baseline) throw new Error("Calibra la pantalla principal primero")
+    const layout = (await loadSettings()).screenLayout
+    if (!layout.secondaries.some((s) => s.id === id)) throw new Error("Pantalla no encontrada")
+
+    screenCalibration = { since: Date.now(), samples: [] }
+    await new Promise((resolve) => window.setTimeout(resolve, SCREEN_CALIBRATION_MS))
+    const samples = screenCalibration?.samples ?? []
+    screenCalibration = null
+    if (samples.length < SCREEN_CALIBRATION_MIN_SAMPLES) throw new Error("No te vi bien. Mira la otra pantalla sin salir del encuadre.")
+
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length
+    const headPose = {
+      yaw: mean(samples.map((s) => s.yaw)) - baseline.headPose.yaw,
+      pitch: mean(samples.map((s) => s.pitch)) - baseline.headPose.pitch
+    }
+    if (Math.hypot(headPose.yaw, headPose.pitch) < MIN_SECONDARY_SEPARATION_DEG) {
+      throw new Error("La pose es casi igual a la de la pantalla principal; no se pueden distinguir.")
+    }
+    await saveSettings({
+      screenLayout: {
+        ...layout,
+        secondaries: layout.secondaries.map((s) => (s.id === id ? { ...s, headPose, calibratedAt: Date.now() } : s))
+      }
+    })
+  }
+
+  const handleDetection = (detectedData: DetectionData) => {
+    if (!running) return
+    lastDetectionAt = Date.now()
+    // Sesión en pausa: nadie usa las métricas, la detección baja al mínimo
+    governor?.setPaused(Boolean(sessionManager.getSessionStatus()?.isPaused))
+    recorder.recordFrame(detectedData, lastDetectionAt)
+    sessionManager.recordObjects(detectedData.objects ?? [], lastDetectionAt)
+    if (gazeCalibration) collectGazeSample(detectedData)
+    if (screenCalibration && lastDetectionAt - screenCalibration.since >= SCREEN_CALIBRATION_SETTLE_MS) {
+      if (detectedData.quality?.reliable ?? true) screenCalibration.samples.push({ ...detectedData.headPose })
+    }
+    clearNudge("no-face")
+    data = withoutMesh(detectedData)
+    if (calState.isCalibrating && !calState.isCalibrated) {
+      calibrator.addSample(detectedData)
+      const samples = calibrator.getSamples()
+      const { timeElapsed } = calibrator.getProgress()
+      // Los pasos guiados se recorren completos antes de cerrar
+      if (!calibrator.isDone() && timeElapsed && samples >= FALLBACK_MIN_SAMPLES) {
+        finalizeCalibration()
+      }
+    }
+
+    if (driftMonitor && activeProfile && !profileRefresh) {
+      const reason = driftMonitor.observe(detectedData, lastDetectionAt)
+      if (reason && reason !== "expired") {
+        profileRefresh = reason
+        pushNudge("calibration-drift", "info", DRIFT_MESSAGES[reason])
+      }
+    }
+
+    const cognitiveMetrics = pipeline.process(detectedData)
+    drowsiness = cognitiveMetrics.drowsiness ?? null
+    sessionManager.recordFatigue(detectedData.fatigueEvents ?? [], cognitiveMetrics.drowsiness)
+    if (comparator) comparison = comparator.process(detectedData)
+    const attentionMetrics = cognitiveMetrics.attention
+    if (attentionMetrics.classification === "uncertain") {
+      attention = ATTENTION.uncertain
+    } else if (attentionMetrics.phoneLooking) {
+      attention = ATTENTION.phone
+    } else if (!attentionMetrics.onScreen) {
+      attention = ATTENTION.offScreen
+    } else if (attentionMetrics.secondaryScreen) {
+      attention = ATTENTION.secondary
+    } else {
+      attention = ATTENTION.onScreen
+    }
+    if (cognitiveMetrics.alerts.highStress) {
+      pushNudge(
+        "stress",
+        "danger",
+        "Estres alto detectado. Respira profundo 1-2 minutos y vuelve cuando te sientas mejor.",
+        true
+      )
+    }
+    // Nudge por celular en uso en cámara (COCO-SSD + phoneUsage); uno apoyado no molesta
+    const phoneInUse = isPhoneInUse(detectedData)
+    if (phoneInUse) {
+      pushNudge("phone-camera", "warn", "Se detecto un celular en camara. Guardalo para mantener tu enfoque.", true)
+    } else {
+      clearNudge("phone-camera")
+    }
+
+    // Nudge por postura de celular (pitch + gaze)
+    if (attentionMetrics.phoneLooking && !phoneInUse) {
+      pushNudge("phone", "warn", "Parece que miras el celular. Si puedes, regresa tu mirada a la pantalla.", true)
+    } else {
+      clearNudge("phone")
+    }
+
+    if (
+      !calState.isCalibrating &&
+      attentionMetrics.classification !== "uncertain" &&
+      !attentionMetrics.onScreen &&
+      attentionMetrics.offScreenMs > OFFSCREEN_NUDGE_MS
+    ) {
+      pushNudge("offscreen", "info", "Llevas un rato sin mirar la pantalla. Vuelve para retomar el enfoque.", true)
+    } else if (attentionMetrics.onScreen || attentionMetrics.classification === "uncertain") {
+      clearNudge("offscreen")
+    }
+
+    // Aplicar smoothing a las 4 métricas
+    const raw: Metrics = {
+      focus: cognitiveMetrics.focus,
+      stress: cognitiveMetrics.stress,
+      fatigue: cognitiveMetrics.fatigue,
+      distraction: cognitiveMetrics.distraction
+    }
+
+    const { smoothed, levels: lv } = smoother.update(raw)
+    metrics = smoothed
+    levels = lv
+    confidence = cognitiveMetrics.confidence
+    // Un cambio de atención o de nivel acelera la detección un rato; sin cambios, se espacia
+    governor?.observeState([attention.label, lv.focus, lv.stress, lv.fatigue, lv.distraction].join("|"), lastDetectionAt)
+
+    // Adaptación lenta del baseline en tramos estables (no absorbe fatiga ni distracción)
+    if (baselineAdapter) {
+      const adapted = baselineAdapter.observe({
+        data: detectedData,
+        attention: attentionMetrics,
+        metrics: smoothed,
+        screen: getScreenSize(),
+        now: lastDetectionAt
+      })
+      if (adapted) {
+        pipeline.updateBaseline(adapted)
+        comparator?.updateBaseline(adapted)
+        recorder.recordBaseline(adapted, lastDetectionAt)
+      }
+    }
+
+    // Filtro de luz cálida solo cuando fatiga >= 50
+    const shouldWarm = smoothed.fatigue >= 50
+    if (shouldWarm !== warmFilterActive) {
+      warmFilterActive = shouldWarm
+      sendEvent("WARM_FILTER", { enabled: shouldWarm })
+    }
+
+    if (attentionMetrics.classification === "uncertain") {
+      lowFocusSince = null
+    } else if (smoothed.focus < LOW_FOCUS_THRESHOLD) {
+      if (!lowFocusSince) lowFocusSince = Date.now()
+      const lowFor = Date.now() - (lowFocusSince || Date.now())
+      if (lowFor > LOW_FOCUS_MS) {
+        pushNudge("low-focus", "info", "Parece que tu foco bajo. Un pequeno ajuste y sigues avanzando.")
+      }
+    } else if (smoothed.focus >= RECOVERY_FOCUS_THRESHOLD) {
+      lowFocusSince = null
+    }
+
+    // Nudge de descanso a los 40 minutos de sesión activa
+    const sessionStatus = sessionManager.getSessionStatus()
+    if (sessionStatus && sessionStatus.elapsedSeconds >= SESSION_BREAK_NUDGE_MS / 1000 && !breakNudgeSent) {
+      breakNudgeSent = true
+      pushNudge(
+        "session-break",
+        "warn",
+        "Llevas mas de 40 minutos en sesion. Te sugerimos tomar un descanso de 5-10 minutos para cuidar tu bienestar.",
+        true
+      )
+    }
+
+    // Nudge por microsueño detectado (ojos cerrados >1.5s)
+    if (cognitiveMetrics.alerts.microsleep) {
+      pushNudge(
+        "microsleep",
+        "danger",
+        "Microsueño detectado. Tus ojos llevan cerrados mucho tiempo. Por favor toma un descanso ahora.",
+        true
+      )
+    }
+
+    // Nudge cuando fatiga alcanza el umbral del filtro
+    if (smoothed.fatigue >= FATIGUE_FILTER_THRESHOLD) {
+      pushNudge(
+        "high-fatigue",
+        "warn",
+        "Fatiga alta detectada. Te recomendamos tomar un descanso de 5-10 minutos para cuidar tu bienestar.",
+        true
+      )
+    } else {
+      clearNudge("high-fatigue")
+    }
+
+    const exprAny = detectedData.expressions as any
+    const emotion = Object.keys(exprAny).reduce((a, b) => (exprAny[a] > exprAny[b] ? a : b))
+
+    const now = Date.now()
+    if (now - lastBackgroundBroadcastAt >= BACKGROUND_BROADCAST_INTERVAL_MS) {
+      lastBackgroundBroadcastAt = now
+      sendEvent("UPDATE_FOCUS_DATA", {
+        data: {
+          ...data,
+          emotion,
+          focusScore: smoothed.focus,
+          stressLevel: smoothed.stress,
+          fatigueLevel: smoothed.fatigue,
+          distractionLevel: smoothed.distraction,
+          levels: lv,
+          cognitiveState: cognitiveMetrics.dominantState,
+          confidence: cognitiveMetrics.confidence,
+          alerts: cognitiveMetrics.alerts
+        }
+      })
+    }
+
+    emit()
+  }
+
+  const setCameraStatus = (status: CameraStatus) => {
+    camera = status
+    if (status.state === "running") void resolveEnvironmentProfile()
+    emit()
+  }
+
+  const resetAfterSessionEnd = () => {
+    breakNudgeSent = false
+    clearNudge("session-break")
+    clearNudge("high-fatigue")
+  }
+
+  const checkPendingRecovery = async () => {
+    try {
+      const checkpoint = await getPendingRecovery()
+      if (!running) return
+      if (checkpoint && !sessionManager.getSessionStatus()) pendingRecovery = checkpoint
+      const keep = [checkpoint?.sessionId, sessionManager.getSessionStatus()?.sessionId].filter(
+        (id): id is string => Boolean(id)
+      )
+      emit()
+      await finalizeStaleSessions(keep)
+    } catch (err) {
+      console.warn("[SYNAPSE] Error revisando recuperación de sesión:", err)
+    }
+  }
+
+  const recoverSession = async (action: RecoveryAction): Promise<SessionSummary | null> => {
+    const checkpoint = pendingRecovery
+    if (!checkpoint) return null
+    let summary: SessionSummary | null = null
+    if (action === "resume") {
+      sessionManager.resumeFromCheckpoint(checkpoint)
+    } else if (action === "finalize") {
+      summary = await sessionManager.finalizeFromCheckpoint(checkpoint)
+      await clearCheckpoint()
+      if (summary) resetAfterSessionEnd()
+    } else {
+      await sessionManager.discardFromCheckpoint(checkpoint)
+      await clearCheckpoint()
+    }
+    pendingRecovery = null
+    return summary
+  }
+
+  const runCommand = async (command: MonitorCommand): Promise<MonitorCommandResult> => {
+    try {
+      let summary: SessionSummary | null | undefined
+      let recording: string | null | undefined
+      switch (command.type) {
+        case "get_snapshot":
+        case "retry_camera":
+          break
+        case "start_calibration":
+          startCalibration()
+          break
+        case "start_session": {
+          const sessionId = await sessionManager.startSession()
+          console.log("✅ Sesión iniciada:", sessionId)
+          recordSessionSample()
+          break
+        }
+        case "end_session": {
+          const status = sessionManager.getSessionStatus()
+          if (!status) throw new Error("No hay sesión activa")
+          if (status.samples === 0) throw new Error("Aún no hay datos suficientes")
+          summary = await sessionManager.endSession()
+          console.log("📊 Sesión finalizada:", summary)
+          resetAfterSessionEnd()
+          break
+        }
+        case "pause_session":
+          sessionManager.pause()
+          break
+        case "resume_session":
+          sessionManager.resume()
+          break
+        case "recover_session":
+          summary = await recoverSession(command.action)
+          break
+        case "set_sound":
+          soundEnabled = command.enabled
+          localStorage.setItem(SOUND_STORAGE_KEY, soundEnabled ? "1" : "0")
+          if (soundEnabled) playBeep()
+          break
+        case "start_recording":
+          recorder.start({ pipelineId: pipeline.id, baseline: currentBaseline() })
+          break
+        case "stop_recording":
+          recording = recorder.stop()
+          if (!recording) throw new Error("No hay una grabación en curso")
+          break
+        case "set_label":
+          if (!recorder.getStatus().active) throw new Error("Inicia una grabación para etiquetar")
+          recorder.recordLabel(command.label)
+          break
+        case "use_calibration_profile": {
+          const profile = calibrationProfiles.find((p) => p.id === command.id)
+          if (!profile) throw new Error("Perfil de calibración no encontrado")
+          useProfile(profile)
+          break
+        }
+        case "save_calibration_profile": {
+          const baseline = calState.baseline
+          if (!baseline) throw new Error("Calibra antes de guardar un perfil")
+          const name = command.name.trim()
+          const now = Date.now()
+          const existing = calibrationProfiles.find((p) => p.name === name)
+          await storeProfile(
+            existing
+              ? { ...existing, baseline, environment: currentEnvironment(), updatedAt: now, lastUsedAt: now }
+              : createCalibrationProfile({ userId: profileUserId, name, baseline, environment: currentEnvironment() })
+          )
+          break
+        }
+        case "start_gaze_calibration":
+          if (!calState.isCalibrated) throw new Error("Calibra antes de calibrar la mirada")
+          gazeCalibration = { points: command.points, point: null, pointSince: 0, samples: [] }
+          break
+        case "gaze_calibration_point":
+          if (!gazeCalibration) throw new Error("No hay una calibración de mirada en curso")
+          if (command.point !== null && command.point >= gazeCalibration.points) throw new Error("Punto fuera de rango")
+          gazeCalibration = { ...gazeCalibration, point: command.point, pointSince: Date.now() }
+          break
+        case "finish_gaze_calibration":
+          finishGazeCalibration()
+          break
+        case "cancel_gaze_calibration":
+          gazeCalibration = null
+          break
+        case "calibrate_secondary_screen":
+          await calibrateSecondaryScreen(command.id)
+          break
+        case "delete_calibration_profile": {
+          const profile = calibrationProfiles.find((p) => p.id === command.id)
+          if (!profile) throw new Error("Perfil de calibración no encontrado")
+          await deleteCalibrationProfile(profile)
+          calibrationProfiles = calibrationProfiles.filter((p) => p.id !== profile.id)
+          // El baseline sigue en uso; la próxima calibración crea un perfil nuevo
+          if (activeProfile?.id === profile.id) {
+            activeProfile = null
+            profileRefresh = null
+          }
+          break
+        }
+      }
+      emit()
+      return { ok: true, snapshot: getSnapshot(), summary, recording }
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  }
+
+  /** Arranca timers, sync y checkpoints. Se llama al detectar usuario autenticado. */
+  const start = () => {
+    if (running) return
+    running = true
+    startCalibration()
+
+    const noFaceId = window.setInterval(tickNoFace, 1000)
+    const calibrationId = window.setInterval(tickCalibration, 200)
+    const recordId = window.setInterval(recordSessionSample, SESSION_RECORD_INTERVAL_MS)
+    stopFns = [
+      () => window.clearInterval(noFaceId),
+      () => window.clearInterval(calibrationId),
+      () => window.clearInterval(recordId),
+      startSyncLoop(),
+      startCheckpointLoop(sessionManager),
+      watchSettings(applySettings),
+      watchTuningProfile(applyTuningProfile)
+    ]
+
+    void loadSettings().then((loaded) => {
+      if (running) applySettings(loaded)
+    })
+    void loadTuningProfile().then((loaded) => {
+      if (running) applyTuningProfile(loaded)
+    })
+
+    void checkPendingRecovery()
+    void resolveEnvironmentProfile()
+    emit()
+  }
+
+  const stop = () => {
+    if (!running) return
+    running = false
+    stopFns.forEach((fn) => fn())
+    stopFns = []
+    lastDetectionAt = 0
+    data = null
+    drowsiness = null
+    nudge = null
+    pendingRecovery = null
+    // El próximo usuario puede tener otros perfiles
+    activeProfile = null
+    calibrationProfiles = []
+    profileRefresh = null
+    profileResolvedFor = null
+    driftMonitor = null
+    baselineAdapter = null
+    gazeCalibration = null
+    emit()
+  }
+
+  return {
+    start,
+    stop,
+    handleDetection,
+    setCameraStatus,
+    runCommand,
+    getSnapshot,
+    subscribe
+  }
+}
@@ -0,0 +1,144 @@
+// src/lib/monitor/protocol.ts
+
+/**
+ * Contrato entre el documento offscreen (dueño de la cámara, el calculador
+ * cognitivo y la sesión) y sus suscriptores (side panel, popup, content scripts).
+ * Los mensajes que transportan estos tipos están en ~lib/messaging/schema.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import type { BaselineDriftStatus } from "~lib/baselineAdapter"
+import type { CalibrationState } from "~lib/calibration"
+import type { CalibrationProfileSummary, ProfileRefreshReason } from "~lib/calibrationProfiles"
+import type { DrowsinessEstimate } from "~lib/drowsinessScale"
+import type { Metrics, MetricsLevels } from "~lib/metricsSmoothing"
+import type { PipelineComparisonRow } from "~lib/pipeline/compare"
+import type { PipelineId } from "~lib/pipeline/types"
+import type { AttentionLabel } from "~lib/replay/labels"
+import type { RecorderStatus } from "~lib/replay/recorder"
+import type { SessionCheckpoint, SessionStatus, SessionSummary } from "~lib/sessionManager"
+import type { GovernorStats } from "~lib/vision/detectionGovernor"
+import type { ModelStatus } from "~lib/vision/modelRegistry"
+import type { VisionProviderId } from "~lib/vision/providers/types"
+
+export type NudgeType = "info" | "warn" | "danger"
+
+export type Nudge = {
+  id: string
+  type: NudgeType
+  text: string
+}
+
+export type AttentionStatus = {
+  label: string
+  color: string
+  bg: string
+}
+
+export type CameraDevice = {
+  deviceId: string
+  label: string
+}
+
+export type CameraStatus = {
+  state: "loading" | "starting" | "running" | "error"
+  error?: string
+  errorName?: string
+  // Cámara en uso (solo en "running"); identifica el entorno de los perfiles de calibración
+  deviceId?: string
+  deviceLabel?: string
+  // Cámaras conectadas (para el selector de ajustes)
+  devices?: CameraDevice[]
+  // La cámara elegida no está disponible y se usa la predeterminada
+  fallback?: boolean
+  // Proveedor de visión cargado; visionFallback = el elegido no cargó y se usa face-api
+  visionProvider?: VisionProviderId
+  visionFallback?: boolean
+  // Estado de carga de los modelos (manifiesto, reintentos, tiers)
+  models?: ModelStatus[]
+}
+
+export type CalibrationProfilesStatus = {
+  // Perfil cuyo baseline está en uso (elegido por entorno o a mano)
+  active: CalibrationProfileSummary | null
+  profiles: CalibrationProfileSummary[]
+  // Motivo para recalibrar el perfil activo (vencido, cambió la luz o la postura)
+  refresh: ProfileRefreshReason | null
+}
+
+export type GazeCalibrationStatus = {
+  points: 5 | 9
+  // Punto que muestra ahora la página de calibración (null entre puntos)
+  point: number | null
+  // Muestras válidas juntadas en cada punto
+  samples: number[]
+}
+
+export type MonitorSnapshot = {
+  // true mientras hay usuario autenticado y el loop de análisis está corriendo
+  running: boolean
+  camera: CameraStatus
+  data: DetectionData | null
+  metrics: Metrics
+  levels: MetricsLevels
+  confidence: number
+  // Somnolencia KSS del motor activo (null si el motor no la estima)
+  drowsiness: DrowsinessEstimate | null
+  attention: AttentionStatus
+  nudge: Nudge | null
+  calibration: CalibrationState
+  // Corrimiento del baseline adaptado respecto de la calibración (null sin calibrar)
+  baselineDrift: BaselineDriftStatus | null
+  calibrationProfiles: CalibrationProfilesStatus
+  session: SessionStatus | null
+  pendingRecovery: SessionCheckpoint | null
+  soundEnabled: boolean
+  // Motor cognitivo activo y, si está activada la comparación, una fila por motor
+  pipelineId: PipelineId
+  comparison: PipelineComparisonRow[] | null
+  // Grabación del stream de DetectionData para replay
+  recording: RecorderStatus
+  // Calibración de mirada multipunto en curso
+  gazeCalibration: GazeCalibrationStatus | null
+  // Ritmo de detección y uso de CPU (null si el monitor no tiene governor)
+  detection: GovernorStats | null
+  updatedAt: number
+}
+
+export type RecoveryAction = "resume" | "finalize" | "discard"
+
+export type MonitorCommand =
+  | { type: "get_snapshot" }
+  | { type: "start_calibration" }
+  | { type: "start_session" }
+  | { type: "end_session" }
+  | { type: "pause_session" }
+  | { type: "resume_session" }
+  | { type: "recover_session"; action: RecoveryAction }
+  | { type: "set_sound"; enabled: boolean }
+  | { type: "retry_camera" }
+  | { type: "start_recording" }
+  | { type: "stop_recording" }
+  | { type: "set_label"; label: AttentionLabel | null }
+  | { type: "use_calibration_profile"; id: string }
+  // Guarda el baseline actual como perfil con ese nombre (reemplaza uno existente con el mismo nombre)
+  | { type: "save_calibration_profile"; name: string }
+  | { type: "delete_calibration_profile"; id: string }
+  | { type: "start_gaze_calibration"; points: 5 | 9 }
+  // La página de calibración avisa qué punto está mostrando
+  | { type: "gaze_calibration_point"; point: number | null }
+  | { type: "finish_gaze_calibration" }
+  | { type: "cancel_gaze_calibration" }
+  // Promedia la pose mientras el usuario mira ese monitor secundario (~3 s)
+  | { type: "calibrate_secondary_screen"; id: string }
+
+export type MonitorCommandResult = {
+  ok: boolean
+  snapshot?: MonitorSnapshot
+  summary?: SessionSummary | null
+  // JSONL de la grabación (solo en stop_recording)
+  recording?: string | null
+  error?: string
+}
+
+export const OFFSCREEN_DOCUMENT_PATH = "tabs/offscreen.html"
@@ -0,0 +1,125 @@
+// src/lib/monitor/relay.ts
+
+/**
+ * Lo que el documento offscreen recibe del service worker.
+ *
+ * Los documentos offscreen solo tienen chrome.runtime: ni chrome.storage ni,
+ * por lo tanto, el token de Supabase que vive ahí. Al arrancar el offscreen
+ * pide lo guardado (OFFSCREEN_SYNC) y después el service worker le empuja cada
+ * cambio (OFFSCREEN_STATE). Las escrituras van como requests al service worker.
+ * Expone la misma forma que settings.ts y tuning/storage.ts para que el
+ * monitor no tenga que saber de dónde vienen.
+ */
+
+import { receiveAuthItems } from "~lib/authRelay"
+import { listenForMessages, sendRequest } from "~lib/messaging/request"
+import type { OffscreenState } from "~lib/messaging/schema"
+import type { ExtensionSettings } from "~lib/settings"
+import type { TuningProfile } from "~lib/tuning/profile"
+
+const SYNC_RETRY_BASE_MS = 500
+const SYNC_RETRY_MAX_MS = 10_000
+
+let settings: ExtensionSettings | null = null
+let tuningProfile: TuningProfile | null = null
+const authListeners = new Set<() => void>()
+const settingsListeners = new Set<(settings: ExtensionSettings) => void>()
+const tuningListeners = new Set<(profile: TuningProfile | null) => void>()
+const screenLockListeners = new Set<(locked: boolean) => void>()
+
+let markSynced: () => void = () => {}
+const synced = new Promise<void>((resolve) => {
+  markSynced = resolve
+})
+
+const applyState = (state: Partial<OffscreenState>) => {
+  if (state.auth) {
+    receiveAuthItems(state.auth)
+    authListeners.forEach((listener) => listener())
+  }
+  if (state.settings) {
+    settings = state.settings
+    settingsListeners.forEach((listener) => listener(state.settings))
+  }
+  if (state.tuningProfile !== undefined) {
+    tuningProfile = state.tuningProfile
+    tuningListeners.forEach((listener) => listener(tuningProfile))
+  }
+  if (state.screenLocked !== undefined) {
+    screenLockListeners.forEach((listener) => listener(state.screenLocked))
+  }
+}
+
+/**
+ * Pide el estado guardado al service worker (reintenta hasta que responda) y
+ * escucha sus cambios. Retorna la función para dejar de escuchar.
+ */
+export function connectToBackground(): () => void {
+  let stopped = false
+  let retryId: number | undefined
+
+  const sync = async (attempt: number) => {
+    try {
+      const state = await sendRequest("OFFSCREEN_SYNC", {})
+      if (stopped) return
+      applyState(state)
+      markSynced()
+    } catch (err) {
+      if (stopped) return
+      const delay = Math.min(SYNC_RETRY_MAX_MS, SYNC_RETRY_BASE_MS * 2 ** attempt)
+      console.warn(`[SYNAPSE] Sin estado del service worker; reintento en ${delay}ms:`, err)
+      retryId = window.setTimeout(() => void sync(attempt + 1), delay)
+    }
+  }
+
+  const unlisten = listenForMessages({
+    OFFSCREEN_STATE: ({ state }, sender) => {
+      // Solo el service worker; un content script también puede mandar runtime messages
+      if (!sender.tab) applyState(state)
+    }
+  })
+  void sync(0)
+
+  return () => {
+    stopped = true
+    window.clearTimeout(retryId)
+    unlisten()
+  }
+}
+
+/** Cambió el token de Supabase (login, logout, refresh en otro contexto). */
+export const watchAuth = (listener: () => void) => {
+  authListeners.add(listener)
+  return () => {
+    authListeners.delete(listener)
+  }
+}
+
+export const loadSettings = () => synced.then(() => settings)
+
+export const saveSettings = async (patch: Partial<ExtensionSettings>) =>
+  (await sendRequest("SETTINGS_SAVE", { patch })).settings
+
+export const watchSettings = (listener: (settings: ExtensionSettings) => void) => {
+  settingsListeners.add(listener)
+  return () => {
+    settingsListeners.delete(listener)
+  }
+}
+
+export const loadTuningProfile = () => synced.then(() => tuningProfile)
+
+export const watchTuningProfile = (listener: (profile: TuningProfile | null) => void) => {
+  tuningListeners.add(listener)
+  return () => {
+    tuningListeners.delete(listener)
+  }
+}
+
+/** Se bloqueó o desbloqueó la pantalla (chrome.idle en el service worker). */
+export const watchScreenLock = (listener: (locked: boolean) => void) => {
+  screenLockListeners.add(listener)
+  return () => {
+    screenLockListeners.delete(listener)
+  }
+}
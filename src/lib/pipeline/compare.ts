@@ -0,0 +1,113 @@
+// src/lib/pipeline/compare.ts
+
+/**
+ * Corre varios pipelines sobre el mismo DetectionData: en vivo (una fila por
+ * motor en cada frame) o sobre una serie de frames grabados (resumen agregado).
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import type { Baseline } from "~lib/calibration"
+import type { AttentionClassification, CognitiveState, ScreenSize } from "~lib/cognitivethresholds"
+import type { Metrics } from "~lib/metricsSmoothing"
+import type { ScreenLayout } from "~lib/screenLayout"
+import { PIPELINE_IDS, createPipelineById } from "./registry"
+import type { PipelineId, PipelineOptions } from "./types"
+
+export interface PipelineComparisonRow extends Metrics {
+  id: PipelineId
+  label: string
+  dominantState: CognitiveState
+  attention: AttentionClassification
+  confidence: number
+}
+
+export interface PipelineFrameSummary {
+  id: PipelineId
+  label: string
+  frames: number
+  mean: Metrics
+  meanConfidence: number
+  states: Partial<Record<CognitiveState, number>>
+  // Fracción de frames en que coincide el estado dominante con el primer pipeline
+  agreement: number
+}
+
+export const createPipelineComparator = (ids: PipelineId[] = PIPELINE_IDS, options: PipelineOptions = {}) => {
+  const pipelines = ids.map((id) => createPipelineById(id, options))
+
+  const process = (data: DetectionData, now: number = Date.now(), screen?: ScreenSize): PipelineComparisonRow[] =>
+    pipelines.map((pipeline) => {
+      const result = pipeline.process(data, now, screen)
+      return {
+        id: pipeline.id,
+        label: pipeline.label,
+        focus: result.focus,
+        stress: result.stress,
+        fatigue: result.fatigue,
+        distraction: result.distraction,
+        dominantState: result.dominantState,
+        attention: result.attention.classification,
+        confidence: result.confidence
+      }
+    })
+
+  const updateBaseline = (baseline: Baseline) => pipelines.forEach((pipeline) => pipeline.updateBaseline(baseline))
+
+  const updateLayout = (layout: ScreenLayout | null) => pipelines.forEach((pipeline) => pipeline.updateLayout(layout))
+
+  return { process, updateBaseline, updateLayout }
+}
+
+export const comparePipelinesOnFrames = (
+  frames: Array<{ t: number; data: DetectionData }>,
+  options: { ids?: PipelineId[]; baseline?: Baseline | null; screen?: ScreenSize } = {}
+): PipelineFrameSummary[] => {
+  const ids = options.ids ?? PIPELINE_IDS
+  const comparator = createPipelineComparator(ids)
+  if (options.baseline) comparator.updateBaseline(options.baseline)
+
+  const summaries = new Map<PipelineId, PipelineFrameSummary>()
+  ids.forEach((id) => {
+    summaries.set(id, {
+      id,
+      label: "",
+      frames: 0,
+      mean: { focus: 0, stress: 0, fatigue: 0, distraction: 0 },
+      meanConfidence: 0,
+      states: {},
+      agreement: 0
+    })
+  })
+
+  frames.forEach(({ t, data }) => {
+    const rows = comparator.process(data, t, options.screen)
+    const reference = rows[0]?.dominantState
+    rows.forEach((row) => {
+      const summary = summaries.get(row.id)
+      summary.label = row.label
+      summary.frames += 1
+      summary.mean.focus += row.focus
+      summary.mean.stress += row.stress
+      summary.mean.fatigue += row.fatigue
+      summary.mean.distraction += row.distraction
+      summary.meanConfidence += row.confidence
+      summary.states[row.dominantState] = (summary.states[row.dominantState] ?? 0) + 1
+      if (row.dominantState === reference) summary.agreement += 1
+    })
+  })
+
+  return Array.from(summaries.values()).map((summary) => {
+    const n = Math.max(1, summary.frames)
+    return {
+      ...summary,
+      mean: {
+        focus: Math.round(summary.mean.focus / n),
+        stress: Math.round(summary.mean.stress / n),
+        fatigue: Math.round(summary.mean.fatigue / n),
+        distraction: Math.round(summary.mean.distraction / n)
+      },
+      meanConfidence: Number((summary.meanConfidence / n).toFixed(3)),
+      agreement: Number((summary.agreement / n).toFixed(3))
+    }
+  })
+}
@@ -0,0 +1,171 @@
+// src/lib/pipeline/engine.ts
+
+/**
+ * Adaptador del motor de `cognitive/` (CognitiveClassifier). Ese motor espera
+ * métricas derivadas de la malla de MediaPipe: con el proveedor MediaPipe se
+ * usan los analizadores de `cognitive/` sobre la malla real; con face-api se
+ * aproximan a partir de DetectionData. En los dos casos yaw/pitch son
+ * relativos al baseline, igual que en el calculador por umbrales.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import { resolveAttentionRules, resolveGazeZones, type CognitiveState } from "~lib/cognitivethresholds"
+import { EyeAnalyzer, ExpressionAnalyzer, HeadPoseAnalyzer } from "../../../cognitive/analyzers"
+import { CognitiveClassifier } from "../../../cognitive/classifiers"
+import { DEFAULT_CONFIG } from "../../../cognitive/engine"
+import {
+  CognitiveState as EngineState,
+  type CognitiveMetrics as EngineMetrics,
+  type EyeMetrics,
+  type FacialExpression,
+  type HeadPose
+} from "../../../cognitive/types"
+import { createPipeline } from "./pipeline"
+import { clamp, createAttentionTracker, defaultAlerts, offScreenPenalty } from "./stages"
+import type { PipelineInfo, PipelineOptions } from "./types"
+
+export const ENGINE_PIPELINE_INFO: PipelineInfo = {
+  id: "engine",
+  label: "Motor cognitivo",
+  description: "CognitiveClassifier (estabilidad de mirada y cabeza, apertura ocular) sobre la malla de MediaPipe o señales aproximadas de face-api."
+}
+
+// Ventana para estimar estabilidad (~2s a 5 Hz)
+const STABILITY_WINDOW = 10
+// Desviación estándar a partir de la cual la estabilidad es 0
+const GAZE_STD_AT_ZERO = 0.35
+const HEAD_STD_AT_ZERO_DEG = 12
+// EAR típico con ojos bien abiertos (si el baseline no trae el del usuario)
+const OPEN_EAR = 0.3
+
+type EngineSignals = {
+  eyes: EyeMetrics
+  expression: FacialExpression
+  headPose: HeadPose
+}
+
+const STATE_MAP: Record<EngineState, CognitiveState> = {
+  [EngineState.FOCUS]: "focus",
+  [EngineState.STRESS]: "stressed",
+  [EngineState.FATIGUE]: "tired",
+  [EngineState.DISTRACTION]: "distracted",
+  [EngineState.NEUTRAL]: "normal"
+}
+
+const stdDev = (values: number[]) => {
+  if (values.length < 2) return 0
+  const mean = values.reduce((a, b) => a + b, 0) / values.length
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length)
+}
+
+const stabilityFrom = (std: number, stdAtZero: number) => clamp(1 - std / stdAtZero, 0, 1)
+
+export const createEnginePipeline = (options: PipelineOptions = {}) => {
+  const rules = resolveAttentionRules(options.attentionRules)
+  const classifier = new CognitiveClassifier(DEFAULT_CONFIG)
+  const attentionTracker = createAttentionTracker(rules, resolveGazeZones(options.gazeZones))
+  const gazeHistory: Array<{ x: number; y: number }> = []
+  const headHistory: Array<{ yaw: number; pitch: number }> = []
+  // Solo se usan cuando el frame trae malla (proveedor MediaPipe)
+  const eyeAnalyzer = new EyeAnalyzer()
+  const expressionAnalyzer = new ExpressionAnalyzer()
+  const headPoseAnalyzer = new HeadPoseAnalyzer()
+
+  const pushBounded = <T>(list: T[], value: T) => {
+    list.push(value)
+    if (list.length > STABILITY_WINDOW) list.shift()
+  }
+
+  return createPipeline<EngineSignals, EngineMetrics>(ENGINE_PIPELINE_INFO, {
+    extract: (data: DetectionData, ctx) => {
+      // Mirada en [-1, 1] con (0, 0) en el centro de la pantalla
+      const gaze = {
+        x: clamp((data.gazeX / (ctx.screen.width || 1)) * 2 - 1, -1, 1),
+        y: clamp((data.gazeY / (ctx.screen.height || 1)) * 2 - 1, -1, 1)
+      }
+      const yaw = data.headPose.yaw - (ctx.baseline?.headPose.yaw ?? 0)
+      const pitch = data.headPose.pitch - (ctx.baseline?.headPose.pitch ?? 0)
+      pushBounded(gazeHistory, gaze)
+      pushBounded(headHistory, { yaw, pitch })
+
+      const gazeStd = Math.max(stdDev(gazeHistory.map((g) => g.x)), stdDev(gazeHistory.map((g) => g.y)))
+      const headStd = Math.max(stdDev(headHistory.map((h) => h.yaw)), stdDev(headHistory.map((h) => h.pitch)))
+      const e = data.expressions
+
+      if (data.faceMesh) {
+        const eyes = eyeAnalyzer.analyze(data.faceMesh)
+        const face = expressionAnalyzer.analyze(data.faceMesh)
+        const head = headPoseAnalyzer.analyze(data.faceMesh)
+        return {
+          eyes: {
+            ...eyes,
+            // El analizador cuenta frames con ojos entornados, no parpadeos: se usa la tasa del estabilizador
+            blinkRate: data.blinkRate,
+            // La mirada del analizador es la posición del iris en el frame; la de pantalla es la calibrada
+            gazeDirection: gaze
+          },
+          // Emociones de los blendshapes; ceño y tensión de boca medidos en la malla
+          expression: {
+            ...face,
+            neutral: e.neutral,
+            happy: e.happy,
+            sad: e.sad,
+            angry: Math.max(e.angry, face.eyebrowFurrow * 0.5),
+            fearful: e.fearful,
+            disgusted: e.disgusted,
+            surprised: e.surprised
+          },
+          headPose: { yaw, pitch, roll: data.headPose.roll, stability: head.stability }
+        }
+      }
+
+      return {
+        eyes: {
+          gazeDirection: gaze,
+          blinkRate: data.blinkRate,
+          eyeOpenness: data.eyeState.eyesClosed ? 0 : clamp(data.eyeState.earAvg / (ctx.baseline?.ear ?? OPEN_EAR), 0, 1),
+          // face-api no da pupila; valor neutro para que no sesgue
+          pupilDilation: 0.5,
+          gazeStability: stabilityFrom(gazeStd, GAZE_STD_AT_ZERO)
+        },
+        expression: {
+          neutral: e.neutral,
+          happy: e.happy,
+          sad: e.sad,
+          angry: e.angry,
+          fearful: e.fearful,
+          disgusted: e.disgusted,
+          surprised: e.surprised,
+          // Sin action units: aproximamos ceño y tensión con las emociones asociadas
+          eyebrowFurrow: clamp(e.angry + e.fearful * 0.5 + e.sad * 0.3, 0, 1),
+          mouthTension: clamp(e.angry * 0.6 + e.disgusted + e.fearful * 0.4, 0, 1)
+        },
+        headPose: {
+          yaw,
+          pitch,
+          roll: data.headPose.roll,
+          stability: stabilityFrom(headStd, HEAD_STD_AT_ZERO_DEG)
+        }
+      }
+    },
+    score: (signals, data, ctx) => {
+      const result = classifier.classify(signals.eyes, signals.expression, signals.headPose)
+      const attention = attentionTracker.evaluate(data, ctx)
+      const focus = clamp(result.focusScore - offScreenPenalty(attention, rules), 0, 100)
+      const quality = data.quality?.score ?? 0.75
+      return {
+        scores: {
+          focus,
+          stress: result.stressScore,
+          fatigue: result.fatigueScore,
+          distraction: Math.max(result.distractionScore, 100 - focus)
+        },
+        attention,
+        confidence: clamp(quality * 0.6 + result.confidence * 0.4, 0.2, 1),
+        details: result
+      }
+    },
+    classify: (result) => STATE_MAP[result.details.currentState] ?? "normal",
+    alerts: defaultAlerts
+  })
+}
@@ -0,0 +1,124 @@
+// src/lib/pipeline/legacy.ts
+
+/**
+ * Heurísticas originales del background (antes de calibración y umbrales
+ * adaptativos). El background las sigue usando como fallback cuando recibe
+ * datos crudos sin métricas; como pipeline sirven de referencia para comparar.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import { getScreenSize, resolveAttentionRules, resolveGazeZones, type ScreenSize } from "~lib/cognitivethresholds"
+import { createPipeline } from "./pipeline"
+import { clamp, classifyByScores, createAttentionTracker, defaultAlerts, offScreenPenalty } from "./stages"
+import type { PipelineInfo, PipelineOptions } from "./types"
+
+export const LEGACY_PIPELINE_INFO: PipelineInfo = {
+  id: "legacy",
+  label: "Heurísticas básicas",
+  description: "Reglas simples de mirada, expresión y parpadeo del background original, sin calibración."
+}
+
+export function calculateFocusScore(
+  gazeX: number,
+  gazeY: number,
+  expressions: Record<string, number>,
+  headPose?: { yaw: number; pitch: number; roll: number },
+  blinkRate?: number,
+  screen: ScreenSize = getScreenSize()
+): number {
+  const neutral = expressions.neutral ?? 0
+  const happy = expressions.happy ?? 0
+  const angry = expressions.angry ?? 0
+  const sad = expressions.sad ?? 0
+
+  const emotionalWeight = (neutral + happy) * 0.5
+
+  const isGazeReasonable =
+    gazeX > screen.width * 0.2 &&
+    gazeX < screen.width * 0.8 &&
+    gazeY > screen.height * 0.1 &&
+    gazeY < screen.height * 0.9
+
+  let headAlignment = 1
+  if (headPose) {
+    const yawPenalty = Math.abs(headPose.yaw) / 45
+    const pitchPenalty = Math.abs(headPose.pitch) / 30
+    headAlignment = Math.max(0, 1 - (yawPenalty + pitchPenalty) / 2)
+  }
+
+  let blinkFactor = 1
+  if (blinkRate !== undefined) {
+    blinkFactor = blinkRate > 10 && blinkRate < 25 ? 1 : 0.7
+  }
+
+  let score = 0
+
+  if (isGazeReasonable && neutral > 0.4) {
+    score = 70 + emotionalWeight * 30
+  } else if (angry > 0.2 || sad > 0.2) {
+    score = 10 + emotionalWeight * 20
+  } else {
+    score = 40 + emotionalWeight * 20
+  }
+
+  score = score * headAlignment * blinkFactor
+
+  return Math.round(clamp(score, 0, 100))
+}
+
+export function calculateStressLevel(expressions: Record<string, number>): number {
+  const negativeEmotions =
+    (expressions.angry ?? 0) + (expressions.sad ?? 0) + (expressions.surprised ?? 0)
+
+  const positiveEmotions = (expressions.happy ?? 0) + (expressions.neutral ?? 0)
+
+  const stress = negativeEmotions - positiveEmotions * 0.5
+  const level = (stress + 1) * 50
+
+  return Math.round(clamp(level, 0, 100))
+}
+
+export function calculateFatigueLevel(expressions: Record<string, number>, blinkRate?: number): number {
+  const neutral = expressions.neutral ?? 0
+  const sad = expressions.sad ?? 0
+  let fatigue = 20
+  if (typeof blinkRate === "number" && blinkRate > 25) fatigue += 30
+  fatigue += sad * 25 + Math.max(0, neutral - 0.7) * 30
+  return Math.round(clamp(fatigue, 0, 100))
+}
+
+export function getDominantEmotion(expressions: Record<string, number>): string {
+  const keys = Object.keys(expressions)
+  if (keys.length === 0) return "neutral"
+  return keys.reduce((a, b) => (expressions[a] > expressions[b] ? a : b))
+}
+
+export const createLegacyPipeline = (options: PipelineOptions = {}) => {
+  const rules = resolveAttentionRules(options.attentionRules)
+  const attentionTracker = createAttentionTracker(rules, resolveGazeZones(options.gazeZones))
+
+  return createPipeline<DetectionData, null>(LEGACY_PIPELINE_INFO, {
+    extract: (data) => data,
+    score: (data, _raw, ctx) => {
+      const attention = attentionTracker.evaluate(data, ctx)
+      const focus = clamp(
+        calculateFocusScore(data.gazeX, data.gazeY, data.expressions, data.headPose, data.blinkRate, ctx.screen) -
+          offScreenPenalty(attention, rules),
+        0,
+        100
+      )
+      return {
+        scores: {
+          focus,
+          stress: calculateStressLevel(data.expressions),
+          fatigue: calculateFatigueLevel(data.expressions, data.blinkRate),
+          distraction: 100 - focus
+        },
+        attention,
+        confidence: clamp(data.quality?.score ?? 0.5, 0.2, 1)
+      }
+    },
+    classify: (result) => classifyByScores(result.scores),
+    alerts: defaultAlerts
+  })
+}
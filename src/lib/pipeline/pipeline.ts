@@ -0,0 +1,45 @@
+// src/lib/pipeline/pipeline.ts
+
+import type { DetectionData } from "~components/CameraFeed"
+import type { Baseline } from "~lib/calibration"
+import { getScreenSize, type CognitiveMetrics, type ScreenSize } from "~lib/cognitivethresholds"
+import type { ScreenLayout } from "~lib/screenLayout"
+import { mapGaze } from "~lib/vision/gazeMapping"
+import type { CognitivePipeline, PipelineContext, PipelineInfo, PipelineStages } from "./types"
+
+/** Compone las cuatro etapas en un pipeline con baseline propio. */
+export const createPipeline = <S, D>(info: PipelineInfo, stages: PipelineStages<S, D>): CognitivePipeline => {
+  let baseline: Baseline | null = null
+  let layout: ScreenLayout | null = null
+
+  const process = (
+    data: DetectionData,
+    now: number = Date.now(),
+    screen: ScreenSize = getScreenSize()
+  ): CognitiveMetrics => {
+    const ctx: PipelineContext = { now, baseline, screen, layout }
+    // Mirada corregida con el mapeo de la calibración del usuario (si lo hay)
+    data = mapGaze(baseline, data, screen)
+    const signals = stages.extract(data, ctx)
+    const result = stages.score(signals, data, ctx)
+    return {
+      ...result.scores,
+      dominantState: stages.classify(result, ctx),
+      attention: result.attention,
+      confidence: result.confidence,
+      drowsiness: result.drowsiness,
+      alerts: stages.alerts(result, data, ctx)
+    }
+  }
+
+  const updateBaseline = (next: Baseline) => {
+    baseline = next
+    stages.onBaseline?.(next)
+  }
+
+  const updateLayout = (next: ScreenLayout | null) => {
+    layout = next
+  }
+
+  return { ...info, process, updateBaseline, updateLayout }
+}
@@ -0,0 +1,23 @@
+// src/lib/pipeline/registry.ts
+
+import { createEnginePipeline, ENGINE_PIPELINE_INFO } from "./engine"
+import { createLegacyPipeline, LEGACY_PIPELINE_INFO } from "./legacy"
+import { createThresholdsPipeline, THRESHOLDS_PIPELINE_INFO } from "./thresholds"
+import type { CognitivePipeline, PipelineId, PipelineInfo, PipelineOptions } from "./types"
+
+export const DEFAULT_PIPELINE_ID: PipelineId = "thresholds"
+
+export const PIPELINES: Record<PipelineId, PipelineInfo & { create: (options?: PipelineOptions) => CognitivePipeline }> = {
+  thresholds: { ...THRESHOLDS_PIPELINE_INFO, create: createThresholdsPipeline },
+  engine: { ...ENGINE_PIPELINE_INFO, create: createEnginePipeline },
+  legacy: { ...LEGACY_PIPELINE_INFO, create: createLegacyPipeline }
+}
+
+export const PIPELINE_IDS = Object.keys(PIPELINES) as PipelineId[]
+
+export const isPipelineId = (value: unknown): value is PipelineId =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(PIPELINES, value)
+
+/** Instancia nueva (cada pipeline guarda su propio historial y baseline). */
+export const createPipelineById = (id: PipelineId, options: PipelineOptions = {}): CognitivePipeline =>
+  (PIPELINES[id] ?? PIPELINES[DEFAULT_PIPELINE_ID]).create(options)
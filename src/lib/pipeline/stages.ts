@@ -0,0 +1,105 @@
+// src/lib/pipeline/stages.ts
+
+/**
+ * Etapas reutilizables para los motores que no traen su propia atención
+ * visual ni sus alertas (engine, legacy). Usan las mismas reglas que
+ * `CognitiveMetricsCalculator` pero sin histéresis, para no copiar su estado.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import {
+  buildCognitiveAlerts,
+  resolveAttentionRules,
+  resolveGazeZones,
+  type AttentionClassification,
+  type AttentionRules,
+  type AttentionState,
+  type CognitiveState,
+  type GazeZones
+} from "~lib/cognitivethresholds"
+import type { Metrics } from "~lib/metricsSmoothing"
+import { matchSecondaryScreen } from "~lib/screenLayout"
+import { isPhoneInUse } from "~lib/vision/phoneUsage"
+import type { AlertGenerator, PipelineContext } from "./types"
+
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/** Atención visual instantánea + cronómetro de "fuera de pantalla". */
+export const createAttentionTracker = (
+  rules: AttentionRules = resolveAttentionRules(),
+  zones: GazeZones = resolveGazeZones()
+) => {
+  let offScreenSince: number | null = null
+
+  const evaluate = (data: DetectionData, ctx: PipelineContext): AttentionState => {
+    const gazeXn = data.gazeX / (ctx.screen.width || 1)
+    const gazeYn = data.gazeY / (ctx.screen.height || 1)
+    const yawDev = Math.abs(data.headPose.yaw - (ctx.baseline?.headPose.yaw ?? 0))
+    const pitchDev = Math.abs(data.headPose.pitch - (ctx.baseline?.headPose.pitch ?? 0))
+    const qualityScore = data.quality?.score ?? 0.75
+    const reliable = (data.quality?.reliable ?? true) && qualityScore >= rules.minQualityForDecision
+    const phoneInUse = isPhoneInUse(data)
+    const poseReliable = (data.headPose.confidence ?? 1) >= rules.minPoseConfidence
+
+    const inExtended =
+      gazeXn >= zones.EXTENDED.x.min && gazeXn <= zones.EXTENDED.x.max &&
+      gazeYn >= zones.EXTENDED.y.min && gazeYn <= zones.EXTENDED.y.max
+    const phoneLooking =
+      phoneInUse ||
+      (pitchDev > rules.phonePitchDeg && gazeYn > rules.phoneGazeY)
+    const sideLooking = yawDev > rules.sideYawDeg
+    const onScreen = inExtended && yawDev < rules.offscreenYawDeg && !phoneLooking
+    const secondary = reliable && !onScreen && !phoneInUse ? matchSecondaryScreen(ctx.layout, data, ctx.baseline) : null
+
+    let classification: AttentionClassification
+    if (!reliable) classification = "uncertain"
+    else if (phoneInUse) classification = "phone_like"
+    else if (!poseReliable) classification = "uncertain"
+    else if (secondary) classification = ctx.layout.secondaryOnTask ? "on_screen" : "off_screen"
+    else if (phoneLooking) classification = "phone_like"
+    else if (onScreen) classification = "on_screen"
+    else if (sideLooking) classification = "side_like"
+    else classification = "off_screen"
+
+    if (classification === "on_screen" || classification === "uncertain") {
+      offScreenSince = null
+    } else if (offScreenSince == null) {
+      offScreenSince = ctx.now
+    }
+
+    return {
+      onScreen: classification === "on_screen" || classification === "uncertain",
+      offScreenMs: offScreenSince == null ? 0 : ctx.now - offScreenSince,
+      phoneLooking: classification === "phone_like",
+      sideLooking: reliable && poseReliable && sideLooking && !secondary,
+      secondaryScreen: secondary?.id ?? null,
+      classification,
+      qualityScore,
+      reliable
+    }
+  }
+
+  return { evaluate }
+}
+
+/** Penalización de foco por tiempo fuera de pantalla (misma rampa que el calculador). */
+export const offScreenPenalty = (attention: AttentionState, rules: AttentionRules = resolveAttentionRules()) => {
+  if (attention.offScreenMs <= rules.offscreenGraceMs) return 0
+  const ramp =
+    (attention.offScreenMs - rules.offscreenGraceMs) / Math.max(1, rules.offscreenMaxMs - rules.offscreenGraceMs)
+  return Math.round(clamp(ramp, 0, 1) * rules.offscreenMaxPenalty)
+}
+
+/** Clasificador por umbrales fijos para motores que solo producen scores. */
+export const classifyByScores = (scores: Metrics): CognitiveState => {
+  if (scores.fatigue >= 85) return "drowsy"
+  if (scores.fatigue >= 70) return "tired"
+  if (scores.stress >= 60) return "stressed"
+  if (scores.focus >= 80) return "deep_focus"
+  if (scores.focus >= 65) return "focus"
+  if (scores.distraction >= 65) return "distracted"
+  return "normal"
+}
+
+export const defaultAlerts: AlertGenerator = (result, data) =>
+  buildCognitiveAlerts(result.scores, data, result.attention)
@@ -0,0 +1,44 @@
+// src/lib/pipeline/thresholds.ts
+
+/**
+ * Motor por defecto: `CognitiveMetricsCalculator` (umbrales adaptativos sobre
+ * DetectionData). Ya hace scoring, clasificación y alertas en un solo paso,
+ * así que las etapas posteriores solo leen su resultado.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import { createCognitiveCalculator, type CognitiveMetrics } from "~lib/cognitivethresholds"
+import { createPipeline } from "./pipeline"
+import type { PipelineInfo, PipelineOptions } from "./types"
+
+export const THRESHOLDS_PIPELINE_INFO: PipelineInfo = {
+  id: "thresholds",
+  label: "Umbrales adaptativos",
+  description: "Calculador científico con baseline de calibración, histéresis de atención y fatiga acumulada."
+}
+
+export const createThresholdsPipeline = (options: PipelineOptions = {}) => {
+  const calculator = createCognitiveCalculator(null, options)
+
+  return createPipeline<DetectionData, CognitiveMetrics>(THRESHOLDS_PIPELINE_INFO, {
+    extract: (data) => data,
+    score: (data, _raw, ctx) => {
+      const result = calculator.calculate(data, ctx.now, ctx.screen, ctx.layout)
+      return {
+        scores: {
+          focus: result.focus,
+          stress: result.stress,
+          fatigue: result.fatigue,
+          distraction: result.distraction
+        },
+        attention: result.attention,
+        confidence: result.confidence,
+        drowsiness: result.drowsiness,
+        details: result
+      }
+    },
+    classify: (result) => result.details.dominantState,
+    alerts: (result) => result.details.alerts,
+    onBaseline: (baseline) => calculator.updateBaseline(baseline)
+  })
+}
@@ -0,0 +1,81 @@
+// src/lib/pipeline/types.ts
+
+/**
+ * Contrato común de los motores cognitivos. Cada implementación se arma con
+ * las mismas cuatro etapas:
+ *
+ *   extractores de señal → scorers → clasificador de estado → generador de alertas
+ *
+ * y produce siempre un `CognitiveMetrics`, así el monitor, el replay y la
+ * comparación no saben qué motor hay detrás.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import type { Baseline } from "~lib/calibration"
+import type {
+  AttentionState,
+  CognitiveAlerts,
+  CognitiveMetrics,
+  CognitiveOverrides,
+  CognitiveState,
+  ScreenSize
+} from "~lib/cognitivethresholds"
+import type { DrowsinessEstimate } from "~lib/drowsinessScale"
+import type { Metrics } from "~lib/metricsSmoothing"
+import type { ScreenLayout } from "~lib/screenLayout"
+
+export type PipelineId = "thresholds" | "engine" | "legacy"
+
+export interface PipelineInfo {
+  id: PipelineId
+  label: string
+  description: string
+}
+
+// Configuración por instancia: reglas a evaluar contra etiquetas o el perfil de ajuste del usuario
+export type PipelineOptions = CognitiveOverrides
+
+export interface PipelineContext {
+  now: number
+  baseline: Baseline | null
+  screen: ScreenSize
+  // Monitores secundarios configurados (null = solo la pantalla principal)
+  layout: ScreenLayout | null
+}
+
+export interface ScoreResult<D = unknown> {
+  scores: Metrics
+  attention: AttentionState
+  confidence: number
+  // Somnolencia KSS, si el motor la estima
+  drowsiness?: DrowsinessEstimate
+  // Salida cruda del motor, por si el clasificador o las alertas la necesitan
+  details?: D
+}
+
+export type SignalExtractor<S> = (data: DetectionData, ctx: PipelineContext) => S
+
+export type Scorer<S, D = unknown> = (signals: S, data: DetectionData, ctx: PipelineContext) => ScoreResult<D>
+
+export type StateClassifier<D = unknown> = (result: ScoreResult<D>, ctx: PipelineContext) => CognitiveState
+
+export type AlertGenerator<D = unknown> = (
+  result: ScoreResult<D>,
+  data: DetectionData,
+  ctx: PipelineContext
+) => CognitiveAlerts
+
+export interface PipelineStages<S, D = unknown> {
+  extract: SignalExtractor<S>
+  score: Scorer<S, D>
+  classify: StateClassifier<D>
+  alerts: AlertGenerator<D>
+  // Las etapas con estado propio (historial, baseline) se enteran de la calibración
+  onBaseline?: (baseline: Baseline) => void
+}
+
+export interface CognitivePipeline extends PipelineInfo {
+  process: (data: DetectionData, now?: number, screen?: ScreenSize) => CognitiveMetrics
+  updateBaseline: (baseline: Baseline) => void
+  updateLayout: (layout: ScreenLayout | null) => void
+}
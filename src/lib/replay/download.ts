@@ -0,0 +1,15 @@
+// src/lib/replay/download.ts
+
+/** Descarga una grabación JSONL desde una página de la extensión. */
+export const downloadRecording = (text: string, startedAt: number | null) => {
+  const stamp = new Date(startedAt ?? Date.now()).toISOString().replace(/[:.]/g, "-")
+  const blob = new Blob([text], { type: "application/x-ndjson;charset=utf-8;" })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = `synapse_recording_${stamp}.jsonl`
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,210 @@
+// src/lib/replay/evaluation.ts
+
+/**
+ * Evalúa el clasificador de atención contra los tramos etiquetados de una
+ * grabación: matriz de confusión, precisión/recall por clase y latencia de
+ * transición (cuánto tarda el modelo en reflejar un cambio real de atención).
+ * Las reglas (`ATTENTION_RULES`) se pueden sobreescribir para comparar configs.
+ */
+
+import { resolveAttentionRules, type AttentionClassification, type AttentionRules } from "~lib/cognitivethresholds"
+import type { PipelineId } from "~lib/pipeline/types"
+import type { Recording } from "./format"
+import { ATTENTION_LABELS, TRUTH_CLASSES, type AttentionLabel, type TruthClass } from "./labels"
+import { runReplay, type ReplayOptions } from "./runner"
+
+const PREDICTED_CLASSES: AttentionClassification[] = [...TRUTH_CLASSES, "uncertain"]
+
+export type LabelSpan = {
+  label: AttentionLabel
+  classification: TruthClass
+  startMs: number
+  endMs: number
+}
+
+export type ClassScore = {
+  precision: number
+  recall: number
+  f1: number
+  // Frames etiquetados con esta clase
+  support: number
+}
+
+export type LatencyStats = {
+  transitions: number
+  detected: number
+  missed: number
+  meanMs: number | null
+  medianMs: number | null
+  p90Ms: number | null
+}
+
+export type AttentionEvaluation = {
+  pipelineId: PipelineId
+  rules: AttentionRules
+  labeledFrames: number
+  unlabeledFrames: number
+  accuracy: number
+  // Fracción de frames etiquetados en que el modelo dijo "uncertain"
+  uncertainRate: number
+  // Fracción de frames etiquetados en que el nivel de foco suavizado coincide con la etiqueta
+  // (no "Bajo" mirando la pantalla, "Bajo" en cualquier otra clase)
+  focusAgreement: number
+  // confusion[verdad][predicción] = frames
+  confusion: Record<TruthClass, Record<AttentionClassification, number>>
+  perClass: Record<TruthClass, ClassScore>
+  latency: LatencyStats & { perClass: Record<TruthClass, LatencyStats> }
+}
+
+/** Convierte los eventos de etiqueta en tramos [inicio, fin) relativos al inicio de la grabación. */
+export function extractLabelSpans(recording: Recording): LabelSpan[] {
+  const { header, entries } = recording
+  const spans: LabelSpan[] = []
+  let open: { label: AttentionLabel; startMs: number } | null = null
+  let lastMs = 0
+
+  const close = (endMs: number) => {
+    if (open && endMs > open.startMs) {
+      spans.push({ ...open, classification: ATTENTION_LABELS[open.label].classification, endMs })
+    }
+    open = null
+  }
+
+  entries.forEach((entry) => {
+    const offsetMs = entry.t - header.startedAt
+    lastMs = Math.max(lastMs, offsetMs)
+    if (entry.type !== "label") return
+    close(offsetMs)
+    if (entry.label) open = { label: entry.label, startMs: offsetMs }
+  })
+  // Grabación cortada sin cerrar la etiqueta: el tramo llega hasta el último frame
+  close(lastMs + 1)
+
+  return spans
+}
+
+const ratio = (num: number, den: number) => (den > 0 ? Number((num / den).toFixed(4)) : 0)
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? null : sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]
+
+const latencyStats = (latencies: Array<number | null>): LatencyStats => {
+  const detected = latencies.filter((l): l is number => l !== null).sort((a, b) => a - b)
+  return {
+    transitions: latencies.length,
+    detected: detected.length,
+    missed: latencies.length - detected.length,
+    meanMs: detected.length ? Math.round(detected.reduce((a, b) => a + b, 0) / detected.length) : null,
+    medianMs: percentile(detected, 50),
+    p90Ms: percentile(detected, 90)
+  }
+}
+
+const emptyRow = () =>
+  Object.fromEntries(PREDICTED_CLASSES.map((c) => [c, 0])) as Record<AttentionClassification, number>
+
+export function evaluateAttention(recording: Recording, options: ReplayOptions = {}): AttentionEvaluation {
+  const replay = runReplay(recording, options)
+  const spans = extractLabelSpans(recording)
+
+  const confusion = Object.fromEntries(TRUTH_CLASSES.map((c) => [c, emptyRow()])) as AttentionEvaluation["confusion"]
+  let labeledFrames = 0
+  let unlabeledFrames = 0
+  let focusAgreed = 0
+
+  // Timeline y tramos están ordenados: un solo recorrido con puntero
+  let spanIndex = 0
+  replay.timeline.forEach((tick) => {
+    while (spanIndex < spans.length && spans[spanIndex].endMs <= tick.offsetMs) spanIndex++
+    const span = spans[spanIndex]
+    if (!span || tick.offsetMs < span.startMs) {
+      unlabeledFrames++
+      return
+    }
+    labeledFrames++
+    confusion[span.classification][tick.attention]++
+    if ((tick.levels.focus === "Bajo") === (span.classification !== "on_screen")) focusAgreed++
+  })
+
+  const perClass = Object.fromEntries(
+    TRUTH_CLASSES.map((c) => {
+      const tp = confusion[c][c]
+      const support = PREDICTED_CLASSES.reduce((acc, p) => acc + confusion[c][p], 0)
+      const predicted = TRUTH_CLASSES.reduce((acc, t) => acc + confusion[t][c], 0)
+      const precision = ratio(tp, predicted)
+      const recall = ratio(tp, support)
+      const f1 = precision + recall > 0 ? Number(((2 * precision * recall) / (precision + recall)).toFixed(4)) : 0
+      return [c, { precision, recall, f1, support }]
+    })
+  ) as Record<TruthClass, ClassScore>
+
+  // Latencia: desde que empieza un tramo de otra clase hasta el primer frame que la predice
+  const latencies: Array<{ target: TruthClass; ms: number | null }> = []
+  spans.forEach((span, i) => {
+    const previous = spans[i - 1]
+    if (!previous || previous.classification === span.classification) return
+    const hit = replay.timeline.find(
+      (tick) => tick.offsetMs >= span.startMs && tick.offsetMs < span.endMs && tick.attention === span.classification
+    )
+    latencies.push({ target: span.classification, ms: hit ? hit.offsetMs - span.startMs : null })
+  })
+
+  const correct = TRUTH_CLASSES.reduce((acc, c) => acc + confusion[c][c], 0)
+  const uncertain = TRUTH_CLASSES.reduce((acc, c) => acc + confusion[c].uncertain, 0)
+
+  return {
+    pipelineId: replay.pipelineId,
+    rules: resolveAttentionRules(options.attentionRules),
+    labeledFrames,
+    unlabeledFrames,
+    accuracy: ratio(correct, labeledFrames),
+    uncertainRate: ratio(uncertain, labeledFrames),
+    focusAgreement: ratio(focusAgreed, labeledFrames),
+    confusion,
+    perClass,
+    latency: {
+      ...latencyStats(latencies.map((l) => l.ms)),
+      perClass: Object.fromEntries(
+        TRUTH_CLASSES.map((c) => [c, latencyStats(latencies.filter((l) => l.target === c).map((l) => l.ms))])
+      ) as Record<TruthClass, LatencyStats>
+    }
+  }
+}
+
+const pad = (value: string | number, width: number) => String(value).padStart(width)
+
+/** Reporte legible para la terminal. */
+export function formatEvaluationReport(report: AttentionEvaluation): string {
+  const lines: string[] = []
+  lines.push(`Pipeline: ${report.pipelineId}`)
+  lines.push(`Frames etiquetados: ${report.labeledFrames} (sin etiqueta: ${report.unlabeledFrames})`)
+  lines.push(
+    `Accuracy: ${(report.accuracy * 100).toFixed(1)}%   Uncertain: ${(report.uncertainRate * 100).toFixed(1)}%   ` +
+      `Foco coherente: ${(report.focusAgreement * 100).toFixed(1)}%`
+  )
+  lines.push("")
+  lines.push("Matriz de confusión (filas = etiqueta, columnas = predicción)")
+  lines.push(pad("", 12) + PREDICTED_CLASSES.map((c) => pad(c, 12)).join(""))
+  TRUTH_CLASSES.forEach((t) => {
+    lines.push(pad(t, 12) + PREDICTED_CLASSES.map((p) => pad(report.confusion[t][p], 12)).join(""))
+  })
+  lines.push("")
+  lines.push(pad("clase", 12) + ["precision", "recall", "f1", "soporte"].map((h) => pad(h, 11)).join(""))
+  TRUTH_CLASSES.forEach((c) => {
+    const s = report.perClass[c]
+    lines.push(pad(c, 12) + [s.precision.toFixed(3), s.recall.toFixed(3), s.f1.toFixed(3), s.support].map((v) => pad(v, 11)).join(""))
+  })
+  lines.push("")
+  const fmtMs = (ms: number | null) => (ms === null ? "-" : `${ms}ms`)
+  const l = report.latency
+  lines.push(
+    `Latencia de transición: ${l.detected}/${l.transitions} detectadas, media ${fmtMs(l.meanMs)}, ` +
+      `mediana ${fmtMs(l.medianMs)}, p90 ${fmtMs(l.p90Ms)}`
+  )
+  TRUTH_CLASSES.forEach((c) => {
+    const s = l.perClass[c]
+    if (s.transitions === 0) return
+    lines.push(`  → ${c}: ${s.detected}/${s.transitions}, mediana ${fmtMs(s.medianMs)}, p90 ${fmtMs(s.p90Ms)}`)
+  })
+  return lines.join("\n") + "\n"
+}
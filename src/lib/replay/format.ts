@@ -0,0 +1,143 @@
+// src/lib/replay/format.ts
+
+/**
+ * Formato JSONL de las grabaciones de DetectionData. Una entrada por línea:
+ *
+ *   {"type":"header","version":1,"startedAt":...,"screen":{...},"pipelineId":"thresholds"}
+ *   {"type":"baseline","t":...,"baseline":{...}}     (al terminar una calibración)
+ *   {"type":"frame","t":...,"data":{...DetectionData}}
+ *   {"type":"label","t":...,"label":"reading"}      (etiqueta de atención; null la cierra)
+ *
+ * `t` es el timestamp absoluto (ms) de cuando CameraFeed entregó la detección.
+ * Las coordenadas de mirada están en píxeles de `screen`, por eso va en el header.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import type { Baseline } from "~lib/calibration"
+import type { ScreenSize } from "~lib/cognitivethresholds"
+import type { PipelineId } from "~lib/pipeline/types"
+import { isAttentionLabel, type AttentionLabel } from "./labels"
+
+export const RECORDING_FORMAT_VERSION = 1
+
+export type RecordingHeader = {
+  type: "header"
+  version: number
+  startedAt: number
+  screen: ScreenSize
+  pipelineId?: PipelineId
+  // Baseline vigente al empezar a grabar (si ya había calibración)
+  baseline?: Baseline | null
+  note?: string
+}
+
+export type RecordingFrame = { type: "frame"; t: number; data: DetectionData }
+
+export type RecordingBaseline = { type: "baseline"; t: number; baseline: Baseline }
+
+export type RecordingLabel = { type: "label"; t: number; label: AttentionLabel | null }
+
+export type RecordingEntry = RecordingFrame | RecordingBaseline | RecordingLabel
+
+export type Recording = {
+  header: RecordingHeader
+  entries: RecordingEntry[]
+}
+
+export class RecordingParseError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(`Línea ${line}: ${message}`)
+    this.name = "RecordingParseError"
+  }
+}
+
+export const serializeRecording = (recording: Recording) =>
+  [recording.header, ...recording.entries].map((entry) => JSON.stringify(entry)).join("\n") + "\n"
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+// `eyes` (por ojo) falta en las grabaciones viejas; lo demás se lee sin defaults
+const isEyeState = (value: unknown) =>
+  isRecord(value) &&
+  isFiniteNumber(value.earAvg) &&
+  typeof value.eyesClosed === "boolean" &&
+  isFiniteNumber(value.eyeClosureDurationMs) &&
+  isFiniteNumber(value.perclos) &&
+  isFiniteNumber(value.slowBlinkCount) &&
+  isFiniteNumber(value.microsleepCount)
+
+// Lo mínimo que el calculador lee sin defaults; el resto de campos son opcionales
+const isDetectionData = (value: unknown): value is DetectionData =>
+  isRecord(value) &&
+  isRecord(value.expressions) &&
+  isFiniteNumber(value.gazeX) &&
+  isFiniteNumber(value.gazeY) &&
+  isFiniteNumber(value.blinkRate) &&
+  isRecord(value.headPose) &&
+  isFiniteNumber(value.headPose.yaw) &&
+  isFiniteNumber(value.headPose.pitch) &&
+  isEyeState(value.eyeState)
+
+const isScreenSize = (value: unknown): value is ScreenSize =>
+  isRecord(value) && isFiniteNumber(value.width) && isFiniteNumber(value.height)
+
+/**
+ * Parsea una grabación completa. Lanza RecordingParseError con el número de
+ * línea ante la primera entrada inválida; las líneas vacías se ignoran.
+ */
+export function parseRecording(text: string): Recording {
+  let header: RecordingHeader | null = null
+  const entries: RecordingEntry[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1
+    if (!raw.trim()) return
+
+    let value: unknown
+    try {
+      value = JSON.parse(raw)
+    } catch {
+      throw new RecordingParseError("JSON inválido", line)
+    }
+    if (!isRecord(value)) throw new RecordingParseError("se esperaba un objeto", line)
+
+    if (value.type === "header") {
+      if (header) throw new RecordingParseError("header duplicado", line)
+      if (value.version !== RECORDING_FORMAT_VERSION) {
+        throw new RecordingParseError(`versión ${String(value.version)} no soportada`, line)
+      }
+      if (!isFiniteNumber(value.startedAt) || !isScreenSize(value.screen)) {
+        throw new RecordingParseError("header sin startedAt o screen", line)
+      }
+      header = value as RecordingHeader
+      return
+    }
+
+    if (!header) throw new RecordingParseError("la primera entrada debe ser el header", line)
+    if (!isFiniteNumber(value.t)) throw new RecordingParseError("entrada sin timestamp", line)
+
+    if (value.type === "frame") {
+      if (!isDetectionData(value.data)) throw new RecordingParseError("DetectionData mal formado", line)
+      entries.push(value as RecordingFrame)
+    } else if (value.type === "baseline") {
+      if (!isRecord(value.baseline)) throw new RecordingParseError("baseline mal formado", line)
+      entries.push(value as RecordingBaseline)
+    } else if (value.type === "label") {
+      if (value.label !== null && !isAttentionLabel(value.label)) {
+        throw new RecordingParseError(`etiqueta desconocida "${String(value.label)}"`, line)
+      }
+      entries.push(value as RecordingLabel)
+    } else {
+      throw new RecordingParseError(`tipo desconocido "${String(value.type)}"`, line)
+    }
+  })
+
+  if (!header) throw new RecordingParseError("grabación vacía", 1)
+  return { header, entries }
+}
@@ -0,0 +1,25 @@
+// src/lib/replay/labels.ts
+
+/**
+ * Etiquetas de verdad de terreno para la atención visual. El usuario las
+ * marca en el side panel mientras graba; cada una corresponde a una clase de
+ * `evaluateAttention` ("uncertain" no es etiquetable: es una salida del modelo).
+ */
+
+import type { AttentionClassification } from "~lib/cognitivethresholds"
+
+export type AttentionLabel = "reading" | "phone" | "away" | "side"
+
+export type TruthClass = Exclude<AttentionClassification, "uncertain">
+
+export const TRUTH_CLASSES: TruthClass[] = ["on_screen", "off_screen", "phone_like", "side_like"]
+
+export const ATTENTION_LABELS: Record<AttentionLabel, { text: string; classification: TruthClass }> = {
+  reading: { text: "Leyendo / en pantalla", classification: "on_screen" },
+  phone: { text: "En el celular", classification: "phone_like" },
+  away: { text: "Mirando fuera", classification: "off_screen" },
+  side: { text: "Mirando a un lado", classification: "side_like" }
+}
+
+export const isAttentionLabel = (value: unknown): value is AttentionLabel =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(ATTENTION_LABELS, value)
@@ -0,0 +1,102 @@
+// src/lib/replay/recorder.ts
+
+import type { DetectionData } from "~components/CameraFeed"
+import type { Baseline } from "~lib/calibration"
+import { getScreenSize } from "~lib/cognitivethresholds"
+import type { PipelineId } from "~lib/pipeline/types"
+import type { AttentionLabel } from "./labels"
+import { RECORDING_FORMAT_VERSION, serializeRecording, type RecordingEntry, type RecordingHeader } from "./format"
+
+// ~30 min a 5 Hz; al llegar al tope se deja de grabar para no llenar la memoria del offscreen
+const DEFAULT_MAX_FRAMES = 9000
+
+export type RecorderStatus = {
+  active: boolean
+  frames: number
+  startedAt: number | null
+  truncated: boolean
+  // Etiqueta de atención vigente (modo etiquetado)
+  label: AttentionLabel | null
+}
+
+/**
+ * Graba el stream de DetectionData (tal cual lo entrega CameraFeed.onDetection)
+ * para reproducirlo después sin cámara con `runReplay`.
+ */
+export const createDetectionRecorder = (options: { maxFrames?: number } = {}) => {
+  const maxFrames = options.maxFrames ?? DEFAULT_MAX_FRAMES
+  let header: RecordingHeader | null = null
+  let entries: RecordingEntry[] = []
+  let frames = 0
+  let active = false
+  let truncated = false
+  let label: AttentionLabel | null = null
+
+  const start = (meta: { pipelineId?: PipelineId; baseline?: Baseline | null } = {}) => {
+    const startedAt = Date.now()
+    header = {
+      type: "header",
+      version: RECORDING_FORMAT_VERSION,
+      startedAt,
+      screen: getScreenSize(),
+      pipelineId: meta.pipelineId,
+      baseline: meta.baseline ?? null
+    }
+    entries = []
+    frames = 0
+    truncated = false
+    label = null
+    active = true
+  }
+
+  const recordFrame = (data: DetectionData, t: number = Date.now()) => {
+    if (!active) return
+    if (frames >= maxFrames) {
+      truncated = true
+      active = false
+      return
+    }
+    // Copia profunda: CameraFeed reutiliza objetos entre frames. Sin la malla de MediaPipe
+    // (pesa ~25 KB por frame): al reproducir, el motor usa las señales aproximadas
+    const { faceMesh: _mesh, ...frame } = data
+    entries.push({ type: "frame", t, data: JSON.parse(JSON.stringify(frame)) })
+    frames += 1
+  }
+
+  const recordBaseline = (baseline: Baseline, t: number = Date.now()) => {
+    if (!active) return
+    entries.push({ type: "baseline", t, baseline })
+  }
+
+  /** Abre un tramo etiquetado (o lo cierra con null); repetir la misma etiqueta no agrega nada. */
+  const recordLabel = (next: AttentionLabel | null, t: number = Date.now()) => {
+    if (!active || next === label) return
+    label = next
+    entries.push({ type: "label", t, label: next })
+  }
+
+  /** Termina la grabación y retorna el JSONL (null si no se estaba grabando nada). */
+  const stop = (): string | null => {
+    if (!header) return null
+    if (label) entries.push({ type: "label", t: Date.now(), label: null })
+    const text = serializeRecording({ header, entries })
+    header = null
+    entries = []
+    frames = 0
+    active = false
+    label = null
+    return text
+  }
+
+  const getStatus = (): RecorderStatus => ({
+    active,
+    frames,
+    startedAt: header?.startedAt ?? null,
+    truncated,
+    label
+  })
+
+  return { start, recordFrame, recordBaseline, recordLabel, stop, getStatus }
+}
+
+export type DetectionRecorder = ReturnType<typeof createDetectionRecorder>
@@ -0,0 +1,191 @@
+// src/lib/replay/runner.ts
+
+/**
+ * Reproducción headless de una grabación: cada frame pasa por el pipeline
+ * cognitivo (por defecto `CognitiveMetricsCalculator`) y el mismo smoother
+ * que usa el monitor en vivo, con el reloj y la pantalla de la grabación.
+ * No toca window, chrome ni la cámara: corre en Node.
+ */
+
+import type { AttentionClassification, CognitiveAlerts, CognitiveState } from "~lib/cognitivethresholds"
+import {
+  createMetricsSmoother,
+  initialMetrics,
+  liveSmoothingConfig,
+  type Metrics,
+  type MetricsLevels,
+  type SmoothingConfig
+} from "~lib/metricsSmoothing"
+import { DEFAULT_PIPELINE_ID, createPipelineById } from "~lib/pipeline/registry"
+import type { PipelineId, PipelineOptions } from "~lib/pipeline/types"
+import type { Recording } from "./format"
+
+export type AlertName = keyof CognitiveAlerts
+
+export type ReplayTick = {
+  t: number
+  // ms desde el inicio de la grabación
+  offsetMs: number
+  raw: Metrics
+  smoothed: Metrics
+  levels: MetricsLevels
+  dominantState: CognitiveState
+  attention: AttentionClassification
+  confidence: number
+  // KSS válido del motor (null si no lo estima o la ventana no está completa)
+  kss: number | null
+  alerts: AlertName[]
+}
+
+export type ReplayAlertEvent = {
+  alert: AlertName
+  startMs: number
+  endMs: number | null
+}
+
+export type ReplayResult = {
+  pipelineId: PipelineId
+  frames: number
+  durationMs: number
+  timeline: ReplayTick[]
+  alertEvents: ReplayAlertEvent[]
+  summary: {
+    meanSmoothed: Metrics
+    states: Partial<Record<CognitiveState, number>>
+  }
+}
+
+// Los overrides del calculador (reglas, cabeza, zonas de mirada) van directo al pipeline
+export type ReplayOptions = PipelineOptions & {
+  pipelineId?: PipelineId
+  smoothing?: SmoothingConfig
+}
+
+export function runReplay(recording: Recording, options: ReplayOptions = {}): ReplayResult {
+  const { header, entries } = recording
+  const pipelineId = options.pipelineId ?? header.pipelineId ?? DEFAULT_PIPELINE_ID
+  const pipeline = createPipelineById(pipelineId, {
+    attentionRules: options.attentionRules,
+    headPose: options.headPose,
+    gazeZones: options.gazeZones
+  })
+  const smoother = createMetricsSmoother({ ...initialMetrics }, options.smoothing ?? liveSmoothingConfig)
+  if (header.baseline) pipeline.updateBaseline(header.baseline)
+
+  const timeline: ReplayTick[] = []
+  const alertEvents: ReplayAlertEvent[] = []
+  const openAlerts = new Map<AlertName, ReplayAlertEvent>()
+  const totals: Metrics = { focus: 0, stress: 0, fatigue: 0, distraction: 0 }
+  const states: Partial<Record<CognitiveState, number>> = {}
+
+  entries.forEach((entry) => {
+    if (entry.type === "baseline") {
+      pipeline.updateBaseline(entry.baseline)
+      return
+    }
+    if (entry.type !== "frame") return
+
+    const offsetMs = entry.t - header.startedAt
+    const result = pipeline.process(entry.data, entry.t, header.screen)
+    const raw: Metrics = {
+      focus: result.focus,
+      stress: result.stress,
+      fatigue: result.fatigue,
+      distraction: result.distraction
+    }
+    const { smoothed, levels } = smoother.update(raw)
+    const active = (Object.keys(result.alerts) as AlertName[]).filter((name) => result.alerts[name])
+
+    // Eventos de alerta: se abren en el flanco de subida y se cierran en el de bajada
+    active.forEach((name) => {
+      if (openAlerts.has(name)) return
+      const event: ReplayAlertEvent = { alert: name, startMs: offsetMs, endMs: null }
+      openAlerts.set(name, event)
+      alertEvents.push(event)
+    })
+    openAlerts.forEach((event, name) => {
+      if (active.includes(name)) return
+      event.endMs = offsetMs
+      openAlerts.delete(name)
+    })
+
+    timeline.push({
+      t: entry.t,
+      offsetMs,
+      raw,
+      smoothed,
+      levels,
+      dominantState: result.dominantState,
+      attention: result.attention.classification,
+      confidence: Number(result.confidence.toFixed(3)),
+      kss: result.drowsiness?.valid ? result.drowsiness.kss : null,
+      alerts: active
+    })
+
+    totals.focus += smoothed.focus
+    totals.stress += smoothed.stress
+    totals.fatigue += smoothed.fatigue
+    totals.distraction += smoothed.distraction
+    states[result.dominantState] = (states[result.dominantState] ?? 0) + 1
+  })
+
+  const frames = timeline.length
+  const n = Math.max(1, frames)
+  return {
+    pipelineId,
+    frames,
+    durationMs: frames > 0 ? timeline[frames - 1].offsetMs : 0,
+    timeline,
+    alertEvents,
+    summary: {
+      meanSmoothed: {
+        focus: Math.round(totals.focus / n),
+        stress: Math.round(totals.stress / n),
+        fatigue: Math.round(totals.fatigue / n),
+        distraction: Math.round(totals.distraction / n)
+      },
+      states
+    }
+  }
+}
+
+const CSV_COLUMNS = [
+  "offset_ms",
+  "raw_focus",
+  "raw_stress",
+  "raw_fatigue",
+  "raw_distraction",
+  "focus",
+  "stress",
+  "fatigue",
+  "distraction",
+  "state",
+  "attention",
+  "confidence",
+  "kss",
+  "alerts"
+]
+
+/** Timeline en CSV (una fila por frame) para diffs o planillas. */
+export const timelineToCsv = (timeline: ReplayTick[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...timeline.map((tick) =>
+      [
+        tick.offsetMs,
+        tick.raw.focus,
+        tick.raw.stress,
+        tick.raw.fatigue,
+        tick.raw.distraction,
+        tick.smoothed.focus,
+        tick.smoothed.stress,
+        tick.smoothed.fatigue,
+        tick.smoothed.distraction,
+        tick.dominantState,
+        tick.attention,
+        tick.confidence,
+        tick.kss ?? "",
+        tick.alerts.join("|")
+      ].join(",")
+    )
+  ].join("\n") + "\n"
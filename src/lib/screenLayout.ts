@@ -0,0 +1,100 @@
+// src/lib/screenLayout.ts
+
+/**
+ * Disposición de pantallas: la principal (donde está la cámara y contra la
+ * que se calibra el baseline) más monitores secundarios a su alrededor.
+ *
+ * Cada secundario se calibra mirándolo unos segundos: se guarda la pose de
+ * cabeza media relativa al baseline. Después, una pose cercana a esa se
+ * reconoce como "mirando el secundario" y la atención lo cuenta como en
+ * tarea o fuera de tarea según `secondaryOnTask`.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import type { Baseline } from "./calibration"
+
+export type ScreenPlacement = "left" | "right" | "above" | "below"
+
+export const SCREEN_PLACEMENTS: Record<ScreenPlacement, string> = {
+  left: "A la izquierda",
+  right: "A la derecha",
+  above: "Arriba",
+  below: "Abajo"
+}
+
+export type SecondaryScreen = {
+  id: string
+  name: string
+  placement: ScreenPlacement
+  // Pose de cabeza al mirarlo, relativa al baseline (null hasta calibrarlo)
+  headPose: { yaw: number; pitch: number } | null
+  calibratedAt: number | null
+}
+
+export type ScreenLayout = {
+  secondaries: SecondaryScreen[]
+  // Mirar un secundario cuenta como en pantalla (docs, otra ventana de trabajo) o como distracción
+  secondaryOnTask: boolean
+}
+
+export const MAX_SECONDARY_SCREENS = 3
+
+export const DEFAULT_SCREEN_LAYOUT: ScreenLayout = { secondaries: [], secondaryOnTask: true }
+
+// Radio de la elipse de pose alrededor de la calibración de cada secundario
+const POSE_TOLERANCE = { yaw: 9, pitch: 7 }
+// Un secundario calibrado casi en la pose del principal no se distingue de él
+export const MIN_SECONDARY_SEPARATION_DEG = 8
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+const normalizeSecondary = (value: unknown): SecondaryScreen | null => {
+  if (!value || typeof value !== "object") return null
+  const raw = value as Partial<SecondaryScreen>
+  if (typeof raw.id !== "string" || !raw.id) return null
+  const pose = raw.headPose
+  return {
+    id: raw.id,
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name.slice(0, 40) : "Pantalla",
+    placement: raw.placement && raw.placement in SCREEN_PLACEMENTS ? raw.placement : "right",
+    headPose: pose && isFiniteNumber(pose.yaw) && isFiniteNumber(pose.pitch) ? { yaw: pose.yaw, pitch: pose.pitch } : null,
+    calibratedAt: isFiniteNumber(raw.calibratedAt) ? raw.calibratedAt : null
+  }
+}
+
+export const normalizeScreenLayout = (value: unknown): ScreenLayout => {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<ScreenLayout>
+  const secondaries = Array.isArray(raw.secondaries)
+    ? raw.secondaries.map(normalizeSecondary).filter((s): s is SecondaryScreen => s !== null)
+    : []
+  return {
+    secondaries: secondaries.slice(0, MAX_SECONDARY_SCREENS),
+    secondaryOnTask: typeof raw.secondaryOnTask === "boolean" ? raw.secondaryOnTask : DEFAULT_SCREEN_LAYOUT.secondaryOnTask
+  }
+}
+
+/**
+ * Secundario calibrado más cercano a la pose actual (dentro de la tolerancia),
+ * o null si la cabeza no apunta a ninguno.
+ */
+export const matchSecondaryScreen = (
+  layout: ScreenLayout | null,
+  data: DetectionData,
+  baseline: Baseline | null
+): SecondaryScreen | null => {
+  if (!layout || layout.secondaries.length === 0) return null
+  const yaw = data.headPose.yaw - (baseline?.headPose.yaw ?? 0)
+  const pitch = data.headPose.pitch - (baseline?.headPose.pitch ?? 0)
+
+  let best: SecondaryScreen | null = null
+  let bestDistance = 1
+  for (const screen of layout.secondaries) {
+    if (!screen.headPose) continue
+    const distance = Math.hypot((yaw - screen.headPose.yaw) / POSE_TOLERANCE.yaw, (pitch - screen.headPose.pitch) / POSE_TOLERANCE.pitch)
+    if (distance <= bestDistance) {
+      best = screen
+      bestDistance = distance
+    }
+  }
+  return best
+}
@@ -1,4 +1,39 @@
 import { supabase } from './supabase';
+import { STORES, deleteRecord, putRecord } from './localDb';
+import { discardSessionSync, enqueueSync, flushSyncQueue } from './syncQueue';
+import {
+  decodeTimeline,
+  encodeTimeline,
+  type LocalTimelineRecord,
+  type SessionSample,
+  type SessionTimeline
+} from './sessionTimeline';
+import type { DrowsinessEstimate, KssLevel } from './drowsinessScale';
+import type { DetectedObject, DistractionObjectId } from './vision/distractionObjects';
+import type { FatigueEvent } from './vision/faceStabilizers';
+
+// Hueco máximo entre detecciones que se sigue contando como objeto a la vista (sin cara no hay detecciones)
+const MAX_OBJECT_GAP_MS = 5000;
+
+export type ObjectDwell = Partial<Record<DistractionObjectId, number>>;
+
+// Evento de fatiga tal como se guarda con la sesión; las muestras de PERCLOS llevan el KSS válido del momento
+export type SessionFatigueEvent = FatigueEvent & { kss?: KssLevel };
+
+export interface PerclosSample {
+  t: number; // segundos desde el inicio de la sesión
+  perclos: number;
+  kss?: KssLevel;
+}
+
+export interface FatigueSummary {
+  microsleeps: number;
+  slowBlinks: number;
+  longestMicrosleepMs: number;
+  // Mayor KSS válido de la sesión (null si nunca hubo una ventana completa)
+  peakKss: KssLevel | null;
+  perclosTimeline: PerclosSample[];
+}
 
 export interface SessionMetrics {
   focus: number;
@@ -25,56 +60,137 @@ export interface SessionSummary {
   dominantState: string;
   avgConfidence: number;
   effectiveness: number; // 0-100
+  pausedSeconds: number;
+  pausedSpans: PausedSpan[];
+  // Segundos con cada objeto confirmado en cámara (solo local; no viaja a work_sessions)
+  objectDwellSeconds?: ObjectDwell;
+  // Microsueños, parpadeos lentos y PERCLOS en el tiempo (solo local)
+  fatigue?: FatigueSummary;
+}
+
+export interface PausedSpan {
+  startedAt: string;
+  endedAt: string;
+}
+
+/**
+ * Foto del estado en curso de la sesión, para recuperarla si se cierra
+ * el panel o se reinicia la extensión.
+ */
+export interface SessionCheckpoint {
+  sessionId: string;
+  userId: string | null;
+  startedAt: string;
+  pausedAt: string | null;
+  pausedSpans: PausedSpan[];
+  timeline: SessionTimeline;
+  interruptionCount: number;
+  focusPeriodCount: number;
+  lastState: string | null;
+  consecutiveFocusCount: number;
+  // Ausente en checkpoints anteriores al seguimiento de objetos
+  objectDwellMs?: ObjectDwell;
+  // Ausente en checkpoints anteriores al registro de eventos de fatiga
+  fatigueEvents?: SessionFatigueEvent[];
+  savedAt: string;
+}
+
+export interface SessionStatus {
+  sessionId: string;
+  elapsedSeconds: number;
+  interruptions: number;
+  focusPeriods: number;
+  isActive: boolean;
+  isPaused: boolean;
+  samples: number;
+}
+
+/**
+ * Copia local (IndexedDB) de cada sesión. Es la fuente de verdad hasta que
+ * la cola de sincronización la replica en work_sessions.
+ */
+export interface LocalSessionRecord {
+  id: string;
+  userId: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  pausedSpans: PausedSpan[];
+  summary: SessionSummary | null;
+  // Stream de eventos de fatiga con hora (parpadeos lentos, microsueños, PERCLOS)
+  fatigueEvents?: SessionFatigueEvent[];
 }
 
 export class SessionManager {
   private sessionId: string | null = null;
+  private userId: string | null = null;
   private startTime: Date | null = null;
-  private metricsHistory: SessionMetrics[] = [];
+  private pausedAt: Date | null = null;
+  private pausedSpans: PausedSpan[] = [];
+  private metricsHistory: SessionSample[] = [];
   
   // Contadores en tiempo real
   private interruptionCount = 0;
   private focusPeriodCount = 0;
   private lastState: string | null = null;
   private consecutiveFocusCount = 0;
+  private objectDwellMs: ObjectDwell = {};
+  private visibleObjects: DistractionObjectId[] = [];
+  private lastObjectsAt: number | null = null;
+  private fatigueEvents: SessionFatigueEvent[] = [];
 
   /**
-   * Inicia una nueva sesión de trabajo
+   * Inicia una nueva sesión de trabajo.
+   * Se guarda primero en local; no requiere red ni usuario autenticado.
    */
   async startSession(): Promise<string> {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('Usuario no autenticado');
-
-    const { data, error } = await supabase
-      .from('work_sessions')
-      .insert({
-        user_id: user.id,
-        started_at: new Date().toISOString()
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    this.sessionId = data.id;
-    this.startTime = new Date();
+    // getSession lee el token guardado (funciona offline), a diferencia de getUser
+    const { data: { session } } = await supabase.auth.getSession();
+    const userId = session?.user?.id ?? null;
+
+    const sessionId = crypto.randomUUID();
+    const startTime = new Date();
+
+    await putRecord<LocalSessionRecord>(STORES.sessions, {
+      id: sessionId,
+      userId,
+      startedAt: startTime.toISOString(),
+      endedAt: null,
+      pausedSpans: [],
+      summary: null
+    });
+    await enqueueSync({
+      kind: 'upsert_session',
+      sessionId,
+      userId,
+      payload: { started_at: startTime.toISOString() }
+    });
+    void flushSyncQueue();
+
+    this.sessionId = sessionId;
+    this.userId = userId;
+    this.startTime = startTime;
+    this.pausedAt = null;
+    this.pausedSpans = [];
     this.metricsHistory = [];
     this.interruptionCount = 0;
     this.focusPeriodCount = 0;
     this.lastState = null;
     this.consecutiveFocusCount = 0;
+    this.resetObjectDwell();
+    this.fatigueEvents = [];
 
-    console.log(`✅ Sesión iniciada: ${data.id}`);
-    return data.id;
+    console.log(`✅ Sesión iniciada: ${sessionId}`);
+    return sessionId;
   }
 
   /**
    * Registra métricas en tiempo real (llamar cada 1-2 segundos desde el engine)
    */
   recordMetrics(metrics: SessionMetrics) {
-    if (!this.sessionId) return;
+    // En pausa no se muestrea: los contadores quedan congelados
+    if (!this.sessionId || this.pausedAt) return;
 
-    this.metricsHistory.push(metrics);
+    this.metricsHistory.push({ ...metrics, t: Date.now() });
 
     // Detectar interrupciones (cambio de foco a distracción)
     if (this.lastState === 'focus' && metrics.dominantState === 'distraction') {
@@ -96,13 +212,46 @@ export class SessionManager {
 
     this.lastState = metrics.dominantState;
 
-    // Keep full in-memory history so session summary uses all collected samples.
+    // Keep full in-memory history so session summary and timeline use all collected samples.
+  }
+
+  /**
+   * Acumula el tiempo a la vista de cada objeto confirmado (llamar con cada detección)
+   */
+  recordObjects(objects: DetectedObject[], now: number = Date.now()) {
+    if (!this.sessionId || this.pausedAt) {
+      this.lastObjectsAt = null;
+      return;
+    }
+
+    if (this.lastObjectsAt !== null) {
+      const elapsed = Math.min(Math.max(0, now - this.lastObjectsAt), MAX_OBJECT_GAP_MS);
+      for (const id of this.visibleObjects) {
+        this.objectDwellMs[id] = (this.objectDwellMs[id] ?? 0) + elapsed;
+      }
+    }
+    this.visibleObjects = objects.map(o => o.id);
+    this.lastObjectsAt = now;
+  }
+
+  /**
+   * Guarda los eventos de fatiga de una detección; a las muestras de PERCLOS
+   * se les agrega el KSS si la estimación es válida
+   */
+  recordFatigue(events: FatigueEvent[], drowsiness?: DrowsinessEstimate) {
+    if (!this.sessionId || this.pausedAt) return;
+
+    for (const event of events) {
+      this.fatigueEvents.push(
+        event.type === 'perclos' && drowsiness?.valid ? { ...event, kss: drowsiness.kss } : event
+      );
+    }
   }
 
   /**
    * Finaliza la sesión y guarda estadísticas
    */
-  async endSession(): Promise<SessionSummary> {
+  async endSession(endTime: Date = new Date()): Promise<SessionSummary> {
     if (!this.sessionId || !this.startTime) {
       throw new Error('No hay sesión activa');
     }
@@ -111,8 +260,10 @@ export class SessionManager {
       throw new Error('No hay datos registrados en esta sesión');
     }
 
-    const endTime = new Date();
-    const durationSeconds = Math.floor((endTime.getTime() - this.startTime.getTime()) / 1000);
+    if (this.pausedAt) this.closePausedSpan(endTime);
+    // La duración solo cuenta tiempo activo (sin pausas)
+    const durationSeconds = this.getActiveSeconds(endTime);
+    const pausedSeconds = Math.floor((endTime.getTime() - this.startTime.getTime()) / 1000) - durationSeconds;
 
     // Calcular promedios
     const avgFocus = this.average(this.metricsHistory.map(m => m.focus));
@@ -141,30 +292,6 @@ export class SessionManager {
       avgConfidence
     );
 
-    // Actualizar sesión en Supabase
-    const { error } = await supabase
-      .from('work_sessions')
-      .update({
-        ended_at: endTime.toISOString(),
-        duration_seconds: durationSeconds,
-        avg_focus: Math.round(avgFocus),
-        avg_stress: Math.round(avgStress),
-        avg_fatigue: Math.round(avgFatigue),
-        avg_distraction: Math.round(avgDistraction),
-        pct_focused: parseFloat(pctFocused.toFixed(2)),
-        pct_distracted: parseFloat(pctDistracted.toFixed(2)),
-        pct_stressed: parseFloat(pctStressed.toFixed(2)),
-        pct_tired: parseFloat(pctTired.toFixed(2)),
-        interruptions: this.interruptionCount,
-        focus_periods: this.focusPeriodCount,
-        dominant_state: dominantState,
-        avg_confidence: parseFloat(avgConfidence.toFixed(2)),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', this.sessionId);
-
-    if (error) throw error;
-
     const summary: SessionSummary = {
       sessionId: this.sessionId,
       duration: durationSeconds,
@@ -180,33 +307,236 @@ export class SessionManager {
       focusPeriods: this.focusPeriodCount,
       dominantState,
       avgConfidence,
-      effectiveness
+      effectiveness,
+      pausedSeconds,
+      pausedSpans: [...this.pausedSpans],
+      objectDwellSeconds: Object.fromEntries(
+        Object.entries(this.objectDwellMs).map(([id, ms]) => [id, Math.round(ms / 1000)])
+      ),
+      fatigue: this.summarizeFatigue(this.startTime.getTime())
     };
 
+    // Guardar en local y encolar la actualización; si no hay red se reintenta luego
+    await putRecord<LocalSessionRecord>(STORES.sessions, {
+      id: this.sessionId,
+      userId: this.userId,
+      startedAt: this.startTime.toISOString(),
+      endedAt: endTime.toISOString(),
+      pausedSpans: summary.pausedSpans,
+      summary,
+      fatigueEvents: [...this.fatigueEvents]
+    });
+    await enqueueSync({
+      kind: 'upsert_session',
+      sessionId: this.sessionId,
+      userId: this.userId,
+      payload: this.buildSessionRow(summary, endTime)
+    });
+
+    // Timeline por muestra (para ver cuándo cayó el foco dentro de la sesión)
+    const timeline = encodeTimeline(this.metricsHistory, this.startTime.getTime());
+    await putRecord<LocalTimelineRecord>(STORES.timelines, { sessionId: this.sessionId, timeline });
+    await enqueueSync({
+      kind: 'upsert_timeline',
+      sessionId: this.sessionId,
+      userId: this.userId,
+      payload: { timeline, sample_count: this.metricsHistory.length }
+    });
+    void flushSyncQueue();
+
     console.log('📊 Sesión finalizada:', summary);
     this.reset();
     return summary;
   }
 
   /**
-   * Obtener estado actual de la sesión
+   * Construye un checkpoint del estado actual (null si no hay sesión activa)
    */
-  getSessionStatus() {
+  getCheckpoint(): SessionCheckpoint | null {
     if (!this.sessionId || !this.startTime) return null;
 
-    const now = new Date();
-    const elapsedSeconds = Math.floor((now.getTime() - this.startTime.getTime()) / 1000);
+    return {
+      sessionId: this.sessionId,
+      userId: this.userId,
+      startedAt: this.startTime.toISOString(),
+      pausedAt: this.pausedAt ? this.pausedAt.toISOString() : null,
+      pausedSpans: [...this.pausedSpans],
+      timeline: encodeTimeline(this.metricsHistory, this.startTime.getTime()),
+      interruptionCount: this.interruptionCount,
+      focusPeriodCount: this.focusPeriodCount,
+      lastState: this.lastState,
+      consecutiveFocusCount: this.consecutiveFocusCount,
+      objectDwellMs: { ...this.objectDwellMs },
+      fatigueEvents: [...this.fatigueEvents],
+      savedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Retoma una sesión desde un checkpoint. El hueco entre el último
+   * checkpoint y ahora se registra como pausa (no cuenta como tiempo activo).
+   */
+  resumeFromCheckpoint(checkpoint: SessionCheckpoint) {
+    this.loadCheckpoint(checkpoint);
+    if (!this.pausedAt) {
+      this.pausedSpans.push({ startedAt: checkpoint.savedAt, endedAt: new Date().toISOString() });
+    }
+    console.log(`♻️ Sesión recuperada: ${checkpoint.sessionId}`);
+  }
+
+  /**
+   * Cierra una sesión huérfana con los datos del checkpoint; termina en el
+   * momento del último checkpoint. Retorna null si no tenía muestras.
+   */
+  async finalizeFromCheckpoint(checkpoint: SessionCheckpoint): Promise<SessionSummary | null> {
+    this.loadCheckpoint(checkpoint);
+    const endTime = new Date(checkpoint.savedAt);
+
+    if (this.metricsHistory.length > 0) {
+      return this.endSession(endTime);
+    }
+
+    // Sin muestras: solo se cierra la fila para que no quede abierta
+    if (this.pausedAt) this.closePausedSpan(endTime);
+    const sessionId = checkpoint.sessionId;
+    await putRecord<LocalSessionRecord>(STORES.sessions, {
+      id: sessionId,
+      userId: this.userId,
+      startedAt: checkpoint.startedAt,
+      endedAt: endTime.toISOString(),
+      pausedSpans: [...this.pausedSpans],
+      summary: null
+    });
+    await enqueueSync({
+      kind: 'upsert_session',
+      sessionId,
+      userId: this.userId,
+      payload: {
+        started_at: checkpoint.startedAt,
+        ended_at: endTime.toISOString(),
+        duration_seconds: this.getActiveSeconds(endTime),
+        paused_spans: [...this.pausedSpans],
+        updated_at: new Date().toISOString()
+      }
+    });
+    void flushSyncQueue();
+    this.reset();
+    return null;
+  }
+
+  /**
+   * Descarta por completo la sesión del checkpoint (local y en la nube)
+   */
+  async discardFromCheckpoint(checkpoint: SessionCheckpoint) {
+    if (this.sessionId === checkpoint.sessionId) this.reset();
+    await deleteRecord(STORES.sessions, checkpoint.sessionId);
+    await deleteRecord(STORES.timelines, checkpoint.sessionId);
+    await discardSessionSync(checkpoint.sessionId, checkpoint.userId);
+    void flushSyncQueue();
+    console.log(`🗑️ Sesión descartada: ${checkpoint.sessionId}`);
+  }
+
+  /**
+   * Obtener estado actual de la sesión
+   */
+  getSessionStatus(): SessionStatus | null {
+    if (!this.sessionId || !this.startTime) return null;
 
     return {
       sessionId: this.sessionId,
-      elapsedSeconds,
+      elapsedSeconds: this.getActiveSeconds(new Date()),
       interruptions: this.interruptionCount,
       focusPeriods: this.focusPeriodCount,
-      isActive: true
+      isActive: true,
+      isPaused: this.pausedAt !== null,
+      samples: this.metricsHistory.length
     };
   }
 
   // Métodos auxiliares
+  private getActiveSeconds(now: Date): number {
+    if (!this.startTime) return 0;
+    const pausedMs = this.pausedSpans.reduce(
+      (acc, span) => acc + (new Date(span.endedAt).getTime() - new Date(span.startedAt).getTime()),
+      0
+    );
+    const ongoingPauseMs = this.pausedAt ? now.getTime() - this.pausedAt.getTime() : 0;
+    const activeMs = now.getTime() - this.startTime.getTime() - pausedMs - ongoingPauseMs;
+    return Math.max(0, Math.floor(activeMs / 1000));
+  }
+
+  private loadCheckpoint(checkpoint: SessionCheckpoint) {
+    this.sessionId = checkpoint.sessionId;
+    this.userId = checkpoint.userId;
+    this.startTime = new Date(checkpoint.startedAt);
+    this.pausedAt = checkpoint.pausedAt ? new Date(checkpoint.pausedAt) : null;
+    this.pausedSpans = [...checkpoint.pausedSpans];
+    this.metricsHistory = decodeTimeline(checkpoint.timeline);
+    this.interruptionCount = checkpoint.interruptionCount;
+    this.focusPeriodCount = checkpoint.focusPeriodCount;
+    this.lastState = checkpoint.lastState;
+    this.consecutiveFocusCount = checkpoint.consecutiveFocusCount;
+    this.objectDwellMs = { ...checkpoint.objectDwellMs };
+    this.visibleObjects = [];
+    this.lastObjectsAt = null;
+    this.fatigueEvents = [...(checkpoint.fatigueEvents ?? [])];
+  }
+
+  private resetObjectDwell() {
+    this.objectDwellMs = {};
+    this.visibleObjects = [];
+    this.lastObjectsAt = null;
+  }
+
+  private summarizeFatigue(startedAt: number): FatigueSummary {
+    const closures = this.fatigueEvents.filter(
+      (e): e is Extract<SessionFatigueEvent, { type: 'microsleep' | 'slow_blink' }> => e.type !== 'perclos'
+    );
+    const microsleeps = closures.filter(e => e.type === 'microsleep');
+    const perclosTimeline = this.fatigueEvents
+      .filter((e): e is Extract<SessionFatigueEvent, { type: 'perclos' }> => e.type === 'perclos')
+      .map(e => ({ t: Math.max(0, Math.round((e.at - startedAt) / 1000)), perclos: e.perclos, kss: e.kss }));
+    const kssValues = perclosTimeline.flatMap(s => (s.kss ? [s.kss] : []));
+
+    return {
+      microsleeps: microsleeps.length,
+      slowBlinks: closures.length - microsleeps.length,
+      longestMicrosleepMs: microsleeps.reduce((max, e) => Math.max(max, e.durationMs), 0),
+      peakKss: kssValues.length > 0 ? (Math.max(...kssValues) as KssLevel) : null,
+      perclosTimeline
+    };
+  }
+
+  private closePausedSpan(at: Date) {
+    if (!this.pausedAt) return;
+    this.pausedSpans.push({ startedAt: this.pausedAt.toISOString(), endedAt: at.toISOString() });
+    this.pausedAt = null;
+  }
+
+  private buildSessionRow(summary: SessionSummary, endTime: Date): Record<string, unknown> {
+    // started_at va siempre: el upsert inserta la fila completa si el insert inicial no llegó
+    return {
+      started_at: this.startTime?.toISOString(),
+      ended_at: endTime.toISOString(),
+      duration_seconds: summary.duration,
+      avg_focus: Math.round(summary.avgFocus),
+      avg_stress: Math.round(summary.avgStress),
+      avg_fatigue: Math.round(summary.avgFatigue),
+      avg_distraction: Math.round(summary.avgDistraction),
+      pct_focused: parseFloat(summary.pctFocused.toFixed(2)),
+      pct_distracted: parseFloat(summary.pctDistracted.toFixed(2)),
+      pct_stressed: parseFloat(summary.pctStressed.toFixed(2)),
+      pct_tired: parseFloat(summary.pctTired.toFixed(2)),
+      interruptions: summary.interruptions,
+      focus_periods: summary.focusPeriods,
+      dominant_state: summary.dominantState,
+      avg_confidence: parseFloat(summary.avgConfidence.toFixed(2)),
+      paused_seconds: summary.pausedSeconds,
+      paused_spans: summary.pausedSpans,
+      updated_at: new Date().toISOString()
+    };
+  }
+
   private average(values: number[]): number {
     return values.reduce((a, b) => a + b, 0) / values.length;
   }
@@ -238,26 +568,42 @@ export class SessionManager {
 
   private reset() {
     this.sessionId = null;
+    this.userId = null;
     this.startTime = null;
+    this.pausedAt = null;
+    this.pausedSpans = [];
     this.metricsHistory = [];
     this.interruptionCount = 0;
     this.focusPeriodCount = 0;
     this.lastState = null;
     this.consecutiveFocusCount = 0;
+    this.resetObjectDwell();
+    this.fatigueEvents = [];
   }
 
   /**
-   * Pausar sesión (sin finalizar)
+   * Pausar sesión (sin finalizar).
+   * El tiempo en pausa no cuenta para duration_seconds ni se registran métricas.
    */
-  pause() {
-    // Implementar si se necesita pausa/resume
+  pause(): boolean {
+    if (!this.sessionId || this.pausedAt) return false;
+    this.pausedAt = new Date();
+    console.log('⏸️ Sesión en pausa');
+    return true;
   }
 
   /**
    * Reanudar sesión pausada
    */
-  resume() {
-    // Implementar si se necesita pausa/resume
+  resume(): boolean {
+    if (!this.sessionId || !this.pausedAt) return false;
+    this.closePausedSpan(new Date());
+    console.log('▶️ Sesión reanudada');
+    return true;
+  }
+
+  isPaused(): boolean {
+    return this.pausedAt !== null;
   }
 }
 
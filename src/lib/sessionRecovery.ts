@@ -0,0 +1,171 @@
+// src/lib/sessionRecovery.ts
+
+/**
+ * Recuperacion ante cierres inesperados (panel cerrado, extension recargada).
+ *
+ * - Guarda checkpoints periodicos de la sesion en curso en chrome.storage.local.
+ *   La sesion corre en el documento offscreen, que no tiene chrome.storage:
+ *   el checkpoint lo lee y escribe el service worker (checkpointStore.ts).
+ * - Al volver a abrir, expone el checkpoint pendiente para que el usuario
+ *   decida: reanudar, finalizar con los datos guardados o descartar.
+ * - Copia el timeline de cada checkpoint a IndexedDB, para saber hasta cuando
+ *   hubo datos de una sesion que nunca se cerro.
+ * - Cierra filas de work_sessions que quedaron abiertas (sin ended_at).
+ */
+
+import { supabase } from "./supabase"
+import { sendRequest } from "./messaging/request"
+import { STORES, getAllRecords, getRecord, putRecord } from "./localDb"
+import { enqueueSync, flushSyncQueue } from "./syncQueue"
+import type { LocalSessionRecord, PausedSpan, SessionCheckpoint, SessionManager } from "./sessionManager"
+import { timelineEndTime, type LocalTimelineRecord } from "./sessionTimeline"
+
+const CHECKPOINT_INTERVAL_MS = 10_000
+// Filas remotas abiertas mas viejas que esto se consideran huerfanas (pueden ser de otro dispositivo)
+const STALE_REMOTE_SESSION_MS = 12 * 60 * 60 * 1000
+
+export const saveCheckpoint = async (checkpoint: SessionCheckpoint) => {
+  await sendRequest("CHECKPOINT_WRITE", { checkpoint })
+}
+
+export const loadCheckpoint = async () => (await sendRequest("CHECKPOINT_READ", {})).checkpoint
+
+export const clearCheckpoint = async () => {
+  await sendRequest("CHECKPOINT_WRITE", { checkpoint: null })
+}
+
+/**
+ * Checkpoint pendiente de una sesion que no se cerro. Si la sesion ya habia
+ * terminado (el panel se cerro justo despues de finalizar) se limpia y retorna null.
+ */
+export async function getPendingRecovery(): Promise<SessionCheckpoint | null> {
+  const checkpoint = await loadCheckpoint()
+  if (!checkpoint) return null
+
+  const local = await getRecord<LocalSessionRecord>(STORES.sessions, checkpoint.sessionId).catch(() => null)
+  if (local?.endedAt) {
+    await clearCheckpoint()
+    return null
+  }
+  return checkpoint
+}
+
+/**
+ * Guarda un checkpoint cada pocos segundos mientras haya sesion activa.
+ * Cuando la sesion termina, borra el checkpoint que este loop haya escrito
+ * (nunca uno previo que aun espera decision del usuario).
+ */
+export function startCheckpointLoop(manager: SessionManager): () => void {
+  let hasSaved = false
+
+  const tick = () => {
+    const checkpoint = manager.getCheckpoint()
+    if (checkpoint) {
+      hasSaved = true
+      saveCheckpoint(checkpoint).catch((err) => console.warn("[SYNAPSE] No se pudo guardar el checkpoint:", err))
+      // Al cerrar la sesion se sobrescribe con el timeline completo
+      void putRecord<LocalTimelineRecord>(STORES.timelines, {
+        sessionId: checkpoint.sessionId,
+        timeline: checkpoint.timeline
+      }).catch((err) => console.warn("[SYNAPSE] No se pudo guardar el timeline parcial:", err))
+    } else if (hasSaved) {
+      hasSaved = false
+      clearCheckpoint().catch((err) => console.warn("[SYNAPSE] No se pudo borrar el checkpoint:", err))
+    }
+  }
+
+  const intervalId = window.setInterval(tick, CHECKPOINT_INTERVAL_MS)
+  return () => window.clearInterval(intervalId)
+}
+
+/**
+ * Ultima hora con datos de una sesion local: la ultima muestra del timeline
+ * guardado por el checkpoint. Sin muestras, el inicio.
+ */
+const lastActivityAt = async (record: LocalSessionRecord): Promise<string> => {
+  const local = await getRecord<LocalTimelineRecord>(STORES.timelines, record.id).catch(() => null)
+  const end = local ? timelineEndTime(local.timeline) : null
+  return end === null ? record.startedAt : new Date(Math.max(end, new Date(record.startedAt).getTime())).toISOString()
+}
+
+// Segundos activos entre inicio y fin, sin las pausas registradas
+const activeSeconds = (startedAt: string, endedAt: string, pausedSpans: PausedSpan[]) => {
+  const end = new Date(endedAt).getTime()
+  const pausedMs = pausedSpans.reduce((sum, span) => {
+    const to = Math.min(end, new Date(span.endedAt).getTime())
+    return sum + Math.max(0, to - new Date(span.startedAt).getTime())
+  }, 0)
+  return Math.max(0, Math.floor((end - new Date(startedAt).getTime() - pausedMs) / 1000))
+}
+
+/**
+ * Pasada de limpieza: cierra sesiones abiertas que ya no tienen dueño.
+ * - Locales (este dispositivo) sin ended_at que no son la activa ni la del checkpoint.
+ * - Remotas sin ended_at con mas de STALE_REMOTE_SESSION_MS de antiguedad.
+ * Como no se sabe cuando terminaron de verdad, las locales se cierran en su
+ * ultima muestra y las remotas en su ultima actualizacion.
+ */
+export async function finalizeStaleSessions(keepSessionIds: string[] = []): Promise<number> {
+  const keep = new Set(keepSessionIds)
+  let closed = 0
+
+  try {
+    const localSessions = await getAllRecords<LocalSessionRecord>(STORES.sessions)
+    for (const record of localSessions) {
+      if (record.endedAt || keep.has(record.id)) continue
+      const endedAt = await lastActivityAt(record)
+      await putRecord<LocalSessionRecord>(STORES.sessions, { ...record, endedAt })
+      // Via cola: si el insert aun no se sincronizo, se fusiona y la fila nace cerrada
+      await enqueueSync({
+        kind: "upsert_session",
+        sessionId: record.id,
+        userId: record.userId,
+        payload: {
+          started_at: record.startedAt,
+          ended_at: endedAt,
+          duration_seconds: activeSeconds(record.startedAt, endedAt, record.pausedSpans ?? [])
+        }
+      })
+      keep.add(record.id)
+      closed++
+    }
+    if (closed > 0) void flushSyncQueue()
+  } catch (err) {
+    console.warn("[SYNAPSE] No se pudo revisar sesiones locales abiertas:", err)
+  }
+
+  const {
+    data: { session }
+  } = await supabase.auth.getSession()
+  const userId = session?.user?.id
+  if (!userId) return closed
+
+  const { data, error } = await supabase
+    .from("work_sessions")
+    .select("id, started_at, updated_at")
+    .eq("user_id", userId)
+    .is("ended_at", null)
+
+  if (error) {
+    console.warn("[SYNAPSE] No se pudo consultar sesiones abiertas:", error.message)
+    return closed
+  }
+
+  const now = Date.now()
+  for (const row of data ?? []) {
+    if (keep.has(row.id)) continue
+    if (now - new Date(row.started_at).getTime() < STALE_REMOTE_SESSION_MS) continue
+
+    const { error: updateError } = await supabase
+      .from("work_sessions")
+      .update({
+        ended_at: row.updated_at ?? row.started_at,
+        updated_at: new Date().toISOString()
+      })
+      .eq("id", row.id)
+    if (!updateError) closed++
+  }
+
+  if (closed > 0) console.log(`🧹 Sesiones huérfanas cerradas: ${closed}`)
+  return closed
+}
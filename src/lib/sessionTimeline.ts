@@ -0,0 +1,115 @@
+// src/lib/sessionTimeline.ts
+
+/**
+ * Timeline por muestra de una sesion.
+ *
+ * Se guarda en formato columnar compacto (un arreglo por metrica, tiempos
+ * como deltas en ms) para que una sesion larga quepa en una sola fila jsonb
+ * de session_timelines y en un solo registro de IndexedDB.
+ */
+
+import { supabase } from "./supabase"
+import { STORES, getRecord } from "./localDb"
+import type { SessionMetrics } from "./sessionManager"
+
+export type SessionSample = SessionMetrics & {
+  t: number // epoch ms
+}
+
+const STATE_CODES: SessionMetrics["dominantState"][] = [
+  "neutral",
+  "focus",
+  "stress",
+  "fatigue",
+  "distraction"
+]
+
+export type SessionTimeline = {
+  v: 1
+  startedAt: number
+  dt: number[] // delta en ms respecto a la muestra anterior (la primera, respecto a startedAt)
+  focus: number[]
+  stress: number[]
+  fatigue: number[]
+  distraction: number[]
+  state: number[] // indice en STATE_CODES
+  confidence: number[] // 0-100
+}
+
+export type LocalTimelineRecord = {
+  sessionId: string
+  timeline: SessionTimeline
+}
+
+export const encodeTimeline = (samples: SessionSample[], startedAt: number): SessionTimeline => {
+  const timeline: SessionTimeline = {
+    v: 1,
+    startedAt,
+    dt: [],
+    focus: [],
+    stress: [],
+    fatigue: [],
+    distraction: [],
+    state: [],
+    confidence: []
+  }
+
+  let prevT = startedAt
+  for (const s of samples) {
+    timeline.dt.push(Math.max(0, Math.round(s.t - prevT)))
+    prevT = s.t
+    timeline.focus.push(Math.round(s.focus))
+    timeline.stress.push(Math.round(s.stress))
+    timeline.fatigue.push(Math.round(s.fatigue))
+    timeline.distraction.push(Math.round(s.distraction))
+    timeline.state.push(Math.max(0, STATE_CODES.indexOf(s.dominantState)))
+    timeline.confidence.push(Math.round(s.confidence * 100))
+  }
+
+  return timeline
+}
+
+export const decodeTimeline = (timeline: SessionTimeline): SessionSample[] => {
+  const samples: SessionSample[] = []
+  let t = timeline.startedAt
+  for (let i = 0; i < timeline.dt.length; i++) {
+    t += timeline.dt[i]
+    samples.push({
+      t,
+      focus: timeline.focus[i],
+      stress: timeline.stress[i],
+      fatigue: timeline.fatigue[i],
+      distraction: timeline.distraction[i],
+      dominantState: STATE_CODES[timeline.state[i]] ?? "neutral",
+      confidence: timeline.confidence[i] / 100
+    })
+  }
+  return samples
+}
+
+/** Hora (epoch ms) de la ultima muestra, o null si el timeline esta vacio. */
+export const timelineEndTime = (timeline: SessionTimeline): number | null =>
+  timeline.dt.length > 0 ? timeline.dt.reduce((t, dt) => t + dt, timeline.startedAt) : null
+
+/**
+ * Carga el timeline de una sesion: primero desde IndexedDB (sesiones de este
+ * dispositivo, aunque no se hayan sincronizado) y si no, desde Supabase.
+ */
+export async function loadSessionTimeline(sessionId: string): Promise<SessionSample[] | null> {
+  try {
+    const local = await getRecord<LocalTimelineRecord>(STORES.timelines, sessionId)
+    if (local) return decodeTimeline(local.timeline)
+  } catch (err) {
+    console.warn("[SYNAPSE] No se pudo leer timeline local:", err)
+  }
+
+  const { data, error } = await supabase
+    .from("session_timelines")
+    .select("timeline")
+    .eq("session_id", sessionId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data?.timeline) return null
+  return decodeTimeline(data.timeline as SessionTimeline)
+}
@@ -0,0 +1,87 @@
+// src/lib/settings.ts
+
+/**
+ * Preferencias de la extensión compartidas entre contextos (side panel,
+ * offscreen, páginas de la extensión). Viven en chrome.storage.local; el
+ * offscreen no tiene chrome.storage y las recibe del service worker
+ * (monitor/relay.ts), que las escucha con storage.onChanged.
+ */
+
+import { DEFAULT_CAMERA_PREFERENCES, normalizeCameraPreferences, type CameraPreferences } from "./cameraSettings"
+import { DEFAULT_PIPELINE_ID, isPipelineId } from "./pipeline/registry"
+import type { PipelineId } from "./pipeline/types"
+import { DEFAULT_SCREEN_LAYOUT, normalizeScreenLayout, type ScreenLayout } from "./screenLayout"
+import { DEFAULT_GOVERNOR_OPTIONS, isCpuBudget } from "./vision/detectionGovernor"
+import { DISTRACTION_OBJECT_IDS, normalizeDistractionObjects, type DistractionObjectId } from "./vision/distractionObjects"
+import { DEFAULT_EYE_PROFILE_ID, isEyeProfileId, type EyeProfileId } from "./vision/eyeProfiles"
+import { DEFAULT_VISION_PROVIDER_ID, isVisionProviderId } from "./vision/providers/registry"
+import type { VisionProviderId } from "./vision/providers/types"
+
+const SETTINGS_KEY = "synapse_settings"
+
+export interface ExtensionSettings {
+  // Motor cognitivo activo
+  pipelineId: PipelineId
+  // Correr los demás motores en paralelo para compararlos en vivo
+  comparePipelines: boolean
+  // Monitores secundarios y si mirarlos cuenta como en tarea
+  screenLayout: ScreenLayout
+  // Cámara elegida y resolución/fps preferidos por dispositivo
+  camera: CameraPreferences
+  // Fracción de un núcleo que puede usar la detección (el governor ajusta los FPS)
+  cpuBudget: number
+  // Modelo que encuentra la cara (face-api o MediaPipe)
+  visionProvider: VisionProviderId
+  // Objetos del escritorio que se detectan y se suman al resumen de la sesión
+  distractionObjects: DistractionObjectId[]
+  // Umbrales de parpadeo según si se usan lentes
+  eyeProfile: EyeProfileId
+}
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+  pipelineId: DEFAULT_PIPELINE_ID,
+  comparePipelines: false,
+  screenLayout: DEFAULT_SCREEN_LAYOUT,
+  camera: DEFAULT_CAMERA_PREFERENCES,
+  cpuBudget: DEFAULT_GOVERNOR_OPTIONS.cpuBudget,
+  visionProvider: DEFAULT_VISION_PROVIDER_ID,
+  distractionObjects: DISTRACTION_OBJECT_IDS,
+  eyeProfile: DEFAULT_EYE_PROFILE_ID
+}
+
+const normalizeSettings = (value: unknown): ExtensionSettings => {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<ExtensionSettings>
+  return {
+    pipelineId: isPipelineId(raw.pipelineId) ? raw.pipelineId : DEFAULT_SETTINGS.pipelineId,
+    comparePipelines: typeof raw.comparePipelines === "boolean" ? raw.comparePipelines : DEFAULT_SETTINGS.comparePipelines,
+    screenLayout: normalizeScreenLayout(raw.screenLayout),
+    camera: normalizeCameraPreferences(raw.camera),
+    cpuBudget: isCpuBudget(raw.cpuBudget) ? raw.cpuBudget : DEFAULT_SETTINGS.cpuBudget,
+    visionProvider: isVisionProviderId(raw.visionProvider) ? raw.visionProvider : DEFAULT_SETTINGS.visionProvider,
+    distractionObjects: normalizeDistractionObjects(raw.distractionObjects),
+    eyeProfile: isEyeProfileId(raw.eyeProfile) ? raw.eyeProfile : DEFAULT_SETTINGS.eyeProfile
+  }
+}
+
+export const loadSettings = () =>
+  new Promise<ExtensionSettings>((resolve) => {
+    chrome.storage.local.get([SETTINGS_KEY], (result) => resolve(normalizeSettings(result[SETTINGS_KEY])))
+  })
+
+export const saveSettings = async (patch: Partial<ExtensionSettings>) => {
+  const next = normalizeSettings({ ...(await loadSettings()), ...patch })
+  await new Promise<void>((resolve) => {
+    chrome.storage.local.set({ [SETTINGS_KEY]: next }, () => resolve())
+  })
+  return next
+}
+
+/** Notifica cada cambio de settings (venga de este contexto o de otro). */
+export const watchSettings = (listener: (settings: ExtensionSettings) => void) => {
+  const handleChange = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+    if (area !== "local" || !changes[SETTINGS_KEY]) return
+    listener(normalizeSettings(changes[SETTINGS_KEY].newValue))
+  }
+  chrome.storage.onChanged.addListener(handleChange)
+  return () => chrome.storage.onChanged.removeListener(handleChange)
+}
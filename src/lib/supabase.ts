@@ -4,6 +4,7 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import { relayedAuthStorage } from './authRelay';
 
 // ============================================
 // CONFIGURACIÓN
@@ -25,10 +26,13 @@ if (!supabaseUrl || !supabaseAnonKey) {
 // CLIENTE DE SUPABASE
 // ============================================
 
+// El documento offscreen no tiene chrome.storage: ahí el token lo guarda el service worker
+const hasChromeStorage = typeof chrome !== 'undefined' && Boolean(chrome.storage?.local);
+
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
     // Configuración de autenticación para extensiones
-    storage: {
+    storage: hasChromeStorage ? {
       getItem: (key) => {
         return new Promise((resolve) => {
           chrome.storage.local.get([key], (result) => {
@@ -50,8 +54,9 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
           });
         });
       },
-    },
-    autoRefreshToken: true,
+    } : relayedAuthStorage,
+    // En el offscreen el token vencido se renueva al leerlo (getSession); sin timer propio
+    autoRefreshToken: hasChromeStorage,
     persistSession: true,
     detectSessionInUrl: false,
   },
@@ -0,0 +1,226 @@
+// src/lib/syncQueue.ts
+
+/**
+ * Cola de sincronizacion offline-first.
+ *
+ * Las escrituras a Supabase se encolan en IndexedDB y se reproducen cuando hay
+ * red y usuario autenticado. Cada operacion es idempotente (upsert por id de
+ * sesion generado en el cliente), asi que reintentarla nunca duplica filas.
+ */
+
+import { supabase } from "./supabase"
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from "./localDb"
+
+export type SyncOperationKind =
+  | "upsert_session"
+  | "upsert_timeline"
+  | "delete_session"
+  | "upsert_calibration_profile"
+  | "delete_calibration_profile"
+
+export interface SyncOperation {
+  id: string
+  kind: SyncOperationKind
+  // Id de la fila remota: la sesion, o el perfil en las operaciones de calibracion
+  sessionId: string
+  // Usuario dueño de la sesion (null si se inicio sin sesion de Supabase)
+  userId: string | null
+  payload: Record<string, unknown>
+  attempts: number
+  nextAttemptAt: number
+  createdAt: number
+  // Se incrementa en cada merge para no borrar una operacion modificada mientras se enviaba
+  revision: number
+  lastError?: string
+}
+
+export type SyncRequest = Pick<SyncOperation, "kind" | "sessionId" | "userId" | "payload">
+
+const SYNC_INTERVAL_MS = 30_000
+const BACKOFF_BASE_MS = 2_000
+const BACKOFF_MAX_MS = 5 * 60_000
+const BACKOFF_JITTER = 0.2
+
+type SyncHandler = (op: SyncOperation, userId: string) => Promise<void>
+
+const handlers: Record<SyncOperationKind, SyncHandler> = {
+  upsert_session: async (op, userId) => {
+    const { error } = await supabase
+      .from("work_sessions")
+      .upsert({ ...op.payload, id: op.sessionId, user_id: userId }, { onConflict: "id" })
+    if (error) throw error
+  },
+  upsert_timeline: async (op, userId) => {
+    const { error } = await supabase
+      .from("session_timelines")
+      .upsert({ ...op.payload, session_id: op.sessionId, user_id: userId }, { onConflict: "session_id" })
+    if (error) throw error
+  },
+  delete_session: async (op) => {
+    // session_timelines se borra en cascada
+    const { error } = await supabase.from("work_sessions").delete().eq("id", op.sessionId)
+    if (error) throw error
+  },
+  upsert_calibration_profile: async (op, userId) => {
+    const { error } = await supabase
+      .from("calibration_profiles")
+      .upsert({ ...op.payload, id: op.sessionId, user_id: userId }, { onConflict: "id" })
+    if (error) throw error
+  },
+  delete_calibration_profile: async (op) => {
+    const { error } = await supabase.from("calibration_profiles").delete().eq("id", op.sessionId)
+    if (error) throw error
+  }
+}
+
+export const computeBackoffMs = (attempts: number) => {
+  const exp = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1))
+  const jitter = exp * BACKOFF_JITTER * (Math.random() * 2 - 1)
+  return Math.round(exp + jitter)
+}
+
+const operationId = (kind: SyncOperationKind, sessionId: string) => `${kind}:${sessionId}`
+
+/**
+ * Encola una escritura. Si ya hay una pendiente del mismo tipo para la misma
+ * sesion, se fusiona el payload (la ultima escritura gana por campo).
+ */
+export async function enqueueSync(request: SyncRequest): Promise<void> {
+  const id = operationId(request.kind, request.sessionId)
+  const existing = await getRecord<SyncOperation>(STORES.syncQueue, id)
+  const now = Date.now()
+
+  const op: SyncOperation = existing
+    ? {
+        ...existing,
+        userId: existing.userId ?? request.userId,
+        payload: { ...existing.payload, ...request.payload },
+        nextAttemptAt: now,
+        revision: existing.revision + 1
+      }
+    : {
+        id,
+        kind: request.kind,
+        sessionId: request.sessionId,
+        userId: request.userId,
+        payload: request.payload,
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+        revision: 0
+      }
+
+  await putRecord(STORES.syncQueue, op)
+}
+
+/**
+ * Descarta una sesion: elimina sus escrituras pendientes y encola el borrado
+ * de la fila remota (por si el insert ya se habia sincronizado).
+ */
+export async function discardSessionSync(sessionId: string, userId: string | null): Promise<void> {
+  const ops = await getAllRecords<SyncOperation>(STORES.syncQueue)
+  for (const op of ops) {
+    if (op.sessionId === sessionId) await deleteRecord(STORES.syncQueue, op.id)
+  }
+  await enqueueSync({ kind: "delete_session", sessionId, userId, payload: {} })
+}
+
+const completeOperation = async (op: SyncOperation) => {
+  const current = await getRecord<SyncOperation>(STORES.syncQueue, op.id)
+  // Si se fusiono algo nuevo mientras enviabamos, queda pendiente para la proxima pasada
+  if (current && current.revision !== op.revision) return
+  await deleteRecord(STORES.syncQueue, op.id)
+}
+
+const scheduleRetry = async (op: SyncOperation, err: unknown) => {
+  const current = (await getRecord<SyncOperation>(STORES.syncQueue, op.id)) ?? op
+  const attempts = current.attempts + 1
+  await putRecord<SyncOperation>(STORES.syncQueue, {
+    ...current,
+    attempts,
+    nextAttemptAt: Date.now() + computeBackoffMs(attempts),
+    lastError: err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+  })
+}
+
+const runFlush = async () => {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return
+
+  const {
+    data: { session }
+  } = await supabase.auth.getSession()
+  const currentUserId = session?.user?.id
+  if (!currentUserId) return
+
+  const ops = await getAllRecords<SyncOperation>(STORES.syncQueue)
+  ops.sort((a, b) => a.createdAt - b.createdAt)
+
+  // Una operacion fallida bloquea las siguientes de la misma sesion (conserva el orden)
+  const blocked = new Set<string>()
+  const now = Date.now()
+
+  for (const op of ops) {
+    if (blocked.has(op.sessionId)) continue
+    // Sesiones de otro usuario esperan a que ese usuario vuelva a iniciar sesion
+    if (op.userId && op.userId !== currentUserId) continue
+    if (op.nextAttemptAt > now) {
+      blocked.add(op.sessionId)
+      continue
+    }
+
+    try {
+      await handlers[op.kind](op, op.userId ?? currentUserId)
+      await completeOperation(op)
+    } catch (err) {
+      blocked.add(op.sessionId)
+      console.warn(`[SYNAPSE] Sync fallido (${op.id}, intento ${op.attempts + 1}):`, err)
+      await scheduleRetry(op, err)
+    }
+  }
+}
+
+let flushing: Promise<void> | null = null
+
+/**
+ * Reproduce las operaciones pendientes. Nunca lanza: los errores quedan
+ * registrados en la operacion y se reintentan con backoff exponencial.
+ */
+export function flushSyncQueue(): Promise<void> {
+  if (!flushing) {
+    flushing = runFlush()
+      .catch((err) => console.warn("[SYNAPSE] Error procesando cola de sync:", err))
+      .finally(() => {
+        flushing = null
+      })
+  }
+  return flushing
+}
+
+export async function getPendingSyncCount(): Promise<number> {
+  const ops = await getAllRecords<SyncOperation>(STORES.syncQueue)
+  return ops.length
+}
+
+/**
+ * Arranca los disparadores de sincronizacion: reconexion, login y un intervalo
+ * periodico. Retorna la funcion para detenerlos.
+ */
+export function startSyncLoop(): () => void {
+  const onOnline = () => void flushSyncQueue()
+  window.addEventListener("online", onOnline)
+
+  const {
+    data: { subscription }
+  } = supabase.auth.onAuthStateChange((event) => {
+    if (event === "SIGNED_IN" || event === "TOKEN_REFRESHED") void flushSyncQueue()
+  })
+
+  const intervalId = window.setInterval(() => void flushSyncQueue(), SYNC_INTERVAL_MS)
+  void flushSyncQueue()
+
+  return () => {
+    window.removeEventListener("online", onOnline)
+    subscription.unsubscribe()
+    window.clearInterval(intervalId)
+  }
+}
@@ -0,0 +1,136 @@
+// src/lib/tuning/profile.ts
+
+/**
+ * Perfil de ajuste por usuario: overrides de las constantes globales
+ * (ATTENTION_RULES, HEAD_POSE_THRESHOLDS, GAZE_ZONES y la config del smoother)
+ * encontrados por el tuner a partir de grabaciones etiquetadas. Se guarda como
+ * JSON y lo cargan `createCognitiveCalculator` (vía las opciones del pipeline)
+ * y `createMetricsSmoother` (vía `resolveSmoothingConfig`).
+ */
+
+import {
+  ATTENTION_RULES,
+  GAZE_ZONES,
+  HEAD_POSE_THRESHOLDS,
+  type CognitiveOverrides
+} from "~lib/cognitivethresholds"
+import { liveSmoothingConfig, resolveSmoothingConfig, type SmoothingConfig, type SmoothingOverrides } from "~lib/metricsSmoothing"
+import { isPipelineId } from "~lib/pipeline/registry"
+import type { PipelineId, PipelineOptions } from "~lib/pipeline/types"
+
+export const TUNING_PROFILE_VERSION = 1
+
+export type TuningScore = {
+  // Objetivo que maximiza el tuner (accuracy ponderada con la coherencia del foco)
+  score: number
+  accuracy: number
+  focusAgreement: number
+}
+
+export type TuningProfile = {
+  version: number
+  createdAt: number
+  // Pipeline con el que se ajustó (los overrides aplican a todos)
+  pipelineId: PipelineId
+  overrides: CognitiveOverrides
+  smoothing: SmoothingOverrides
+  fit?: {
+    recordings: number
+    labeledFrames: number
+    before: TuningScore
+    after: TuningScore
+  }
+}
+
+export class TuningProfileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TuningProfileError"
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value)
+
+/**
+ * Copia de `value` restringida a las claves numéricas de `template` (anidadas).
+ * Claves desconocidas o valores no numéricos son error: un typo en el perfil
+ * no debe ignorarse en silencio.
+ */
+const pickNumbers = (value: unknown, template: object, path: string): Record<string, unknown> => {
+  if (value === undefined) return {}
+  if (!isObject(value)) throw new TuningProfileError(`${path} debe ser un objeto`)
+  const out: Record<string, unknown> = {}
+  Object.entries(value).forEach(([key, child]) => {
+    const childPath = `${path}.${key}`
+    if (!Object.prototype.hasOwnProperty.call(template, key)) throw new TuningProfileError(`Clave desconocida: ${childPath}`)
+    const expected = (template as Record<string, unknown>)[key]
+    if (isObject(expected)) {
+      out[key] = pickNumbers(child, expected, childPath)
+    } else if (typeof child !== "number" || !Number.isFinite(child)) {
+      throw new TuningProfileError(`${childPath} debe ser numérico`)
+    } else {
+      out[key] = child
+    }
+  })
+  return out
+}
+
+const { thresholds: smoothingThresholds, ...smoothingScalars } = liveSmoothingConfig
+const SMOOTHING_TEMPLATE = { ...smoothingScalars, thresholds: smoothingThresholds }
+
+const parseScore = (value: unknown, path: string): TuningScore => {
+  if (!isObject(value)) throw new TuningProfileError(`${path} debe ser un objeto`)
+  const { score, accuracy, focusAgreement } = value
+  if (typeof score !== "number" || typeof accuracy !== "number" || typeof focusAgreement !== "number") {
+    throw new TuningProfileError(`${path} incompleto`)
+  }
+  return { score, accuracy, focusAgreement }
+}
+
+/** Valida un perfil (objeto ya parseado o texto JSON). */
+export const parseTuningProfile = (input: unknown): TuningProfile => {
+  let value = input
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input)
+    } catch {
+      throw new TuningProfileError("El perfil no es JSON válido")
+    }
+  }
+  if (!isObject(value)) throw new TuningProfileError("El perfil debe ser un objeto JSON")
+  if (value.version !== TUNING_PROFILE_VERSION) {
+    throw new TuningProfileError(`Versión de perfil no soportada: ${String(value.version)}`)
+  }
+  if (!isPipelineId(value.pipelineId)) throw new TuningProfileError(`Pipeline desconocido: ${String(value.pipelineId)}`)
+
+  const overrides = isObject(value.overrides) ? value.overrides : {}
+  const profile: TuningProfile = {
+    version: TUNING_PROFILE_VERSION,
+    createdAt: typeof value.createdAt === "number" ? value.createdAt : 0,
+    pipelineId: value.pipelineId,
+    overrides: {
+      attentionRules: pickNumbers(overrides.attentionRules, ATTENTION_RULES, "overrides.attentionRules"),
+      headPose: pickNumbers(overrides.headPose, HEAD_POSE_THRESHOLDS, "overrides.headPose"),
+      gazeZones: pickNumbers(overrides.gazeZones, GAZE_ZONES, "overrides.gazeZones")
+    },
+    smoothing: pickNumbers(value.smoothing, SMOOTHING_TEMPLATE, "smoothing")
+  }
+
+  if (isObject(value.fit)) {
+    profile.fit = {
+      recordings: Number(value.fit.recordings) || 0,
+      labeledFrames: Number(value.fit.labeledFrames) || 0,
+      before: parseScore(value.fit.before, "fit.before"),
+      after: parseScore(value.fit.after, "fit.after")
+    }
+  }
+  return profile
+}
+
+/** Opciones de pipeline (calculador) que aplica el perfil; sin perfil, las constantes globales. */
+export const profilePipelineOptions = (profile: TuningProfile | null): PipelineOptions => profile?.overrides ?? {}
+
+/** Config del smoother en vivo con los overrides del perfil. */
+export const profileSmoothingConfig = (profile: TuningProfile | null): SmoothingConfig =>
+  resolveSmoothingConfig(profile?.smoothing)
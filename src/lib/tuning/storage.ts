@@ -0,0 +1,42 @@
+// src/lib/tuning/storage.ts
+
+/**
+ * Perfil de ajuste activo en chrome.storage.local; el service worker lo
+ * escucha con storage.onChanged y se lo pasa al monitor, igual que los settings.
+ */
+
+import { parseTuningProfile, type TuningProfile } from "./profile"
+
+const TUNING_PROFILE_KEY = "synapse_tuning_profile"
+
+// Un perfil guardado que ya no valida (p. ej. de otra versión) se ignora
+const normalizeProfile = (value: unknown): TuningProfile | null => {
+  if (!value) return null
+  try {
+    return parseTuningProfile(value)
+  } catch (err) {
+    console.warn("[tuning] Perfil guardado inválido, se ignora:", err)
+    return null
+  }
+}
+
+export const loadTuningProfile = () =>
+  new Promise<TuningProfile | null>((resolve) => {
+    chrome.storage.local.get([TUNING_PROFILE_KEY], (result) => resolve(normalizeProfile(result[TUNING_PROFILE_KEY])))
+  })
+
+/** Guarda el perfil (ya validado) o lo borra con null. */
+export const saveTuningProfile = (profile: TuningProfile | null) =>
+  new Promise<void>((resolve) => {
+    if (profile) chrome.storage.local.set({ [TUNING_PROFILE_KEY]: profile }, () => resolve())
+    else chrome.storage.local.remove(TUNING_PROFILE_KEY, () => resolve())
+  })
+
+export const watchTuningProfile = (listener: (profile: TuningProfile | null) => void) => {
+  const handleChange = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+    if (area !== "local" || !changes[TUNING_PROFILE_KEY]) return
+    listener(normalizeProfile(changes[TUNING_PROFILE_KEY].newValue))
+  }
+  chrome.storage.onChanged.addListener(handleChange)
+  return () => chrome.storage.onChanged.removeListener(handleChange)
+}
@@ -0,0 +1,241 @@
+// src/lib/tuning/tuner.ts
+
+/**
+ * Ajuste automático de umbrales a partir de grabaciones etiquetadas.
+ *
+ * Búsqueda por coordenadas: recorre cada parámetro ajustable, prueba sus
+ * valores candidatos con el resto fijo y se queda con el que mejora el
+ * objetivo; repite hasta que una pasada completa no mejora nada. Cada prueba
+ * es un replay completo (`evaluateAttention`), así que es determinista y no
+ * necesita cámara.
+ *
+ * Objetivo: accuracy de la atención visual contra las etiquetas, con un peso
+ * menor para la coherencia del nivel de foco suavizado (lo único que mueven
+ * HEAD_POSE_THRESHOLDS y el smoother).
+ */
+
+import {
+  resolveAttentionRules,
+  resolveGazeZones,
+  resolveHeadPoseThresholds,
+  type CognitiveOverrides
+} from "~lib/cognitivethresholds"
+import { resolveSmoothingConfig, type SmoothingOverrides } from "~lib/metricsSmoothing"
+import { DEFAULT_PIPELINE_ID } from "~lib/pipeline/registry"
+import type { PipelineId } from "~lib/pipeline/types"
+import type { Recording } from "~lib/replay/format"
+import { evaluateAttention } from "~lib/replay/evaluation"
+import { TRUTH_CLASSES } from "~lib/replay/labels"
+import { TUNING_PROFILE_VERSION, type TuningProfile, type TuningScore } from "./profile"
+
+const FOCUS_WEIGHT = 0.25
+// Mejora mínima para aceptar un cambio (evita sobreajustar ruido de pocos frames)
+const MIN_GAIN = 0.001
+const DEFAULT_PASSES = 3
+
+type ParamGroup = "attentionRules" | "headPose" | "gazeZones" | "smoothing"
+
+export type TunableParam = {
+  group: ParamGroup
+  path: string[]
+  candidates: number[]
+}
+
+const param = (group: ParamGroup, path: string, candidates: number[]): TunableParam => ({
+  group,
+  path: path.split("."),
+  candidates
+})
+
+export const TUNABLE_PARAMS: TunableParam[] = [
+  param("attentionRules", "phonePitchDeg", [10, 12, 14, 16, 18, 20, 24, 28]),
+  param("attentionRules", "phoneGazeY", [0.6, 0.65, 0.7, 0.75, 0.8, 0.85]),
+  param("attentionRules", "lookUpPitchDeg", [8, 10, 12, 15, 18, 22]),
+  param("attentionRules", "lookUpGazeY", [0.05, 0.08, 0.12, 0.16, 0.2]),
+  param("attentionRules", "sideYawDeg", [15, 18, 20, 25, 30, 35]),
+  param("attentionRules", "offscreenYawDeg", [25, 30, 35, 40, 45]),
+  param("attentionRules", "minQualityForDecision", [0.4, 0.45, 0.5, 0.55, 0.6, 0.65]),
+  param("attentionRules", "minPoseConfidence", [0.2, 0.3, 0.35, 0.45, 0.55]),
+  param("attentionRules", "holdToDistractedMs", [400, 600, 800, 1000, 1300, 1600]),
+  param("attentionRules", "holdToOnScreenMs", [200, 300, 450, 600, 800]),
+  param("attentionRules", "holdToUncertainMs", [150, 300, 500]),
+  param("attentionRules", "offscreenGraceMs", [1000, 1500, 2000, 3000]),
+  param("attentionRules", "offscreenMaxPenalty", [20, 28, 35, 45]),
+  param("gazeZones", "CENTER.x.min", [0.1, 0.15, 0.2, 0.25, 0.3]),
+  param("gazeZones", "CENTER.x.max", [0.7, 0.75, 0.8, 0.85, 0.9]),
+  param("gazeZones", "CENTER.y.min", [0.05, 0.1, 0.15, 0.2]),
+  param("gazeZones", "CENTER.y.max", [0.8, 0.85, 0.9, 0.95]),
+  param("gazeZones", "EXTENDED.x.min", [0, 0.05, 0.1, 0.15]),
+  param("gazeZones", "EXTENDED.x.max", [0.85, 0.9, 0.95, 1]),
+  param("gazeZones", "EXTENDED.y.min", [0, 0.05, 0.1]),
+  param("gazeZones", "EXTENDED.y.max", [0.9, 0.95, 1]),
+  param("headPose", "OPTIMAL.yaw", [6, 8, 10, 12, 15]),
+  param("headPose", "OPTIMAL.pitch", [6, 8, 10, 12, 15]),
+  param("headPose", "MODERATE.yaw", [18, 22, 25, 30]),
+  param("headPose", "MODERATE.pitch", [15, 18, 20, 25]),
+  param("headPose", "HIGH.yaw", [35, 40, 45, 55]),
+  param("headPose", "HIGH.pitch", [28, 32, 35, 40]),
+  param("smoothing", "alpha", [0.08, 0.12, 0.18, 0.25, 0.35]),
+  param("smoothing", "maxDeltaPerTick", [4, 6, 8, 12, 16]),
+  param("smoothing", "thresholds.focus.low", [35, 40, 45, 50, 55])
+]
+
+export const paramName = (p: TunableParam) => `${p.group}.${p.path.join(".")}`
+
+type Candidate = {
+  overrides: Required<CognitiveOverrides>
+  smoothing: SmoothingOverrides
+}
+
+// Valores efectivos (defaults + overrides) de cada grupo, para leer y validar
+const resolveGroups = (candidate: Candidate) => ({
+  attentionRules: resolveAttentionRules(candidate.overrides.attentionRules),
+  headPose: resolveHeadPoseThresholds(candidate.overrides.headPose),
+  gazeZones: resolveGazeZones(candidate.overrides.gazeZones),
+  smoothing: resolveSmoothingConfig(candidate.smoothing)
+})
+
+const readPath = (root: unknown, path: string[]) =>
+  path.reduce<unknown>((node, key) => (node as Record<string, unknown>)[key], root) as number
+
+// Copia con `path` fijado en `value`; crea los objetos intermedios que falten
+const writePath = <T extends object>(root: T, path: string[], value: number): T => {
+  const copy = { ...root } as Record<string, unknown>
+  const [key, ...rest] = path
+  copy[key] = rest.length === 0 ? value : writePath((copy[key] as object) ?? {}, rest, value)
+  return copy as T
+}
+
+const withValue = (candidate: Candidate, p: TunableParam, value: number): Candidate =>
+  p.group === "smoothing"
+    ? { ...candidate, smoothing: writePath(candidate.smoothing, p.path, value) }
+    : { ...candidate, overrides: { ...candidate.overrides, [p.group]: writePath(candidate.overrides[p.group], p.path, value) } }
+
+/** Descarta combinaciones sin sentido (zonas invertidas, niveles de cabeza desordenados). */
+const isConsistent = (candidate: Candidate) => {
+  const { attentionRules, headPose, gazeZones } = resolveGroups(candidate)
+  const zonesOk = (["CENTER", "EXTENDED"] as const).every(
+    (zone) => gazeZones[zone].x.min < gazeZones[zone].x.max && gazeZones[zone].y.min < gazeZones[zone].y.max
+  )
+  const centerInside =
+    gazeZones.EXTENDED.x.min <= gazeZones.CENTER.x.min && gazeZones.CENTER.x.max <= gazeZones.EXTENDED.x.max
+  const headOk = (["yaw", "pitch"] as const).every(
+    (axis) => headPose.OPTIMAL[axis] < headPose.MODERATE[axis] && headPose.MODERATE[axis] < headPose.HIGH[axis]
+  )
+  return zonesOk && centerInside && headOk && attentionRules.sideYawDeg <= attentionRules.offscreenYawDeg
+}
+
+const scoreCandidate = (recordings: Recording[], pipelineId: PipelineId, candidate: Candidate): TuningScore & { labeledFrames: number } => {
+  const smoothing = resolveSmoothingConfig(candidate.smoothing)
+  let labeledFrames = 0
+  let correct = 0
+  let focusAgreed = 0
+  recordings.forEach((recording) => {
+    const report = evaluateAttention(recording, { pipelineId, smoothing, ...candidate.overrides })
+    labeledFrames += report.labeledFrames
+    correct += TRUTH_CLASSES.reduce((acc, c) => acc + report.confusion[c][c], 0)
+    focusAgreed += report.focusAgreement * report.labeledFrames
+  })
+  const accuracy = labeledFrames > 0 ? correct / labeledFrames : 0
+  const focusAgreement = labeledFrames > 0 ? focusAgreed / labeledFrames : 0
+  const round = (n: number) => Number(n.toFixed(4))
+  return {
+    score: round(accuracy * (1 - FOCUS_WEIGHT) + focusAgreement * FOCUS_WEIGHT),
+    accuracy: round(accuracy),
+    focusAgreement: round(focusAgreement),
+    labeledFrames
+  }
+}
+
+export type TuningChange = {
+  param: string
+  from: number
+  to: number
+  score: number
+}
+
+export type TuneOptions = {
+  pipelineId?: PipelineId
+  passes?: number
+  params?: TunableParam[]
+  // Punto de partida (p. ej. un perfil anterior para refinarlo)
+  initial?: Pick<TuningProfile, "overrides" | "smoothing">
+  onProgress?: (message: string) => void
+}
+
+export type TuningResult = {
+  profile: TuningProfile
+  before: TuningScore
+  after: TuningScore
+  changes: TuningChange[]
+  evaluations: number
+}
+
+export function tuneThresholds(recordings: Recording[], options: TuneOptions = {}): TuningResult {
+  const pipelineId = options.pipelineId ?? DEFAULT_PIPELINE_ID
+  const params = options.params ?? TUNABLE_PARAMS
+  const passes = Math.max(1, options.passes ?? DEFAULT_PASSES)
+  const log = options.onProgress ?? (() => {})
+
+  let best: Candidate = {
+    overrides: {
+      attentionRules: { ...options.initial?.overrides.attentionRules },
+      headPose: { ...options.initial?.overrides.headPose },
+      gazeZones: { ...options.initial?.overrides.gazeZones }
+    },
+    smoothing: { ...options.initial?.smoothing }
+  }
+  const initial = scoreCandidate(recordings, pipelineId, best)
+  if (initial.labeledFrames === 0) throw new Error("Las grabaciones no tienen tramos etiquetados")
+
+  let bestScore: TuningScore = initial
+  let evaluations = 1
+  const changes: TuningChange[] = []
+  log(`Inicio: score ${initial.score} (accuracy ${initial.accuracy}, ${initial.labeledFrames} frames etiquetados)`)
+
+  for (let pass = 1; pass <= passes; pass++) {
+    let improved = false
+    params.forEach((p) => {
+      const current = readPath(resolveGroups(best)[p.group], p.path)
+      let passBest: { value: number; candidate: Candidate; score: TuningScore } | null = null
+
+      p.candidates.forEach((value) => {
+        if (value === current) return
+        const candidate = withValue(best, p, value)
+        if (!isConsistent(candidate)) return
+        const score = scoreCandidate(recordings, pipelineId, candidate)
+        evaluations++
+        if (score.score > (passBest?.score.score ?? bestScore.score) + MIN_GAIN) {
+          passBest = { value, candidate, score }
+        }
+      })
+
+      if (!passBest) return
+      best = passBest.candidate
+      bestScore = passBest.score
+      improved = true
+      changes.push({ param: paramName(p), from: current, to: passBest.value, score: passBest.score.score })
+      log(`  ${paramName(p)}: ${current} → ${passBest.value} (score ${passBest.score.score})`)
+    })
+    log(`Pasada ${pass}: score ${bestScore.score}`)
+    if (!improved) break
+  }
+
+  const strip = ({ score, accuracy, focusAgreement }: TuningScore): TuningScore => ({ score, accuracy, focusAgreement })
+  const before = strip(initial)
+  const after = strip(bestScore)
+  return {
+    profile: {
+      version: TUNING_PROFILE_VERSION,
+      createdAt: Date.now(),
+      pipelineId,
+      overrides: best.overrides,
+      smoothing: best.smoothing,
+      fit: { recordings: recordings.length, labeledFrames: initial.labeledFrames, before, after }
+    },
+    before,
+    after,
+    changes,
+    evaluations
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Detection Governor - Frecuencia de detección según presupuesto de CPU
+ *
+ * Mide cuánto tarda cada inferencia (face-api y COCO-SSD) y espacia los
+ * frames para que, juntas, no usen más que `cpuBudget` de un núcleo. Encima
+ * del presupuesto aplica el modo:
+ * - transition: el estado cognitivo acaba de cambiar → se permite el doble
+ *   de presupuesto para seguir el cambio de cerca
+ * - active: ritmo normal
+ * - stable: el estado no cambia hace rato → frames más espaciados
+ * - hidden: página oculta o pantalla bloqueada → mínimo indispensable
+ * - paused: sesión en pausa → mínimo indispensable
+ * Visibilidad y pausa son señales independientes (las marcan la página, o el
+ * offscreen con el bloqueo de pantalla, y el monitor); basta con una para
+ * bajar al mínimo.
+ */
+
+export type GovernorMode = "transition" | "active" | "stable" | "hidden" | "paused"
+
+export type GovernorOptions = {
+  // Fracción de un núcleo para la detección (0..1)
+  cpuBudget: number
+  // Parte del presupuesto para face-api; el resto es de COCO-SSD
+  faceShare: number
+}
+
+export type GovernorStats = {
+  mode: GovernorMode
+  cpuBudget: number
+  // Uso estimado (inferencia / período) de cada modelo y total
+  cpuLoad: number
+  faceMs: number
+  phoneMs: number
+  faceIntervalMs: number
+  phoneIntervalMs: number
+  // Frames de face-api por segundo efectivamente procesados
+  fps: number
+  // Frames descartados porque la inferencia venía atrasada (backpressure del worker)
+  droppedFrames: number
+}
+
+export type DetectionGovernor = {
+  recordFace: (inferenceMs: number, now?: number) => void
+  recordPhone: (inferenceMs: number, now?: number) => void
+  recordDropped: () => void
+  // Clave del estado actual (atención + niveles); un cambio acelera la detección
+  observeState: (key: string, now?: number) => void
+  setHidden: (hidden: boolean) => void
+  setPaused: (paused: boolean) => void
+  setBudget: (cpuBudget: number) => void
+  // Espera hasta el próximo frame, descontando lo que tardó la inferencia
+  nextFaceDelay: (now?: number) => number
+  nextPhoneDelay: (now?: number) => number
+  getStats: (now?: number) => GovernorStats
+}
+
+export const DEFAULT_GOVERNOR_OPTIONS: GovernorOptions = { cpuBudget: 0.3, faceShare: 0.8 }
+
+// Presupuestos que se ofrecen en ajustes
+export const CPU_BUDGET_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0.15, label: "Bajo (15%)" },
+  { value: 0.3, label: "Normal (30%)" },
+  { value: 0.5, label: "Alto (50%)" }
+]
+
+export const isCpuBudget = (value: unknown): value is number => CPU_BUDGET_OPTIONS.some((o) => o.value === value)
+
+// Límites de período (inferencia + espera) por modelo
+const FACE_PERIOD = { min: 120, max: 1500 }
+const PHONE_PERIOD = { min: 1000, max: 10000 }
+// Multiplicador del período según el modo
+const MODE_FACTOR: Record<GovernorMode, number> = { transition: 0.5, active: 1, stable: 2, hidden: 5, paused: 5 }
+const TRANSITION_MS = 8000
+const STABLE_AFTER_MS = 20000
+// Suavizado de los tiempos medidos (un frame lento aislado no cambia el ritmo)
+const TIMING_ALPHA = 0.2
+// Valores iniciales hasta medir (supuestos conservadores)
+const INITIAL_FACE_MS = 60
+const INITIAL_PHONE_MS = 250
+
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n))
+const ema = (prev: number, next: number) => prev + TIMING_ALPHA * (next - prev)
+
+export const createDetectionGovernor = (options: Partial<GovernorOptions> = {}): DetectionGovernor => {
+  const config = { ...DEFAULT_GOVERNOR_OPTIONS, ...options }
+  let faceMs = INITIAL_FACE_MS
+  let phoneMs = INITIAL_PHONE_MS
+  let lastFaceAt: number | null = null
+  let framePeriodMs: number | null = null
+  let droppedFrames = 0
+  let hidden = false
+  let paused = false
+  let stateKey: string | null = null
+  let stateSince = 0
+
+  const mode = (now: number): GovernorMode => {
+    if (hidden) return "hidden"
+    if (paused) return "paused"
+    if (stateKey === null) return "active"
+    if (now - stateSince < TRANSITION_MS) return "transition"
+    return now - stateSince >= STABLE_AFTER_MS ? "stable" : "active"
+  }
+
+  // Período que respeta el presupuesto: inferencia / período ≤ parte del presupuesto
+  const period = (inferenceMs: number, share: number, bounds: { min: number; max: number }, now: number) =>
+    clamp((inferenceMs / (config.cpuBudget * share)) * MODE_FACTOR[mode(now)], bounds.min, bounds.max)
+
+  const facePeriod = (now: number) => period(faceMs, config.faceShare, FACE_PERIOD, now)
+  const phonePeriod = (now: number) => period(phoneMs, 1 - config.faceShare, PHONE_PERIOD, now)
+
+  return {
+    recordFace: (inferenceMs, now = Date.now()) => {
+      faceMs = ema(faceMs, inferenceMs)
+      if (lastFaceAt !== null) {
+        const elapsed = now - lastFaceAt
+        framePeriodMs = framePeriodMs === null ? elapsed : ema(framePeriodMs, elapsed)
+      }
+      lastFaceAt = now
+    },
+
+    recordPhone: (inferenceMs) => {
+      phoneMs = ema(phoneMs, inferenceMs)
+    },
+
+    recordDropped: () => {
+      droppedFrames++
+    },
+
+    observeState: (key, now = Date.now()) => {
+      if (key === stateKey) return
+      stateKey = key
+      stateSince = now
+    },
+
+    setHidden: (value) => {
+      hidden = value
+    },
+
+    setPaused: (value) => {
+      paused = value
+    },
+
+    setBudget: (cpuBudget) => {
+      config.cpuBudget = clamp(cpuBudget, 0.05, 1)
+    },
+
+    nextFaceDelay: (now = Date.now()) => Math.round(Math.max(0, facePeriod(now) - faceMs)),
+    nextPhoneDelay: (now = Date.now()) => Math.round(Math.max(0, phonePeriod(now) - phoneMs)),
+
+    getStats: (now = Date.now()) => {
+      const faceIntervalMs = facePeriod(now)
+      const phoneIntervalMs = phonePeriod(now)
+      return {
+        mode: mode(now),
+        cpuBudget: config.cpuBudget,
+        cpuLoad: faceMs / faceIntervalMs + phoneMs / phoneIntervalMs,
+        faceMs,
+        phoneMs,
+        faceIntervalMs,
+        phoneIntervalMs,
+        fps: framePeriodMs ? 1000 / framePeriodMs : 0,
+        droppedFrames
+      }
+    }
+  }
+}
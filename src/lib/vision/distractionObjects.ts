@@ -0,0 +1,193 @@
+// src/lib/vision/distractionObjects.ts
+
+/**
+ * Distraction Objects - Objetos del escritorio que importan para la atención
+ *
+ * Traduce las predicciones crudas de COCO-SSD (objectDetector) a objetos con
+ * significado: celular, control remoto, libro, taza (pausa) y una segunda
+ * persona en cuadro. Una sola predicción no alcanza: el tracker vota sobre las
+ * últimas corridas de detección y mide cuánto lleva cada objeto a la vista.
+ * Corre en el worker de inferencia junto a los estabilizadores de la cara.
+ */
+
+import type { ObjectPrediction } from "./objectDetector"
+
+export type DistractionObjectId = "phone" | "remote" | "book" | "cup" | "person"
+
+type Box = { x: number; y: number; width: number; height: number }
+type Size = { width: number; height: number }
+
+export interface DistractionObjectInfo {
+  id: DistractionObjectId
+  label: string
+  description: string
+  cocoClasses: string[]
+  minScore: number
+  // Cuántas detecciones de la clase hacen falta (la persona frente a la cámara ya es una)
+  minCount: number
+}
+
+export const DISTRACTION_OBJECTS: Record<DistractionObjectId, DistractionObjectInfo> = {
+  phone: {
+    id: "phone",
+    label: "Celular",
+    description: "En la mano o junto a la cara cuenta como mirar el celular; apoyado en la mesa no penaliza.",
+    cocoClasses: ["cell phone"],
+    minScore: 0.5,
+    minCount: 1
+  },
+  remote: {
+    id: "remote",
+    label: "Control remoto",
+    description: "Tele o consola a mano.",
+    cocoClasses: ["remote"],
+    minScore: 0.5,
+    minCount: 1
+  },
+  book: {
+    id: "book",
+    label: "Libro",
+    description: "Lectura fuera de la pantalla (puede ser parte de la tarea).",
+    cocoClasses: ["book"],
+    minScore: 0.55,
+    minCount: 1
+  },
+  cup: {
+    id: "cup",
+    label: "Taza",
+    description: "Café o mate: suele marcar una pausa.",
+    cocoClasses: ["cup"],
+    minScore: 0.5,
+    minCount: 1
+  },
+  person: {
+    id: "person",
+    label: "Otra persona",
+    description: "Alguien más en cuadro (conversación, interrupción).",
+    cocoClasses: ["person"],
+    minScore: 0.6,
+    minCount: 2
+  }
+}
+
+export const DISTRACTION_OBJECT_IDS = Object.keys(DISTRACTION_OBJECTS) as DistractionObjectId[]
+
+export const isDistractionObjectId = (value: unknown): value is DistractionObjectId =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(DISTRACTION_OBJECTS, value)
+
+/** Clases activas guardadas en ajustes (sin repetidos ni ids desconocidos). */
+export const normalizeDistractionObjects = (value: unknown): DistractionObjectId[] =>
+  Array.isArray(value) ? DISTRACTION_OBJECT_IDS.filter((id) => value.includes(id)) : [...DISTRACTION_OBJECT_IDS]
+
+// Objeto confirmado por votación, tal como viaja en DetectionData
+export type DetectedObject = {
+  id: DistractionObjectId
+  // Normalizada al frame (0..1); para la persona, la de quien no es el usuario
+  box: Box
+  score: number
+  count: number
+  // Desde la primera detección del episodio actual
+  dwellMs: number
+  // Solo el celular: en la mano o junto a la cara (phoneUsage) vs apoyado
+  inUse?: boolean
+}
+
+export type ObjectTrackerOptions = {
+  // Corridas de detección que se consideran
+  window: number
+  // Votos en la ventana para confirmar un objeto; se suelta cuando no queda ninguno
+  votesToShow: number
+}
+
+export const DEFAULT_OBJECT_TRACKER_OPTIONS: ObjectTrackerOptions = { window: 3, votesToShow: 2 }
+
+type Track = {
+  votes: boolean[]
+  present: boolean
+  since: number | null
+  box: Box
+  score: number
+  count: number
+}
+
+const area = (box: Box) => box.width * box.height
+
+// Mejor observación de un objeto en una corrida (null si no alcanza umbral o cantidad)
+const observe = (info: DistractionObjectInfo, predictions: ObjectPrediction[]) => {
+  const matches = predictions
+    .filter((p) => info.cocoClasses.includes(p.cocoClass) && p.score >= info.minScore)
+    .sort((a, b) => (info.minCount > 1 ? area(b.box) - area(a.box) : b.score - a.score))
+  if (matches.length < info.minCount) return null
+  // Con minCount > 1 la más grande es el usuario: se reporta la siguiente
+  const best = matches[info.minCount - 1]
+  return { box: best.box, score: best.score, count: matches.length - (info.minCount - 1) }
+}
+
+export const createObjectTracker = (
+  enabled: DistractionObjectId[] = DISTRACTION_OBJECT_IDS,
+  options: Partial<ObjectTrackerOptions> = {}
+) => {
+  const cfg = { ...DEFAULT_OBJECT_TRACKER_OPTIONS, ...options }
+  let active = new Set(enabled)
+  const tracks = new Map<DistractionObjectId, Track>()
+
+  /** Suma una corrida de COCO-SSD a la votación. */
+  const update = (predictions: ObjectPrediction[], frame: Size, now: number = Date.now()) => {
+    for (const id of active) {
+      const seen = observe(DISTRACTION_OBJECTS[id], predictions)
+      const track = tracks.get(id) ?? {
+        votes: [],
+        present: false,
+        since: null,
+        box: { x: 0, y: 0, width: 0, height: 0 },
+        score: 0,
+        count: 0
+      }
+      track.votes.push(Boolean(seen))
+      if (track.votes.length > cfg.window) track.votes.shift()
+
+      if (seen) {
+        track.since ??= now
+        track.box = {
+          x: seen.box.x / (frame.width || 1),
+          y: seen.box.y / (frame.height || 1),
+          width: seen.box.width / (frame.width || 1),
+          height: seen.box.height / (frame.height || 1)
+        }
+        track.score = seen.score
+        track.count = seen.count
+      }
+
+      const votes = track.votes.filter(Boolean).length
+      if (!track.present && votes >= cfg.votesToShow) track.present = true
+      if (votes === 0) {
+        track.present = false
+        track.since = null
+      }
+      tracks.set(id, track)
+    }
+  }
+
+  /** Objetos confirmados ahora (el dwell avanza aunque no haya corrido COCO). */
+  const snapshot = (now: number = Date.now()): DetectedObject[] =>
+    [...tracks.entries()]
+      .filter(([id, track]) => active.has(id) && track.present)
+      .map(([id, track]) => ({
+        id,
+        box: track.box,
+        score: track.score,
+        count: track.count,
+        dwellMs: track.since === null ? 0 : now - track.since
+      }))
+
+  const setEnabled = (ids: DistractionObjectId[]) => {
+    active = new Set(ids)
+    for (const id of tracks.keys()) if (!active.has(id)) tracks.delete(id)
+  }
+
+  const reset = () => tracks.clear()
+
+  return { update, snapshot, setEnabled, reset }
+}
+
+export type ObjectTracker = ReturnType<typeof createObjectTracker>
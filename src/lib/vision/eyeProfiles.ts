@@ -0,0 +1,50 @@
+// src/lib/vision/eyeProfiles.ts
+
+/**
+ * Eye Profiles - Umbrales de parpadeo según cómo se ven los ojos en cámara
+ *
+ * Con lentes, el marco tapa parte del párpado y los cristales desplazan y
+ * reflejan: los landmarks son más ruidosos y el EAR cae menos al parpadear.
+ * El perfil "lentes" cierra con una caída menor, pide más histéresis y más
+ * duración para no contar destellos como parpadeos, y pasa antes a un solo
+ * ojo cuando un reflejo tapa el otro.
+ */
+
+import type { FaceStabilizerConfig } from "./faceStabilizers"
+
+export type EyeProfileId = "default" | "glasses"
+
+export interface EyeProfileInfo {
+  id: EyeProfileId
+  label: string
+  description: string
+  config: Partial<FaceStabilizerConfig>
+}
+
+export const DEFAULT_EYE_PROFILE_ID: EyeProfileId = "default"
+
+export const EYE_PROFILES: Record<EyeProfileId, EyeProfileInfo> = {
+  default: {
+    id: "default",
+    label: "Sin lentes",
+    description: "Umbrales estándar sobre el EAR de cada ojo.",
+    config: {}
+  },
+  glasses: {
+    id: "glasses",
+    label: "Con lentes",
+    description: "Tolera landmarks más ruidosos y reflejos: parpadeo con menos caída y un ojo de respaldo más rápido.",
+    config: {
+      blinkCloseRatio: 0.72,
+      blinkOpenHysteresis: 0.03,
+      minBlinkMs: 80,
+      earBaselineAlpha: 0.02,
+      eyeDisagreeMs: 300
+    }
+  }
+}
+
+export const EYE_PROFILE_IDS = Object.keys(EYE_PROFILES) as EyeProfileId[]
+
+export const isEyeProfileId = (value: unknown): value is EyeProfileId =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(EYE_PROFILES, value)
@@ -0,0 +1,73 @@
+/**
+ * Face Analysis - Cálculos por frame sobre la cara detectada (cualquier proveedor)
+ *
+ * Funciones puras (sin DOM ni window) para poder correr dentro del worker de
+ * inferencia: calidad de la detección, mirada proxy y brillo. La pose de
+ * cabeza está en headPoseEstimation.
+ */
+
+import type { DetectionQuality } from "~components/CameraFeed"
+
+export const TINY_INPUT_SIZE = 320
+export const MIN_FACE_SCORE = 0.45
+const MIN_FACE_AREA = 0.03
+const MAX_FACE_AREA = 0.6
+const IDEAL_FACE_AREA = 0.12
+
+// Resolución a la que se muestrea el frame para estimar el brillo (barato)
+export const BRIGHTNESS_SAMPLE_W = 32
+export const BRIGHTNESS_SAMPLE_H = 24
+
+type Box = { x: number; y: number; width: number; height: number }
+type Size = { width: number; height: number }
+
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n))
+
+export const assessDetectionQuality = (score: number, box: Box, frame: Size): DetectionQuality => {
+  const { width: vw, height: vh } = frame
+  const areaRatio = (box.width * box.height) / Math.max(1, vw * vh)
+
+  const centerX = clamp((box.x + box.width / 2) / Math.max(1, vw), 0, 1)
+  const centerY = clamp((box.y + box.height / 2) / Math.max(1, vh), 0, 1)
+  const centeredness = 1 - Math.min(1, Math.hypot(centerX - 0.5, centerY - 0.5) / 0.71)
+
+  const scoreQuality = clamp((score - MIN_FACE_SCORE) / Math.max(0.001, 1 - MIN_FACE_SCORE), 0, 1)
+  const areaDistance = Math.abs(areaRatio - IDEAL_FACE_AREA) / Math.max(0.001, IDEAL_FACE_AREA)
+  const areaQuality = clamp(1 - areaDistance, 0, 1)
+  const qualityScore = clamp(scoreQuality * 0.5 + areaQuality * 0.3 + centeredness * 0.2, 0, 1)
+
+  return {
+    reliable: score >= MIN_FACE_SCORE && areaRatio >= MIN_FACE_AREA && areaRatio <= MAX_FACE_AREA,
+    score: qualityScore,
+    faceScore: score,
+    areaRatio,
+    centeredness
+  }
+}
+
+/** Mirada proxy: centro de la cara llevado a la pantalla (espejado como la imagen). */
+export const estimateGaze = (box: Box, frame: Size, screen: Size) => {
+  const faceCenterX = box.x + box.width / 2
+  const faceCenterY = box.y + box.height / 2
+
+  const screenW = screen.width || 1
+  const screenH = screen.height || 1
+  return {
+    x: clamp(screenW * (1 - faceCenterX / (frame.width || 640)), 0, screenW),
+    y: clamp(screenH * (faceCenterY / (frame.height || 480)), 0, screenH)
+  }
+}
+
+/** Luminancia media (0..1) muestreando el frame a baja resolución. */
+export const measureBrightness = (
+  ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D,
+  source: CanvasImageSource
+): number => {
+  ctx.drawImage(source, 0, 0, BRIGHTNESS_SAMPLE_W, BRIGHTNESS_SAMPLE_H)
+  const { data } = ctx.getImageData(0, 0, BRIGHTNESS_SAMPLE_W, BRIGHTNESS_SAMPLE_H)
+  let sum = 0
+  for (let i = 0; i < data.length; i += 4) {
+    sum += 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]
+  }
+  return sum / (data.length / 4) / 255
+}
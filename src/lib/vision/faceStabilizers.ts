@@ -1,5 +1,3 @@
-import type * as FaceApi from "@vladmandic/face-api"
-
 export const EXPRESSION_KEYS = [
   "neutral",
   "happy",
@@ -13,7 +11,15 @@ export const EXPRESSION_KEYS = [
 export type ExpressionKey = (typeof EXPRESSION_KEYS)[number]
 export type ExpressionMap = Record<ExpressionKey, number>
 
-export const normalizeExpressions = (expressions: FaceApi.FaceExpressions): ExpressionMap => ({
+type Point = { x: number; y: number }
+
+// Lo que el parpadeo necesita de los landmarks (FaceLandmarks68 de face-api ya lo cumple)
+export type EyeLandmarks = {
+  getLeftEye: () => Point[]
+  getRightEye: () => Point[]
+}
+
+export const normalizeExpressions = (expressions: Partial<ExpressionMap>): ExpressionMap => ({
   neutral: expressions.neutral ?? 0,
   happy: expressions.happy ?? 0,
   sad: expressions.sad ?? 0,
@@ -23,6 +29,26 @@ export const normalizeExpressions = (expressions: FaceApi.FaceExpressions): Expr
   surprised: expressions.surprised ?? 0
 })
 
+// confidence: la del ajuste PnP (headPoseEstimation); sin ella cuenta como 1
+type HeadPoseSample = { yaw: number; pitch: number; roll: number; confidence?: number }
+
+// Peso mínimo de un frame de pose aunque su confianza sea 0 (la pose no se congela)
+const MIN_POSE_WEIGHT = 0.2
+
+export type EyeSide = "left" | "right"
+
+// Ojos que alimentan el parpadeo combinado; con uno solo el otro no es confiable
+export type ActiveEyes = "both" | EyeSide
+
+export type EyeSideState = {
+  ear: number
+  // null hasta el primer frame confiable de ese ojo
+  baseline: number | null
+  reliable: boolean
+  blinksPerMin: number
+  perclos: number
+}
+
 export type EyeState = {
   earAvg: number
   eyesClosed: boolean
@@ -30,6 +56,22 @@ export type EyeState = {
   perclos: number
   slowBlinkCount: number
   microsleepCount: number
+  // Por ojo (las grabaciones viejas no lo traen)
+  eyes?: { active: ActiveEyes; left: EyeSideState; right: EyeSideState }
+}
+
+// Eventos de fatiga con hora, en el orden en que ocurren. Los cierres se
+// emiten al reabrir los ojos; PERCLOS se muestrea cada perclosSampleMs.
+export type FatigueEvent =
+  | { type: "slow_blink" | "microsleep"; at: number; durationMs: number }
+  | { type: "perclos"; at: number; perclos: number }
+
+// Ventanas de los conteos de EyeState; drowsinessScale cuenta los
+// FatigueEvent con las mismas para que el KSS y el estado de los ojos coincidan
+export const EYE_HISTORY_WINDOWS = {
+  blinkRateMs: 60_000,
+  slowBlinkMs: 60_000,
+  microsleepMs: 5 * 60_000
 }
 
 export type FaceStabilizerConfig = {
@@ -45,8 +87,40 @@ export type FaceStabilizerConfig = {
   slowBlinkMinMs: number
   slowBlinkMaxMs: number
   microsleepMinMs: number
+  perclosSampleMs: number
+  // Un ojo deja de ser confiable si su EAR es imposible, si se ve mucho más
+  // angosto que el otro (cabeza girada, oclusión) o si se lee cerrado con el
+  // otro abierto por más de eyeDisagreeMs (reflejo de lentes, pelo)
+  maxPlausibleEar: number
+  minEyeWidthRatio: number
+  eyeDisagreeMs: number
+}
+
+type BlinkState = { isBlinking: boolean; startedAt: number | null }
+
+type EyeTrack = {
+  ear: number
+  width: number
+  baseline: number | null
+  reliable: boolean
+  // Desde cuándo se lee cerrado con el otro ojo abierto
+  disagreeSince: number | null
+  blink: BlinkState
+  blinkHistory: number[]
+  perclosFrames: { ts: number; closed: boolean }[]
 }
 
+const createEyeTrack = (): EyeTrack => ({
+  ear: 0,
+  width: 0,
+  baseline: null,
+  reliable: true,
+  disagreeSince: null,
+  blink: { isBlinking: false, startedAt: null },
+  blinkHistory: [],
+  perclosFrames: []
+})
+
 const defaultConfig: FaceStabilizerConfig = {
   expSmoothAlpha: 0.35,
   poseSmoothAlpha: 0.25,
@@ -59,18 +133,23 @@ const defaultConfig: FaceStabilizerConfig = {
   perclosWindowMs: 60000,
   slowBlinkMinMs: 400,
   slowBlinkMaxMs: 1500,
-  microsleepMinMs: 1500
+  microsleepMinMs: 1500,
+  perclosSampleMs: 30000,
+  maxPlausibleEar: 0.5,
+  minEyeWidthRatio: 0.6,
+  eyeDisagreeMs: 500
 }
 
 export const createFaceStabilizers = (config: Partial<FaceStabilizerConfig> = {}) => {
-  const cfg = { ...defaultConfig, ...config }
+  let cfg = { ...defaultConfig, ...config }
 
   let smoothedExpressions: ExpressionMap | null = null
-  let smoothedPose: { yaw: number; pitch: number; roll: number } | null = null
+  let smoothedPose: HeadPoseSample | null = null
   let smoothedGaze: { x: number; y: number } | null = null
 
-  let earBaseline: number | null = null
-  let blinkState: { isBlinking: boolean; startedAt: number | null } = {
+  let eyes: Record<EyeSide, EyeTrack> = { left: createEyeTrack(), right: createEyeTrack() }
+  let activeEyes: ActiveEyes = "both"
+  let blinkState: BlinkState = {
     isBlinking: false,
     startedAt: null
   }
@@ -80,11 +159,14 @@ export const createFaceStabilizers = (config: Partial<FaceStabilizerConfig> = {}
   let perclosFrames: { ts: number; closed: boolean }[] = []
   let slowBlinkHistory: number[] = []
   let microsleepHistory: number[] = []
+  // Eventos desde el último drainFatigueEvents
+  let pendingEvents: FatigueEvent[] = []
+  let lastPerclosSampleAt: number | null = null
 
   const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n))
   const smoothValue = (prev: number, next: number, alpha: number) => prev + alpha * (next - prev)
 
-  const computeEyeAspectRatio = (eye: FaceApi.Point[]) => {
+  const computeEyeAspectRatio = (eye: Point[]) => {
     if (eye.length < 6) return 0
     const height1 = Math.abs(eye[1].y - eye[5].y)
     const height2 = Math.abs(eye[2].y - eye[4].y)
@@ -92,7 +174,61 @@ export const createFaceStabilizers = (config: Partial<FaceStabilizerConfig> = {}
     return (height1 + height2) / Math.max(1e-6, 2 * width)
   }
 
-  const smoothExpressions = (expressions: FaceApi.FaceExpressions): ExpressionMap => {
+  const eyeWidth = (eye: Point[]) => (eye.length < 6 ? 0 : Math.abs(eye[3].x - eye[0].x))
+
+  const closeThresholdFor = (baseline: number) => Math.max(0.08, baseline * cfg.blinkCloseRatio)
+  // P70: cerrado si el EAR cae por debajo del 70% del propio baseline
+  const p70ThresholdFor = (baseline: number) => Math.max(0.08, baseline * 0.7)
+
+  // Máquina de parpadeo con histéresis; registra en history los que duran lo de un parpadeo normal
+  const stepBlink = (state: BlinkState, ear: number, closeThreshold: number, history: number[], now: number) => {
+    if (!state.isBlinking) {
+      if (ear < closeThreshold) {
+        state.isBlinking = true
+        state.startedAt = now
+      }
+    } else if (ear > closeThreshold + cfg.blinkOpenHysteresis) {
+      const duration = now - (state.startedAt ?? now)
+      state.isBlinking = false
+      state.startedAt = null
+      if (duration >= cfg.minBlinkMs && duration <= cfg.maxBlinkMs) history.push(now)
+    }
+  }
+
+  const pushPerclosFrame = (frames: { ts: number; closed: boolean }[], closed: boolean, now: number) => {
+    frames.push({ ts: now, closed })
+    return frames.filter((f) => now - f.ts < cfg.perclosWindowMs)
+  }
+
+  const isEyeReliable = (track: EyeTrack, other: EyeTrack, now: number) => {
+    if (track.ear <= 0 || track.ear > cfg.maxPlausibleEar) return false
+    if (track.width < other.width * cfg.minEyeWidthRatio) return false
+    // Sin baseline todavía no hay cómo decir que uno está cerrado y el otro no
+    if (track.baseline === null || other.baseline === null) return true
+    const closed = track.ear < closeThresholdFor(track.baseline)
+    const otherOpen = other.ear > closeThresholdFor(other.baseline) + cfg.blinkOpenHysteresis
+    if (!closed || !otherOpen) {
+      track.disagreeSince = null
+      return true
+    }
+    track.disagreeSince ??= now
+    return now - track.disagreeSince <= cfg.eyeDisagreeMs
+  }
+
+  // Baseline, parpadeos y PERCLOS propios de un ojo; solo con frames confiables
+  const updateEyeTrack = (track: EyeTrack, now: number) => {
+    if (!track.reliable) {
+      track.blink = { isBlinking: false, startedAt: null }
+      return
+    }
+    if (!track.blink.isBlinking) {
+      track.baseline = track.baseline === null ? track.ear : smoothValue(track.baseline, track.ear, cfg.earBaselineAlpha)
+    }
+    stepBlink(track.blink, track.ear, closeThresholdFor(track.baseline), track.blinkHistory, now)
+    track.perclosFrames = pushPerclosFrame(track.perclosFrames, track.ear < p70ThresholdFor(track.baseline), now)
+  }
+
+  const smoothExpressions = (expressions: Partial<ExpressionMap>): ExpressionMap => {
     const base = normalizeExpressions(expressions)
     if (!smoothedExpressions) {
       smoothedExpressions = base
@@ -107,15 +243,19 @@ export const createFaceStabilizers = (config: Partial<FaceStabilizerConfig> = {}
     return next
   }
 
-  const smoothPose = (pose: { yaw: number; pitch: number; roll: number }) => {
+  // Un ajuste poco confiable mueve menos la pose suavizada
+  const smoothPose = (pose: HeadPoseSample) => {
     if (!smoothedPose) {
       smoothedPose = pose
       return pose
     }
+    const alpha = cfg.poseSmoothAlpha * Math.max(MIN_POSE_WEIGHT, pose.confidence ?? 1)
     smoothedPose = {
-      yaw: smoothValue(smoothedPose.yaw, pose.yaw, cfg.poseSmoothAlpha),
-      pitch: smoothValue(smoothedPose.pitch, pose.pitch, cfg.poseSmoothAlpha),
-      roll: smoothValue(smoothedPose.roll, pose.roll, cfg.poseSmoothAlpha)
+      yaw: smoothValue(smoothedPose.yaw, pose.yaw, alpha),
+      pitch: smoothValue(smoothedPose.pitch, pose.pitch, alpha),
+      roll: smoothValue(smoothedPose.roll, pose.roll, alpha),
+      confidence:
+        pose.confidence === undefined ? undefined : smoothValue(smoothedPose.confidence ?? 1, pose.confidence, cfg.poseSmoothAlpha)
     }
     return smoothedPose
   }
@@ -132,31 +272,36 @@ export const createFaceStabilizers = (config: Partial<FaceStabilizerConfig> = {}
     return smoothedGaze
   }
 
-  const updateBlinkState = (landmarks: FaceApi.FaceLandmarks68, now: number = Date.now()) => {
+  const updateBlinkState = (landmarks: EyeLandmarks, now: number = Date.now()) => {
     const leftEye = landmarks.getLeftEye()
     const rightEye = landmarks.getRightEye()
 
-    const leftEAR = computeEyeAspectRatio(leftEye)
-    const rightEAR = computeEyeAspectRatio(rightEye)
-    const avgEAR = (leftEAR + rightEAR) / 2
-    lastEarAvg = avgEAR
+    const { left, right } = eyes
+    left.ear = computeEyeAspectRatio(leftEye)
+    left.width = eyeWidth(leftEye)
+    right.ear = computeEyeAspectRatio(rightEye)
+    right.width = eyeWidth(rightEye)
+    left.reliable = isEyeReliable(left, right, now)
+    right.reliable = isEyeReliable(right, left, now)
+    updateEyeTrack(left, now)
+    updateEyeTrack(right, now)
 
-    if (!blinkState.isBlinking) {
-      earBaseline =
-        earBaseline === null
-          ? avgEAR
-          : smoothValue(earBaseline, avgEAR, cfg.earBaselineAlpha)
-    }
+    // Con un solo ojo confiable se sigue con ese; si no queda ninguno, con los dos como antes
+    activeEyes = left.reliable === right.reliable ? "both" : left.reliable ? "left" : "right"
+    const active = activeEyes === "both" ? [left, right] : [eyes[activeEyes]]
+    const avgEAR = active.reduce((sum, track) => sum + track.ear, 0) / active.length
+    const baseline = active.reduce((sum, track) => sum + (track.baseline ?? track.ear), 0) / active.length
+    lastEarAvg = avgEAR
 
-    const baseline = earBaseline ?? avgEAR
-    const closeThreshold = Math.max(0.08, baseline * cfg.blinkCloseRatio)
-    const openThreshold = closeThreshold + cfg.blinkOpenHysteresis
+    const closeThreshold = closeThresholdFor(baseline)
 
     // PERCLOS: track whether eyes are closed this frame (P70 standard)
-    const p70Threshold = Math.max(0.08, baseline * 0.70)
-    const closedThisFrame = avgEAR < p70Threshold
-    perclosFrames.push({ ts: now, closed: closedThisFrame })
-    perclosFrames = perclosFrames.filter((f) => now - f.ts < cfg.perclosWindowMs)
+    perclosFrames = pushPerclosFrame(perclosFrames, avgEAR < p70ThresholdFor(baseline), now)
+    lastPerclosSampleAt ??= now
+    if (now - lastPerclosSampleAt >= cfg.perclosSampleMs) {
+      lastPerclosSampleAt = now
+      pendingEvents.push({ type: "perclos", at: now, perclos: computePerclos() })
+    }
 
     // Track sustained eye closure duration
     if (avgEAR < closeThreshold) {
@@ -167,50 +312,54 @@ export const createFaceStabilizers = (config: Partial<FaceStabilizerConfig> = {}
         // Classify the closure event when eyes reopen
         if (closureDuration >= cfg.microsleepMinMs) {
           microsleepHistory.push(now)
+          pendingEvents.push({ type: "microsleep", at: eyeClosedSince, durationMs: closureDuration })
         } else if (closureDuration >= cfg.slowBlinkMinMs) {
           slowBlinkHistory.push(now)
+          pendingEvents.push({ type: "slow_blink", at: eyeClosedSince, durationMs: closureDuration })
         }
       }
       eyeClosedSince = null
     }
 
     // Blink detection (original logic for normal blinks)
-    if (!blinkState.isBlinking) {
-      if (avgEAR < closeThreshold) {
-        blinkState.isBlinking = true
-        blinkState.startedAt = now
-      }
-    } else {
-      if (avgEAR > openThreshold) {
-        const startedAt = blinkState.startedAt ?? now
-        const duration = now - startedAt
-        blinkState.isBlinking = false
-        blinkState.startedAt = null
-
-        if (duration >= cfg.minBlinkMs && duration <= cfg.maxBlinkMs) {
-          blinkHistory.push(now)
-        }
-      }
-    }
+    stepBlink(blinkState, avgEAR, closeThreshold, blinkHistory, now)
 
     return blinkState.isBlinking
   }
 
   const getBlinkRate = (now: number = Date.now()) => {
-    blinkHistory = blinkHistory.filter((time) => now - time < 60000)
+    blinkHistory = blinkHistory.filter((time) => now - time < EYE_HISTORY_WINDOWS.blinkRateMs)
     return blinkHistory.length
   }
 
+  // PERCLOS: fraction of frames where eyes were closed
+  const computePerclos = (frames = perclosFrames) =>
+    frames.length >= 5 ? frames.filter((f) => f.closed).length / frames.length : 0
+
+  const getEyeSideState = (track: EyeTrack, now: number): EyeSideState => {
+    track.blinkHistory = track.blinkHistory.filter((time) => now - time < EYE_HISTORY_WINDOWS.blinkRateMs)
+    return {
+      ear: track.ear,
+      baseline: track.baseline,
+      reliable: track.reliable,
+      blinksPerMin: track.blinkHistory.length,
+      perclos: computePerclos(track.perclosFrames)
+    }
+  }
+
+  /** Eventos de fatiga ocurridos desde la llamada anterior (viajan con cada DetectionData). */
+  const drainFatigueEvents = (): FatigueEvent[] => {
+    const events = pendingEvents
+    pendingEvents = []
+    return events
+  }
+
   const getEyeState = (now: number = Date.now()): EyeState => {
     // Prune old history
-    slowBlinkHistory = slowBlinkHistory.filter((t) => now - t < 60000)
-    microsleepHistory = microsleepHistory.filter((t) => now - t < 300000) // 5 min window
+    slowBlinkHistory = slowBlinkHistory.filter((t) => now - t < EYE_HISTORY_WINDOWS.slowBlinkMs)
+    microsleepHistory = microsleepHistory.filter((t) => now - t < EYE_HISTORY_WINDOWS.microsleepMs)
 
-    // PERCLOS: fraction of frames where eyes were closed
-    const perclos =
-      perclosFrames.length >= 5
-        ? perclosFrames.filter((f) => f.closed).length / perclosFrames.length
-        : 0
+    const perclos = computePerclos()
 
     // Current eye closure duration
     const closureDurationMs = eyeClosedSince ? now - eyeClosedSince : 0
@@ -221,15 +370,19 @@ export const createFaceStabilizers = (config: Partial<FaceStabilizerConfig> = {}
       eyeClosureDurationMs: closureDurationMs,
       perclos,
       slowBlinkCount: slowBlinkHistory.length,
-      microsleepCount: microsleepHistory.length
+      microsleepCount: microsleepHistory.length,
+      eyes: {
+        active: activeEyes,
+        left: getEyeSideState(eyes.left, now),
+        right: getEyeSideState(eyes.right, now)
+      }
     }
   }
 
-  const reset = () => {
-    smoothedExpressions = null
-    smoothedPose = null
-    smoothedGaze = null
-    earBaseline = null
+  // Baselines y parpadeos en curso dependen de los umbrales: se empieza de cero
+  const resetBlink = () => {
+    eyes = { left: createEyeTrack(), right: createEyeTrack() }
+    activeEyes = "both"
     blinkState = { isBlinking: false, startedAt: null }
     blinkHistory = []
     lastEarAvg = 0
@@ -237,6 +390,20 @@ export const createFaceStabilizers = (config: Partial<FaceStabilizerConfig> = {}
     perclosFrames = []
     slowBlinkHistory = []
     microsleepHistory = []
+    lastPerclosSampleAt = null
+  }
+
+  const reset = () => {
+    smoothedExpressions = null
+    smoothedPose = null
+    smoothedGaze = null
+    resetBlink()
+  }
+
+  /** Cambia umbrales (perfil de ojos) sobre la configuración por defecto. */
+  const setConfig = (next: Partial<FaceStabilizerConfig>) => {
+    cfg = { ...defaultConfig, ...config, ...next }
+    resetBlink()
   }
 
   return {
@@ -246,6 +413,8 @@ export const createFaceStabilizers = (config: Partial<FaceStabilizerConfig> = {}
     updateBlinkState,
     getBlinkRate,
     getEyeState,
+    drainFatigueEvents,
+    setConfig,
     reset
   }
 }
@@ -0,0 +1,247 @@
+/**
+ * Gaze Mapping - Regresión de rasgos de ojos + cabeza a coordenadas de pantalla
+ *
+ * La mirada "cruda" de CameraFeed es la posición de la cara en el frame, no
+ * hacia dónde mira la persona. Con una calibración de 5 o 9 puntos (página
+ * tabs/gaze-calibration) se ajusta una regresión ridge por eje desde los
+ * rasgos de los ojos (posición, apertura, párpados) y la pose de cabeza al
+ * punto mirado. El modelo se guarda en el Baseline (y con él en el perfil de
+ * calibración) y el pipeline lo aplica antes de clasificar la atención.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import { applyGazeMap, type Baseline } from "~lib/calibration"
+import { getScreenSize, type ScreenSize } from "~lib/cognitivethresholds"
+
+type Point = { x: number; y: number }
+
+// Rasgos geométricos de los ojos medidos en el frame (sin iris: face-api da 68 landmarks)
+export type GazeFeatures = {
+  // Punto medio entre los ojos, fracción del frame (x espejada como la imagen)
+  eyeX: number
+  eyeY: number
+  // Distancia entre ojos / ancho del frame (proxy de distancia a la cámara)
+  eyeSpan: number
+  // Desplazamiento vertical de los párpados respecto de las comisuras: sigue a la mirada arriba/abajo
+  lidOffset: number
+}
+
+export const GAZE_FEATURE_KEYS = ["eyeX", "eyeY", "eyeSpan", "lidOffset", "ear", "yaw", "pitch"] as const
+
+export type GazeFeatureKey = (typeof GAZE_FEATURE_KEYS)[number]
+
+export type GazeAccuracy = {
+  // Error medio y máximo en los puntos de calibración (fracción de pantalla)
+  meanError: number
+  maxError: number
+  // Error dejando cada punto fuera del ajuste: lo que se puede esperar en uso real
+  crossValidatedError: number
+}
+
+export type GazeModel = {
+  version: 1
+  features: GazeFeatureKey[]
+  // Estandarización de rasgos (las ridge necesitan escalas comparables)
+  mean: number[]
+  std: number[]
+  // Pesos por eje: [intercepto, ...rasgos]
+  wx: number[]
+  wy: number[]
+  points: number
+  samples: number
+  accuracy: GazeAccuracy
+  fittedAt: number
+}
+
+export type GazeCalibrationSample = {
+  features: number[]
+  target: Point
+  point: number
+}
+
+export const GAZE_CALIBRATION_POINTS: Record<5 | 9, Point[]> = {
+  5: [
+    { x: 0.5, y: 0.5 },
+    { x: 0.1, y: 0.1 },
+    { x: 0.9, y: 0.1 },
+    { x: 0.9, y: 0.9 },
+    { x: 0.1, y: 0.9 }
+  ],
+  9: [
+    { x: 0.5, y: 0.5 },
+    { x: 0.1, y: 0.1 },
+    { x: 0.5, y: 0.1 },
+    { x: 0.9, y: 0.1 },
+    { x: 0.9, y: 0.5 },
+    { x: 0.9, y: 0.9 },
+    { x: 0.5, y: 0.9 },
+    { x: 0.1, y: 0.9 },
+    { x: 0.1, y: 0.5 }
+  ]
+}
+
+const RIDGE_LAMBDA = 1
+// Menos muestras por punto que esto y el punto no cuenta
+export const MIN_SAMPLES_PER_POINT = 4
+const MIN_POINTS = 4
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length
+const centroid = (points: Point[]): Point => ({ x: mean(points.map((p) => p.x)), y: mean(points.map((p) => p.y)) })
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+/**
+ * Rasgos de los landmarks de ojos (6 puntos por ojo en orden face-api:
+ * comisura externa, párpado superior ×2, comisura interna, párpado inferior ×2).
+ */
+export const computeGazeFeatures = (leftEye: Point[], rightEye: Point[], frame: { width: number; height: number }): GazeFeatures => {
+  const left = centroid(leftEye)
+  const right = centroid(rightEye)
+  const mid = { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 }
+
+  const lid = (eye: Point[]) => {
+    const width = Math.max(1, distance(eye[0], eye[3]))
+    const corners = (eye[0].y + eye[3].y) / 2
+    const lids = (eye[1].y + eye[2].y + eye[4].y + eye[5].y) / 4
+    return (lids - corners) / width
+  }
+
+  return {
+    eyeX: 1 - mid.x / (frame.width || 1),
+    eyeY: mid.y / (frame.height || 1),
+    eyeSpan: distance(left, right) / (frame.width || 1),
+    lidOffset: (lid(leftEye) + lid(rightEye)) / 2
+  }
+}
+
+/** Vector de rasgos del frame en el orden de GAZE_FEATURE_KEYS (null sin landmarks de ojos). */
+export const extractGazeFeatures = (data: DetectionData): number[] | null => {
+  const f = data.gazeFeatures
+  if (!f) return null
+  return [f.eyeX, f.eyeY, f.eyeSpan, f.lidOffset, data.eyeState.earAvg, data.headPose.yaw, data.headPose.pitch]
+}
+
+// Resuelve A·x = b (Gauss con pivoteo parcial); A es chica (rasgos + 1)
+const solve = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length
+  const m = a.map((row, i) => [...row, b[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+    if (Math.abs(m[pivot][col]) < 1e-12) return null
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col]
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k]
+    }
+  }
+  const x = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n]
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k]
+    x[row] = sum / m[row][row]
+  }
+  return x
+}
+
+// Ridge: (XᵀX + λI)·w = Xᵀy, sin penalizar el intercepto
+const ridge = (rows: number[][], targets: number[]): number[] | null => {
+  const d = rows[0].length
+  const xtx = Array.from({ length: d }, () => new Array<number>(d).fill(0))
+  const xty = new Array<number>(d).fill(0)
+  rows.forEach((row, r) => {
+    for (let i = 0; i < d; i++) {
+      xty[i] += row[i] * targets[r]
+      for (let j = 0; j < d; j++) xtx[i][j] += row[i] * row[j]
+    }
+  })
+  for (let i = 1; i < d; i++) xtx[i][i] += RIDGE_LAMBDA
+  return solve(xtx, xty)
+}
+
+const dot = (w: number[], row: number[]) => w.reduce((acc, wi, i) => acc + wi * row[i], 0)
+
+const standardize = (features: number[], model: Pick<GazeModel, "mean" | "std">) => [
+  1,
+  ...features.map((value, i) => (value - model.mean[i]) / model.std[i])
+]
+
+type Fit = Pick<GazeModel, "mean" | "std" | "wx" | "wy">
+
+const fitWeights = (samples: GazeCalibrationSample[]): Fit | null => {
+  const dims = samples[0].features.length
+  const means = Array.from({ length: dims }, (_, i) => mean(samples.map((s) => s.features[i])))
+  const stds = means.map((m, i) => {
+    const variance = mean(samples.map((s) => (s.features[i] - m) ** 2))
+    // Un rasgo constante (p. ej. la cabeza quieta) no aporta: escala 1 para no dividir por ~0
+    return variance > 1e-12 ? Math.sqrt(variance) : 1
+  })
+  const scale = { mean: means, std: stds }
+  const rows = samples.map((s) => standardize(s.features, scale))
+  const wx = ridge(rows, samples.map((s) => s.target.x))
+  const wy = ridge(rows, samples.map((s) => s.target.y))
+  return wx && wy ? { ...scale, wx, wy } : null
+}
+
+const predictFeatures = (fit: Fit, features: number[]): Point => {
+  const row = standardize(features, fit)
+  return { x: dot(fit.wx, row), y: dot(fit.wy, row) }
+}
+
+// Error de un punto = distancia entre la predicción media de sus muestras y el objetivo
+const pointError = (fit: Fit, samples: GazeCalibrationSample[]) =>
+  distance(centroid(samples.map((s) => predictFeatures(fit, s.features))), samples[0].target)
+
+/**
+ * Ajusta el modelo con las muestras de la calibración. Retorna null si no
+ * hubo suficientes puntos con muestras o el sistema es degenerado.
+ */
+export const fitGazeModel = (samples: GazeCalibrationSample[], fittedAt: number = Date.now()): GazeModel | null => {
+  const byPoint = new Map<number, GazeCalibrationSample[]>()
+  for (const sample of samples) byPoint.set(sample.point, [...(byPoint.get(sample.point) ?? []), sample])
+  const groups = [...byPoint.values()].filter((group) => group.length >= MIN_SAMPLES_PER_POINT)
+  if (groups.length < MIN_POINTS) return null
+
+  const used = groups.flat()
+  const fit = fitWeights(used)
+  if (!fit) return null
+
+  const errors = groups.map((group) => pointError(fit, group))
+  const crossErrors = groups.flatMap((group, i) => {
+    const rest = fitWeights(groups.filter((_, j) => j !== i).flat())
+    return rest ? [pointError(rest, group)] : []
+  })
+
+  return {
+    version: 1,
+    features: [...GAZE_FEATURE_KEYS],
+    ...fit,
+    points: groups.length,
+    samples: used.length,
+    accuracy: {
+      meanError: mean(errors),
+      maxError: Math.max(...errors),
+      crossValidatedError: crossErrors.length > 0 ? mean(crossErrors) : mean(errors)
+    },
+    fittedAt
+  }
+}
+
+/** Punto mirado según el modelo (fracción de pantalla), o null si el frame no trae rasgos de ojos. */
+export const predictGaze = (model: GazeModel, data: DetectionData): Point | null => {
+  const features = extractGazeFeatures(data)
+  if (!features || features.length !== model.mean.length) return null
+  return predictFeatures(model, features)
+}
+
+/**
+ * Mirada del frame en coordenadas de pantalla calibradas: el modelo multipunto
+ * si lo hay, si no la corrección lineal de la calibración guiada.
+ */
+export const mapGaze = (baseline: Baseline | null, data: DetectionData, screen: ScreenSize = getScreenSize()): DetectionData => {
+  if (baseline?.gazeModel) {
+    const gaze = predictGaze(baseline.gazeModel, data)
+    if (gaze) return { ...data, gazeX: gaze.x * screen.width, gazeY: gaze.y * screen.height }
+  }
+  if (baseline?.gazeMap) return applyGazeMap(baseline.gazeMap, data, screen)
+  return data
+}
@@ -0,0 +1,214 @@
+// src/lib/vision/headPoseEstimation.ts
+
+/**
+ * Head Pose Estimation - Ajuste PnP de un modelo 3D genérico de cara
+ *
+ * Busca la rotación y traslación que mejor proyectan 6 puntos de un rostro
+ * genérico sobre los landmarks del frame (Levenberg-Marquardt sobre el error
+ * de reproyección), con una cámara pinhole cuyos intrínsecos salen de la
+ * resolución del video. Da yaw/pitch/roll en grados reales en vez de la
+ * heurística de desplazamientos de la nariz, y una confianza según cuánto
+ * cierra el ajuste.
+ *
+ * Convención de signos (la misma que usaba la heurística, para no tocar
+ * umbrales): yaw > 0 = nariz hacia la derecha de la imagen, pitch > 0 = cabeza
+ * hacia abajo, roll > 0 = ojo derecho de la imagen más bajo.
+ */
+
+type Point = { x: number; y: number }
+type Point3 = { x: number; y: number; z: number }
+type Size = { width: number; height: number }
+
+// "left"/"right" según la imagen (no según la persona), igual que los ojos de face-api
+export type PoseLandmarks = {
+  noseTip: Point
+  chin: Point
+  leftEyeOuter: Point
+  rightEyeOuter: Point
+  leftMouth: Point
+  rightMouth: Point
+}
+
+export type HeadPoseEstimate = {
+  yaw: number
+  pitch: number
+  roll: number
+  // 0..1: qué tan bien el modelo rígido explica los landmarks
+  confidence: number
+}
+
+// Rostro genérico en unidades del modelo (~0.2 mm), ejes de cámara: x a la
+// derecha, y hacia abajo, z alejándose de la cámara; origen en la punta de la nariz
+const FACE_MODEL: Record<keyof PoseLandmarks, Point3> = {
+  noseTip: { x: 0, y: 0, z: 0 },
+  chin: { x: 0, y: 330, z: 65 },
+  leftEyeOuter: { x: -225, y: -170, z: 135 },
+  rightEyeOuter: { x: 225, y: -170, z: 135 },
+  leftMouth: { x: -150, y: 150, z: 125 },
+  rightMouth: { x: 150, y: 150, z: 125 }
+}
+const MODEL_KEYS = Object.keys(FACE_MODEL) as Array<keyof PoseLandmarks>
+const MODEL_EYE_DISTANCE = FACE_MODEL.rightEyeOuter.x - FACE_MODEL.leftEyeOuter.x
+
+// Campo de visión horizontal típico de una webcam: de aquí sale la focal en píxeles
+const ASSUMED_HFOV_DEG = 60
+const MAX_ITERATIONS = 15
+const CONVERGED_STEP = 1e-4
+// Error de reproyección (RMS / distancia entre ojos) con el que la confianza llega a 0
+const ERROR_AT_ZERO_CONFIDENCE = 0.12
+// Más allá de este yaw los landmarks del lado oculto se inventan
+const RELIABLE_YAW_DEG = 55
+
+const DEG = 180 / Math.PI
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n))
+
+// [pitch, θ, roll, tx, ty, tz]; θ es la rotación sobre y (yaw = -θ)
+type Params = number[]
+
+/** Cámara pinhole aproximada: centro óptico en el centro del frame. */
+export const estimateIntrinsics = (frame: Size) => ({
+  focal: frame.width / (2 * Math.tan(((ASSUMED_HFOV_DEG / 2) * Math.PI) / 180)),
+  cx: frame.width / 2,
+  cy: frame.height / 2
+})
+
+type Intrinsics = ReturnType<typeof estimateIntrinsics>
+
+// R = Rz(roll) · Ry(θ) · Rx(pitch)
+const rotationMatrix = (pitch: number, theta: number, roll: number) => {
+  const [sx, cx] = [Math.sin(pitch), Math.cos(pitch)]
+  const [sy, cy] = [Math.sin(theta), Math.cos(theta)]
+  const [sz, cz] = [Math.sin(roll), Math.cos(roll)]
+  return [
+    [cz * cy, cz * sy * sx - sz * cx, cz * sy * cx + sz * sx],
+    [sz * cy, sz * sy * sx + cz * cx, sz * sy * cx - cz * sx],
+    [-sy, cy * sx, cy * cx]
+  ]
+}
+
+const project = (p: Params, cam: Intrinsics): Point[] => {
+  const r = rotationMatrix(p[0], p[1], p[2])
+  return MODEL_KEYS.map((key) => {
+    const m = FACE_MODEL[key]
+    const x = r[0][0] * m.x + r[0][1] * m.y + r[0][2] * m.z + p[3]
+    const y = r[1][0] * m.x + r[1][1] * m.y + r[1][2] * m.z + p[4]
+    const z = Math.max(1, r[2][0] * m.x + r[2][1] * m.y + r[2][2] * m.z + p[5])
+    return { x: cam.focal * (x / z) + cam.cx, y: cam.focal * (y / z) + cam.cy }
+  })
+}
+
+const residuals = (p: Params, observed: Point[], cam: Intrinsics) =>
+  project(p, cam).flatMap((q, i) => [q.x - observed[i].x, q.y - observed[i].y])
+
+const sumSquares = (values: number[]) => values.reduce((acc, v) => acc + v * v, 0)
+
+// Resuelve (A + λ·diag(A)) δ = -g por eliminación gaussiana (6×6)
+const solveDamped = (a: number[][], g: number[], lambda: number): number[] | null => {
+  const n = g.length
+  const m = a.map((row, i) => [...row.map((v, j) => (i === j ? v * (1 + lambda) + 1e-9 : v)), -g[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+    if (Math.abs(m[pivot][col]) < 1e-12) return null
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col]
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k]
+    }
+  }
+  const x = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n]
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k]
+    x[row] = sum / m[row][row]
+  }
+  return x
+}
+
+// Traslación inicial: escala por la distancia entre ojos, nariz sobre su rayo
+const initialParams = (observed: PoseLandmarks, cam: Intrinsics, rotation: number[] | null): Params => {
+  const eyeDistance = Math.max(1, Math.hypot(observed.rightEyeOuter.x - observed.leftEyeOuter.x, observed.rightEyeOuter.y - observed.leftEyeOuter.y))
+  const tz = (cam.focal * MODEL_EYE_DISTANCE) / eyeDistance
+  return [
+    ...(rotation ?? [0, 0, 0]),
+    ((observed.noseTip.x - cam.cx) * tz) / cam.focal,
+    ((observed.noseTip.y - cam.cy) * tz) / cam.focal,
+    tz
+  ]
+}
+
+const fit = (observed: Point[], start: Params, cam: Intrinsics) => {
+  let p = start
+  let r = residuals(p, observed, cam)
+  let cost = sumSquares(r)
+  let lambda = 1e-3
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    // Jacobiano por diferencias finitas (12 residuos × 6 parámetros: barato)
+    const jac = p.map((value, k) => {
+      const h = k < 3 ? 1e-4 : Math.max(1e-3, Math.abs(value) * 1e-4)
+      const shifted = [...p]
+      shifted[k] = value + h
+      return residuals(shifted, observed, cam).map((v, i) => (v - r[i]) / h)
+    })
+    const a = jac.map((ci) => jac.map((cj) => ci.reduce((acc, v, i) => acc + v * cj[i], 0)))
+    const g = jac.map((ci) => ci.reduce((acc, v, i) => acc + v * r[i], 0))
+
+    const delta = solveDamped(a, g, lambda)
+    if (!delta) break
+    const candidate = p.map((v, k) => v + delta[k])
+    const candidateR = residuals(candidate, observed, cam)
+    const candidateCost = sumSquares(candidateR)
+    if (candidateCost < cost) {
+      p = candidate
+      r = candidateR
+      cost = candidateCost
+      lambda = Math.max(1e-7, lambda / 10)
+      if (Math.max(...delta.slice(0, 3).map(Math.abs)) < CONVERGED_STEP) break
+    } else {
+      lambda *= 10
+    }
+  }
+  return { params: p, cost }
+}
+
+/**
+ * Estimador con arranque en caliente: parte de la rotación del frame anterior,
+ * así converge en pocas iteraciones y no salta entre soluciones espejadas.
+ */
+export const createHeadPoseEstimator = () => {
+  let previousRotation: number[] | null = null
+
+  const estimate = (landmarks: PoseLandmarks, frame: Size): HeadPoseEstimate => {
+    const cam = estimateIntrinsics(frame)
+    const observed = MODEL_KEYS.map((key) => landmarks[key])
+    const { params, cost } = fit(observed, initialParams(landmarks, cam, previousRotation), cam)
+
+    if (!params.every(Number.isFinite) || params[5] <= 0) {
+      previousRotation = null
+      return { yaw: 0, pitch: 0, roll: 0, confidence: 0 }
+    }
+    previousRotation = params.slice(0, 3)
+
+    const eyeDistance = Math.max(1, Math.hypot(landmarks.rightEyeOuter.x - landmarks.leftEyeOuter.x, landmarks.rightEyeOuter.y - landmarks.leftEyeOuter.y))
+    const relativeError = Math.sqrt(cost / observed.length) / eyeDistance
+    const yaw = -params[1] * DEG
+    const fitConfidence = clamp(1 - relativeError / ERROR_AT_ZERO_CONFIDENCE, 0, 1)
+    const profileConfidence = clamp((90 - Math.abs(yaw)) / (90 - RELIABLE_YAW_DEG), 0, 1)
+
+    return {
+      yaw,
+      pitch: params[0] * DEG,
+      roll: params[2] * DEG,
+      confidence: fitConfidence * profileConfidence
+    }
+  }
+
+  const reset = () => {
+    previousRotation = null
+  }
+
+  return { estimate, reset }
+}
+
+export type HeadPoseEstimator = ReturnType<typeof createHeadPoseEstimator>
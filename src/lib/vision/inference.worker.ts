@@ -0,0 +1,254 @@
+/**
+ * Inference Worker - Proveedor de visión + COCO-SSD fuera del hilo de la UI
+ *
+ * Recibe frames como ImageBitmap, corre el proveedor de visión elegido
+ * (face-api o MediaPipe) y la detección de objetos cuando el frame la pide, y
+ * responde con DetectionData armado: calidad, pose, mirada, parpadeo, rasgos
+ * de ojos y objetos confirmados. Los estabilizadores y la votación de objetos
+ * viven aquí porque necesitan la secuencia completa de frames.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import { installModelFetchPatch } from "~lib/installModelFetchPatch"
+import {
+  BRIGHTNESS_SAMPLE_H,
+  BRIGHTNESS_SAMPLE_W,
+  assessDetectionQuality,
+  estimateGaze,
+  measureBrightness
+} from "./faceAnalysis"
+import { EYE_PROFILES, type EyeProfileId } from "./eyeProfiles"
+import { createFaceStabilizers } from "./faceStabilizers"
+import { computeGazeFeatures } from "./gazeMapping"
+import { createHeadPoseEstimator } from "./headPoseEstimation"
+import type { FaceOverlay, InferenceRequest, InferenceResponse } from "./inferenceClient"
+import { tiersFrom, type ModelId } from "./modelManifest"
+import { createModelRegistry, type ModelCandidate, type ModelRegistry } from "./modelRegistry"
+import { createObjectTracker, type DetectedObject, type DistractionObjectId } from "./distractionObjects"
+import { detectObjects, loadObjectDetector } from "./objectDetector"
+import { classifyPhoneUsage } from "./phoneUsage"
+import { VISION_PROVIDERS } from "./providers/registry"
+import type { VisionProvider, VisionProviderId } from "./providers/types"
+
+const RESET_STABILIZERS_AFTER_MS = 2000
+// Con todos los tiers de objetos caídos, cada cuánto se vuelve a intentar
+const OBJECTS_RETRY_MS = 5 * 60_000
+const WARM_UP_SIZE = 64
+
+type FrameRequest = Extract<InferenceRequest, { type: "frame" }>
+type Size = { width: number; height: number }
+
+// lib "dom" no trae los tipos de worker: lo mínimo que se usa del scope
+const scope = self as unknown as {
+  postMessage: (message: InferenceResponse) => void
+  onmessage: ((event: MessageEvent<InferenceRequest>) => void) | null
+}
+
+let modelBase = ""
+let registry: ModelRegistry | null = null
+let provider: VisionProvider | null = null
+// Cambios de proveedor en orden: el último pedido gana
+let providerRequest = 0
+const stabilizers = createFaceStabilizers()
+const headPoseEstimator = createHeadPoseEstimator()
+let lastGoodDetectionAt = 0
+const objectTracker = createObjectTracker()
+const brightnessCtx = new OffscreenCanvas(BRIGHTNESS_SAMPLE_W, BRIGHTNESS_SAMPLE_H).getContext("2d", {
+  willReadFrequently: true
+})
+
+// Frame vacío y chico: alcanza para compilar shaders antes del primer frame real
+const blankFrame = () => createImageBitmap(new OffscreenCanvas(WARM_UP_SIZE, WARM_UP_SIZE))
+
+const providerCandidate = (id: VisionProviderId): ModelCandidate<VisionProvider> => ({
+  id,
+  load: async () => {
+    const next = await VISION_PROVIDERS[id].create()
+    try {
+      await next.load(modelBase)
+      return next
+    } catch (error) {
+      next.dispose()
+      throw error
+    }
+  },
+  warmUp: async (next) => {
+    const frame = await blankFrame()
+    try {
+      await next.detect(frame, performance.now())
+    } finally {
+      frame.close()
+    }
+  }
+})
+
+const objectCandidate = (id: ModelId): ModelCandidate<void> => ({
+  id,
+  load: loadObjectDetector,
+  warmUp: async () => {
+    const frame = await blankFrame()
+    try {
+      await detectObjects(frame)
+    } finally {
+      frame.close()
+    }
+  }
+})
+
+const loadProvider = async (id: VisionProviderId) => {
+  const request = ++providerRequest
+  // MediaPipe puede fallar (GPU, wasm): se sigue con face-api en vez de quedarse sin detección
+  const candidates = tiersFrom("face", id).map((tier) => providerCandidate(tier as VisionProviderId))
+  const loaded = await registry.loadFirst(candidates, () => request === providerRequest)
+  if (!loaded) {
+    if (request === providerRequest) scope.postMessage({ type: "error", error: "No se pudieron cargar los modelos de IA." })
+    return
+  }
+
+  const next = loaded.model
+  if (request !== providerRequest) {
+    next.dispose()
+    if (next.info.id !== provider?.info.id) registry.release(next.info.id)
+    return
+  }
+  if (provider && provider.info.id !== next.info.id) registry.release(provider.info.id)
+  provider?.dispose()
+  provider = next
+  // Otro modelo, otra escala de expresiones y EAR: se arranca limpio
+  stabilizers.reset()
+  headPoseEstimator.reset()
+  console.log(`✅ [SYNAPSE] Proveedor de visión listo en el worker: ${next.info.id}`)
+  scope.postMessage({ type: "ready", provider: next.info.id, fallback: loaded.fallback })
+}
+
+// Sin detector de objetos la cara sigue andando; se vuelve a probar más tarde en vez de rendirse
+const loadObjectModel = async () => {
+  const tiers = tiersFrom("objects", "coco-ssd-lite")
+  const loaded = await registry.loadFirst(tiers.map(objectCandidate))
+  if (loaded) return scope.postMessage({ type: "phone_ready" })
+  registry.markRetry(tiers, Date.now() + OBJECTS_RETRY_MS)
+  setTimeout(() => void loadObjectModel(), OBJECTS_RETRY_MS)
+}
+
+const setEyeProfile = (id: EyeProfileId) => stabilizers.setConfig(EYE_PROFILES[id].config)
+
+const init = async (base: string, id: VisionProviderId, objects: DistractionObjectId[], eyeProfile: EyeProfileId) => {
+  modelBase = base
+  registry = createModelRegistry(base, (models) => scope.postMessage({ type: "models", models }))
+  objectTracker.setEnabled(objects)
+  setEyeProfile(eyeProfile)
+  // Los modelos se piden con fetch: el parche corrige las URLs chrome-extension:/ también aquí
+  installModelFetchPatch()
+  await loadProvider(id)
+
+  // COCO-SSD después, en segundo plano (no bloquea la detección de rostro)
+  void loadObjectModel()
+}
+
+// El celular confirmado alimenta phoneInFrame; si además está en uso, phoneInUse (atención y nudges)
+const withObjects = (data: DetectionData, objects: DetectedObject[], face: FaceOverlay["box"], size: Size) => {
+  const phone = objects.find((o) => o.id === "phone")
+  if (phone) {
+    const faceBox = {
+      x: face.x / size.width,
+      y: face.y / size.height,
+      width: face.width / size.width,
+      height: face.height / size.height
+    }
+    phone.inUse = classifyPhoneUsage(phone.box, faceBox, data.headPose.pitch).inUse
+  }
+  data.objects = objects.length > 0 ? objects : undefined
+  data.phoneInFrame = phone ? true : undefined
+  data.phoneInUse = phone ? phone.inUse : undefined
+}
+
+const detectFace = async (frame: FrameRequest) => {
+  const { bitmap, screen } = frame
+  const size = { width: bitmap.width, height: bitmap.height }
+  const face = await provider.detect(bitmap, performance.now())
+  if (!face) {
+    if (Date.now() - lastGoodDetectionAt > RESET_STABILIZERS_AFTER_MS) stabilizers.reset()
+    headPoseEstimator.reset()
+    return { data: null, overlay: null }
+  }
+
+  const quality = {
+    ...assessDetectionQuality(face.score, face.box, size),
+    brightness: brightnessCtx ? measureBrightness(brightnessCtx, bitmap) : undefined
+  }
+
+  const expressions = stabilizers.smoothExpressions(face.expressions)
+  const headPose = stabilizers.smoothPose(headPoseEstimator.estimate(face.poseLandmarks, size))
+  const gaze = stabilizers.smoothGaze(estimateGaze(face.box, size, screen))
+  stabilizers.updateBlinkState({ getLeftEye: () => face.leftEye, getRightEye: () => face.rightEye })
+
+  if (quality.reliable) {
+    lastGoodDetectionAt = Date.now()
+  } else if (Date.now() - lastGoodDetectionAt > RESET_STABILIZERS_AFTER_MS) {
+    // Cara visible pero baja calidad: se siguen enviando datos para que la fatiga suba
+    stabilizers.reset()
+  }
+
+  const fatigueEvents = stabilizers.drainFatigueEvents()
+  const data: DetectionData = {
+    expressions,
+    gazeX: gaze.x,
+    gazeY: gaze.y,
+    headPose,
+    blinkRate: stabilizers.getBlinkRate(),
+    eyeState: stabilizers.getEyeState(),
+    fatigueEvents: fatigueEvents.length > 0 ? fatigueEvents : undefined,
+    gazeFeatures: computeGazeFeatures(face.leftEye, face.rightEye, size),
+    quality,
+    faceMesh: face.mesh
+  }
+  const overlay: FaceOverlay = {
+    box: face.box,
+    points: face.points,
+    emotion: (Object.keys(expressions) as Array<keyof typeof expressions>).reduce(
+      (a, k) => (expressions[k] > expressions[a] ? k : a),
+      "neutral"
+    ),
+    reliable: quality.reliable
+  }
+  return { data, overlay }
+}
+
+const handleFrame = async (frame: FrameRequest) => {
+  let result = { data: null as DetectionData | null, overlay: null as FaceOverlay | null }
+  let faceMs = 0
+  let phoneMs: number | null = null
+  try {
+    if (provider) {
+      const startedAt = performance.now()
+      result = await detectFace(frame)
+      faceMs = performance.now() - startedAt
+    }
+    if (frame.phone) {
+      const startedAt = performance.now()
+      const predictions = await detectObjects(frame.bitmap)
+      objectTracker.update(predictions, { width: frame.bitmap.width, height: frame.bitmap.height })
+      phoneMs = performance.now() - startedAt
+    }
+    if (result.data) {
+      withObjects(result.data, objectTracker.snapshot(), result.overlay.box, {
+        width: frame.bitmap.width,
+        height: frame.bitmap.height
+      })
+    }
+  } catch (error) {
+    console.error("[SYNAPSE] Error en detección:", error)
+  } finally {
+    frame.bitmap.close()
+  }
+  scope.postMessage({ type: "result", id: frame.id, ...result, faceMs, phoneMs })
+}
+
+scope.onmessage = (event) => {
+  const message = event.data
+  if (message.type === "init") void init(message.modelBase, message.provider, message.objects, message.eyeProfile)
+  else if (message.type === "set_provider") void loadProvider(message.provider)
+  else if (message.type === "set_objects") objectTracker.setEnabled(message.objects)
+  else if (message.type === "set_eye_profile") setEyeProfile(message.eyeProfile)
+  else if (message.type === "frame") void handleFrame(message)
+}
@@ -0,0 +1,169 @@
+/**
+ * Inference Client - Lado de la página del worker de inferencia
+ *
+ * El proveedor de visión y COCO-SSD corren en un Web Worker (inference.worker.ts) para no
+ * trabar la UI. La página le manda frames como ImageBitmap (transferidos, sin
+ * copia) y recibe DetectionData ya armado.
+ *
+ * Backpressure: como mucho un frame en inferencia y uno esperando. Si llega
+ * otro mientras el worker sigue ocupado, el que esperaba se descarta (se
+ * cierra su bitmap) y queda el más nuevo: nunca se acumula atraso.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+import type { DistractionObjectId } from "./distractionObjects"
+import type { EyeProfileId } from "./eyeProfiles"
+import type { ModelStatus } from "./modelRegistry"
+import type { VisionProviderId } from "./providers/types"
+
+type Size = { width: number; height: number }
+
+// Lo mínimo para dibujar el overlay del preview
+export type FaceOverlay = {
+  box: { x: number; y: number; width: number; height: number }
+  points: Array<{ x: number; y: number }>
+  emotion: string
+  reliable: boolean
+}
+
+export type InferenceRequest =
+  | {
+      type: "init"
+      modelBase: string
+      provider: VisionProviderId
+      objects: DistractionObjectId[]
+      eyeProfile: EyeProfileId
+    }
+  | { type: "set_provider"; provider: VisionProviderId }
+  | { type: "set_objects"; objects: DistractionObjectId[] }
+  | { type: "set_eye_profile"; eyeProfile: EyeProfileId }
+  | { type: "frame"; id: number; bitmap: ImageBitmap; screen: Size; phone: boolean }
+
+export type InferenceResponse =
+  // provider: el que quedó cargado; fallback = no era el pedido (no cargó)
+  | { type: "ready"; provider: VisionProviderId; fallback: boolean }
+  | { type: "phone_ready" }
+  // Estado de cada modelo del manifiesto (verificación, reintentos, fallback)
+  | { type: "models"; models: ModelStatus[] }
+  | { type: "error"; error: string }
+  | {
+      type: "result"
+      id: number
+      // null = sin rostro en el frame
+      data: DetectionData | null
+      overlay: FaceOverlay | null
+      faceMs: number
+      // Solo si el frame pidió detección de objetos
+      phoneMs: number | null
+    }
+
+export type InferenceResult = Extract<InferenceResponse, { type: "result" }>
+
+export type InferenceHandlers = {
+  onReady: (provider: VisionProviderId, fallback: boolean) => void
+  onResult: (result: InferenceResult) => void
+  onError: (error: string) => void
+  onModels?: (models: ModelStatus[]) => void
+  // Un frame se descartó porque la inferencia venía atrasada
+  onDrop?: () => void
+}
+
+export type InferenceClient = {
+  submit: (bitmap: ImageBitmap, options: { screen: Size; phone: boolean }) => void
+  isBusy: () => boolean
+  // Cambia de proveedor sin reiniciar el worker; avisa con onReady
+  setProvider: (provider: VisionProviderId) => void
+  // Clases de objetos que se siguen (las demás se descartan)
+  setObjects: (objects: DistractionObjectId[]) => void
+  // Umbrales de parpadeo (con o sin lentes); reinicia los baselines de EAR
+  setEyeProfile: (eyeProfile: EyeProfileId) => void
+  dispose: () => void
+}
+
+// Un frame sin respuesta en este tiempo se da por perdido (worker colgado o reiniciado)
+const STALLED_FRAME_MS = 5000
+
+export const createInferenceClient = (
+  modelBase: string,
+  provider: VisionProviderId,
+  objects: DistractionObjectId[],
+  eyeProfile: EyeProfileId,
+  handlers: InferenceHandlers
+): InferenceClient => {
+  const worker = new Worker(new URL("./inference.worker.ts", import.meta.url), { type: "module" })
+  let nextId = 1
+  let inFlight: { id: number; sentAt: number } | null = null
+  let pending: Extract<InferenceRequest, { type: "frame" }> | null = null
+  let disposed = false
+
+  const post = (frame: Extract<InferenceRequest, { type: "frame" }>) => {
+    inFlight = { id: frame.id, sentAt: Date.now() }
+    worker.postMessage(frame, [frame.bitmap])
+  }
+
+  worker.onmessage = (event: MessageEvent<InferenceResponse>) => {
+    const message = event.data
+    if (message.type === "ready") return handlers.onReady(message.provider, message.fallback)
+    if (message.type === "phone_ready") return console.log("✅ [SYNAPSE] COCO-SSD listo en el worker")
+    if (message.type === "models") return handlers.onModels?.(message.models)
+    if (message.type === "error") return handlers.onError(message.error)
+
+    if (inFlight?.id === message.id) inFlight = null
+    handlers.onResult(message)
+    if (pending && !inFlight) {
+      const next = pending
+      pending = null
+      post(next)
+    }
+  }
+
+  worker.onerror = (event) => {
+    console.error("[SYNAPSE] Error en el worker de inferencia:", event.message)
+    handlers.onError(event.message || "El worker de inferencia falló")
+  }
+
+  worker.postMessage({ type: "init", modelBase, provider, objects, eyeProfile } satisfies InferenceRequest)
+
+  return {
+    submit: (bitmap, { screen, phone }) => {
+      if (disposed) return bitmap.close()
+      if (inFlight && Date.now() - inFlight.sentAt > STALLED_FRAME_MS) {
+        console.warn("[SYNAPSE] Frame sin respuesta del worker; se descarta")
+        inFlight = null
+        handlers.onDrop?.()
+      }
+
+      const frame = { type: "frame" as const, id: nextId++, bitmap, screen, phone }
+      if (!inFlight) return post(frame)
+
+      if (pending) {
+        pending.bitmap.close()
+        // El pedido de celular no se pierde con el frame descartado
+        frame.phone = frame.phone || pending.phone
+        handlers.onDrop?.()
+      }
+      pending = frame
+    },
+
+    isBusy: () => inFlight !== null,
+
+    setProvider: (next) => {
+      if (!disposed) worker.postMessage({ type: "set_provider", provider: next } satisfies InferenceRequest)
+    },
+
+    setObjects: (next) => {
+      if (!disposed) worker.postMessage({ type: "set_objects", objects: next } satisfies InferenceRequest)
+    },
+
+    setEyeProfile: (next) => {
+      if (!disposed) worker.postMessage({ type: "set_eye_profile", eyeProfile: next } satisfies InferenceRequest)
+    },
+
+    dispose: () => {
+      disposed = true
+      pending?.bitmap.close()
+      pending = null
+      worker.terminate()
+    }
+  }
+}
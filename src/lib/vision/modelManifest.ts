@@ -0,0 +1,134 @@
+// src/lib/vision/modelManifest.ts
+
+/**
+ * Model Manifest - Qué modelos usa la extensión, en qué versión y con qué archivos
+ *
+ * Los archivos empaquetados en assets/models/ se verifican contra tamaño y
+ * sha256 antes de cargarlos (modelRegistry): un shard truncado o de otra
+ * versión falla con un error claro en vez de dar detecciones raras. COCO-SSD
+ * baja sus pesos de la CDN de TensorFlow, así que no tiene archivos locales.
+ *
+ * Al actualizar un modelo hay que actualizar su versión y sus hashes
+ * (`sha256sum assets/models/...`). El modelo de MediaPipe lo descarga
+ * `npm run models:mediapipe`, que lo verifica contra este manifiesto. El wasm
+ * sale de @mediapipe/tasks-vision, fijado sin rango en package.json para que
+ * un install nuevo no traiga otros archivos que los de abajo.
+ */
+
+import type { VisionProviderId } from "./providers/types"
+
+export type ModelId = VisionProviderId | "coco-ssd-lite"
+
+// Para qué se usa: cada slot carga un modelo de su lista de tiers
+export type ModelSlot = "face" | "objects"
+
+export type ModelFile = {
+  // Relativo a assets/models/
+  path: string
+  // Bytes; sin tamaño ni hash solo se comprueba que el archivo exista
+  size?: number
+  sha256?: string
+}
+
+export interface ModelManifestEntry {
+  id: ModelId
+  name: string
+  version: string
+  slot: ModelSlot
+  files: ModelFile[]
+}
+
+export const MODEL_MANIFEST: Record<ModelId, ModelManifestEntry> = {
+  "face-api": {
+    id: "face-api",
+    name: "face-api (TinyFaceDetector + 68 landmarks + expresiones)",
+    version: "@vladmandic/face-api 1.7",
+    slot: "face",
+    files: [
+      {
+        path: "tiny_face_detector_model-weights_manifest.json",
+        size: 2953,
+        sha256: "14c60659a31b6b7b1320077171b8f8adcb24ef0e62dde62ce603bcb49a1b49b5"
+      },
+      {
+        path: "tiny_face_detector_model-shard1",
+        size: 193321,
+        sha256: "b7503ce7df31039b1c43316a9b865cab6a70dd748cc602d3fa28b551503c3871"
+      },
+      {
+        path: "face_expression_model-weights_manifest.json",
+        size: 6384,
+        sha256: "960cbe959fe0328965dd18662d839f197df6e27607da4f726cd0c826e47fc936"
+      },
+      {
+        path: "face_expression_model-shard1",
+        size: 329468,
+        sha256: "9a9840f2cf1f4c7eab95f197512569345c00d2426754d4608b92af30e0300f3d"
+      },
+      {
+        path: "face_landmark_68_model-weights_manifest.json",
+        size: 7889,
+        sha256: "d30f6cc341009ea4f8223876959289b96576fc54a2615f92da9741ab9c5f0bbc"
+      },
+      {
+        path: "face_landmark_68_model-shard1",
+        size: 356840,
+        sha256: "4611ef65c87d836d03d684b30eec4d195d8b219fa1dd58fc58945831c6b9299b"
+      }
+    ]
+  },
+  mediapipe: {
+    id: "mediapipe",
+    name: "MediaPipe Face Landmarker",
+    version: "tasks-vision 0.10.35 / face_landmarker float16 v1",
+    slot: "face",
+    files: [
+      // Sin size/sha256 solo se comprueba que exista; `npm run models:mediapipe` imprime los del float16/1
+      { path: "mediapipe/face_landmarker.task" },
+      // FilesetResolver elige la variante con o sin SIMD según el navegador
+      {
+        path: "mediapipe/wasm/vision_wasm_internal.js",
+        size: 322044,
+        sha256: "e7fd9858e8e8f221d9b96eddc11f8e077f263e0b7bbd79d3cbe882b134274f8c"
+      },
+      {
+        path: "mediapipe/wasm/vision_wasm_internal.wasm",
+        size: 11153617,
+        sha256: "6a5c64584c2ab61c763b6e204afbdbc7ce1caf7f5216187322bca8df94f646bc"
+      },
+      {
+        path: "mediapipe/wasm/vision_wasm_nosimd_internal.js",
+        size: 321847,
+        sha256: "438d1fe8ff7f4d946025bc211c291543c037d8a3785ed4eee60f1f521b236296"
+      },
+      {
+        path: "mediapipe/wasm/vision_wasm_nosimd_internal.wasm",
+        size: 10481398,
+        sha256: "8a3092d34c79d3f57e6ba8592105e8a90f6b07c27891ffecd14cca428bfd3e31"
+      }
+    ]
+  },
+  "coco-ssd-lite": {
+    id: "coco-ssd-lite",
+    name: "COCO-SSD lite_mobilenet_v2",
+    version: "@tensorflow-models/coco-ssd 2.2.3",
+    slot: "objects",
+    // Pesos desde la CDN de TensorFlow (HTTPS); nada que verificar en assets/
+    files: []
+  }
+}
+
+export const MODEL_IDS = Object.keys(MODEL_MANIFEST) as ModelId[]
+
+// Orden de preferencia de cada slot; si no carga ninguno, el slot queda deshabilitado
+export const MODEL_TIERS: Record<ModelSlot, ModelId[]> = {
+  face: ["mediapipe", "face-api"],
+  objects: ["coco-ssd-lite"]
+}
+
+/** Tiers a probar empezando por el pedido (los anteriores no se intentan). */
+export const tiersFrom = (slot: ModelSlot, requested: ModelId): ModelId[] => {
+  const tiers = MODEL_TIERS[slot]
+  const start = tiers.indexOf(requested)
+  return start === -1 ? tiers : tiers.slice(start)
+}
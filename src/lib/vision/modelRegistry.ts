@@ -0,0 +1,150 @@
+// src/lib/vision/modelRegistry.ts
+
+/**
+ * Model Registry - Carga de modelos verificada, con reintentos y tiers
+ *
+ * Antes de cargar un modelo se comprueban sus archivos contra el manifiesto
+ * (tamaño y sha256). Un fallo transitorio (fetch, GPU ocupada) se reintenta
+ * con backoff; un archivo corrupto no, porque reintentar no lo arregla. Si un
+ * modelo no carga se pasa al siguiente tier del slot. Después de cargar se
+ * corre una inferencia sobre un frame vacío para que el primer frame real no
+ * pague la compilación de shaders. Corre en el worker de inferencia y publica
+ * el estado de cada modelo para el panel de ajustes.
+ */
+
+import { MODEL_IDS, MODEL_MANIFEST, type ModelId, type ModelSlot } from "./modelManifest"
+
+export type ModelState = "idle" | "verifying" | "loading" | "warming" | "ready" | "retrying" | "failed"
+
+export type ModelStatus = {
+  id: ModelId
+  name: string
+  version: string
+  slot: ModelSlot
+  state: ModelState
+  // Intentos del último ciclo de carga
+  attempts: number
+  error?: string
+  // Verificación + carga + calentamiento
+  loadMs?: number
+  // Próximo intento (reintento con backoff o slot deshabilitado)
+  retryAt?: number
+}
+
+export type ModelCandidate<T> = {
+  id: ModelId
+  load: () => Promise<T>
+  // Inferencia de prueba; si falla el modelo se usa igual
+  warmUp?: (model: T) => Promise<void>
+}
+
+export class ModelIntegrityError extends Error {
+  constructor(path: string, detail: string) {
+    super(`${path}: ${detail}`)
+    this.name = "ModelIntegrityError"
+  }
+}
+
+const MAX_ATTEMPTS = 3
+const RETRY_BASE_MS = 1000
+const RETRY_MAX_MS = 8000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const sha256Hex = async (buffer: ArrayBuffer) => {
+  const digest = await crypto.subtle.digest("SHA-256", buffer)
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+/** Comprueba que los archivos del modelo existan y coincidan con el manifiesto. */
+export const verifyModelFiles = async (id: ModelId, modelBase: string) => {
+  for (const file of MODEL_MANIFEST[id].files) {
+    const url = `${modelBase}${file.path}`
+    const response = await fetch(url, { cache: "no-store" })
+    if (!response.ok) throw new ModelIntegrityError(file.path, `no está en el paquete (${response.status})`)
+    if (file.size === undefined && !file.sha256) {
+      await response.body?.cancel()
+      continue
+    }
+    const buffer = await response.arrayBuffer()
+    if (file.size !== undefined && buffer.byteLength !== file.size) {
+      throw new ModelIntegrityError(file.path, `${buffer.byteLength} bytes, se esperaban ${file.size}`)
+    }
+    if (file.sha256 && (await sha256Hex(buffer)) !== file.sha256) {
+      throw new ModelIntegrityError(file.path, "el sha256 no coincide con el manifiesto")
+    }
+  }
+}
+
+const initialStatus = (id: ModelId): ModelStatus => {
+  const { name, version, slot } = MODEL_MANIFEST[id]
+  return { id, name, version, slot, state: "idle", attempts: 0 }
+}
+
+export const createModelRegistry = (modelBase: string, onChange: (models: ModelStatus[]) => void) => {
+  const statuses = new Map<ModelId, ModelStatus>(MODEL_IDS.map((id) => [id, initialStatus(id)]))
+
+  const snapshot = () => MODEL_IDS.map((id) => statuses.get(id))
+
+  const set = (id: ModelId, patch: Partial<ModelStatus>) => {
+    statuses.set(id, { ...statuses.get(id), ...patch })
+    onChange(snapshot())
+  }
+
+  // isCurrent: el pedido sigue vigente (si no, no tiene sentido seguir reintentando)
+  const loadOne = async <T>(candidate: ModelCandidate<T>, isCurrent: () => boolean): Promise<T> => {
+    const { id } = candidate
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = performance.now()
+      try {
+        set(id, { state: "verifying", attempts: attempt, retryAt: undefined })
+        await verifyModelFiles(id, modelBase)
+        set(id, { state: "loading" })
+        const model = await candidate.load()
+        if (candidate.warmUp) {
+          set(id, { state: "warming" })
+          await candidate.warmUp(model).catch((error) => console.warn(`[SYNAPSE] Calentamiento de ${id} falló:`, error))
+        }
+        set(id, { state: "ready", error: undefined, loadMs: performance.now() - startedAt })
+        return model
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        if (error instanceof ModelIntegrityError || attempt >= MAX_ATTEMPTS || !isCurrent()) {
+          set(id, { state: "failed", error: message })
+          throw error
+        }
+        const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1))
+        console.warn(`[SYNAPSE] ${id} no cargó (intento ${attempt}); reintento en ${delay}ms:`, error)
+        set(id, { state: "retrying", error: message, retryAt: Date.now() + delay })
+        await sleep(delay)
+      }
+    }
+  }
+
+  /**
+   * Prueba los candidatos en orden y devuelve el primero que carga (fallback =
+   * no es el primero), o null si no cargó ninguno.
+   */
+  const loadFirst = async <T>(candidates: ModelCandidate<T>[], isCurrent: () => boolean = () => true) => {
+    for (const [index, candidate] of candidates.entries()) {
+      if (!isCurrent()) return null
+      try {
+        const model = await loadOne(candidate, isCurrent)
+        return { id: candidate.id, model, fallback: index > 0 }
+      } catch (error) {
+        console.error(`❌ [SYNAPSE] No se pudo cargar ${candidate.id}:`, error)
+      }
+    }
+    return null
+  }
+
+  /** El modelo se descartó (otro proveedor, pedido viejo). */
+  const release = (id: ModelId) => set(id, { state: "idle", loadMs: undefined })
+
+  /** Slot deshabilitado: se avisa cuándo se vuelve a probar. */
+  const markRetry = (ids: ModelId[], retryAt: number) => ids.forEach((id) => set(id, { retryAt }))
+
+  return { loadFirst, release, markRetry, snapshot }
+}
+
+export type ModelRegistry = ReturnType<typeof createModelRegistry>
@@ -0,0 +1,82 @@
+/**
+ * Object Detector - Objetos en cámara usando COCO-SSD
+ *
+ * Usa el modelo lite_mobilenet_v2 (~2MB) para detectar objetos.
+ * Devuelve todas las predicciones sobre un piso de score bajo; qué clases
+ * importan, con qué umbral y durante cuánto tiempo lo decide distractionObjects.
+ * La detección maneja errores silenciosamente para no bloquear face detection;
+ * los reintentos y el fallback de la carga los maneja modelRegistry.
+ * Corre dentro del worker de inferencia (recibe ImageBitmap) o sobre un <video>.
+ */
+
+import type * as CocoSsd from "@tensorflow-models/coco-ssd"
+import type * as Tf from "@tensorflow/tfjs"
+
+// Piso común; cada clase aplica después su propio umbral
+const MIN_PREDICTION_SCORE = 0.3
+const MAX_PREDICTIONS = 20
+
+let model: CocoSsd.ObjectDetection | null = null
+let tfModule: typeof Tf | null = null
+let loading: Promise<void> | null = null
+
+export interface ObjectPrediction {
+  // Clase de COCO ("cell phone", "person", "cup"...)
+  cocoClass: string
+  score: number
+  // Píxeles del frame
+  box: { x: number; y: number; width: number; height: number }
+}
+
+/**
+ * Carga el modelo COCO-SSD (lite_mobilenet_v2). Lanza si falla; una llamada
+ * posterior vuelve a intentar (las concurrentes comparten la misma carga).
+ */
+export async function loadObjectDetector(): Promise<void> {
+  if (model) return
+
+  loading ??= (async () => {
+    const tf = await import("@tensorflow/tfjs")
+    await tf.ready()
+    tfModule = tf
+
+    const cocoSsd = await import("@tensorflow-models/coco-ssd")
+    model = await cocoSsd.load({ base: "lite_mobilenet_v2" })
+    console.log("[SYNAPSE] COCO-SSD cargado correctamente")
+  })().finally(() => {
+    loading = null
+  })
+  return loading
+}
+
+/**
+ * Objetos visibles en el frame (video o ImageBitmap del worker).
+ * Retorna [] si el modelo no está cargado o hay error.
+ */
+export async function detectObjects(frame: HTMLVideoElement | ImageBitmap): Promise<ObjectPrediction[]> {
+  if (!model) return []
+
+  // COCO-SSD no acepta ImageBitmap: se pasa como tensor y se libera al terminar
+  const input = frame instanceof ImageBitmap ? tfModule?.browser.fromPixels(frame) : frame
+  if (!input) return []
+
+  try {
+    const predictions = await model.detect(input, MAX_PREDICTIONS, MIN_PREDICTION_SCORE)
+    return predictions.map((p) => ({
+      cocoClass: p.class,
+      score: p.score,
+      box: { x: p.bbox[0], y: p.bbox[1], width: p.bbox[2], height: p.bbox[3] }
+    }))
+  } catch {
+    return []
+  } finally {
+    if (input !== frame) (input as Tf.Tensor3D).dispose()
+  }
+}
+
+/**
+ * Retorna true si el modelo está listo para usar.
+ */
+export function isObjectDetectorReady(): boolean {
+  return model !== null
+}
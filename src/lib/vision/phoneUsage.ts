@@ -0,0 +1,75 @@
+// src/lib/vision/phoneUsage.ts
+
+/**
+ * Phone Usage - ¿El celular está en uso o solo sobre el escritorio?
+ *
+ * COCO-SSD ve el celular igual en la mano que boca abajo junto al teclado.
+ * Sin detector de manos, la zona de las manos se aproxima desde la cara: un
+ * celular en uso está junto a la cara (llamada) o frente al pecho, suele verse
+ * vertical o inclinado hacia la persona y viene con la cabeza bajada. Uno
+ * apoyado queda contra el borde inferior del cuadro, apaisado y lejos de esa
+ * zona. Solo el celular en uso penaliza el foco o dispara el nudge.
+ */
+
+import type { DetectionData } from "~components/CameraFeed"
+
+type Box = { x: number; y: number; width: number; height: number }
+
+export type PhoneUsage = {
+  inUse: boolean
+  // 0..1: evidencia acumulada de uso
+  score: number
+}
+
+const IN_USE_SCORE = 0.5
+// Distancia (en anchos de cara) a la que el celular cuenta como "junto a la cara"
+const NEAR_FACE_WIDTHS = 1.4
+// Zona de manos frente al pecho: ancho a cada lado y largo bajo el mentón, en caras
+const HAND_ZONE_HALF_WIDTH = 2
+const HAND_ZONE_DEPTH = 2.5
+// El celular apoyado suele quedar cortado por el borde inferior del cuadro
+const BOTTOM_EDGE = 0.97
+// Pitch (grados, + = abajo) desde el que la cabeza bajada suma y con el que suma del todo
+const PITCH_FROM_DEG = 10
+const PITCH_FULL_DEG = 30
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n))
+
+/**
+ * Cajas normalizadas al frame (0..1). `pitch` en grados del ajuste PnP
+ * (headPoseEstimation); el worker no conoce el baseline, así que es absoluto.
+ */
+export const classifyPhoneUsage = (phone: Box, face: Box, pitch: number): PhoneUsage => {
+  const faceW = Math.max(0.01, face.width)
+  const faceH = Math.max(0.01, face.height)
+  const phoneCx = phone.x + phone.width / 2
+  const phoneCy = phone.y + phone.height / 2
+  const faceCx = face.x + face.width / 2
+  const faceCy = face.y + face.height / 2
+
+  const nearFace = Math.hypot((phoneCx - faceCx) / faceW, (phoneCy - faceCy) / faceH) < NEAR_FACE_WIDTHS
+  const belowChin = (phoneCy - (face.y + face.height)) / faceH
+  const inHandZone =
+    Math.abs(phoneCx - faceCx) / faceW < HAND_ZONE_HALF_WIDTH && belowChin > -0.5 && belowChin < HAND_ZONE_DEPTH
+  const onBottomEdge = phone.y + phone.height >= BOTTOM_EDGE
+  // Vertical o de frente = en la mano; muy apaisado = acostado sobre la mesa
+  const aspect = phone.height / Math.max(0.001, phone.width)
+
+  let score = 0
+  if (nearFace) score += 0.6
+  else if (inHandZone && !onBottomEdge) score += 0.35
+  if (aspect >= 1) score += 0.2
+  else if (aspect < 0.6) score -= 0.3
+  if (onBottomEdge && !nearFace) score -= 0.2
+  score += clamp01((pitch - PITCH_FROM_DEG) / (PITCH_FULL_DEG - PITCH_FROM_DEG)) * 0.3
+
+  const clamped = clamp01(score)
+  return { inUse: clamped >= IN_USE_SCORE, score: clamped }
+}
+
+/**
+ * Celular que cuenta para atención y nudges. Las grabaciones anteriores a la
+ * distinción no traen `phoneInUse`: ahí cualquier celular visible cuenta.
+ */
+export const isPhoneInUse = (data: Pick<DetectionData, "phoneInFrame" | "phoneInUse">) =>
+  data.phoneInFrame === true && data.phoneInUse !== false
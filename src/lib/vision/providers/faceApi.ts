@@ -0,0 +1,73 @@
+// src/lib/vision/providers/faceApi.ts
+
+/**
+ * Proveedor face-api (vladmandic): TinyFaceDetector + 68 landmarks +
+ * expresiones. Es el original del proyecto y el más liviano.
+ */
+
+import type * as FaceApi from "@vladmandic/face-api"
+import { MIN_FACE_SCORE, TINY_INPUT_SIZE } from "../faceAnalysis"
+import { VISION_PROVIDERS } from "./registry"
+import type { VisionProvider } from "./types"
+
+export const createFaceApiProvider = (): VisionProvider => {
+  let faceapi: typeof FaceApi | null = null
+  let tinyOptions: FaceApi.TinyFaceDetectorOptions | null = null
+
+  return {
+    info: VISION_PROVIDERS["face-api"],
+
+    load: async (modelBase) => {
+      const api = await import("@vladmandic/face-api")
+      // Sin DOM: face-api crea sus canvas como OffscreenCanvas
+      api.env.monkeyPatch({
+        Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+        ImageData,
+        createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+        fetch: (url, init) => globalThis.fetch(url, init)
+      })
+
+      // Los archivos ya se verificaron contra el manifiesto (modelRegistry)
+      await Promise.all([
+        api.nets.tinyFaceDetector.loadFromUri(modelBase),
+        api.nets.faceExpressionNet.loadFromUri(modelBase),
+        api.nets.faceLandmark68Net.loadFromUri(modelBase)
+      ])
+      faceapi = api
+      tinyOptions = new api.TinyFaceDetectorOptions({ inputSize: TINY_INPUT_SIZE, scoreThreshold: MIN_FACE_SCORE })
+    },
+
+    detect: async (frame) => {
+      if (!faceapi) return null
+      const input = faceapi.tf.browser.fromPixels(frame)
+      try {
+        const detections = await faceapi.detectSingleFace(input, tinyOptions).withFaceLandmarks().withFaceExpressions()
+        if (!detections) return null
+        const box = detections.detection.box
+        const points = detections.landmarks.positions
+        return {
+          score: detections.detection.score ?? 1,
+          box: { x: box.x, y: box.y, width: box.width, height: box.height },
+          expressions: detections.expressions,
+          poseLandmarks: {
+            noseTip: points[30],
+            chin: points[8],
+            leftEyeOuter: points[36],
+            rightEyeOuter: points[45],
+            leftMouth: points[48],
+            rightMouth: points[54]
+          },
+          leftEye: detections.landmarks.getLeftEye(),
+          rightEye: detections.landmarks.getRightEye(),
+          points: points.map((p) => ({ x: p.x, y: p.y }))
+        }
+      } finally {
+        input.dispose()
+      }
+    },
+
+    dispose: () => {
+      faceapi = null
+    }
+  }
+}
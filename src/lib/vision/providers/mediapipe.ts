@@ -0,0 +1,108 @@
+// src/lib/vision/providers/mediapipe.ts
+
+/**
+ * Proveedor MediaPipe Face Landmarker (malla de 478 puntos con iris y
+ * blendshapes). Modelo y wasm van empaquetados en assets/models/mediapipe/
+ * (`npm run models:mediapipe`), sin CDN.
+ *
+ * Pose y ojos usan los puntos equivalentes a los de face-api para que
+ * umbrales, calibración y baseline sirvan igual con los dos proveedores; la
+ * malla completa viaja aparte para los analizadores de cognitive/.
+ */
+
+import type { Category, FaceLandmarker } from "@mediapipe/tasks-vision"
+import type { ExpressionMap } from "../faceStabilizers"
+import { VISION_PROVIDERS } from "./registry"
+import type { FaceObservation, VisionProvider } from "./types"
+
+// Índices de la malla en el orden de ojo de face-api (ver FaceObservation)
+const LEFT_EYE = [33, 160, 158, 133, 153, 144]
+const RIGHT_EYE = [362, 385, 387, 263, 373, 380]
+// Punta de nariz, mentón, comisuras externas de los ojos y de la boca (lado de la imagen)
+const POSE_POINTS = { noseTip: 1, chin: 152, leftEyeOuter: 33, rightEyeOuter: 263, leftMouth: 61, rightMouth: 291 }
+// Face Landmarker no da score por cara: una malla encontrada cuenta como detección firme
+const MESH_SCORE = 0.9
+// Para el overlay alcanza con una fracción de la malla
+const OVERLAY_STRIDE = 4
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n))
+
+// Blendshapes (action units) → las 7 emociones que espera el resto del pipeline
+const expressionsFromBlendshapes = (categories: Category[]): Partial<ExpressionMap> => {
+  const score = (name: string) => categories.find((c) => c.categoryName === name)?.score ?? 0
+  const pair = (name: string) => (score(`${name}Left`) + score(`${name}Right`)) / 2
+
+  const happy = pair("mouthSmile")
+  const sad = clamp01(pair("mouthFrown") * 0.7 + score("browInnerUp") * 0.3)
+  const angry = clamp01(pair("browDown") * 0.8 + pair("mouthPress") * 0.2)
+  const surprised = clamp01(score("browInnerUp") * 0.3 + pair("eyeWide") * 0.3 + score("jawOpen") * 0.4)
+  const fearful = clamp01((pair("eyeWide") * 0.5 + score("browInnerUp") * 0.5) * (1 - happy))
+  const disgusted = pair("noseSneer")
+  const neutral = clamp01(1 - Math.max(happy, sad, angry, surprised, fearful, disgusted))
+  return { neutral, happy, sad, angry, fearful, disgusted, surprised }
+}
+
+export const createMediaPipeProvider = (): VisionProvider => {
+  let landmarker: FaceLandmarker | null = null
+
+  return {
+    info: VISION_PROVIDERS.mediapipe,
+
+    load: async (modelBase) => {
+      const { FaceLandmarker, FilesetResolver } = await import("@mediapipe/tasks-vision")
+      const fileset = await FilesetResolver.forVisionTasks(`${modelBase}mediapipe/wasm`)
+      landmarker = await FaceLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: `${modelBase}mediapipe/face_landmarker.task`, delegate: "GPU" },
+        runningMode: "VIDEO",
+        numFaces: 1,
+        outputFaceBlendshapes: true
+      })
+    },
+
+    detect: async (frame, timestamp) => {
+      if (!landmarker) return null
+      const result = landmarker.detectForVideo(frame, timestamp)
+      const mesh = result.faceLandmarks[0]
+      if (!mesh) return null
+
+      const { width, height } = frame
+      const px = (i: number) => ({ x: mesh[i].x * width, y: mesh[i].y * height })
+      const xs = mesh.map((p) => p.x)
+      const ys = mesh.map((p) => p.y)
+      const bounds = { x: Math.min(...xs), y: Math.min(...ys), width: 0, height: 0 }
+      bounds.width = Math.max(...xs) - bounds.x
+      bounds.height = Math.max(...ys) - bounds.y
+
+      const leftEye = LEFT_EYE.map(px)
+      const rightEye = RIGHT_EYE.map(px)
+      const blendshapes = result.faceBlendshapes[0]?.categories
+
+      const observation: FaceObservation = {
+        score: MESH_SCORE,
+        box: { x: bounds.x * width, y: bounds.y * height, width: bounds.width * width, height: bounds.height * height },
+        expressions: blendshapes ? expressionsFromBlendshapes(blendshapes) : { neutral: 1 },
+        poseLandmarks: {
+          noseTip: px(POSE_POINTS.noseTip),
+          chin: px(POSE_POINTS.chin),
+          leftEyeOuter: px(POSE_POINTS.leftEyeOuter),
+          rightEyeOuter: px(POSE_POINTS.rightEyeOuter),
+          leftMouth: px(POSE_POINTS.leftMouth),
+          rightMouth: px(POSE_POINTS.rightMouth)
+        },
+        leftEye,
+        rightEye,
+        points: mesh.filter((_, i) => i % OVERLAY_STRIDE === 0).map((p) => ({ x: p.x * width, y: p.y * height })),
+        mesh: {
+          landmarks: mesh.map((p) => ({ x: p.x, y: p.y, z: p.z })),
+          boundingBox: bounds
+        }
+      }
+      return observation
+    },
+
+    dispose: () => {
+      landmarker?.close()
+      landmarker = null
+    }
+  }
+}
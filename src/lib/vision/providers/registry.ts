@@ -0,0 +1,26 @@
+// src/lib/vision/providers/registry.ts
+
+import type { VisionProvider, VisionProviderId, VisionProviderInfo } from "./types"
+
+export const DEFAULT_VISION_PROVIDER_ID: VisionProviderId = "face-api"
+
+// Los modelos se importan recién al crear el proveedor: solo se descarga el elegido
+export const VISION_PROVIDERS: Record<VisionProviderId, VisionProviderInfo & { create: () => Promise<VisionProvider> }> = {
+  "face-api": {
+    id: "face-api",
+    label: "face-api (68 puntos)",
+    description: "Detector liviano con expresiones entrenadas. Pose y mirada aproximadas desde 68 landmarks.",
+    create: async () => (await import("./faceApi")).createFaceApiProvider()
+  },
+  mediapipe: {
+    id: "mediapipe",
+    label: "MediaPipe Face Landmarker (478 puntos)",
+    description: "Malla 3D de 478 puntos con iris y blendshapes. Más precisa; pide más GPU/CPU.",
+    create: async () => (await import("./mediapipe")).createMediaPipeProvider()
+  }
+}
+
+export const VISION_PROVIDER_IDS = Object.keys(VISION_PROVIDERS) as VisionProviderId[]
+
+export const isVisionProviderId = (value: unknown): value is VisionProviderId =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(VISION_PROVIDERS, value)
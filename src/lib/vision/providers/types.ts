@@ -0,0 +1,47 @@
+// src/lib/vision/providers/types.ts
+
+/**
+ * Contrato de los proveedores de visión: el modelo que encuentra la cara en
+ * el frame. El worker de inferencia solo habla con esta interfaz; calidad,
+ * estabilizadores, mirada y parpadeo se calculan igual para cualquiera.
+ */
+
+import type { FacialLandmarks } from "../../../../cognitive/types"
+import type { ExpressionMap } from "../faceStabilizers"
+import type { PoseLandmarks } from "../headPoseEstimation"
+
+export type VisionProviderId = "face-api" | "mediapipe"
+
+export interface VisionProviderInfo {
+  id: VisionProviderId
+  label: string
+  description: string
+}
+
+type Point = { x: number; y: number }
+
+// Lo que un proveedor ve de la cara en un frame (coordenadas en píxeles del frame)
+export type FaceObservation = {
+  // Confianza de la detección (0..1)
+  score: number
+  box: { x: number; y: number; width: number; height: number }
+  expressions: Partial<ExpressionMap>
+  // Puntos que ajusta el modelo 3D de la pose (headPoseEstimation)
+  poseLandmarks: PoseLandmarks
+  // 6 puntos por ojo en orden face-api: comisura externa, párpado superior ×2,
+  // comisura interna, párpado inferior ×2
+  leftEye: Point[]
+  rightEye: Point[]
+  // Puntos para el overlay del preview
+  points: Point[]
+  // Malla completa normalizada (solo MediaPipe); la usan los analizadores de cognitive/
+  mesh?: FacialLandmarks
+}
+
+export interface VisionProvider {
+  info: VisionProviderInfo
+  // modelBase: URL de assets/models/ (los workers no tienen chrome.runtime)
+  load: (modelBase: string) => Promise<void>
+  detect: (frame: ImageBitmap, timestamp: number) => Promise<FaceObservation | null>
+  dispose: () => void
+}
@@ -1,6 +1,5 @@
-import React, { useEffect, useRef, useState } from "react"
+import React, { useState } from "react"
 import { motion } from "framer-motion"
-import CameraFeed from "~components/CameraFeed"
 import Dashboard from "~components/Dashboard"
 import SessionsDashboard from "~components/SessionsDashboard"
 import AuthForm from "~components/AuthForm"
@@ -8,432 +7,123 @@ import SessionControl from "~components/SessionControl"
 import SessionSummaryModal from "~components/SessionSummaryModal"
 import SidepanelHeader from "~components/sidepanel/SidepanelHeader"
 import CalibrationBanner from "~components/sidepanel/CalibrationBanner"
+import CalibrationProfilesPanel from "~components/sidepanel/CalibrationProfilesPanel"
+import BaselineDriftIndicator from "~components/sidepanel/BaselineDriftIndicator"
 import NudgeBanner from "~components/sidepanel/NudgeBanner"
 import AttentionBadge from "~components/sidepanel/AttentionBadge"
+import RecoveryBanner from "~components/sidepanel/RecoveryBanner"
+import CameraPreview from "~components/sidepanel/CameraPreview"
+import LabelingPanel from "~components/sidepanel/LabelingPanel"
+import SettingsView from "~components/settings/SettingsView"
 import { useAuth } from "~hooks/useAuth"
+import { useMonitor } from "~hooks/useMonitor"
 import { signOut } from "~lib/supabase"
 import { Loader } from "lucide-react"
-import type { DetectionData } from "~components/CameraFeed"
-import { sessionManager, type SessionSummary } from "~lib/sessionManager"
+import type { SessionSummary } from "~lib/sessionManager"
+import type { RecoveryAction } from "~lib/monitor/protocol"
 import "./sidepanel.css"
 
-import {
-  createMetricsSmoother,
-  defaultSmoothingConfig,
-  type Metrics,
-  type MetricsLevels
-} from "~lib/metricsSmoothing"
-
-import { createCalibrator, type CalibrationState, type Baseline } from "~lib/calibration"
-import { createCognitiveCalculator } from "~lib/cognitivethresholds"
-
-const CALIBRATION_DURATION_MS = 12_000
-const TARGET_SAMPLES = 20
-const FALLBACK_MIN_SAMPLES = 8
-const NUDGE_COOLDOWN_MS = 15000
-const NO_FACE_MS = 4000
-const OFFSCREEN_NUDGE_MS = 8000
-const LOW_FOCUS_MS = 15000
-const LOW_FOCUS_THRESHOLD = 40
-const RECOVERY_FOCUS_THRESHOLD = 50
-const BACKGROUND_BROADCAST_INTERVAL_MS = 1000
-const SESSION_BREAK_NUDGE_MS = 40 * 60 * 1000 // 40 minutos
-const FATIGUE_FILTER_THRESHOLD = 70
-
+const DEFAULT_ATTENTION = {
+  label: "En pantalla",
+  color: "#4ade80",
+  bg: "rgba(34, 197, 94, 0.12)"
+}
 
+/**
+ * El análisis (cámara, calibración, métricas, nudges y sesión) corre en el
+ * documento offscreen; el side panel es un suscriptor más de ese monitor.
+ */
 const SidePanel = () => {
   const { user, loading: authLoading, isAuthenticated } = useAuth()
-  
-  const [data, setData] = useState<DetectionData | null>(null)
-  const [focusScore, setFocusScore] = useState(50)
-  const [stressLevel, setStressLevel] = useState(20)
-  const [fatigueLevel, setFatigueLevel] = useState(20)
-  const [distractionLevel, setDistractionLevel] = useState(50)
-  const [nudge, setNudge] = useState<{ id: string; type: 'info' | 'warn' | 'danger'; text: string } | null>(null)
-  const [soundEnabled, setSoundEnabled] = useState(false)
-  const [attentionStatus, setAttentionStatus] = useState<{ label: string; color: string; bg: string }>({
-    label: "En pantalla",
-    color: "#4ade80",
-    bg: "rgba(34, 197, 94, 0.12)"
-  })
-  const [levels, setLevels] = useState<MetricsLevels>({
-    focus: "Normal",
-    stress: "Normal",
-    fatigue: "Normal",
-    distraction: "Normal"
-  })
-  const [currentConfidence, setCurrentConfidence] = useState(0.5)
+  const { snapshot, send } = useMonitor(isAuthenticated)
 
   // Estados para el sistema de sesiones
   const [showSummaryModal, setShowSummaryModal] = useState(false)
   const [lastSessionSummary, setLastSessionSummary] = useState<SessionSummary | null>(null)
+  const [recoveryBusy, setRecoveryBusy] = useState(false)
 
-  const [calState, setCalState] = useState<CalibrationState>({
-    isCalibrating: true,
-    isCalibrated: false,
-    progress: 0,
-    secondsRemaining: Math.ceil(CALIBRATION_DURATION_MS / 1000),
-    baseline: null,
-    samples: 0,
-    targetSamples: TARGET_SAMPLES,
-    message: undefined
-  })
-
-  const calibratorRef = useRef(createCalibrator({ durationMs: CALIBRATION_DURATION_MS }))
-  const smootherRef = useRef(
-    createMetricsSmoother(
-      { focus: 50, stress: 20, fatigue: 20, distraction: 50 },
-      { ...defaultSmoothingConfig, alpha: 0.18, maxDeltaPerTick: 8 }
-    )
-  )
-  const cognitiveCalculatorRef = useRef(createCognitiveCalculator(null))
-  const lastDetectionAtRef = useRef(0)
-  const nudgeCooldownRef = useRef(0)
-  const lowFocusSinceRef = useRef<number | null>(null)
-  const lastSoundAtRef = useRef(0)
-  const lastBackgroundBroadcastAtRef = useRef(0)
-  const breakNudgeSentRef = useRef(false)
-  const calibrationFinalizedRef = useRef(false)
-  const warmFilterActiveRef = useRef(false)
-
-
-  useEffect(() => {
-    const stored = localStorage.getItem("synapse_sound_enabled")
-    if (stored === "1") setSoundEnabled(true)
-  }, [])
+  const data = snapshot?.data ?? null
+  const metrics = snapshot?.metrics ?? { focus: 50, stress: 20, fatigue: 20, distraction: 50 }
+  const calState = snapshot?.calibration ?? null
+  const soundEnabled = snapshot?.soundEnabled ?? false
 
-  const playBeep = () => {
-    const now = Date.now()
-    if (now - lastSoundAtRef.current < 3000) return
-    lastSoundAtRef.current = now
-
-    try {
-      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)()
-      const osc = ctx.createOscillator()
-      const gain = ctx.createGain()
-      osc.type = "sine"
-      osc.frequency.value = 880
-      gain.gain.value = 0.05
-      osc.connect(gain)
-      gain.connect(ctx.destination)
-      osc.start()
-      osc.stop(ctx.currentTime + 0.2)
-      osc.onended = () => ctx.close()
-    } catch {
-      // ignore audio errors
-    }
+  const startCalibration = () => {
+    void send({ type: "start_calibration" })
   }
 
-  const clearNudge = (id?: string) => {
-    setNudge((prev) => {
-      if (!prev) return null
-      if (!id || prev.id === id) return null
-      return prev
-    })
+  const openDashboard = () => {
+    const url = chrome.runtime.getURL("sidepanel.html?view=dashboard")
+    chrome.tabs.create({ url })
   }
 
-  const pushNudge = (
-    id: string,
-    type: 'info' | 'warn' | 'danger',
-    textMsg: string,
-    withSound: boolean = false
-  ) => {
-    const now = Date.now()
-    if (now - nudgeCooldownRef.current < NUDGE_COOLDOWN_MS) return
-    nudgeCooldownRef.current = now
-    setNudge({ id, type, text: textMsg })
-    if (soundEnabled && withSound) playBeep()
+  const openSettings = () => {
+    const url = chrome.runtime.getURL("sidepanel.html?view=settings")
+    chrome.tabs.create({ url })
   }
 
-  const startCalibration = () => {
-    calibrationFinalizedRef.current = false
-    calibratorRef.current = createCalibrator({ durationMs: CALIBRATION_DURATION_MS })
-    setCalState({
-      isCalibrating: true,
-      isCalibrated: false,
-      progress: 0,
-      secondsRemaining: Math.ceil(CALIBRATION_DURATION_MS / 1000),
-      baseline: null,
-      samples: 0,
-      targetSamples: TARGET_SAMPLES,
-      message: undefined
-    })
+  const toggleSound = () => {
+    void send({ type: "set_sound", enabled: !soundEnabled })
   }
 
-  const finalizeCalibration = () => {
-    if (calibrationFinalizedRef.current || calibratorRef.current.isDone()) return
-    calibrationFinalizedRef.current = true
-    calibratorRef.current.finish()
-    const baseline = calibratorRef.current.buildBaseline()
-    
-    // Actualizar el calculador cognitivo con el nuevo baseline
-    if (baseline) {
-      cognitiveCalculatorRef.current.updateBaseline(baseline)
-      console.log('🎯 Umbrales adaptativos actualizados:', cognitiveCalculatorRef.current.getThresholds())
-    }
-    
-    setCalState((prev) => ({
-      ...prev,
-      isCalibrating: false,
-      isCalibrated: true,
-      progress: 1,
-      secondsRemaining: 0,
-      baseline
-    }))
+  const handleLogout = async () => {
+    await signOut()
   }
 
-  useEffect(() => {
-    if (!isAuthenticated) return
-    const id = window.setInterval(() => {
-      if (lastDetectionAtRef.current == 0) return
-      const since = Date.now() - lastDetectionAtRef.current
-      if (since > NO_FACE_MS) {
-        pushNudge('no-face', 'warn', 'No te veo en la camara. Vuelve al encuadre para continuar el analisis.')
-        setAttentionStatus({
-          label: "Sin rostro",
-          color: "#fbbf24",
-          bg: "rgba(251, 191, 36, 0.12)"
-        })
-        // Subir fatiga gradualmente sin cara (posible somnolencia)
-        setFatigueLevel(prev => Math.min(100, prev + 2))
-        setDistractionLevel(prev => Math.min(100, prev + 1))
-        setFocusScore(prev => Math.max(0, prev - 1))
-      } else {
-        clearNudge('no-face')
-      }
-    }, 1000)
-    return () => window.clearInterval(id)
-  }, [isAuthenticated])
-
-  useEffect(() => {
-    if (!calState.isCalibrating || !isAuthenticated) return
-    const id = window.setInterval(() => {
-      const { progress, secondsRemaining, timeElapsed } = calibratorRef.current.getProgress()
-      const samples = calibratorRef.current.getSamples()
-      setCalState((prev) => {
-        if (!prev.isCalibrating) return prev
-        let message = prev.message
-        if (timeElapsed && samples < FALLBACK_MIN_SAMPLES) {
-          message = "Pocas detecciones. Mejora iluminación."
-        } else {
-          message = undefined
-        }
-        return { ...prev, progress, secondsRemaining, samples, message }
-      })
-    }, 200)
-    return () => window.clearInterval(id)
-  }, [calState.isCalibrating, isAuthenticated])
-
-  const handleDetection = (detectedData: DetectionData) => {
-    lastDetectionAtRef.current = Date.now()
-    clearNudge('no-face')
-    setData(detectedData)
-    if (calState.isCalibrating && !calState.isCalibrated) {
-      calibratorRef.current.addSample(detectedData)
-      const samples = calibratorRef.current.getSamples()
-      const { timeElapsed } = calibratorRef.current.getProgress()
-      if (!calibratorRef.current.isDone() && (samples >= TARGET_SAMPLES || (timeElapsed && samples >= FALLBACK_MIN_SAMPLES))) {
-        finalizeCalibration()
-      }
-    }
-
-    // NUEVO: Usar el sistema científico de cálculo cognitivo
-    const cognitiveMetrics = cognitiveCalculatorRef.current.calculate(detectedData)
-    const attention = cognitiveMetrics.attention
-    if (attention.classification === "uncertain") {
-      setAttentionStatus({
-        label: "Ajustando",
-        color: "#fbbf24",
-        bg: "rgba(251, 191, 36, 0.12)"
-      })
-    } else if (attention.phoneLooking) {
-      setAttentionStatus({
-        label: "Celular",
-        color: "#fbbf24",
-        bg: "rgba(251, 191, 36, 0.12)"
-      })
-    } else if (!attention.onScreen) {
-      setAttentionStatus({
-        label: "Fuera",
-        color: "#f87171",
-        bg: "rgba(239, 68, 68, 0.12)"
-      })
-    } else {
-      setAttentionStatus({
-        label: "En pantalla",
-        color: "#4ade80",
-        bg: "rgba(34, 197, 94, 0.12)"
-      })
-    }
-    if (cognitiveMetrics.alerts.highStress) {
-      pushNudge(
-        'stress',
-        'danger',
-        'Estres alto detectado. Respira profundo 1-2 minutos y vuelve cuando te sientas mejor.',
-        true
-      )
-    }
-    // Nudge por celular detectado como objeto en cámara (COCO-SSD)
-    if (detectedData.phoneInFrame) {
-      pushNudge(
-        'phone-camera',
-        'warn',
-        'Se detecto un celular en camara. Guardalo para mantener tu enfoque.',
-        true
-      )
-    } else {
-      clearNudge('phone-camera')
-    }
-
-    // Nudge por postura de celular (pitch + gaze)
-    if (attention.phoneLooking && !detectedData.phoneInFrame) {
-      pushNudge(
-        'phone',
-        'warn',
-        'Parece que miras el celular. Si puedes, regresa tu mirada a la pantalla.',
-        true
-      )
-    } else {
-      clearNudge('phone')
-    }
-
-    if (attention.classification !== "uncertain" && !attention.onScreen && attention.offScreenMs > OFFSCREEN_NUDGE_MS) {
-      pushNudge('offscreen', 'info', 'Llevas un rato sin mirar la pantalla. Vuelve para retomar el enfoque.', true)
-    } else if (attention.onScreen || attention.classification === "uncertain") {
-      clearNudge('offscreen')
-    }
-    
-    // Aplicar smoothing a las 4 métricas
-    const raw: Metrics = {
-      focus: cognitiveMetrics.focus,
-      stress: cognitiveMetrics.stress,
-      fatigue: cognitiveMetrics.fatigue,
-      distraction: cognitiveMetrics.distraction
-    }
-
-    const { smoothed, levels: lv } = smootherRef.current.update(raw)
-    setFocusScore(smoothed.focus)
-    setStressLevel(smoothed.stress)
-    setFatigueLevel(smoothed.fatigue)
-    setDistractionLevel(smoothed.distraction)
-    setLevels(lv)
-    setCurrentConfidence(cognitiveMetrics.confidence)
-
-    // Filtro de luz cálida solo cuando fatiga >= 50
-    const shouldWarm = smoothed.fatigue >= 50
-    if (shouldWarm !== warmFilterActiveRef.current) {
-      warmFilterActiveRef.current = shouldWarm
-      chrome.runtime.sendMessage({ type: "WARM_FILTER", enabled: shouldWarm }).catch(() => {})
-    }
-
-    if (attention.classification === "uncertain") {
-      lowFocusSinceRef.current = null
-    } else if (smoothed.focus < LOW_FOCUS_THRESHOLD) {
-      if (!lowFocusSinceRef.current) lowFocusSinceRef.current = Date.now()
-      const lowFor = Date.now() - (lowFocusSinceRef.current || Date.now())
-      if (lowFor > LOW_FOCUS_MS) {
-        pushNudge('low-focus', 'info', 'Parece que tu foco bajo. Un pequeno ajuste y sigues avanzando.')
-      }
-    } else if (smoothed.focus >= RECOVERY_FOCUS_THRESHOLD) {
-      lowFocusSinceRef.current = null
-    }
-
-    // Nudge de descanso a los 40 minutos de sesión activa
-    const sessionStatus = sessionManager.getSessionStatus()
-    if (sessionStatus && sessionStatus.elapsedSeconds >= SESSION_BREAK_NUDGE_MS / 1000 && !breakNudgeSentRef.current) {
-      breakNudgeSentRef.current = true
-      pushNudge(
-        'session-break',
-        'warn',
-        'Llevas mas de 40 minutos en sesion. Te sugerimos tomar un descanso de 5-10 minutos para cuidar tu bienestar.',
-        true
-      )
-    }
-
-    // Nudge por microsueño detectado (ojos cerrados >1.5s)
-    if (cognitiveMetrics.alerts.microsleep) {
-      pushNudge(
-        'microsleep',
-        'danger',
-        'Microsueño detectado. Tus ojos llevan cerrados mucho tiempo. Por favor toma un descanso ahora.',
-        true
-      )
-    }
-
-    // Nudge cuando fatiga alcanza el umbral del filtro
-    if (smoothed.fatigue >= FATIGUE_FILTER_THRESHOLD) {
-      pushNudge(
-        'high-fatigue',
-        'warn',
-        'Fatiga alta detectada. Te recomendamos tomar un descanso de 5-10 minutos para cuidar tu bienestar.',
-        true
-      )
-    } else {
-      clearNudge('high-fatigue')
-    }
-
-    const exprAny = detectedData.expressions as any
-    const emotion = Object.keys(exprAny).reduce((a, b) => (exprAny[a] > exprAny[b] ? a : b))
-    
-    const now = Date.now()
-    if (now - lastBackgroundBroadcastAtRef.current >= BACKGROUND_BROADCAST_INTERVAL_MS) {
-      lastBackgroundBroadcastAtRef.current = now
-      chrome.runtime.sendMessage({
-        type: "UPDATE_FOCUS_DATA",
-        data: {
-          ...detectedData,
-          emotion,
-          focusScore: smoothed.focus,
-          stressLevel: smoothed.stress,
-          fatigueLevel: smoothed.fatigue,
-          distractionLevel: smoothed.distraction,
-          levels: lv,
-          // Agregar métricas científicas adicionales
-          cognitiveState: cognitiveMetrics.dominantState,
-          confidence: cognitiveMetrics.confidence,
-          alerts: cognitiveMetrics.alerts
-        }
-      })
-    }
+  const showSummary = (summary: SessionSummary) => {
+    setLastSessionSummary(summary)
+    setShowSummaryModal(true)
   }
 
-  const openDashboard = () => {
-    const url = chrome.runtime.getURL("sidepanel.html?view=dashboard")
-    chrome.tabs.create({ url })
+  const handleStartSession = async () => {
+    const result = await send({ type: "start_session" })
+    if (!result.ok) console.error("❌ Error al iniciar sesión:", result.error)
+    return result.ok
   }
 
-  const toggleSound = () => {
-    const next = !soundEnabled
-    setSoundEnabled(next)
-    localStorage.setItem("synapse_sound_enabled", next ? "1" : "0")
-    if (next) playBeep()
+  const handleEndSession = async () => {
+    const result = await send({ type: "end_session" })
+    if (!result.ok) {
+      console.error("❌ Error al finalizar sesión:", result.error)
+      return false
+    }
+    if (result.summary) showSummary(result.summary)
+    return true
   }
 
-  const handleLogout = async () => {
-    await signOut()
-    startCalibration()
+  const handleTogglePause = (paused: boolean) => {
+    void send({ type: paused ? "pause_session" : "resume_session" })
   }
 
-  const handleAuthSuccess = () => {
-    startCalibration()
+  const handleCloseSummary = () => {
+    setShowSummaryModal(false)
   }
 
-  const handleSessionEnd = (summary: SessionSummary) => {
-    breakNudgeSentRef.current = false
-    clearNudge('session-break')
-    clearNudge('high-fatigue')
-    setLastSessionSummary(summary)
-    setShowSummaryModal(true)
+  const handleRecovery = async (action: RecoveryAction) => {
+    setRecoveryBusy(true)
+    try {
+      const result = await send({ type: "recover_session", action })
+      if (!result.ok) throw new Error(result.error)
+      if (result.summary) showSummary(result.summary)
+    } catch (err) {
+      console.error("❌ Error recuperando sesión:", err)
+      alert("No se pudo recuperar la sesión.")
+    } finally {
+      setRecoveryBusy(false)
+    }
   }
 
-  const handleCloseSummary = () => {
-    setShowSummaryModal(false)
+  // El panel ya tiene la cámara: si el monitor falló por permisos, que reintente
+  const handlePreviewReady = () => {
+    void send({ type: "retry_camera" })
   }
 
-  const isDashboardView = new URLSearchParams(window.location.search).get("view") === "dashboard"
-  if (isDashboardView) {
+  const view = new URLSearchParams(window.location.search).get("view")
+  if (view === "dashboard") {
     return <SessionsDashboard />
   }
+  if (view === "settings") {
+    return <SettingsView />
+  }
 
   if (authLoading) {
     return (
@@ -458,7 +148,8 @@ const SidePanel = () => {
     return (
       <div className="sidepanel-container">
         <div style={{ flex: 1, display: "flex", alignItems: "center", justifyContent: "center", padding: "20px" }}>
-          <AuthForm onAuthSuccess={handleAuthSuccess} />
+          {/* Al autenticar arranca el monitor: usa el perfil de calibración del entorno o calibra */}
+          <AuthForm />
         </div>
       </div>
     )
@@ -471,58 +162,72 @@ const SidePanel = () => {
         soundEnabled={soundEnabled}
         onToggleSound={toggleSound}
         onOpenDashboard={openDashboard}
+        onOpenSettings={openSettings}
         onLogout={handleLogout}
       />
 
       {/* CONTENT */}
       <div className="sidepanel-content">
-        <CalibrationBanner calState={calState} onStartCalibration={startCalibration} />
-        <NudgeBanner nudge={nudge} />
+        {snapshot?.pendingRecovery && (
+          <RecoveryBanner
+            checkpoint={snapshot.pendingRecovery}
+            busy={recoveryBusy}
+            onResume={() => void handleRecovery("resume")}
+            onFinalize={() => void handleRecovery("finalize")}
+            onDiscard={() => void handleRecovery("discard")}
+          />
+        )}
+        {calState && <CalibrationBanner calState={calState} onStartCalibration={startCalibration} />}
+        {calState?.isCalibrated && snapshot?.calibrationProfiles && (
+          <CalibrationProfilesPanel
+            status={snapshot.calibrationProfiles}
+            gazeModel={calState.baseline?.gazeModel ?? null}
+            onRecalibrate={startCalibration}
+            send={send}
+          />
+        )}
+        {calState?.isCalibrated && snapshot?.baselineDrift && <BaselineDriftIndicator drift={snapshot.baselineDrift} />}
+        <NudgeBanner nudge={snapshot?.nudge ?? null} />
 
         {/* CONTROL DE SESIONES */}
-        {calState.isCalibrated && (
+        {(calState?.isCalibrated || snapshot?.session) && (
           <SessionControl
-            onSessionEnd={handleSessionEnd}
-            currentMetrics={data ? {
-              focus: focusScore,
-              stress: stressLevel,
-              fatigue: fatigueLevel,
-              distraction: distractionLevel,
-              dominantState: levels.focus === "Alto" ? "focus" :
-                            levels.stress === "Alto" ? "stress" :
-                            levels.fatigue === "Alto" ? "fatigue" :
-                            levels.distraction === "Alto" ? "distraction" : "neutral",
-              confidence: currentConfidence
-            } : null}
+            status={snapshot?.session ?? null}
+            onStart={handleStartSession}
+            onEnd={handleEndSession}
+            onTogglePause={handleTogglePause}
+            currentMetrics={data ? metrics : null}
           />
         )}
 
-        <AttentionBadge status={attentionStatus} />
+        <AttentionBadge status={snapshot?.attention ?? DEFAULT_ATTENTION} />
+        <LabelingPanel status={snapshot?.recording ?? null} send={send} />
 
         {/* CÁMARA */}
         <div style={{ marginBottom: 18 }}>
-          <CameraFeed 
-            onDetection={handleDetection} 
-            preview 
-            previewWidth={368} 
-            previewHeight={240} 
+          <CameraPreview
+            status={snapshot?.camera ?? null}
+            width={368}
+            height={240}
+            onCameraReady={handlePreviewReady}
+            onRetryMonitorCamera={() => void send({ type: "retry_camera" })}
           />
         </div>
 
         {/* DASHBOARD */}
         <Dashboard
           data={data}
-          focusScore={focusScore}
-          stressLevel={stressLevel}
-          fatigueLevel={fatigueLevel}
-          distractionLevel={distractionLevel}
+          focusScore={metrics.focus}
+          stressLevel={metrics.stress}
+          fatigueLevel={metrics.fatigue}
+          distractionLevel={metrics.distraction}
         />
       </div>
 
       {/* FOOTER */}
       <div className="sidepanel-footer">
         <p style={{ fontSize: 10, color: "#64748b", display: "flex", alignItems: "center", justifyContent: "center", gap: 6 }}>
-          {calState.isCalibrated ? "✅" : "⏳"} Análisis en tiempo real • Privacidad garantizada
+          {calState?.isCalibrated ? "✅" : "⏳"} Análisis en tiempo real • Privacidad garantizada
         </p>
       </div>
 
@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from "react"
+import { useMonitor } from "~hooks/useMonitor"
+import { GAZE_CALIBRATION_POINTS, type GazeAccuracy } from "~lib/vision/gazeMapping"
+
+/**
+ * Calibración de mirada multipunto: muestra 5 o 9 puntos en pantalla completa y
+ * le avisa al monitor cuál está visible. El monitor junta las muestras, ajusta
+ * el modelo y lo guarda en el perfil de calibración activo.
+ */
+
+// Cada punto queda visible este tiempo (el monitor descarta los primeros ~700 ms)
+const POINT_MS = 2300
+
+type Phase = "intro" | "running" | "done" | "error"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`
+
+const buttonStyle = (primary: boolean): React.CSSProperties => ({
+  padding: "10px 18px",
+  borderRadius: 10,
+  border: primary ? "1px solid rgba(96, 165, 250, 0.5)" : "1px solid rgba(255,255,255,0.15)",
+  background: primary ? "rgba(96, 165, 250, 0.2)" : "transparent",
+  color: primary ? "#93c5fd" : "#cbd5e1",
+  fontSize: 14,
+  fontWeight: 700,
+  cursor: "pointer"
+})
+
+const GazeCalibrationPage = () => {
+  const { snapshot, send } = useMonitor()
+  const [points, setPoints] = useState<5 | 9>(9)
+  const [phase, setPhase] = useState<Phase>("intro")
+  const [current, setCurrent] = useState<number | null>(null)
+  const [accuracy, setAccuracy] = useState<GazeAccuracy | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const cancelledRef = useRef(false)
+
+  // Cerrar la pestaña a mitad de camino no deja la calibración colgada
+  useEffect(() => {
+    const cancel = () => void send({ type: "cancel_gaze_calibration" })
+    window.addEventListener("beforeunload", cancel)
+    return () => window.removeEventListener("beforeunload", cancel)
+  }, [send])
+
+  const fail = async (message: string) => {
+    if (document.fullscreenElement) await document.exitFullscreen().catch(() => undefined)
+    setCurrent(null)
+    setError(message)
+    setPhase("error")
+  }
+
+  const run = async () => {
+    cancelledRef.current = false
+    setError(null)
+    setAccuracy(null)
+    await document.documentElement.requestFullscreen().catch(() => undefined)
+
+    const started = await send({ type: "start_gaze_calibration", points })
+    if (!started.ok) return fail(started.error ?? "No se pudo iniciar la calibración")
+    setPhase("running")
+
+    for (let i = 0; i < points; i++) {
+      if (cancelledRef.current) return
+      setCurrent(i)
+      await send({ type: "gaze_calibration_point", point: i })
+      await wait(POINT_MS)
+    }
+    await send({ type: "gaze_calibration_point", point: null })
+    setCurrent(null)
+
+    const result = await send({ type: "finish_gaze_calibration" })
+    if (document.fullscreenElement) await document.exitFullscreen().catch(() => undefined)
+    if (!result.ok) return fail(result.error ?? "No se pudo ajustar el modelo de mirada")
+    setAccuracy(result.snapshot?.calibration.baseline?.gazeModel?.accuracy ?? null)
+    setPhase("done")
+  }
+
+  const cancel = async () => {
+    cancelledRef.current = true
+    await send({ type: "cancel_gaze_calibration" })
+    await fail("Calibración cancelada")
+  }
+
+  useEffect(() => {
+    if (phase !== "running") return
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && void cancel()
+    window.addEventListener("keydown", onKey)
+    return () => window.removeEventListener("keydown", onKey)
+  })
+
+  const target = current !== null ? GAZE_CALIBRATION_POINTS[points][current] : null
+  const samplesHere = current !== null ? (snapshot?.gazeCalibration?.samples[current] ?? 0) : 0
+  const calibrated = snapshot?.calibration.isCalibrated ?? false
+  const screenPx = (window.screen.width + window.screen.height) / 2
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "#020617",
+        color: "white",
+        fontFamily: "system-ui, sans-serif",
+        cursor: phase === "running" ? "none" : "default"
+      }}
+    >
+      {phase === "running" && target && (
+        <div
+          key={current}
+          style={{
+            position: "absolute",
+            left: `calc(${target.x * 100}% - 14px)`,
+            top: `calc(${target.y * 100}% - 14px)`,
+            width: 28,
+            height: 28,
+            borderRadius: 999,
+            border: "2px solid #60a5fa",
+            display: "grid",
+            placeItems: "center"
+          }}
+        >
+          <div style={{ width: 8, height: 8, borderRadius: 999, background: "#60a5fa" }} />
+          <span style={{ position: "absolute", top: 34, fontSize: 11, color: "#475569", whiteSpace: "nowrap" }}>
+            {samplesHere} muestras
+          </span>
+        </div>
+      )}
+
+      {phase !== "running" && (
+        <div style={{ maxWidth: 480, margin: "12vh auto 0", padding: 24, lineHeight: 1.5 }}>
+          <h1 style={{ fontSize: 22, fontWeight: 800, marginBottom: 12 }}>Calibración de mirada</h1>
+
+          {phase === "intro" && (
+            <>
+              <p style={{ color: "#cbd5e1", marginBottom: 16 }}>
+                Aparecerán {points} puntos, uno por vez. Sigue cada punto con la mirada, con la cabeza en tu postura
+                habitual. Se usa para saber hacia dónde de la pantalla miras. Esc cancela.
+              </p>
+              {!calibrated && (
+                <p style={{ color: "#fbbf24", marginBottom: 16 }}>Primero completa la calibración desde el panel.</p>
+              )}
+              <div style={{ display: "flex", gap: 8, marginBottom: 20 }}>
+                {([5, 9] as const).map((n) => (
+                  <button key={n} onClick={() => setPoints(n)} style={buttonStyle(points === n)}>
+                    {n} puntos
+                  </button>
+                ))}
+              </div>
+              <button onClick={() => void run()} disabled={!calibrated} style={buttonStyle(true)}>
+                Empezar en pantalla completa
+              </button>
+            </>
+          )}
+
+          {phase === "done" && (
+            <>
+              <p style={{ color: "#4ade80", fontWeight: 700, marginBottom: 8 }}>Modelo de mirada guardado en el perfil.</p>
+              {accuracy && (
+                <p style={{ color: "#cbd5e1", marginBottom: 16 }}>
+                  Error esperado {pct(accuracy.crossValidatedError)} de la pantalla (≈
+                  {Math.round(accuracy.crossValidatedError * screenPx)} px). En los puntos: medio{" "}
+                  {pct(accuracy.meanError)}, máximo {pct(accuracy.maxError)}.
+                </p>
+              )}
+              <div style={{ display: "flex", gap: 8 }}>
+                <button onClick={() => window.close()} style={buttonStyle(true)}>
+                  Cerrar
+                </button>
+                <button onClick={() => setPhase("intro")} style={buttonStyle(false)}>
+                  Repetir
+                </button>
+              </div>
+            </>
+          )}
+
+          {phase === "error" && (
+            <>
+              <p style={{ color: "#f87171", marginBottom: 16 }}>{error}</p>
+              <button onClick={() => setPhase("intro")} style={buttonStyle(true)}>
+                Volver
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default GazeCalibrationPage
@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useState } from "react"
+import CameraFeed from "~components/CameraFeed"
+import { DEFAULT_SETTINGS, type ExtensionSettings } from "~lib/settings"
+import { resolveCaptureConstraints } from "~lib/cameraSettings"
+import { supabase } from "~lib/supabase"
+import { createMonitor } from "~lib/monitor/monitor"
+import { connectToBackground, loadSettings, watchAuth, watchScreenLock, watchSettings } from "~lib/monitor/relay"
+import { createDetectionGovernor } from "~lib/vision/detectionGovernor"
+import { createMessage } from "~lib/messaging/schema"
+import { listenForMessages } from "~lib/messaging/request"
+import { PORT_NAMES, createPortHub } from "~lib/messaging/ports"
+
+/**
+ * Documento offscreen: dueño de la cámara, el loop de detección y la sesión.
+ * No tiene UI visible; publica snapshots y atiende comandos de los suscriptores.
+ * Tampoco tiene chrome.storage: token, settings y checkpoints pasan por el
+ * service worker (monitor/relay.ts).
+ */
+
+connectToBackground()
+
+// El loop de detección mide y espacia frames; el monitor le avisa de cambios de estado
+const governor = createDetectionGovernor()
+const monitor = createMonitor({ governor })
+
+// Este documento nunca está visible: con la pantalla bloqueada nadie mira la cámara
+watchScreenLock((locked) => governor.setHidden(locked))
+
+// Snapshots solo hacia quien está suscrito (side panel / popup abiertos)
+const snapshotHub = createPortHub(PORT_NAMES.monitor, {
+  onSubscribe: (port) => port.postMessage(createMessage("MONITOR_SNAPSHOT", { snapshot: monitor.getSnapshot() }))
+})
+
+monitor.subscribe((snapshot) => {
+  if (snapshotHub.size() > 0) snapshotHub.broadcast(createMessage("MONITOR_SNAPSHOT", { snapshot }))
+})
+
+const OffscreenMonitor = () => {
+  const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [cameraKey, setCameraKey] = useState(0)
+  // Cámara elegida en ajustes: CameraFeed reabre el stream al cambiar, sin cortar la sesión
+  const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS)
+  const [loaded, setLoaded] = useState(false)
+  const capture = useMemo(() => resolveCaptureConstraints(settings.camera), [settings.camera])
+
+  // El login ocurre en el side panel; el service worker avisa cuando cambia el token
+  useEffect(() => {
+    const refreshAuth = () => {
+      supabase.auth
+        .getSession()
+        .then(({ data }) => setIsAuthenticated(Boolean(data.session?.user)))
+        .catch(() => setIsAuthenticated(false))
+    }
+
+    refreshAuth()
+    return watchAuth(refreshAuth)
+  }, [])
+
+  useEffect(() => {
+    let isActive = true
+    void loadSettings().then((value) => {
+      if (!isActive) return
+      setSettings(value)
+      setLoaded(true)
+    })
+    const unwatch = watchSettings((value) => {
+      if (isActive) setSettings(value)
+    })
+    return () => {
+      isActive = false
+      unwatch()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      monitor.start()
+    } else {
+      monitor.stop()
+    }
+  }, [isAuthenticated])
+
+  useEffect(
+    () =>
+      listenForMessages({
+        MONITOR_COMMAND: ({ command }) => {
+          // Solo se reinicia la cámara si falló; si ya está corriendo no hay nada que hacer
+          if (command.type === "retry_camera" && monitor.getSnapshot().camera.state === "error") {
+            setCameraKey((k) => k + 1)
+          }
+          return monitor.runCommand(command)
+        }
+      }),
+    []
+  )
+
+  if (!isAuthenticated || !loaded) return null
+
+  return (
+    <CameraFeed
+      key={cameraKey}
+      onDetection={monitor.handleDetection}
+      onStatusChange={monitor.setCameraStatus}
+      capture={capture}
+      governor={governor}
+      visionProvider={settings.visionProvider}
+      distractionObjects={settings.distractionObjects}
+      eyeProfile={settings.eyeProfile}
+      preview={false}
+    />
+  )
+}
+
+export default OffscreenMonitor